@@ -0,0 +1,133 @@
+import { FTPServer } from '../ftp-server';
+import { DatabaseManager } from '../database';
+import { getActiveModeRefusal, parseActiveAddress, parseActiveModeSettings } from '../active-mode';
+import { Listener, ServerActivity } from '../types';
+import * as basicFtp from 'basic-ftp';
+import * as net from 'net';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+const listener = (overrides: Partial<Listener> = {}): Listener => ({
+  name: 'FTP', protocol: 'FTP', bindingIp: '0.0.0.0', port: 21, enabled: true, ...overrides
+});
+
+describe('Active mode', () => {
+  describe('Commands', () => {
+    test('should parse PORT and EPRT addresses', () => {
+      expect(parseActiveAddress('PORT', '127,000,0,1,7,208')).toEqual({ host: '127.0.0.1', port: 2000 });
+      expect(parseActiveAddress('EPRT', '|2|::1|2000|')).toEqual({ host: '::1', port: 2000 });
+      expect(parseActiveAddress('EPRT', '!1!192.0.2.1!2000!')).toEqual({ host: '192.0.2.1', port: 2000 });
+
+      expect(parseActiveAddress('PORT', '127,0,0,1,7')).toBeNull();
+      expect(parseActiveAddress('PORT', '127,0,0,256,7,208')).toBeNull();
+      expect(parseActiveAddress('EPRT', '|1|::1|2000|')).toBeNull();
+      expect(parseActiveAddress('EPRT', '|3|127.0.0.1|2000|')).toBeNull();
+      expect(parseActiveAddress('EPRT', '|1|127.0.0.1|70000|')).toBeNull();
+    });
+
+    test('should only connect to unprivileged ports of the client', () => {
+      expect(getActiveModeRefusal(listener(), 'PORT', '127,0,0,1,7,208', '::ffff:127.0.0.1')).toBeNull();
+      expect(getActiveModeRefusal(listener(), 'EPRT', '|2|::1|2000|', '::1')).toBeNull();
+      expect(getActiveModeRefusal(listener(), 'PASV', '', '127.0.0.1')).toBeNull();
+
+      expect(getActiveModeRefusal(listener(), 'PORT', '192,0,2,25,0,25', '127.0.0.1')).toBe('foreign-address');
+      expect(getActiveModeRefusal(listener(), 'EPRT', '|1|127.0.0.1|25|', '127.0.0.1')).toBe('privileged-port');
+      expect(getActiveModeRefusal(listener(), 'PORT', 'garbage', '127.0.0.1')).toBe('invalid');
+      expect(getActiveModeRefusal(listener({ allowActiveMode: false }), 'EPRT', '|1|127.0.0.1|2000|', '127.0.0.1')).toBe('disabled');
+    });
+
+    test('should validate active mode settings', () => {
+      expect(parseActiveModeSettings({})).toEqual({});
+      expect(parseActiveModeSettings({ allowActiveMode: false })).toEqual({ allowActiveMode: false });
+    });
+  });
+
+  describe('Server', () => {
+    let db: DatabaseManager;
+    let testDir: string;
+    let server: FTPServer;
+    let listenerId: number;
+    let activities: ServerActivity[];
+    let dataServer: net.Server;
+    const PORT = 22266;
+    const DATA_PORT = 22267;
+    const PORT_ARG = `127,0,0,1,${Math.floor(DATA_PORT / 256)},${DATA_PORT % 256}`;
+
+    const refusals = () => activities.filter(activity => activity.action.startsWith('ACTIVE_MODE_DENIED'));
+
+    const connect = async (): Promise<basicFtp.Client> => {
+      const client = new basicFtp.Client(10000);
+      await client.access({ host: '127.0.0.1', port: PORT, user: 'activeuser', password: 'active-password' });
+      return client;
+    };
+
+    beforeAll(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'active-test-'));
+      db = new DatabaseManager(path.join(testDir, 'test.db'));
+      await db.init();
+
+      const userId = db.createUser({ username: 'activeuser', password: 'active-password', passwordEnabled: true, guiEnabled: false });
+      db.addVirtualPath({ userId, virtualPath: '/', localPath: testDir });
+      listenerId = db.createListener({ name: 'Active FTP', protocol: 'FTP', bindingIp: '127.0.0.1', port: PORT, enabled: true });
+      db.subscribeUserToListener(userId, listenerId);
+
+      // Where active data connections of the client would arrive
+      dataServer = net.createServer(socket => socket.destroy());
+      await new Promise<void>(resolve => dataServer.listen(DATA_PORT, '127.0.0.1', resolve));
+
+      server = new FTPServer(db.getListener(listenerId)!, db);
+      server.on('activity', (activity: ServerActivity) => activities.push(activity));
+      await server.start();
+    });
+
+    beforeEach(() => {
+      activities = [];
+    });
+
+    afterAll(async () => {
+      await server.stop();
+      await new Promise(resolve => dataServer.close(resolve));
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      db.close();
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    test('should store active mode as allowed by default', () => {
+      expect(db.getListener(listenerId)).toMatchObject({ allowActiveMode: true });
+    });
+
+    test('should accept data connections to the client only', async () => {
+      const client = await connect();
+      try {
+        expect((await client.send(`PORT ${PORT_ARG}`)).code).toBe(200);
+        await expect(client.send('PORT 192,0,2,25,0,25')).rejects.toThrow('500 Data connections are only made to your own address');
+        await expect(client.send('EPRT |1|127.0.0.1|25|')).rejects.toThrow('500 Data connections are only made to ports from 1024');
+        expect(refusals().map(activity => activity.action)).toEqual([
+          expect.stringMatching(/^ACTIVE_MODE_DENIED \(Foreign address: PORT 192,0,2,25,0,25\) \[127\.0\.0\.1:\d+\]$/),
+          expect.stringMatching(/^ACTIVE_MODE_DENIED \(Privileged port: EPRT \|1\|127\.0\.0\.1\|25\|\)/)
+        ]);
+        expect(refusals()[0]).toMatchObject({ listenerId, username: 'activeuser', success: false });
+      } finally {
+        client.close();
+      }
+    });
+
+    test('should refuse active mode when it is disabled', async () => {
+      db.updateListener(listenerId, { allowActiveMode: false });
+      const client = await connect();
+      try {
+        await expect(client.send(`PORT ${PORT_ARG}`)).rejects.toThrow('502 Active mode is disabled');
+        await expect(client.send(`EPRT |1|127.0.0.1|${DATA_PORT}|`)).rejects.toThrow('502');
+        expect((await client.send('PASV')).code).toBe(227);
+        expect(refusals().map(activity => activity.action)).toEqual([
+          expect.stringContaining('ACTIVE_MODE_DENIED (Active mode disabled: PORT'),
+          expect.stringContaining('ACTIVE_MODE_DENIED (Active mode disabled: EPRT')
+        ]);
+      } finally {
+        client.close();
+        db.updateListener(listenerId, { allowActiveMode: true });
+      }
+    });
+  });
+});
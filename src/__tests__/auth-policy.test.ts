@@ -0,0 +1,179 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import { getMissingFactors, isFactorAllowed } from '../auth-policy';
+import { parseAuthorizedKey } from '../user-keys';
+import { AuthPolicy } from '../types';
+import { Client } from 'ssh2';
+import * as ssh2 from 'ssh2';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('SSH Authentication Policy', () => {
+  let db: DatabaseManager;
+  let sftpServer: SFTPServer;
+  let testDir: string;
+  let dbPath: string;
+  let listenerId: number;
+  const TEST_PORT = 22237;
+  const PASSWORD = 'secret-password';
+  const keyPair = ssh2.utils.generateKeyPairSync('ed25519');
+
+  interface LoginResult {
+    ok: boolean;
+    // Methods the server still asked for after each partial success
+    partials: string[][];
+  }
+
+  // Try the methods in order, continuing after partial success like OpenSSH does
+  const tryLogin = (username: string, methods: string[], password: string = PASSWORD): Promise<LoginResult> => {
+    return new Promise((resolve, reject) => {
+      const partials: string[][] = [];
+      let next = 0;
+      const conn = new Client();
+      conn.on('ready', () => {
+        conn.on('close', () => resolve({ ok: true, partials }));
+        conn.end();
+      });
+      conn.on('error', (err: any) => {
+        if (err.level === 'client-authentication') resolve({ ok: false, partials });
+        else reject(err);
+      });
+      conn.connect({
+        host: '127.0.0.1',
+        port: TEST_PORT,
+        username,
+        password,
+        privateKey: keyPair.private,
+        authHandler: (methodsLeft: string[], partialSuccess: boolean) => {
+          if (partialSuccess) partials.push(methodsLeft);
+          return next < methods.length ? methods[next++] as any : false;
+        }
+      });
+    });
+  };
+
+  const withActivities = async (fn: () => Promise<void>): Promise<string[]> => {
+    const actions: string[] = [];
+    const onActivity = (activity: { action: string }) => actions.push(activity.action);
+    sftpServer.on('activity', onActivity);
+    try {
+      await fn();
+    } finally {
+      sftpServer.off('activity', onActivity);
+    }
+    return actions;
+  };
+
+  const createUser = (username: string, authPolicy: AuthPolicy): void => {
+    const userId = db.createUser({ username, password: PASSWORD, passwordEnabled: true, guiEnabled: false, authPolicy });
+    db.addUserKey({ userId, label: 'laptop', ...parseAuthorizedKey(keyPair.public) });
+    db.subscribeUserToListener(userId, listenerId);
+    db.addVirtualPath({ userId, virtualPath: '/', localPath: testDir });
+  };
+
+  beforeAll(async () => {
+    testDir = path.join(os.tmpdir(), `auth-policy-test-${Date.now()}`);
+    fs.mkdirSync(testDir, { recursive: true });
+    dbPath = path.join(testDir, 'test.db');
+
+    db = new DatabaseManager(dbPath);
+    await db.init();
+
+    listenerId = db.createListener({
+      name: 'Policy SFTP',
+      protocol: 'SFTP',
+      bindingIp: '127.0.0.1',
+      port: TEST_PORT,
+      enabled: true
+    });
+
+    createUser('any', 'any');
+    createUser('password-only', 'password');
+    createUser('key-only', 'publickey');
+    createUser('admin', 'publickey+password');
+
+    sftpServer = new SFTPServer(db.getListener(listenerId)!, db);
+    await sftpServer.start();
+  }, 30000);
+
+  afterAll(async () => {
+    await sftpServer.stop();
+    await new Promise(resolve => setTimeout(resolve, 500));
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    db.updateListener(listenerId, { authPolicy: 'any' });
+  });
+
+  describe('Policy evaluation', () => {
+    test('should allow only the factors a policy names', () => {
+      expect(isFactorAllowed(['any', 'any'], 'password')).toBe(true);
+      expect(isFactorAllowed(['publickey', 'any'], 'password')).toBe(false);
+      expect(isFactorAllowed(['any', 'publickey+password'], 'password')).toBe(true);
+      expect(isFactorAllowed(['password', 'publickey'], 'publickey')).toBe(false);
+    });
+
+    test('should list the factors still missing', () => {
+      expect(getMissingFactors(['any', 'any'], ['password'])).toEqual([]);
+      expect(getMissingFactors(['publickey+password', 'any'], ['publickey'])).toEqual(['password']);
+      expect(getMissingFactors(['any', 'publickey+password'], ['password'])).toEqual(['publickey']);
+      expect(getMissingFactors(['publickey+password', 'any'], ['password', 'publickey'])).toEqual([]);
+    });
+  });
+
+  describe('SFTP authentication', () => {
+    test('should accept either method with the any policy', async () => {
+      expect((await tryLogin('any', ['password'])).ok).toBe(true);
+      expect((await tryLogin('any', ['publickey'])).ok).toBe(true);
+    });
+
+    test('should refuse keys for password-only users', async () => {
+      expect((await tryLogin('password-only', ['publickey'])).ok).toBe(false);
+      expect((await tryLogin('password-only', ['password'])).ok).toBe(true);
+    });
+
+    test('should refuse a correct password for key-only users', async () => {
+      const actions = await withActivities(async () => {
+        expect((await tryLogin('key-only', ['password'])).ok).toBe(false);
+      });
+      expect(actions.some(a => a.startsWith('LOGIN_FAILED (password not allowed by auth policy)'))).toBe(true);
+      expect((await tryLogin('key-only', ['publickey'])).ok).toBe(true);
+    });
+
+    test('should require both a key and a password', async () => {
+      expect((await tryLogin('admin', ['publickey'])).ok).toBe(false);
+      expect((await tryLogin('admin', ['password'])).ok).toBe(false);
+      expect((await tryLogin('admin', ['password', 'publickey'], 'wrong')).ok).toBe(false);
+    });
+
+    test('should complete the login with partial success', async () => {
+      let result: LoginResult | undefined;
+      const actions = await withActivities(async () => {
+        result = await tryLogin('admin', ['publickey', 'password']);
+      });
+
+      expect(result!.ok).toBe(true);
+      expect(result!.partials).toEqual([['password', 'keyboard-interactive']]);
+      expect(actions.some(a => a.startsWith('LOGIN_PARTIAL (publickey SHA256:'))).toBe(true);
+      expect(actions.some(a => /^LOGIN \(publickey SHA256:\S+ \+ password\)/.test(a))).toBe(true);
+    });
+
+    test('should accept the factors in either order', async () => {
+      const result = await tryLogin('admin', ['password', 'publickey']);
+      expect(result.ok).toBe(true);
+      expect(result.partials).toEqual([['publickey']]);
+    });
+
+    test('should apply the listener policy on top of the user policy', async () => {
+      db.updateListener(listenerId, { authPolicy: 'publickey+password' });
+
+      expect((await tryLogin('any', ['password'])).ok).toBe(false);
+      expect((await tryLogin('any', ['publickey', 'password'])).ok).toBe(true);
+      // The user's password-only policy and the listener's key requirement cannot both be met
+      expect((await tryLogin('password-only', ['publickey', 'password'])).ok).toBe(false);
+    });
+  });
+});
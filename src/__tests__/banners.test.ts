@@ -0,0 +1,208 @@
+import { SFTPServer } from '../sftp-server';
+import { FTPServer } from '../ftp-server';
+import { DatabaseManager } from '../database';
+import { MAX_BANNER_LENGTH, getBannerLines, parseBannerSettings, renderBanner } from '../banners';
+import { Client } from 'ssh2';
+import * as net from 'net';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('Login Banners', () => {
+  const variables = { username: 'alice', listenerName: 'Main', serverTime: '2026-01-02T03:04:05.000Z' };
+
+  describe('Templates', () => {
+    test('should fill in known variables only', () => {
+      expect(renderBanner('Hello {username} on {listenerName} at {serverTime}', variables))
+        .toBe('Hello alice on Main at 2026-01-02T03:04:05.000Z');
+      expect(renderBanner('Keep {braces} and {username}{username}', variables)).toBe('Keep {braces} and alicealice');
+    });
+
+    test('should normalize line endings and drop trailing blank lines', () => {
+      expect(renderBanner('one\r\ntwo\rthree\n\n\n', variables)).toBe('one\ntwo\nthree');
+      expect(getBannerLines('one\n\nthree\n', variables)).toEqual(['one', '', 'three']);
+      expect(getBannerLines('  \n', variables)).toEqual([]);
+    });
+
+    test('should validate banner settings', () => {
+      expect(parseBannerSettings({})).toEqual({});
+      expect(parseBannerSettings({ loginBanner: 'Notice for {listenerName}', motd: '' }))
+        .toEqual({ loginBanner: 'Notice for {listenerName}', motd: null });
+      expect(parseBannerSettings({ motd: '   ' })).toEqual({ motd: null });
+      expect(() => parseBannerSettings({ motd: 'Hi {user}' })).toThrow('unknown variable {user}');
+      expect(() => parseBannerSettings({ loginBanner: 42 })).toThrow('Invalid login banner');
+      expect(() => parseBannerSettings({ loginBanner: 'x'.repeat(MAX_BANNER_LENGTH + 1) })).toThrow('longer than');
+    });
+  });
+
+  describe('Servers', () => {
+    let db: DatabaseManager;
+    let testDir: string;
+    let sftpServer: SFTPServer;
+    let ftpServer: FTPServer;
+    let sftpListenerId: number;
+    let ftpListenerId: number;
+    const SFTP_PORT = 22245;
+    const FTP_PORT = 22246;
+    const PASSWORD = 'banner-password';
+
+    // Read FTP replies from a raw control connection, one complete reply at a time
+    const openFtp = (): Promise<{ socket: net.Socket; nextReply: () => Promise<string[]> }> => {
+      return new Promise((resolve, reject) => {
+        const socket = net.connect(FTP_PORT, '127.0.0.1');
+        let buffered = '';
+        let waiting: (() => void) | null = null;
+        socket.on('data', (data) => {
+          buffered += data.toString();
+          waiting?.();
+        });
+        socket.on('error', reject);
+
+        const nextReply = (): Promise<string[]> => new Promise((done) => {
+          const check = () => {
+            const lines = buffered.split('\r\n');
+            const end = lines.findIndex((line, i) => i < lines.length - 1 && /^\d{3} /.test(line));
+            if (end === -1) {
+              waiting = check;
+              return;
+            }
+            waiting = null;
+            buffered = lines.slice(end + 1).join('\r\n');
+            done(lines.slice(0, end + 1));
+          };
+          check();
+        });
+        socket.on('connect', () => resolve({ socket, nextReply }));
+      });
+    };
+
+    beforeAll(async () => {
+      testDir = path.join(os.tmpdir(), `banners-test-${Date.now()}`);
+      fs.mkdirSync(testDir, { recursive: true });
+      fs.writeFileSync(path.join(testDir, 'hello.txt'), 'hello');
+
+      db = new DatabaseManager(path.join(testDir, 'test.db'));
+      await db.init();
+
+      const userId = db.createUser({ username: 'banneruser', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+      db.addVirtualPath({ userId, virtualPath: '/', localPath: testDir });
+
+      sftpListenerId = db.createListener({
+        name: 'Banner SFTP',
+        protocol: 'SFTP',
+        bindingIp: '127.0.0.1',
+        port: SFTP_PORT,
+        enabled: true,
+        loginBanner: 'Authorized use only on {listenerName}',
+        motd: 'Welcome {username}\n\nEnjoy {listenerName}'
+      });
+      ftpListenerId = db.createListener({
+        name: 'Banner FTP',
+        protocol: 'FTP',
+        bindingIp: '127.0.0.1',
+        port: FTP_PORT,
+        enabled: true,
+        loginBanner: 'Authorized use only\n\non {listenerName}',
+        motd: 'Welcome {username}'
+      });
+      db.subscribeUserToListener(userId, sftpListenerId);
+      db.subscribeUserToListener(userId, ftpListenerId);
+
+      sftpServer = new SFTPServer(db.getListener(sftpListenerId)!, db);
+      await sftpServer.start();
+      ftpServer = new FTPServer(db.getListener(ftpListenerId)!, db);
+      await ftpServer.start();
+    }, 30000);
+
+    afterAll(async () => {
+      await sftpServer.stop();
+      await ftpServer.stop();
+      await new Promise(resolve => setTimeout(resolve, 500));
+      db.close();
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    test('should store banners with the listener and clear them', () => {
+      expect(db.getListener(ftpListenerId)!.motd).toBe('Welcome {username}');
+
+      const id = db.createListener({ name: 'Plain', protocol: 'FTP', bindingIp: '127.0.0.1', port: 1, enabled: false, motd: 'Hi' });
+      db.updateListener(id, { motd: null });
+      expect(db.getListener(id)!.motd).toBeNull();
+      expect(db.getListener(id)!.loginBanner).toBeNull();
+      db.deleteListener(id);
+    });
+
+    test('should send the SSH auth banner and the message of the day', async () => {
+      const conn = new Client();
+      const banner = new Promise<string>(resolve => conn.on('banner', resolve));
+      await new Promise<void>((resolve, reject) => {
+        conn.on('ready', resolve);
+        conn.on('error', reject);
+        conn.connect({ host: '127.0.0.1', port: SFTP_PORT, username: 'banneruser', password: PASSWORD });
+      });
+
+      try {
+        expect(await banner).toBe('Authorized use only on Banner SFTP\r\n');
+
+        // scp prints stderr of the exec channel, where the message goes
+        const stderr = await new Promise<string>((resolve, reject) => {
+          conn.exec('scp -f /hello.txt', (err, stream) => {
+            if (err) return reject(err);
+            let text = '';
+            stream.stderr.on('data', (data: Buffer) => text += data.toString());
+            stream.on('data', () => undefined);
+            stream.on('close', () => resolve(text));
+            stream.end(Buffer.from([0, 0, 0]));
+          });
+        });
+        expect(stderr).toBe('Welcome banneruser\r\n\r\nEnjoy Banner SFTP\r\n');
+      } finally {
+        conn.end();
+      }
+    }, 30000);
+
+    test('should not send the message of the day on the SFTP channel', async () => {
+      // ssh2's SFTP client discards stderr, so only its debug output would show data arriving
+      const debug: string[] = [];
+      const conn = new Client();
+      await new Promise<void>((resolve, reject) => {
+        conn.on('ready', () => conn.sftp((err) => err ? reject(err) : resolve()));
+        conn.on('error', reject);
+        conn.connect({
+          host: '127.0.0.1', port: SFTP_PORT, username: 'banneruser', password: PASSWORD,
+          debug: (message: string) => debug.push(message)
+        });
+      });
+      conn.end();
+
+      expect(debug.filter(message => message.includes('CHANNEL_EXTENDED_DATA'))).toHaveLength(0);
+    }, 30000);
+
+    test('should greet FTP clients with the banner and the message of the day', async () => {
+      const { socket, nextReply } = await openFtp();
+      try {
+        expect(await nextReply()).toEqual(['220-Authorized use only', '220- ', '220-on Banner FTP', '220 Ready']);
+
+        socket.write('USER banneruser\r\n');
+        expect((await nextReply())[0]).toMatch(/^331 /);
+        socket.write(`PASS ${PASSWORD}\r\n`);
+        const login = await nextReply();
+        expect(login[0]).toBe('230-Welcome banneruser');
+        expect(login[1]).toMatch(/^230 /);
+      } finally {
+        socket.destroy();
+      }
+    }, 30000);
+
+    test('should pick up banner changes without a restart', async () => {
+      db.updateListener(ftpListenerId, { loginBanner: null });
+      try {
+        const { socket, nextReply } = await openFtp();
+        expect(await nextReply()).toEqual(['220-Welcome to SLightSFTP Server', '220 Ready']);
+        socket.destroy();
+      } finally {
+        db.updateListener(ftpListenerId, { loginBanner: 'Authorized use only\n\non {listenerName}' });
+      }
+    }, 30000);
+  });
+});
@@ -0,0 +1,325 @@
+import { FTPServer } from '../ftp-server';
+import { DatabaseManager } from '../database';
+import { formatFacts } from '../ftp-commands';
+import { createDigest } from '../file-hash';
+import { parseHashSettings } from '../ftp-hash';
+import { Permission, ServerActivity } from '../types';
+import * as basicFtp from 'basic-ftp';
+import * as crypto from 'crypto';
+import * as net from 'net';
+import { PassThrough, Writable } from 'stream';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('FTP commands', () => {
+  test('should format MLST facts', () => {
+    const stats = { isDirectory: () => false, size: 42, mtime: new Date(Date.UTC(2024, 0, 2, 3, 4, 5, 678)) } as fs.Stats;
+    expect(formatFacts(stats, 'rwadf', 'report.txt')).toBe('type=file;size=42;modify=20240102030405;perm=rwadf; report.txt');
+  });
+
+  test('should validate checksum settings', () => {
+    expect(parseHashSettings({})).toEqual({});
+    expect(parseHashSettings({ hashAlgorithm: 'crc32', hashMaxBytes: '1048576' })).toEqual({ hashAlgorithm: 'crc32', hashMaxBytes: 1048576 });
+    expect(parseHashSettings({ hashMaxBytes: '' })).toEqual({ hashMaxBytes: 0 });
+    expect(() => parseHashSettings({ hashAlgorithm: 'SHA-256' })).toThrow('Invalid hash algorithm');
+    expect(() => parseHashSettings({ hashAlgorithm: 'constructor' })).toThrow('Invalid hash algorithm');
+    expect(() => parseHashSettings({ hashAlgorithm: 'toString' })).toThrow('Invalid hash algorithm');
+    expect(() => parseHashSettings({ hashMaxBytes: -1 })).toThrow('Invalid hashMaxBytes');
+  });
+
+  describe('Server', () => {
+    let db: DatabaseManager;
+    let testDir: string;
+    let inboxDir: string;
+    let server: FTPServer;
+    let listenerId: number;
+    let activities: ServerActivity[];
+    const PORT = 22265;
+    const PASSWORD = 'resume-password';
+    const data = crypto.randomBytes(512 * 1024);
+
+    const permissions = (userId: number, overrides: Partial<Permission> = {}): Permission => ({
+      userId, listenerId, canRead: true, canCreate: true, canEdit: true, canAppend: true, canDelete: true,
+      canList: true, canCreateDir: true, canRename: true, ...overrides
+    });
+
+    const connect = async (user = 'resumeuser'): Promise<basicFtp.Client> => {
+      const client = new basicFtp.Client(10000);
+      await client.access({ host: '127.0.0.1', port: PORT, user, password: PASSWORD });
+      return client;
+    };
+
+    // A raw control connection, to break off a transfer the way a dropped
+    // connection would
+    const openControl = async () => {
+      const socket = net.connect(PORT, '127.0.0.1');
+      let received = '';
+      const waitFor = (code: string) => new Promise<string>((resolve, reject) => {
+        const check = () => {
+          const line = received.split('\r\n').find(l => l.startsWith(`${code} `));
+          if (line) {
+            received = '';
+            socket.off('data', check);
+            resolve(line);
+          } else if (/^[45]\d\d /m.test(received)) {
+            reject(new Error(received));
+          }
+        };
+        socket.on('data', check);
+        check();
+      });
+      socket.on('data', chunk => received += chunk.toString());
+      await waitFor('220');
+      const send = (command: string, code: string) => {
+        socket.write(`${command}\r\n`);
+        return waitFor(code);
+      };
+      await send('USER resumeuser', '331');
+      await send(`PASS ${PASSWORD}`, '230');
+      await send('TYPE I', '200');
+      const [, , , , p1, p2] = (await send('PASV', '227')).match(/\((.*)\)/)![1].split(',').map(Number);
+      const dataSocket = net.connect(p1 * 256 + p2, '127.0.0.1');
+      await new Promise(resolve => dataSocket.on('connect', resolve));
+      return { socket, dataSocket, send };
+    };
+
+    const waitForStableSize = async (file: string): Promise<number> => {
+      let size = -1;
+      for (;;) {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const current = fs.existsSync(file) ? fs.statSync(file).size : 0;
+        if (current === size && size > 0) return size;
+        size = current;
+      }
+    };
+
+    beforeAll(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ftp-commands-test-'));
+      inboxDir = path.join(testDir, 'inbox');
+      fs.mkdirSync(inboxDir);
+      fs.mkdirSync(path.join(testDir, 'outbox'));
+      fs.writeFileSync(path.join(inboxDir, 'big.bin'), data);
+      fs.utimesSync(path.join(inboxDir, 'big.bin'), new Date('2024-01-02T03:04:05Z'), new Date('2024-01-02T03:04:05Z'));
+      db = new DatabaseManager(path.join(testDir, 'test.db'));
+      await db.init();
+
+      listenerId = db.createListener({ name: 'Commands FTP', protocol: 'FTP', bindingIp: '127.0.0.1', port: PORT, enabled: true });
+      const users: Array<[string, Partial<Permission>]> = [
+        ['resumeuser', {}],
+        ['appenduser', { canEdit: false }],
+        ['editonly', { canAppend: false }],
+        ['writeonly', { canRead: false }]
+      ];
+      for (const [username, overrides] of users) {
+        const userId = db.createUser({ username, password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+        db.addVirtualPath({ userId, virtualPath: '/inbox', localPath: inboxDir, canDelete: true, canRename: true });
+        db.addVirtualPath({ userId, virtualPath: '/outbox', localPath: path.join(testDir, 'outbox') });
+        db.subscribeUserToListener(userId, listenerId);
+        db.setPermission(permissions(userId, overrides));
+      }
+
+      server = new FTPServer(db.getListener(listenerId)!, db);
+      server.on('activity', (activity: ServerActivity) => activities.push(activity));
+      await server.start();
+    }, 30000);
+
+    beforeEach(() => {
+      activities = [];
+    });
+
+    afterAll(async () => {
+      await server.stop();
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      db.close();
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    test('should advertise the extensions', async () => {
+      const client = await connect();
+      try {
+        const features = await client.features();
+        expect([...features.keys()]).toEqual(expect.arrayContaining(['MDTM', 'MLST', 'REST', 'SIZE', 'UTF8']));
+        expect(features.get('MLST')).toBe('type*;size*;modify*;perm*;');
+        expect(features.get('HASH')).toBe('SHA-256*;SHA-1;MD5;CRC32');
+        expect([...features.keys()]).toEqual(expect.arrayContaining(['XCRC', 'XMD5', 'XSHA1', 'XSHA256']));
+        expect(features.has('AUTH')).toBe(false);
+      } finally {
+        client.close();
+      }
+    });
+
+    test('should give MLST facts of virtual paths', async () => {
+      const client = await connect();
+      try {
+        const file = await client.send('MLST /inbox/big.bin');
+        expect(file.message).toContain(` type=file;size=${data.length};modify=20240102030405;perm=rwadf; /inbox/big.bin`);
+        expect((await client.send('MLST /')).message).toMatch(/ type=dir;.*;perm=el; \/\r?\n/);
+        await client.cd('/inbox');
+        expect((await client.send('MLST big.bin')).message).toContain('; /inbox/big.bin');
+        await expect(client.send('MLST /missing')).rejects.toThrow('550');
+      } finally {
+        client.close();
+      }
+    });
+
+    test('should list directories with MLSD', async () => {
+      const client = await connect();
+      try {
+        const root = await client.list('/');
+        expect(root.map(entry => [entry.name, entry.isDirectory]).sort()).toEqual([['inbox', true], ['outbox', true]]);
+
+        const [file] = await client.list('/inbox');
+        expect(file).toMatchObject({ name: 'big.bin', size: data.length, isFile: true });
+        expect(file.modifiedAt?.toISOString()).toBe('2024-01-02T03:04:05.000Z');
+        expect(activities.map(activity => `${activity.action} ${activity.path}`)).toEqual(expect.arrayContaining(['MLSD /', 'MLSD /inbox']));
+      } finally {
+        client.close();
+      }
+    });
+
+    test('should give sizes and times of files only', async () => {
+      const client = await connect();
+      try {
+        expect(await client.size('/inbox/big.bin')).toBe(data.length);
+        expect((await client.lastMod('/inbox/big.bin')).toISOString()).toBe('2024-01-02T03:04:05.000Z');
+        await expect(client.size('/inbox')).rejects.toThrow('550 Not a regular file');
+        await expect(client.size('/inbox/../../etc/passwd')).rejects.toThrow('550');
+      } finally {
+        client.close();
+      }
+    });
+
+    test('should hash files with the algorithm chosen by OPTS HASH', async () => {
+      const client = await connect();
+      const digest = (algorithm: string) => crypto.createHash(algorithm).update(data).digest('hex');
+      try {
+        expect((await client.send('HASH /inbox/big.bin')).message).toBe(`213 SHA-256 0-${data.length} ${digest('sha256')} /inbox/big.bin`);
+        expect((await client.send('OPTS HASH')).message).toBe('200 SHA-256');
+        expect((await client.send('OPTS HASH md5')).message).toBe('200 MD5');
+        await client.cd('/inbox');
+        expect((await client.send('HASH big.bin')).message).toBe(`213 MD5 0-${data.length} ${digest('md5')} /inbox/big.bin`);
+        await expect(client.send('OPTS HASH WHIRLPOOL')).rejects.toThrow('501 Unknown algorithm');
+        await expect(client.send('HASH /inbox')).rejects.toThrow('550 Not a regular file');
+        expect((await client.send('OPTS UTF8 ON')).code).toBe(200);
+      } finally {
+        client.close();
+      }
+    });
+
+    test('should answer XCRC, XMD5, XSHA1 and XSHA256 for whole files and ranges', async () => {
+      const client = await connect();
+      try {
+        const digest = createDigest('crc32');
+        digest.update(data);
+        const crc = digest.digest().toString('hex').toUpperCase();
+        expect((await client.send('XCRC /inbox/big.bin')).message).toBe(`250 ${crc}`);
+        expect((await client.send('XSHA1 /inbox/big.bin')).message).toBe(`250 ${crypto.createHash('sha1').update(data).digest('hex').toUpperCase()}`);
+        expect((await client.send('XSHA256 "/inbox/big.bin" 1000')).message)
+          .toBe(`250 ${crypto.createHash('sha256').update(data.subarray(1000)).digest('hex').toUpperCase()}`);
+        expect((await client.send('XMD5 "/inbox/big.bin" 100 200')).message)
+          .toBe(`250 ${crypto.createHash('md5').update(data.subarray(100, 200)).digest('hex').toUpperCase()}`);
+        expect(activities.filter(activity => activity.action === 'CHECKSUM')).toHaveLength(4);
+      } finally {
+        client.close();
+      }
+    });
+
+    test('should refuse checksums without canRead or beyond the size limit', async () => {
+      const writer = await connect('writeonly');
+      try {
+        await expect(writer.send('XMD5 /inbox/big.bin')).rejects.toThrow('550');
+        expect(activities.map(activity => activity.action)).toContain('CHECKSUM_DENIED');
+      } finally {
+        writer.close();
+      }
+
+      db.updateListener(listenerId, { hashAlgorithm: 'crc32', hashMaxBytes: 1000 });
+      const client = await connect();
+      try {
+        expect((await client.features()).get('HASH')).toBe('SHA-256;SHA-1;MD5;CRC32*');
+        await expect(client.send('HASH /inbox/big.bin')).rejects.toThrow('550 Cannot hash more than 1000 bytes');
+        expect((await client.send('XMD5 "/inbox/big.bin" 0 1000')).code).toBe(250);
+      } finally {
+        client.close();
+        db.updateListener(listenerId, { hashAlgorithm: 'sha256', hashMaxBytes: 0 });
+      }
+    });
+
+    test('should resume an interrupted upload', async () => {
+      const target = path.join(testDir, 'outbox', 'upload.bin');
+      const { socket, dataSocket, send } = await openControl();
+      await send('STOR /outbox/upload.bin', '150');
+      await new Promise(resolve => dataSocket.write(data.subarray(0, data.length / 2), resolve));
+      await waitForStableSize(target);
+      dataSocket.resetAndDestroy();
+      socket.destroy();
+
+      const client = await connect();
+      try {
+        const size = await client.size('/outbox/upload.bin');
+        expect(size).toBeGreaterThan(0);
+        expect(size).toBeLessThan(data.length);
+        await client.send(`REST ${size}`);
+        await client.uploadFrom(new PassThrough().end(data.subarray(size)), '/outbox/upload.bin');
+        expect(fs.readFileSync(target).equals(data)).toBe(true);
+      } finally {
+        client.close();
+      }
+    }, 30000);
+
+    test('should resume an interrupted download', async () => {
+      const { socket, dataSocket, send } = await openControl();
+      const chunks: Buffer[] = [];
+      await send('RETR /inbox/big.bin', '150');
+      await new Promise<void>(resolve => dataSocket.once('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        dataSocket.resetAndDestroy();
+        socket.destroy();
+        resolve();
+      }));
+      const received = Buffer.concat(chunks).length;
+      expect(received).toBeLessThan(data.length);
+
+      const client = await connect();
+      try {
+        await client.downloadTo(new Writable({
+          write: (chunk, _encoding, done) => {
+            chunks.push(chunk);
+            done();
+          }
+        }), '/inbox/big.bin', received);
+        expect(Buffer.concat(chunks).equals(data)).toBe(true);
+      } finally {
+        client.close();
+      }
+    }, 30000);
+
+    test('should need canAppend to resume and canEdit to rewrite', async () => {
+      fs.writeFileSync(path.join(inboxDir, 'log.txt'), 'line 1\n');
+      const appender = await connect('appenduser');
+      const editor = await connect('editonly');
+      try {
+        await appender.send('REST 7');
+        await appender.uploadFrom(new PassThrough().end('line 2\n'), '/inbox/log.txt');
+        await appender.appendFrom(new PassThrough().end('line 3\n'), '/inbox/log.txt');
+        await appender.send('REST 0');
+        await expect(appender.uploadFrom(new PassThrough().end('rewritten\n'), '/inbox/log.txt')).rejects.toThrow('550');
+        await expect(appender.uploadFrom(new PassThrough().end('replaced\n'), '/inbox/log.txt')).rejects.toThrow('550');
+
+        await editor.send('REST 21');
+        await expect(editor.uploadFrom(new PassThrough().end('line 4\n'), '/inbox/log.txt')).rejects.toThrow('550');
+        await expect(editor.appendFrom(new PassThrough().end('line 4\n'), '/inbox/log.txt')).rejects.toThrow('550');
+        expect(fs.readFileSync(path.join(inboxDir, 'log.txt'), 'utf8')).toBe('line 1\nline 2\nline 3\n');
+        expect(activities.filter(activity => activity.action === 'WRITE_DENIED')).toHaveLength(4);
+
+        const [log] = (await appender.list('/inbox')).filter(entry => entry.name === 'log.txt');
+        expect(log.size).toBe(21);
+        expect((await appender.send('MLST /inbox/log.txt')).message).toContain('perm=radf;');
+      } finally {
+        appender.close();
+        editor.close();
+      }
+    }, 30000);
+  });
+});
@@ -305,10 +305,7 @@ describe('FTPServer', () => {
 
       await customFs.mkdir('/newdir');
 
-      expect(fs.promises.mkdir).toHaveBeenCalledWith(
-        expect.stringContaining('newdir'),
-        { recursive: true }
-      );
+      expect(fs.promises.mkdir).toHaveBeenCalledWith(expect.stringContaining('newdir'));
     });
 
     test('should write file', async () => {
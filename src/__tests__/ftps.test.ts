@@ -0,0 +1,300 @@
+import { FTPServer } from '../ftp-server';
+import { DatabaseManager } from '../database';
+import { generateCertificate, getSecureContextOptions, parsePemCertificate, parsePfxCertificate } from '../tls-certificates';
+import { parseFtpsSettings } from '../ftps';
+import { ServerActivity } from '../types';
+import initSqlJs from 'sql.js';
+import * as basicFtp from 'basic-ftp';
+const FtpClient = require('ftp');
+import * as crypto from 'crypto';
+import * as tls from 'tls';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+// PKCS#12 file for CN=pfx.example.test (EC key, valid until 2126), made with
+// openssl pkcs12 -export -passout pass:pfx-passphrase
+const PFX_BASE64 =
+  'MIIEHAIBAzCCA9IGCSqGSIb3DQEHAaCCA8MEggO/MIIDuzCCAnIGCSqGSIb3DQEHBqCCAmMwggJfAgEAMIICWAYJKoZIhvcN' +
+  'AQcBMFcGCSqGSIb3DQEFDTBKMCkGCSqGSIb3DQEFDDAcBAiSqgddPj5yvAICCAAwDAYIKoZIhvcNAgkFADAdBglghkgBZQME' +
+  'ASoEEFTD4ZeozxEDnYxZSn51HWGAggHwXQCx5iCgsXVNr6A6Q+M2GTrBHQQ2/hN/TVUO+h8QqyVTsVNaH6sf6B9J1Kwf6UVQ' +
+  'TgHFPJxbLYxF3iDRga4Ahwm/OpxlSrZvNv/XOdOD6/g3c7ozl4rHvn8a5201vI9jVdmt0AORGIoaf1FmeVoKAvUC3XQPPH77' +
+  'Vke/C32pSbg2Qn5CxVaj/0T+HytKngZ/EIkfTV/27W4POAoZ2HVwWaUN3l1bTWv8j3fBDsy/dQGbsm49kTRmlEODAvMdSva4' +
+  'Gq+CGMTZVgMgXTuyafIYMALcZzgf56EJuj4Z7e0xqMK3KuxQdeN1tfPqscae0PnSsEKUNLkrDbNwU8Gf0sHpIgf0asE2TVX0' +
+  'DBoxdqkVriWs9873S7P9DZwre1xIigGzTVWKQmrWDZkhiNj57XfPIgaGv3ib37QJaOrMwOcr+vaDDT0ogXhgH40b7ffxBoHM' +
+  '/1f8azYypJAqRzP+rZ80PcB77Ki8kmNF1RfBhAzf80YBsSUKuXaksV1Uvjk9eKE/+f8T2puK5vm40mfTuWCSZmTARUURk+1F' +
+  'c8aZRzksx2MkxNjtuA8BUOT3jOFTU51KlBSqAT0/EMXdeuUNmNU0REh51ystUtv5P4AjQ4tl1CxlOoZr3Da0DnFHxDzCBTcW' +
+  'SI2Jw92SQ4e9+AKN2mkbdTCCAUEGCSqGSIb3DQEHAaCCATIEggEuMIIBKjCCASYGCyqGSIb3DQEMCgECoIHvMIHsMFcGCSqG' +
+  'SIb3DQEFDTBKMCkGCSqGSIb3DQEFDDAcBAi5U7BHAVmXuwICCAAwDAYIKoZIhvcNAgkFADAdBglghkgBZQMEASoEENQyuoEu' +
+  'lREWXAk8uI51t+AEgZAExFX03TLUnExxOcc3z0msQOWqwEyPSMOXoqyEvBo51371eUZ5T8sq4wU293lG7UwHQ/YMlPT81hmz' +
+  'nRokVOGs54W/9tBJBI+ZAvHrxEkYfHBptLXuCxx+3WnPDjBzxa3wNXsUKeoa7IGgYc7+0aHO3pH9wiex8NRHD7TquSfSX5fc' +
+  'uyK8ZVLxhilnrCVZ328xJTAjBgkqhkiG9w0BCRUxFgQUG0ccJj4X3X6YlPz/QAYj/LXVkwMwQTAxMA0GCWCGSAFlAwQCAQUA' +
+  'BCDPLYhc/OHeGxmitP3r7IP1HXf+spYc6gpseXdoBopc/QQInLnjor6My98CAggA';
+const PFX_PASSPHRASE = 'pfx-passphrase';
+
+describe('FTPS', () => {
+  describe('Certificates', () => {
+    test('should generate a self-signed server certificate', () => {
+      const generated = generateCertificate(['127.0.0.1', 'ftp.example.test']);
+      const x509 = new crypto.X509Certificate(generated.certificate);
+
+      expect(generated.source).toBe('generated');
+      expect(generated.subject).toBe('CN=127.0.0.1');
+      expect(x509.subjectAltName).toBe('IP Address:127.0.0.1, DNS:ftp.example.test');
+      expect(x509.verify(x509.publicKey)).toBe(true);
+      expect(x509.ca).toBe(false);
+      expect(x509.checkPrivateKey(crypto.createPrivateKey(generated.privateKey!))).toBe(true);
+      expect(generated.fingerprint).toBe(`SHA256:${x509.fingerprint256}`);
+      expect(new Date(generated.validTo).getTime()).toBeGreaterThan(Date.now() + 800 * 24 * 60 * 60 * 1000);
+    });
+
+    test('should import a PEM certificate with an encrypted key', () => {
+      const generated = generateCertificate(['ftp.example.test']);
+      const encryptedKey = crypto.createPrivateKey(generated.privateKey!).export({
+        type: 'pkcs8', format: 'pem', cipher: 'aes-256-cbc', passphrase: 'key-passphrase'
+      }).toString();
+
+      const imported = parsePemCertificate(generated.certificate, encryptedKey, 'key-passphrase');
+      expect(imported).toMatchObject({ source: 'pem', subject: 'CN=ftp.example.test', fingerprint: generated.fingerprint });
+      expect(imported.privateKey).not.toContain('ENCRYPTED');
+      expect(() => tls.createSecureContext(getSecureContextOptions(imported))).not.toThrow();
+    });
+
+    test('should reject PEM certificates that do not match their key', () => {
+      const generated = generateCertificate(['ftp.example.test']);
+      const otherKey = generateCertificate(['other.example.test']).privateKey!;
+
+      expect(() => parsePemCertificate(generated.certificate, otherKey)).toThrow('does not belong to the certificate');
+      expect(() => parsePemCertificate('not a certificate', otherKey)).toThrow('Invalid certificate');
+      expect(() => parsePemCertificate(generated.certificate, 'not a key')).toThrow('Invalid private key');
+    });
+
+    test('should import a PFX file as it is', () => {
+      const pfx = Buffer.from(PFX_BASE64, 'base64');
+      const imported = parsePfxCertificate(pfx, PFX_PASSPHRASE);
+
+      expect(imported).toMatchObject({ source: 'pfx', subject: 'CN=pfx.example.test', privateKey: null, pfx: PFX_BASE64 });
+      expect(new crypto.X509Certificate(imported.certificate).subject).toBe('CN=pfx.example.test');
+      expect(() => tls.createSecureContext(getSecureContextOptions(imported))).not.toThrow();
+      expect(() => parsePfxCertificate(pfx, 'wrong')).toThrow('Invalid PFX file');
+    });
+
+    test('should validate FTPS settings', () => {
+      expect(parseFtpsSettings({})).toEqual({});
+      expect(parseFtpsSettings({ ftpsMode: 'implicit', requireTlsLogin: false, requireTlsData: 1 }))
+        .toEqual({ ftpsMode: 'implicit', requireTlsLogin: false, requireTlsData: true });
+      expect(() => parseFtpsSettings({ ftpsMode: 'ssl' })).toThrow('Invalid FTPS mode');
+    });
+  });
+
+  describe('Database', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ftps-db-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    test('should keep one certificate per listener', async () => {
+      const db = new DatabaseManager(':memory:');
+      await db.init();
+      const listenerId = db.createListener({ name: 'FTPS', protocol: 'FTPS', bindingIp: '127.0.0.1', port: 990, enabled: true, ftpsMode: 'implicit' });
+
+      db.saveTlsCertificate({ listenerId, ...generateCertificate(['first.example.test']) });
+      db.saveTlsCertificate({ listenerId, ...parsePfxCertificate(Buffer.from(PFX_BASE64, 'base64'), PFX_PASSPHRASE) });
+
+      expect(db.getTlsCertificate(listenerId)).toMatchObject({ source: 'pfx', subject: 'CN=pfx.example.test', passphrase: PFX_PASSPHRASE });
+      expect(db.getListener(listenerId)).toMatchObject({ protocol: 'FTPS', ftpsMode: 'implicit', requireTlsLogin: true, requireTlsData: true });
+      db.deleteListener(listenerId);
+      expect(db.getTlsCertificate(listenerId)).toBeUndefined();
+      db.close();
+    });
+
+    test('should allow FTPS listeners in databases of older versions', async () => {
+      const dbPath = path.join(testDir, 'old.db');
+      const SQL = await initSqlJs();
+      const old = new SQL.Database();
+      old.run(`
+        CREATE TABLE listeners (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL,
+          protocol TEXT NOT NULL CHECK(protocol IN ('FTP', 'SFTP')),
+          bindingIp TEXT NOT NULL,
+          port INTEGER NOT NULL,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO listeners (name, protocol, bindingIp, port) VALUES ('Old FTP', 'FTP', '0.0.0.0', 21);
+      `);
+      fs.writeFileSync(dbPath, Buffer.from(old.export()));
+      old.close();
+
+      const db = new DatabaseManager(dbPath);
+      await db.init();
+      const id = db.createListener({ name: 'New FTPS', protocol: 'FTPS', bindingIp: '0.0.0.0', port: 990, enabled: true });
+
+      expect(db.getAllListeners().map(l => [l.name, l.protocol])).toEqual([['Old FTP', 'FTP'], ['New FTPS', 'FTPS']]);
+      expect(db.getListener(id)!.ftpsMode).toBe('explicit');
+      expect(() => db.updateListener(id, { protocol: 'GOPHER' as any })).toThrow();
+      db.close();
+    });
+  });
+
+  describe('Servers', () => {
+    let db: DatabaseManager;
+    let testDir: string;
+    let explicitServer: FTPServer;
+    let implicitServer: FTPServer;
+    let explicitListenerId: number;
+    let implicitListenerId: number;
+    let activities: ServerActivity[];
+    const EXPLICIT_PORT = 22255;
+    const IMPLICIT_PORT = 22256;
+    const PASSWORD = 'ftps-password';
+
+    const connect = (port: number, secure: boolean): Promise<any> => {
+      return new Promise((resolve, reject) => {
+        const client = new FtpClient();
+        client.on('ready', () => resolve(client));
+        client.on('error', reject);
+        client.connect({
+          host: '127.0.0.1',
+          port,
+          user: 'ftpsuser',
+          password: PASSWORD,
+          secure,
+          secureOptions: { rejectUnauthorized: false }
+        });
+      });
+    };
+
+    const list = (client: any): Promise<string[]> => new Promise((resolve, reject) => {
+      client.list('/', (err: Error, entries: Array<{ name: string }>) => err ? reject(err) : resolve(entries.map(e => e.name)));
+    });
+
+    beforeAll(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ftps-test-'));
+      fs.writeFileSync(path.join(testDir, 'secret.txt'), 'secret');
+      db = new DatabaseManager(path.join(testDir, 'test.db'));
+      await db.init();
+
+      const userId = db.createUser({ username: 'ftpsuser', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+      db.addVirtualPath({ userId, virtualPath: '/', localPath: testDir });
+      explicitListenerId = db.createListener({ name: 'Explicit FTPS', protocol: 'FTPS', bindingIp: '127.0.0.1', port: EXPLICIT_PORT, enabled: true });
+      implicitListenerId = db.createListener({
+        name: 'Implicit FTPS', protocol: 'FTPS', bindingIp: '127.0.0.1', port: IMPLICIT_PORT, enabled: true, ftpsMode: 'implicit'
+      });
+      db.subscribeUserToListener(userId, explicitListenerId);
+      db.subscribeUserToListener(userId, implicitListenerId);
+
+      activities = [];
+      explicitServer = new FTPServer(db.getListener(explicitListenerId)!, db);
+      explicitServer.on('activity', (activity: ServerActivity) => activities.push(activity));
+      await explicitServer.start();
+      implicitServer = new FTPServer(db.getListener(implicitListenerId)!, db);
+      await implicitServer.start();
+    }, 30000);
+
+    afterAll(async () => {
+      await explicitServer.stop();
+      await implicitServer.stop();
+      await new Promise(resolve => setTimeout(resolve, 500));
+      db.close();
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+      db.updateListener(explicitListenerId, { requireTlsLogin: true, requireTlsData: true });
+    });
+
+    test('should generate and keep a certificate for each FTPS listener', () => {
+      const certificate = db.getTlsCertificate(explicitListenerId)!;
+      expect(certificate).toMatchObject({ source: 'generated', subject: 'CN=127.0.0.1' });
+
+      new FTPServer(db.getListener(explicitListenerId)!, db);
+      expect(db.getTlsCertificate(explicitListenerId)!.fingerprint).toBe(certificate.fingerprint);
+    });
+
+    test('should log in and transfer data after AUTH TLS', async () => {
+      const client = await connect(EXPLICIT_PORT, true);
+      try {
+        expect(await list(client)).toContain('secret.txt');
+      } finally {
+        client.end();
+      }
+    }, 30000);
+
+    test('should refuse plain logins when TLS is required', async () => {
+      await expect(connect(EXPLICIT_PORT, false)).rejects.toThrow('TLS required');
+      expect(activities.some(a => a.action.startsWith('LOGIN_FAILED (TLS required)') && a.username === 'ftpsuser')).toBe(true);
+    }, 30000);
+
+    test('should refuse plain data connections when only data needs TLS', async () => {
+      db.updateListener(explicitListenerId, { requireTlsLogin: false });
+      const client = await connect(EXPLICIT_PORT, false);
+      try {
+        await expect(list(client)).rejects.toThrow('TLS required for data connections');
+      } finally {
+        client.end();
+      }
+
+      db.updateListener(explicitListenerId, { requireTlsData: false });
+      const plain = await connect(EXPLICIT_PORT, false);
+      try {
+        expect(await list(plain)).toContain('secret.txt');
+      } finally {
+        plain.end();
+      }
+    }, 30000);
+
+    test('should speak TLS from the start on implicit FTPS listeners', async () => {
+      const fingerprint = await new Promise<string>((resolve, reject) => {
+        const socket = tls.connect({ host: '127.0.0.1', port: IMPLICIT_PORT, rejectUnauthorized: false }, () => {
+          resolve(socket.getPeerCertificate().fingerprint256);
+          socket.end();
+        });
+        socket.on('error', reject);
+      });
+      expect(`SHA256:${fingerprint}`).toBe(db.getTlsCertificate(implicitListenerId)!.fingerprint);
+
+      // The ftp package's implicit mode stalls on current Node versions
+      const client = new basicFtp.Client();
+      try {
+        await client.access({
+          host: '127.0.0.1',
+          port: IMPLICIT_PORT,
+          user: 'ftpsuser',
+          password: PASSWORD,
+          secure: 'implicit',
+          secureOptions: { rejectUnauthorized: false }
+        });
+        expect((await client.list('/')).map(entry => entry.name)).toContain('secret.txt');
+
+        // There is no plain connection to upgrade
+        const features = (await client.send('FEAT')).message;
+        expect(features).not.toContain('AUTH TLS');
+        expect(features).toContain('PROT');
+      } finally {
+        client.close();
+      }
+
+      const explicit = new basicFtp.Client();
+      try {
+        await explicit.access({
+          host: '127.0.0.1',
+          port: EXPLICIT_PORT,
+          user: 'ftpsuser',
+          password: PASSWORD,
+          secure: true,
+          secureOptions: { rejectUnauthorized: false }
+        });
+        expect((await explicit.send('FEAT')).message).toContain('AUTH TLS');
+      } finally {
+        explicit.close();
+      }
+    }, 30000);
+  });
+});
@@ -0,0 +1,189 @@
+import { FTPServer } from '../ftp-server';
+import { ServerManager } from '../server-manager';
+import { DatabaseManager } from '../database';
+import { findPortConflict, getLocalAddressFor, getPassiveAddress, parsePassiveSettings } from '../passive-mode';
+import { Listener } from '../types';
+import * as basicFtp from 'basic-ftp';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+const listener = (overrides: Partial<Listener>): Listener => ({
+  name: 'FTP', protocol: 'FTP', bindingIp: '0.0.0.0', port: 21, enabled: true, ...overrides
+});
+
+describe('Passive mode', () => {
+  describe('Settings', () => {
+    test('should validate passive settings', () => {
+      expect(parsePassiveSettings({})).toEqual({});
+      expect(parsePassiveSettings({ passivePortMin: '50000', passivePortMax: 50100, passiveAddressMode: 'external', passiveExternalAddress: ' ftp.example.test ' }))
+        .toEqual({ passivePortMin: 50000, passivePortMax: 50100, passiveAddressMode: 'external', passiveExternalAddress: 'ftp.example.test' });
+      expect(parsePassiveSettings({ passivePortMin: '', passivePortMax: '', passiveAddressMode: 'binding', passiveExternalAddress: '' }))
+        .toEqual({ passivePortMin: null, passivePortMax: null, passiveAddressMode: 'binding', passiveExternalAddress: null });
+
+      expect(() => parsePassiveSettings({ passivePortMin: 70000, passivePortMax: 70001 })).toThrow('Invalid passive port range start');
+      expect(() => parsePassiveSettings({ passivePortMin: 50100, passivePortMax: 50000 })).toThrow('Invalid passive port range');
+      expect(() => parsePassiveSettings({ passivePortMin: 50000 })).toThrow('needs both a start and an end');
+      expect(() => parsePassiveSettings({ passiveAddressMode: 'upnp' })).toThrow('Invalid passive address mode');
+      expect(() => parsePassiveSettings({ passiveAddressMode: 'auto' })).toThrow('needs an external address');
+      expect(() => parsePassiveSettings({ passiveExternalAddress: '2001:db8::1' })).toThrow('Invalid external address');
+    });
+
+    test('should check updates against the stored listener', () => {
+      const current = listener({ passivePortMin: 50000, passivePortMax: 50100, passiveAddressMode: 'external', passiveExternalAddress: '198.51.100.7' });
+
+      expect(parsePassiveSettings({ passivePortMax: 50200 }, current)).toEqual({ passivePortMax: 50200 });
+      expect(() => parsePassiveSettings({ passivePortMax: 40000 }, current)).toThrow('Invalid passive port range');
+      expect(() => parsePassiveSettings({ passiveExternalAddress: '' }, current)).toThrow('needs an external address');
+    });
+  });
+
+  describe('Port conflicts', () => {
+    const ftp = listener({ name: 'NAT FTP', port: 2121, passivePortMin: 50000, passivePortMax: 50100 });
+
+    test('should accept separate ports and ranges', () => {
+      expect(findPortConflict(ftp, [
+        listener({ name: 'Other FTP', port: 21, passivePortMin: 50101, passivePortMax: 50200 }),
+        listener({ name: 'SFTP', protocol: 'SFTP', port: 22 }),
+        listener({ name: 'Random', port: 0 })
+      ])).toBeNull();
+      expect(findPortConflict(listener({ bindingIp: '10.0.0.1' }), [listener({ bindingIp: '10.0.0.2' })])).toBeNull();
+    });
+
+    test('should report ranges that collide with other listeners', () => {
+      expect(findPortConflict(ftp, [listener({ name: 'SFTP', protocol: 'SFTP', port: 50050 })]))
+        .toBe('The passive ports 50000-50100 of listener NAT FTP collide with the port 50050 of listener SFTP');
+      expect(findPortConflict(ftp, [listener({ name: 'Other FTP', bindingIp: '10.0.0.1', passivePortMin: 50100, passivePortMax: 50200 })]))
+        .toBe('The passive ports 50000-50100 of listener NAT FTP collide with the passive ports 50100-50200 of listener Other FTP');
+      expect(findPortConflict(listener({ name: 'FTP', passivePortMin: 20, passivePortMax: 30 }), []))
+        .toBe('The passive ports 20-30 of listener FTP include its own port 21');
+      expect(findPortConflict(ftp, [], 50080))
+        .toBe('The passive ports 50000-50100 of listener NAT FTP collide with the port 50080 of the web admin server');
+      expect(findPortConflict(listener({ name: 'Admin', bindingIp: '10.0.0.1', port: 3000 }), [], 3000))
+        .toBe('The port 3000 of listener Admin collide with the port 3000 of the web admin server');
+    });
+  });
+
+  describe('Passive address', () => {
+    test('should use the binding address unless an external address is set', async () => {
+      expect(getPassiveAddress(listener({ bindingIp: '10.0.0.1' }))).toBe('10.0.0.1');
+      expect(getPassiveAddress(listener({ bindingIp: '10.0.0.1', passiveAddressMode: 'binding', passiveExternalAddress: '198.51.100.7' }))).toBe('10.0.0.1');
+
+      const external = getPassiveAddress(listener({ passiveAddressMode: 'external', passiveExternalAddress: '198.51.100.7' })) as (ip: string) => Promise<string>;
+      await expect(external('127.0.0.1')).resolves.toBe('198.51.100.7');
+      const resolved = getPassiveAddress(listener({ passiveAddressMode: 'external', passiveExternalAddress: 'localhost' })) as (ip: string) => Promise<string>;
+      await expect(resolved('203.0.113.5')).resolves.toBe('127.0.0.1');
+    });
+
+    test('should send the external address only to clients outside the local subnets', async () => {
+      const auto = getPassiveAddress(listener({ passiveAddressMode: 'auto', passiveExternalAddress: '198.51.100.7' })) as (ip: string) => Promise<string>;
+      await expect(auto('::ffff:127.0.0.1')).resolves.toBe('127.0.0.1');
+      await expect(auto('203.0.113.5')).resolves.toBe('198.51.100.7');
+
+      const local = Object.values(os.networkInterfaces()).flat().find(a => a && a.family === 'IPv4' && !a.internal);
+      if (local) {
+        expect(getLocalAddressFor(local.address, '0.0.0.0')).toBe(local.address);
+        await expect(auto(local.address)).resolves.toBe(local.address);
+      }
+    });
+  });
+
+  describe('Servers', () => {
+    let db: DatabaseManager;
+    let testDir: string;
+    let server: FTPServer | undefined;
+    let listenerId: number;
+    const PORT = 22257;
+    const PASSIVE_MIN = 22260;
+    const PASSIVE_MAX = 22262;
+
+    const connect = async (): Promise<basicFtp.Client> => {
+      const client = new basicFtp.Client(10000);
+      await client.access({ host: '127.0.0.1', port: PORT, user: 'pasvuser', password: 'pasv-password' });
+      return client;
+    };
+
+    beforeAll(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'passive-test-'));
+      fs.writeFileSync(path.join(testDir, 'file.txt'), 'data');
+      db = new DatabaseManager(path.join(testDir, 'test.db'));
+      await db.init();
+
+      const userId = db.createUser({ username: 'pasvuser', password: 'pasv-password', passwordEnabled: true, guiEnabled: false });
+      db.addVirtualPath({ userId, virtualPath: '/', localPath: testDir });
+      listenerId = db.createListener({
+        name: 'NAT FTP', protocol: 'FTP', bindingIp: '127.0.0.1', port: PORT, enabled: true,
+        passivePortMin: PASSIVE_MIN, passivePortMax: PASSIVE_MAX, passiveAddressMode: 'auto', passiveExternalAddress: '198.51.100.7'
+      });
+      db.subscribeUserToListener(userId, listenerId);
+    });
+
+    afterEach(async () => {
+      await server?.stop();
+      server = undefined;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      db.close();
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    test('should store passive settings', () => {
+      expect(db.getListener(listenerId)).toMatchObject({
+        passivePortMin: PASSIVE_MIN, passivePortMax: PASSIVE_MAX, passiveAddressMode: 'auto', passiveExternalAddress: '198.51.100.7'
+      });
+    });
+
+    test('should open data connections in the passive range', async () => {
+      server = new FTPServer(db.getListener(listenerId)!, db);
+      await server.start();
+      const client = await connect();
+      try {
+        const reply = await client.send('PASV');
+        const [, , , , p1, p2] = reply.message.match(/\((.*)\)/)![1].split(',').map(Number);
+        expect(reply.message).toContain('(127,0,0,1,');
+        expect(p1 * 256 + p2).toBeGreaterThanOrEqual(PASSIVE_MIN);
+        expect(p1 * 256 + p2).toBeLessThanOrEqual(PASSIVE_MAX);
+
+        expect((await client.list('/')).map(entry => entry.name)).toContain('file.txt');
+      } finally {
+        client.close();
+      }
+    }, 30000);
+
+    test('should announce the external address to clients behind NAT', async () => {
+      db.updateListener(listenerId, { passiveAddressMode: 'external' });
+      server = new FTPServer(db.getListener(listenerId)!, db);
+      await server.start();
+      const client = await connect();
+      try {
+        expect((await client.send('PASV')).message).toContain('(198,51,100,7,');
+      } finally {
+        client.close();
+        db.updateListener(listenerId, { passiveAddressMode: 'auto' });
+      }
+    }, 30000);
+
+    test('should not start listeners whose ports collide', async () => {
+      const manager = new ServerManager(db);
+      const otherId = db.createListener({ name: 'SFTP in range', protocol: 'SFTP', bindingIp: '0.0.0.0', port: PASSIVE_MIN + 1, enabled: true });
+
+      await manager.startListener(otherId);
+      await expect(manager.startListener(listenerId))
+        .rejects.toThrow(`The passive ports ${PASSIVE_MIN}-${PASSIVE_MAX} of listener NAT FTP collide with the port ${PASSIVE_MIN + 1} of listener SFTP in range`);
+      expect(manager.isListenerRunning(listenerId)).toBe(false);
+
+      // A stopped listener does not hold its port, even while enabled
+      await manager.stopListener(otherId);
+      await manager.startListener(listenerId);
+      expect(manager.isListenerRunning(listenerId)).toBe(true);
+      await expect(manager.startListener(otherId)).rejects.toThrow('collide with the passive ports');
+      await manager.stopListener(listenerId);
+
+      manager.setWebPort(PASSIVE_MAX);
+      await expect(manager.startListener(listenerId)).rejects.toThrow('of the web admin server');
+      db.updateListener(otherId, { enabled: false });
+    }, 30000);
+  });
+});
@@ -0,0 +1,322 @@
+import { SFTPServer } from '../sftp-server';
+import { FTPServer } from '../ftp-server';
+import { WebServer } from '../web-server';
+import { ServerManager } from '../server-manager';
+import { DatabaseManager } from '../database';
+import { PathJail, PathOutsideJailError, normalizeVirtualPath } from '../path-jail';
+import { VirtualPath } from '../types';
+import { Client, SFTPWrapper } from 'ssh2';
+const FtpClient = require('ftp');
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+// Layout shared by all tests:
+//   share/               mounted at /
+//     docs/readme.txt
+//     docs-link -> docs          (stays inside the mount)
+//     escape -> ..               (leads to the parent of every mount)
+//     secret-link -> ../secret.txt
+//   share2/leak.txt      sibling whose name starts with the mount's name
+//   other/shared.txt     mounted at /other
+//   secret.txt           outside every mount
+describe('Path Jail', () => {
+  let testDir: string;
+  let shareDir: string;
+  let otherDir: string;
+  let mounts: VirtualPath[];
+  const SECRET = 'top secret';
+
+  beforeAll(() => {
+    testDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'path-jail-test-')));
+    shareDir = path.join(testDir, 'share');
+    otherDir = path.join(testDir, 'other');
+    fs.mkdirSync(path.join(shareDir, 'docs'), { recursive: true });
+    fs.mkdirSync(path.join(testDir, 'share2'));
+    fs.mkdirSync(otherDir);
+    fs.writeFileSync(path.join(shareDir, 'docs', 'readme.txt'), 'readme');
+    fs.writeFileSync(path.join(testDir, 'share2', 'leak.txt'), SECRET);
+    fs.writeFileSync(path.join(otherDir, 'shared.txt'), 'shared');
+    fs.writeFileSync(path.join(testDir, 'secret.txt'), SECRET);
+    fs.symlinkSync('docs', path.join(shareDir, 'docs-link'));
+    fs.symlinkSync('..', path.join(shareDir, 'escape'));
+    fs.symlinkSync('../secret.txt', path.join(shareDir, 'secret-link'));
+    fs.symlinkSync('../other/shared.txt', path.join(shareDir, 'other-link'));
+
+    mounts = [
+      { userId: 1, virtualPath: '/', localPath: shareDir },
+      { userId: 1, virtualPath: '/other', localPath: otherDir }
+    ];
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('Resolver', () => {
+    test('should normalize client paths into the virtual namespace', () => {
+      expect(normalizeVirtualPath('/docs/../../../etc/passwd')).toBe('/etc/passwd');
+      expect(normalizeVirtualPath('..\\..\\secret.txt', '/docs')).toBe('/secret.txt');
+      expect(normalizeVirtualPath('readme.txt', '/docs')).toBe('/docs/readme.txt');
+      expect(normalizeVirtualPath('')).toBe('/');
+    });
+
+    test('should keep mapped paths below their mount', () => {
+      const jail = new PathJail(mounts);
+
+      expect(jail.map('/../secret.txt')!.localPath).toBe(path.join(shareDir, 'secret.txt'));
+      expect(jail.map('/other/../../share2/leak.txt')!.localPath).toBe(path.join(shareDir, 'share2', 'leak.txt'));
+      expect(jail.map('/other/shared.txt')!.localPath).toBe(path.join(otherDir, 'shared.txt'));
+      // Local paths are just names inside the virtual namespace
+      expect(jail.map(path.join(testDir, 'secret.txt'))!.localPath).toBe(path.join(shareDir, testDir, 'secret.txt'));
+    });
+
+    test('should refuse symlinks that resolve outside the mounts', async () => {
+      const jail = new PathJail(mounts);
+
+      await expect(jail.resolve('/escape')).rejects.toThrow(PathOutsideJailError);
+      await expect(jail.resolve('/escape/secret.txt')).rejects.toThrow(PathOutsideJailError);
+      await expect(jail.resolve('/escape/share2/leak.txt')).rejects.toThrow(PathOutsideJailError);
+      await expect(jail.resolve('/secret-link')).rejects.toThrow(PathOutsideJailError);
+      expect((await jail.resolve('/docs-link/readme.txt')).localPath).toBe(path.join(shareDir, 'docs-link', 'readme.txt'));
+      // The link itself may still be removed or renamed
+      expect((await jail.resolve('/secret-link', { followLast: false })).localPath).toBe(path.join(shareDir, 'secret-link'));
+    });
+
+    test('should follow links between mounts only when the policy allows it', async () => {
+      await expect(new PathJail(mounts).resolve('/other-link')).rejects.toThrow(PathOutsideJailError);
+
+      const allowing = new PathJail([{ ...mounts[0], symlinkPolicy: 'allow' }, mounts[1]]);
+      expect((await allowing.resolve('/other-link')).localPath).toBe(path.join(shareDir, 'other-link'));
+      await expect(allowing.resolve('/secret-link')).rejects.toThrow(PathOutsideJailError);
+
+      const denying = new PathJail([{ ...mounts[0], symlinkPolicy: 'deny' }, mounts[1]]);
+      await expect(denying.resolve('/docs-link/readme.txt')).rejects.toThrow(PathOutsideJailError);
+    });
+
+    test('should refuse everything without mounts', async () => {
+      await expect(new PathJail([]).resolve('/')).rejects.toThrow(PathOutsideJailError);
+    });
+
+    test('should not map paths outside nested mounts onto another mount', async () => {
+      const jail = new PathJail([
+        { userId: 1, virtualPath: '/inbox', localPath: shareDir },
+        { userId: 1, virtualPath: '/shared/finance', localPath: otherDir }
+      ]);
+
+      expect(jail.map('/shared/finance/shared.txt')!.localPath).toBe(path.join(otherDir, 'shared.txt'));
+      expect(jail.map('/inboxes')).toBeNull();
+      await expect(jail.resolve('/')).rejects.toThrow(PathOutsideJailError);
+      expect(jail.getMountPointsBelow('/')).toEqual(['inbox', 'shared']);
+      expect(jail.getMountPointsBelow('/shared')).toEqual(['finance']);
+      expect(jail.isVirtualDirectory('/shared')).toBe(true);
+      expect(jail.isVirtualDirectory('/inbox')).toBe(false);
+      expect(jail.isVirtualDirectory('/missing')).toBe(false);
+    });
+  });
+
+  describe('Protocols', () => {
+    let db: DatabaseManager;
+    let sftpServer: SFTPServer;
+    let ftpServer: FTPServer;
+    let webServer: WebServer;
+    const SFTP_PORT = 22247;
+    const FTP_PORT = 22248;
+    const WEB_PORT = 22249;
+    const PASSWORD = 'jail-password';
+
+    // Paths a client could try to reach the files outside the mounts with
+    const traversals = [
+      '/../secret.txt',
+      '/docs/../../secret.txt',
+      '/escape/secret.txt',
+      '/escape/share2/leak.txt',
+      '/secret-link',
+      '/docs-link/../escape/secret.txt',
+      '\\..\\secret.txt'
+    ];
+
+    beforeAll(async () => {
+      db = new DatabaseManager(path.join(testDir, 'test.db'));
+      await db.init();
+
+      const userId = db.createUser({ username: 'jailed', password: PASSWORD, passwordEnabled: true, guiEnabled: true });
+      for (const mount of mounts) {
+        db.addVirtualPath({ ...mount, userId });
+      }
+
+      const sftpListenerId = db.createListener({ name: 'Jail SFTP', protocol: 'SFTP', bindingIp: '127.0.0.1', port: SFTP_PORT, enabled: true });
+      const ftpListenerId = db.createListener({ name: 'Jail FTP', protocol: 'FTP', bindingIp: '127.0.0.1', port: FTP_PORT, enabled: true });
+      db.subscribeUserToListener(userId, sftpListenerId);
+      db.subscribeUserToListener(userId, ftpListenerId);
+
+      sftpServer = new SFTPServer(db.getListener(sftpListenerId)!, db);
+      await sftpServer.start();
+      ftpServer = new FTPServer(db.getListener(ftpListenerId)!, db);
+      await ftpServer.start();
+      webServer = new WebServer(db, new ServerManager(db), WEB_PORT);
+      await webServer.start();
+    }, 30000);
+
+    afterAll(async () => {
+      await sftpServer.stop();
+      await ftpServer.stop();
+      await webServer.stop();
+      await new Promise(resolve => setTimeout(resolve, 500));
+      db.close();
+    });
+
+    describe('SFTP', () => {
+      let conn: Client;
+      let sftp: SFTPWrapper;
+
+      beforeAll(async () => {
+        conn = new Client();
+        sftp = await new Promise<SFTPWrapper>((resolve, reject) => {
+          conn.on('ready', () => conn.sftp((err, sftp) => err ? reject(err) : resolve(sftp)));
+          conn.on('error', reject);
+          conn.connect({ host: '127.0.0.1', port: SFTP_PORT, username: 'jailed', password: PASSWORD });
+        });
+      }, 30000);
+
+      afterAll(() => {
+        conn.end();
+      });
+
+      const readFile = (filePath: string): Promise<string> => new Promise((resolve, reject) => {
+        sftp.readFile(filePath, (err, data) => err ? reject(err) : resolve(data.toString()));
+      });
+
+      test('should not read files outside the mounts', async () => {
+        for (const target of traversals) {
+          await expect(readFile(target)).rejects.toThrow();
+        }
+        expect(await readFile('/docs-link/../docs/readme.txt')).toBe('readme');
+      });
+
+      test('should not list or stat directories outside the mounts', async () => {
+        await expect(new Promise((resolve, reject) => {
+          sftp.readdir('/escape', (err, list) => err ? reject(err) : resolve(list));
+        })).rejects.toThrow();
+        await expect(new Promise((resolve, reject) => {
+          sftp.stat('/escape/secret.txt', (err, stats) => err ? reject(err) : resolve(stats));
+        })).rejects.toThrow();
+        await expect(new Promise((resolve, reject) => {
+          sftp.realpath('/escape', (err, name) => err ? reject(err) : resolve(name));
+        })).rejects.toThrow();
+      });
+
+      test('should not write outside the mounts', async () => {
+        await expect(new Promise<void>((resolve, reject) => {
+          sftp.writeFile('/escape/planted.txt', 'planted', (err) => err ? reject(err) : resolve());
+        })).rejects.toThrow();
+        expect(fs.existsSync(path.join(testDir, 'planted.txt'))).toBe(false);
+      });
+    });
+
+    describe('FTP', () => {
+      let client: any;
+
+      beforeAll(async () => {
+        client = new FtpClient();
+        await new Promise<void>((resolve, reject) => {
+          client.on('ready', resolve);
+          client.on('error', reject);
+          client.connect({ host: '127.0.0.1', port: FTP_PORT, user: 'jailed', password: PASSWORD });
+        });
+      }, 30000);
+
+      afterAll(() => {
+        client.end();
+      });
+
+      const download = (filePath: string): Promise<string> => new Promise((resolve, reject) => {
+        client.get(filePath, (err: Error, stream: NodeJS.ReadableStream) => {
+          if (err) return reject(err);
+          const chunks: Buffer[] = [];
+          stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+          stream.on('end', () => resolve(Buffer.concat(chunks).toString()));
+          stream.on('error', reject);
+        });
+      });
+
+      test('should not read files outside the mounts', async () => {
+        for (const target of [...traversals, path.join(testDir, 'secret.txt'), path.join(testDir, 'share2', 'leak.txt')]) {
+          await expect(download(target)).rejects.toThrow();
+        }
+        expect(await download('/docs-link/readme.txt')).toBe('readme');
+      });
+
+      test('should not change into directories outside the mounts', async () => {
+        await expect(new Promise((resolve, reject) => {
+          client.cwd('/escape', (err: Error) => err ? reject(err) : resolve(undefined));
+        })).rejects.toThrow();
+        await expect(new Promise((resolve, reject) => {
+          client.cwd(testDir, (err: Error) => err ? reject(err) : resolve(undefined));
+        })).rejects.toThrow();
+
+        // '..' stops at the virtual root, relative paths follow the working directory
+        await new Promise<void>((resolve, reject) => client.cwd('/docs', (err: Error) => err ? reject(err) : resolve()));
+        expect(await download('readme.txt')).toBe('readme');
+        await expect(download('../../secret.txt')).rejects.toThrow();
+        await new Promise<void>((resolve, reject) => client.cwd('/', (err: Error) => err ? reject(err) : resolve()));
+      });
+
+      test('should leave escaping symlinks out of listings', async () => {
+        const names = await new Promise<string[]>((resolve, reject) => {
+          client.list('/', (err: Error, list: Array<{ name: string }>) => err ? reject(err) : resolve(list.map(e => e.name)));
+        });
+        expect(names).toEqual(expect.arrayContaining(['docs', 'docs-link']));
+        expect(names).not.toContain('escape');
+        expect(names).not.toContain('secret-link');
+      });
+
+      test('should not write outside the mounts', async () => {
+        await expect(new Promise((resolve, reject) => {
+          client.put(Buffer.from('planted'), '/escape/planted.txt', (err: Error) => err ? reject(err) : resolve(undefined));
+        })).rejects.toThrow();
+        expect(fs.existsSync(path.join(testDir, 'planted.txt'))).toBe(false);
+      });
+    });
+
+    describe('Web API', () => {
+      let cookie: string;
+
+      const browse = (virtualPath: string) => {
+        return fetch(`http://127.0.0.1:${WEB_PORT}/api/files/browse?username=jailed&path=${encodeURIComponent(virtualPath)}`, {
+          headers: { cookie }
+        });
+      };
+
+      beforeAll(async () => {
+        const response = await fetch(`http://127.0.0.1:${WEB_PORT}/api/login`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ username: 'jailed', password: PASSWORD })
+        });
+        expect(response.status).toBe(200);
+        cookie = response.headers.get('set-cookie')!.split(';')[0];
+      });
+
+      test('should refuse to browse outside the mounts', async () => {
+        expect((await browse('/escape')).status).toBe(403);
+        expect((await browse('/escape/share2')).status).toBe(403);
+        expect((await browse('/docs-link/../escape')).status).toBe(403);
+      });
+
+      test('should keep browsing inside the mounts', async () => {
+        const root = await browse('/docs/../..');
+        expect(root.status).toBe(200);
+        const body = await root.json();
+        expect(body.currentPath).toBe('/');
+        const names = body.files.map((f: { name: string }) => f.name);
+        expect(names).toEqual(expect.arrayContaining(['docs', 'docs-link']));
+        expect(names).not.toContain('escape');
+        expect(names).not.toContain('secret-link');
+
+        const docs = await (await browse('/docs-link')).json();
+        expect(docs.files.map((f: { name: string }) => f.name)).toEqual(['readme.txt']);
+      });
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import { parseScpCommand, toScpVirtualPath } from '../scp';
+import { Client } from 'ssh2';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('SCP over exec', () => {
+  let db: DatabaseManager;
+  let sftpServer: SFTPServer;
+  let testDir: string;
+  let rootDir: string;
+  let dbPath: string;
+  let listenerId: number;
+  const TEST_PORT = 22238;
+  const PASSWORD = 'scp-password';
+
+  interface ExecResult {
+    code: number | null;
+    output: Buffer;
+  }
+
+  // Run a command and feed it the whole client side of the protocol up front;
+  // the server reads it in order, so acknowledgements need not be awaited
+  const exec = (command: string, input: Buffer, username: string = 'scpuser'): Promise<ExecResult> => {
+    return new Promise((resolve, reject) => {
+      const conn = new Client();
+      conn.on('ready', () => {
+        conn.exec(command, (err, stream) => {
+          if (err) {
+            conn.end();
+            return reject(err);
+          }
+          const chunks: Buffer[] = [];
+          let code: number | null = null;
+          stream.on('data', (data: Buffer) => chunks.push(data));
+          stream.on('exit', (exitCode: number) => code = exitCode);
+          stream.on('close', () => {
+            conn.end();
+            resolve({ code, output: Buffer.concat(chunks) });
+          });
+          stream.end(input);
+        });
+      });
+      conn.on('error', reject);
+      conn.connect({ host: '127.0.0.1', port: TEST_PORT, username, password: PASSWORD });
+    });
+  };
+
+  const record = (line: string, data?: string): Buffer => {
+    return data === undefined
+      ? Buffer.from(`${line}\n`)
+      : Buffer.concat([Buffer.from(`${line}\n`), Buffer.from(data), Buffer.from([0])]);
+  };
+
+  const withActivities = async (fn: () => Promise<void>): Promise<string[]> => {
+    const actions: string[] = [];
+    const onActivity = (activity: { action: string; path: string }) => actions.push(`${activity.action} ${activity.path}`);
+    sftpServer.on('activity', onActivity);
+    try {
+      await fn();
+    } finally {
+      sftpServer.off('activity', onActivity);
+    }
+    return actions;
+  };
+
+  beforeAll(async () => {
+    testDir = path.join(os.tmpdir(), `scp-test-${Date.now()}`);
+    rootDir = path.join(testDir, 'root');
+    fs.mkdirSync(rootDir, { recursive: true });
+    dbPath = path.join(testDir, 'test.db');
+
+    db = new DatabaseManager(dbPath);
+    await db.init();
+
+    listenerId = db.createListener({
+      name: 'SCP SFTP',
+      protocol: 'SFTP',
+      bindingIp: '127.0.0.1',
+      port: TEST_PORT,
+      enabled: true
+    });
+
+    const userId = db.createUser({ username: 'scpuser', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+    db.subscribeUserToListener(userId, listenerId);
+    db.addVirtualPath({ userId, virtualPath: '/', localPath: rootDir, canCreateDir: true });
+
+    const readerId = db.createUser({ username: 'reader', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+    db.subscribeUserToListener(readerId, listenerId);
+    db.addVirtualPath({ userId: readerId, virtualPath: '/', localPath: rootDir, canWrite: false, canList: true });
+
+    // Only /inbox is mounted, so the root above it is a virtual directory
+    const mountedId = db.createUser({ username: 'mounted', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+    db.subscribeUserToListener(mountedId, listenerId);
+    fs.mkdirSync(path.join(testDir, 'inbox'));
+    db.addVirtualPath({ userId: mountedId, virtualPath: '/inbox', localPath: path.join(testDir, 'inbox') });
+
+    fs.writeFileSync(path.join(rootDir, 'existing.txt'), 'server file');
+    fs.mkdirSync(path.join(rootDir, 'folder', 'nested'), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, 'folder', 'one.txt'), '1');
+    fs.writeFileSync(path.join(rootDir, 'folder', 'nested', 'two.txt'), '22');
+
+    sftpServer = new SFTPServer(db.getListener(listenerId)!, db);
+    await sftpServer.start();
+  }, 30000);
+
+  afterAll(async () => {
+    await sftpServer.stop();
+    await new Promise(resolve => setTimeout(resolve, 500));
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('Command parsing', () => {
+    test('should parse sink and source commands', () => {
+      expect(parseScpCommand('scp -t .')).toEqual({ mode: 'sink', recursive: false, preserve: false, targetIsDirectory: false, paths: ['.'] });
+      expect(parseScpCommand('scp -r -p -d -t -- /upload')).toMatchObject({ mode: 'sink', recursive: true, preserve: true, targetIsDirectory: true, paths: ['/upload'] });
+      expect(parseScpCommand(`/usr/bin/scp -vf a.txt 'with space.txt' "b\\"c"`)).toMatchObject({ mode: 'source', paths: ['a.txt', 'with space.txt', 'b"c'] });
+    });
+
+    test('should reject other commands', () => {
+      expect(parseScpCommand('ls -la')).toBeNull();
+      expect(parseScpCommand('scp -t')).toBeNull();
+      expect(parseScpCommand('scp -x -t .')).toBeNull();
+      expect(parseScpCommand('scp -t a b')).toBeNull();
+      expect(parseScpCommand("scp -f 'unterminated")).toBeNull();
+    });
+
+    test('should resolve remote paths inside the virtual root', () => {
+      expect(toScpVirtualPath('.')).toBe('/');
+      expect(toScpVirtualPath('~')).toBe('/');
+      expect(toScpVirtualPath('~/docs/a.txt')).toBe('/docs/a.txt');
+      expect(toScpVirtualPath('../../etc/passwd')).toBe('/etc/passwd');
+    });
+  });
+
+  describe('Upload (scp -t)', () => {
+    test('should receive a file into a directory', async () => {
+      let result: ExecResult | undefined;
+      const actions = await withActivities(async () => {
+        result = await exec('scp -t .', record('C0644 5 upload.txt', 'hello'));
+      });
+
+      expect(result!.code).toBe(0);
+      expect(result!.output.equals(Buffer.from([0, 0, 0]))).toBe(true);
+      expect(fs.readFileSync(path.join(rootDir, 'upload.txt'), 'utf8')).toBe('hello');
+      expect(actions).toContain('SCP_UPLOAD /upload.txt');
+    });
+
+    test('should write to the target path when it is not a directory', async () => {
+      const result = await exec('scp -t /renamed.txt', record('C0644 3 original.txt', 'abc'));
+
+      expect(result.code).toBe(0);
+      expect(fs.readFileSync(path.join(rootDir, 'renamed.txt'), 'utf8')).toBe('abc');
+      expect(fs.existsSync(path.join(rootDir, 'original.txt'))).toBe(false);
+    });
+
+    test('should receive directories recursively and preserve times', async () => {
+      const mtime = 1600000000;
+      const input = Buffer.concat([
+        record(`T${mtime} 0 ${mtime} 0`),
+        record('D0755 0 tree'),
+        record(`T${mtime} 0 ${mtime} 0`),
+        record('C0600 4 a.txt', 'aaaa'),
+        record('D0755 0 sub'),
+        record('C0644 1 b.txt', 'b'),
+        record('E'),
+        record('E')
+      ]);
+      const result = await exec('scp -r -p -t /', input);
+
+      expect(result.code).toBe(0);
+      expect(fs.readFileSync(path.join(rootDir, 'tree', 'a.txt'), 'utf8')).toBe('aaaa');
+      expect(fs.readFileSync(path.join(rootDir, 'tree', 'sub', 'b.txt'), 'utf8')).toBe('b');
+      expect(Math.floor(fs.statSync(path.join(rootDir, 'tree', 'a.txt')).mtimeMs / 1000)).toBe(mtime);
+      expect(Math.floor(fs.statSync(path.join(rootDir, 'tree')).mtimeMs / 1000)).toBe(mtime);
+      if (process.platform !== 'win32') {
+        expect(fs.statSync(path.join(rootDir, 'tree', 'a.txt')).mode & 0o777).toBe(0o600);
+      }
+    });
+
+    test('should refuse directories without -r', async () => {
+      const result = await exec('scp -t /', record('D0755 0 nope'));
+
+      expect(result.code).toBe(1);
+      expect(result.output.toString()).toContain('\x02scp: protocol error');
+      expect(fs.existsSync(path.join(rootDir, 'nope'))).toBe(false);
+    });
+
+    test('should reject file names with path components', async () => {
+      const result = await exec('scp -t /', record('C0644 1 ../escape.txt', 'x'));
+
+      expect(result.code).toBe(1);
+      expect(fs.existsSync(path.join(testDir, 'escape.txt'))).toBe(false);
+    });
+
+    test('should deny uploads without write permission', async () => {
+      let result: ExecResult | undefined;
+      const actions = await withActivities(async () => {
+        result = await exec('scp -t /', record('C0644 5 denied.txt'), 'reader');
+      });
+
+      expect(result!.code).toBe(1);
+      expect(result!.output.toString()).toContain('\x01scp: /denied.txt: Permission denied');
+      expect(fs.existsSync(path.join(rootDir, 'denied.txt'))).toBe(false);
+      expect(actions).toContain('SCP_UPLOAD_DENIED /denied.txt');
+    });
+  });
+
+  describe('Download (scp -f)', () => {
+    test('should send a file', async () => {
+      let result: ExecResult | undefined;
+      const actions = await withActivities(async () => {
+        result = await exec('scp -f /existing.txt', Buffer.from([0, 0, 0]), 'reader');
+      });
+
+      expect(result!.code).toBe(0);
+      expect(result!.output.toString()).toMatch(/^C0\d{3} 11 existing\.txt\nserver file\x00$/);
+      expect(actions).toContain('SCP_DOWNLOAD /existing.txt');
+    });
+
+    test('should send directories recursively', async () => {
+      const result = await exec('scp -r -f folder', Buffer.alloc(16));
+      const output = result.output.toString();
+
+      expect(result.code).toBe(0);
+      expect(output).toMatch(/^D0\d{3} 0 folder\n/);
+      expect(output).toMatch(/D0\d{3} 0 nested\nC0\d{3} 2 two\.txt\n22\x00E\n/);
+      expect(output).toMatch(/C0\d{3} 1 one\.txt\n1\x00E\n$/);
+    });
+
+    test('should send times with -p', async () => {
+      const mtime = 1500000000;
+      fs.utimesSync(path.join(rootDir, 'existing.txt'), mtime, mtime);
+      const result = await exec('scp -p -f /existing.txt', Buffer.alloc(4));
+
+      expect(result.output.toString()).toMatch(new RegExp(`^T${mtime} 0 ${mtime} 0\nC0\\d{3} 11 existing\\.txt\n`));
+    });
+
+    test('should report missing files and directories without -r', async () => {
+      const result = await exec('scp -f /missing.txt /folder', Buffer.alloc(1));
+      const output = result.output.toString();
+
+      expect(result.code).toBe(1);
+      expect(output).toContain('\x01scp: /missing.txt: No such file or directory\n');
+      expect(output).toContain('\x01scp: /folder: not a regular file\n');
+    });
+  });
+
+  test('should end a download when the client disconnects mid-transfer', async () => {
+    fs.writeFileSync(path.join(rootDir, 'large.bin'), Buffer.alloc(8 * 1024 * 1024, 1));
+    const actions: string[] = [];
+    const failed = new Promise<void>((resolve) => {
+      const onActivity = (activity: { action: string; path: string }) => {
+        actions.push(`${activity.action} ${activity.path}`);
+        if (activity.action === 'SCP_DOWNLOAD_FAILED') {
+          sftpServer.off('activity', onActivity);
+          resolve();
+        }
+      };
+      sftpServer.on('activity', onActivity);
+    });
+
+    const conn = new Client();
+    conn.on('ready', () => {
+      conn.exec('scp -f /large.bin', (err, stream) => {
+        if (err) return conn.end();
+        // Drop the connection once the transfer has started
+        stream.once('data', () => conn.destroy());
+        stream.write(Buffer.from([0, 0]));
+      });
+    });
+    conn.on('error', () => undefined);
+    conn.connect({ host: '127.0.0.1', port: TEST_PORT, username: 'scpuser', password: PASSWORD });
+
+    await failed;
+    expect(actions).toContain('SCP_DOWNLOAD_FAILED /large.bin');
+  });
+
+  test('should upload into and list mounts below a virtual root', async () => {
+    const upload = await exec('scp -t ~/inbox', record('C0644 4 note.txt', 'note'), 'mounted');
+    expect(upload.code).toBe(0);
+    expect(fs.readFileSync(path.join(testDir, 'inbox', 'note.txt'), 'utf8')).toBe('note');
+
+    const download = await exec('scp -r -f ~', Buffer.alloc(16), 'mounted');
+    expect(download.code).toBe(0);
+    expect(download.output.toString()).toMatch(/^D0\d{3} 0 root\nD0\d{3} 0 inbox\nC0\d{3} 4 note\.txt\nnote\x00E\nE\n$/);
+  });
+
+  test('should refuse exec commands other than scp', async () => {
+    let rejected = false;
+    const actions = await withActivities(async () => {
+      await exec('cat /etc/passwd', Buffer.alloc(0)).catch(() => rejected = true);
+    });
+
+    expect(rejected).toBe(true);
+    expect(actions).toContain('EXEC_DENIED /');
+  });
+});
@@ -0,0 +1,206 @@
+import { SFTPServer } from '../sftp-server';
+import { FTPServer } from '../ftp-server';
+import { DatabaseManager } from '../database';
+import { DisconnectReason, SessionTimer, parseSessionTimeouts } from '../session-timeouts';
+import { Listener, ServerActivity } from '../types';
+import { Client } from 'ssh2';
+import * as net from 'net';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+const listener = (overrides: Partial<Listener>): Listener => ({
+  name: 'Test', protocol: 'SFTP', bindingIp: '127.0.0.1', port: 22, enabled: true, ...overrides
+});
+
+describe('Session timeouts', () => {
+  describe('SessionTimer', () => {
+    let reasons: DisconnectReason[];
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      reasons = [];
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should time out clients that do not log in', () => {
+      new SessionTimer(listener({ authTimeoutSeconds: 10 }), reason => reasons.push(reason));
+      jest.advanceTimersByTime(9999);
+      expect(reasons).toEqual([]);
+      jest.advanceTimersByTime(1);
+      expect(reasons).toEqual(['auth-timeout']);
+    });
+
+    test('should restart the idle timeout on activity and pause it while busy', () => {
+      const timer = new SessionTimer(listener({ authTimeoutSeconds: 10, idleTimeoutSeconds: 5 }), reason => reasons.push(reason));
+      timer.login();
+      jest.advanceTimersByTime(4000);
+      timer.activity();
+      jest.advanceTimersByTime(4000);
+      timer.beginActivity();
+      jest.advanceTimersByTime(60000);
+      expect(reasons).toEqual([]);
+
+      timer.endActivity();
+      jest.advanceTimersByTime(5000);
+      expect(reasons).toEqual(['idle-timeout']);
+    });
+
+    test('should end sessions at the time limit despite activity', () => {
+      const timer = new SessionTimer(listener({ idleTimeoutSeconds: 5, maxSessionSeconds: 12 }), reason => reasons.push(reason));
+      timer.login();
+      for (let i = 0; i < 5; i++) {
+        jest.advanceTimersByTime(3000);
+        timer.activity();
+      }
+      expect(reasons).toEqual(['session-limit']);
+    });
+
+    test('should not time out when the timeouts are off or the timer is stopped', () => {
+      const off = new SessionTimer(listener({ idleTimeoutSeconds: 0, maxSessionSeconds: 0, authTimeoutSeconds: 0 }), reason => reasons.push(reason));
+      jest.advanceTimersByTime(60000);
+      off.login();
+      jest.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+      const stopped = new SessionTimer(listener({ authTimeoutSeconds: 1 }), reason => reasons.push(reason));
+      stopped.stop();
+      jest.advanceTimersByTime(60000);
+      expect(reasons).toEqual([]);
+    });
+
+    test('should validate timeout settings', () => {
+      expect(parseSessionTimeouts({})).toEqual({});
+      expect(parseSessionTimeouts({ idleTimeoutSeconds: '600', maxSessionSeconds: '', authTimeoutSeconds: 30 }))
+        .toEqual({ idleTimeoutSeconds: 600, maxSessionSeconds: 0, authTimeoutSeconds: 30 });
+      expect(() => parseSessionTimeouts({ idleTimeoutSeconds: -1 })).toThrow('Invalid idleTimeoutSeconds');
+      expect(() => parseSessionTimeouts({ authTimeoutSeconds: 1.5 })).toThrow('Invalid authTimeoutSeconds');
+      expect(() => parseSessionTimeouts({ maxSessionSeconds: 10 ** 9 })).toThrow('Invalid maxSessionSeconds');
+    });
+  });
+
+  describe('Servers', () => {
+    let db: DatabaseManager;
+    let testDir: string;
+    let sftpServer: SFTPServer;
+    let ftpServer: FTPServer;
+    let sftpListenerId: number;
+    let ftpListenerId: number;
+    let activities: ServerActivity[];
+    const SFTP_PORT = 22263;
+    const FTP_PORT = 22264;
+    const PASSWORD = 'timeout-password';
+
+    const waitForClose = (socket: net.Socket | Client): Promise<number> => {
+      const started = Date.now();
+      return new Promise(resolve => socket.on('close', () => resolve(Date.now() - started)));
+    };
+
+    // Everything an FTP control connection receives until the server closes it
+    const openFtp = (): { socket: net.Socket; received: () => string } => {
+      const socket = net.connect(FTP_PORT, '127.0.0.1');
+      let received = '';
+      socket.on('data', data => received += data.toString());
+      return { socket, received: () => received };
+    };
+
+    const findDisconnect = (reason: string) => activities.find(a => a.action.startsWith(`DISCONNECTED (${reason})`));
+
+    beforeAll(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'timeouts-test-'));
+      db = new DatabaseManager(path.join(testDir, 'test.db'));
+      await db.init();
+
+      const userId = db.createUser({ username: 'timeoutuser', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+      db.addVirtualPath({ userId, virtualPath: '/', localPath: testDir });
+      sftpListenerId = db.createListener({ name: 'Timeout SFTP', protocol: 'SFTP', bindingIp: '127.0.0.1', port: SFTP_PORT, enabled: true });
+      ftpListenerId = db.createListener({ name: 'Timeout FTP', protocol: 'FTP', bindingIp: '127.0.0.1', port: FTP_PORT, enabled: true });
+      db.subscribeUserToListener(userId, sftpListenerId);
+      db.subscribeUserToListener(userId, ftpListenerId);
+
+      sftpServer = new SFTPServer(db.getListener(sftpListenerId)!, db);
+      sftpServer.on('activity', (activity: ServerActivity) => activities.push(activity));
+      await sftpServer.start();
+      ftpServer = new FTPServer(db.getListener(ftpListenerId)!, db);
+      ftpServer.on('activity', (activity: ServerActivity) => activities.push(activity));
+      await ftpServer.start();
+    }, 30000);
+
+    beforeEach(() => {
+      activities = [];
+    });
+
+    afterAll(async () => {
+      await sftpServer.stop();
+      await ftpServer.stop();
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      db.close();
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    test('should store timeouts with defaults', () => {
+      expect(db.getListener(sftpListenerId)).toMatchObject({ idleTimeoutSeconds: 300, maxSessionSeconds: 0, authTimeoutSeconds: 60 });
+    });
+
+    test('should disconnect SFTP clients that do not authenticate', async () => {
+      db.updateListener(sftpListenerId, { authTimeoutSeconds: 1 });
+      const socket = net.connect(SFTP_PORT, '127.0.0.1');
+      socket.on('data', () => undefined);
+
+      expect(await waitForClose(socket)).toBeLessThan(5000);
+      expect(findDisconnect('Authentication timeout')).toMatchObject({ listenerId: sftpListenerId, success: false });
+    }, 15000);
+
+    test('should disconnect idle SFTP clients', async () => {
+      db.updateListener(sftpListenerId, { authTimeoutSeconds: 60, idleTimeoutSeconds: 1 });
+      const conn = new Client();
+      const closed = waitForClose(conn);
+      await new Promise<void>((resolve, reject) => {
+        conn.on('ready', () => resolve());
+        conn.on('error', () => undefined);
+        conn.once('error', reject);
+        conn.connect({ host: '127.0.0.1', port: SFTP_PORT, username: 'timeoutuser', password: PASSWORD });
+      });
+
+      expect(await closed).toBeLessThan(10000);
+      expect(findDisconnect('Idle timeout')).toMatchObject({ username: 'timeoutuser', success: false });
+    }, 15000);
+
+    test('should disconnect FTP clients that do not log in', async () => {
+      db.updateListener(ftpListenerId, { authTimeoutSeconds: 1 });
+      const { socket, received } = openFtp();
+
+      expect(await waitForClose(socket)).toBeLessThan(5000);
+      expect(received()).toContain('421 Authentication timeout');
+      expect(findDisconnect('Authentication timeout')).toMatchObject({ listenerId: ftpListenerId, success: false });
+    }, 15000);
+
+    test('should disconnect idle FTP clients', async () => {
+      db.updateListener(ftpListenerId, { authTimeoutSeconds: 60, idleTimeoutSeconds: 1 });
+      const { socket, received } = openFtp();
+      socket.write(`USER timeoutuser\r\nPASS ${PASSWORD}\r\n`);
+
+      await waitForClose(socket);
+      expect(received()).toContain('230');
+      expect(received()).toContain('421 Idle timeout');
+      expect(findDisconnect('Idle timeout')).toMatchObject({ username: 'timeoutuser' });
+    }, 15000);
+
+    test('should end FTP sessions at the time limit', async () => {
+      db.updateListener(ftpListenerId, { idleTimeoutSeconds: 0, maxSessionSeconds: 2 });
+      const { socket, received } = openFtp();
+      socket.write(`USER timeoutuser\r\nPASS ${PASSWORD}\r\n`);
+      const keepAlive = setInterval(() => socket.writable && socket.write('NOOP\r\n'), 300);
+
+      try {
+        await waitForClose(socket);
+      } finally {
+        clearInterval(keepAlive);
+      }
+      expect(received()).toContain('421 Session time limit');
+      expect(findDisconnect('Session time limit')).toMatchObject({ username: 'timeoutuser' });
+    }, 15000);
+  });
+});
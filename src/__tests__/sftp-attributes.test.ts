@@ -0,0 +1,210 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import { Client, SFTPWrapper } from 'ssh2';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('SFTP Attribute Operations (FSTAT / SETSTAT / FSETSTAT)', () => {
+  let db: DatabaseManager;
+  let sftpServer: SFTPServer;
+  let testDir: string;
+  let ftpRoot: string;
+  let userId: number;
+  let listenerId: number;
+  const TEST_PORT = 22231;
+
+  const connect = (): Promise<{ conn: Client; sftp: SFTPWrapper }> => {
+    return new Promise((resolve, reject) => {
+      const conn = new Client();
+      conn.on('ready', () => {
+        conn.sftp((err, sftp) => {
+          if (err) return reject(err);
+          resolve({ conn, sftp });
+        });
+      });
+      conn.on('error', reject);
+      conn.connect({ host: '127.0.0.1', port: TEST_PORT, username: 'attruser', password: 'attrpass' });
+    });
+  };
+
+  const disconnect = (conn: Client): Promise<void> => {
+    return new Promise((resolve) => {
+      conn.on('close', () => resolve());
+      conn.end();
+    });
+  };
+
+  const setPermission = (canSetAttributes: boolean, canEdit = true) => {
+    db.setPermission({
+      userId,
+      listenerId,
+      canRead: true,
+      canCreate: true,
+      canEdit,
+      canAppend: true,
+      canDelete: true,
+      canList: true,
+      canCreateDir: true,
+      canRename: true,
+      canSetAttributes
+    });
+  };
+
+  beforeAll(async () => {
+    testDir = path.join(os.tmpdir(), `sftp-attr-test-${Date.now()}`);
+    ftpRoot = path.join(testDir, 'ftp-root');
+    fs.mkdirSync(ftpRoot, { recursive: true });
+
+    db = new DatabaseManager(path.join(testDir, 'test.db'));
+    await db.init();
+
+    userId = db.createUser({
+      username: 'attruser',
+      password: 'attrpass',
+      passwordEnabled: true,
+      guiEnabled: false
+    });
+    listenerId = db.createListener({
+      name: 'Attribute SFTP',
+      protocol: 'SFTP',
+      bindingIp: '127.0.0.1',
+      port: TEST_PORT,
+      enabled: true
+    });
+    db.subscribeUserToListener(userId, listenerId);
+    db.addVirtualPath({
+      userId,
+      virtualPath: '/',
+      localPath: ftpRoot,
+      canRead: true,
+      canWrite: true,
+      canAppend: true,
+      canDelete: true,
+      canList: true,
+      canCreateDir: true,
+      canRename: true
+    });
+    setPermission(true);
+
+    sftpServer = new SFTPServer(db.getListener(listenerId)!, db);
+    await sftpServer.start();
+  }, 30000);
+
+  afterAll(async () => {
+    await sftpServer.stop();
+    await new Promise(resolve => setTimeout(resolve, 500));
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    fs.writeFileSync(path.join(ftpRoot, 'file.txt'), 'Hello attributes');
+  });
+
+  test('should set modification time with SETSTAT', async () => {
+    const { conn, sftp } = await connect();
+    const mtime = Math.floor(new Date('2020-01-02T03:04:05Z').getTime() / 1000);
+
+    await new Promise<void>((resolve, reject) => {
+      sftp.setstat('/file.txt', { atime: mtime, mtime }, (err) => err ? reject(err) : resolve());
+    });
+    await disconnect(conn);
+
+    const stats = fs.statSync(path.join(ftpRoot, 'file.txt'));
+    expect(Math.floor(stats.mtimeMs / 1000)).toBe(mtime);
+  });
+
+  test('should change permissions with SETSTAT', async () => {
+    const { conn, sftp } = await connect();
+
+    await new Promise<void>((resolve, reject) => {
+      sftp.chmod('/file.txt', 0o600, (err) => err ? reject(err) : resolve());
+    });
+    await disconnect(conn);
+
+    const stats = fs.statSync(path.join(ftpRoot, 'file.txt'));
+    expect(stats.mode & 0o777).toBe(0o600);
+  });
+
+  test('should truncate and stat an open handle with FSETSTAT / FSTAT', async () => {
+    const { conn, sftp } = await connect();
+
+    const handle = await new Promise<Buffer>((resolve, reject) => {
+      sftp.open('/file.txt', 'a', (err, h) => err ? reject(err) : resolve(h));
+    });
+    await new Promise<void>((resolve, reject) => {
+      sftp.fsetstat(handle, { size: 5 }, (err) => err ? reject(err) : resolve());
+    });
+    const attrs = await new Promise<any>((resolve, reject) => {
+      sftp.fstat(handle, (err, a) => err ? reject(err) : resolve(a));
+    });
+    await new Promise<void>((resolve) => sftp.close(handle, () => resolve()));
+    await disconnect(conn);
+
+    expect(attrs.size).toBe(5);
+    expect(fs.readFileSync(path.join(ftpRoot, 'file.txt'), 'utf-8')).toBe('Hello');
+  });
+
+  test('should deny SETSTAT without canSetAttributes permission', async () => {
+    setPermission(false);
+    try {
+      const { conn, sftp } = await connect();
+      const err = await new Promise<any>((resolve) => {
+        sftp.setstat('/file.txt', { mtime: 0, atime: 0 }, (e) => resolve(e));
+      });
+      await disconnect(conn);
+
+      expect(err).toBeDefined();
+      expect(err.code).toBe(3); // PERMISSION_DENIED
+    } finally {
+      setPermission(true);
+    }
+  });
+
+  test('should deny truncating with SETSTAT without canEdit permission', async () => {
+    setPermission(true, false);
+    try {
+      const { conn, sftp } = await connect();
+      const err = await new Promise<any>((resolve) => {
+        sftp.setstat('/file.txt', { size: 0 }, (e) => resolve(e));
+      });
+      await disconnect(conn);
+
+      expect(err).toBeDefined();
+      expect(err.code).toBe(3); // PERMISSION_DENIED
+      expect(fs.readFileSync(path.join(ftpRoot, 'file.txt'), 'utf-8')).toBe('Hello attributes');
+    } finally {
+      setPermission(true);
+    }
+  });
+
+  test('should deny FSETSTAT size changes on a handle opened for reading', async () => {
+    const { conn, sftp } = await connect();
+
+    const handle = await new Promise<Buffer>((resolve, reject) => {
+      sftp.open('/file.txt', 'r', (err, h) => err ? reject(err) : resolve(h));
+    });
+    const err = await new Promise<any>((resolve) => {
+      sftp.fsetstat(handle, { size: 0 }, (e) => resolve(e));
+    });
+    await new Promise<void>((resolve) => sftp.close(handle, () => resolve()));
+    await disconnect(conn);
+
+    expect(err).toBeDefined();
+    expect(err.code).toBe(3); // PERMISSION_DENIED
+    expect(fs.readFileSync(path.join(ftpRoot, 'file.txt'), 'utf-8')).toBe('Hello attributes');
+  });
+
+  test('should leave canSetAttributes off or unchanged when it is not given', () => {
+    const { canSetAttributes, ...withoutAttributes } = db.getPermission(userId, listenerId)!;
+    expect(canSetAttributes).toBe(true);
+    db.setPermission(withoutAttributes);
+    expect(db.getPermission(userId, listenerId)!.canSetAttributes).toBe(true);
+
+    const otherListenerId = db.createListener({ name: 'Other', protocol: 'SFTP', bindingIp: '127.0.0.1', port: 1, enabled: false });
+    db.setPermission({ ...withoutAttributes, listenerId: otherListenerId });
+    expect(db.getPermission(userId, otherListenerId)!.canSetAttributes).toBe(false);
+    expect(db.getPermission(userId, otherListenerId)!.canEdit).toBe(true);
+  });
+});
@@ -0,0 +1,307 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import { createDigest, hashFileRange } from '../file-hash';
+import { Client, ClientChannel } from 'ssh2';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+// SFTP packet types
+const SSH_FXP_INIT = 1;
+const SSH_FXP_OPEN = 3;
+const SSH_FXP_STATUS = 101;
+const SSH_FXP_HANDLE = 102;
+const SSH_FXP_EXTENDED = 200;
+const SSH_FXP_EXTENDED_REPLY = 201;
+
+const string = (value: string | Buffer): Buffer => {
+  const data = Buffer.isBuffer(value) ? value : Buffer.from(value);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  return Buffer.concat([length, data]);
+};
+
+const uint32 = (value: number): Buffer => {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32BE(value, 0);
+  return buf;
+};
+
+const uint64 = (value: number): Buffer => {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64BE(BigInt(value), 0);
+  return buf;
+};
+
+// Minimal SFTP client speaking raw packets, since ssh2 has no checksum API
+class RawSftpClient {
+  private buffer = Buffer.alloc(0);
+  private nextId = 1;
+  private pending: Map<number, (packet: Buffer) => void> = new Map();
+  private onVersion?: (packet: Buffer) => void;
+
+  constructor(private stream: ClientChannel) {
+    stream.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      while (this.buffer.length >= 4 && this.buffer.length >= 4 + this.buffer.readUInt32BE(0)) {
+        const packet = this.buffer.subarray(4, 4 + this.buffer.readUInt32BE(0));
+        this.buffer = this.buffer.subarray(4 + packet.length);
+        if (packet[0] === 2 && this.onVersion) {
+          this.onVersion(packet);
+        } else {
+          const id = packet.readUInt32BE(1);
+          this.pending.get(id)?.(packet);
+          this.pending.delete(id);
+        }
+      }
+    });
+  }
+
+  init(): Promise<Buffer> {
+    return new Promise((resolve) => {
+      this.onVersion = resolve;
+      this.write(Buffer.concat([Buffer.from([SSH_FXP_INIT]), uint32(3)]));
+    });
+  }
+
+  request(type: number, ...fields: Buffer[]): Promise<Buffer> {
+    const id = this.nextId++;
+    return new Promise((resolve) => {
+      this.pending.set(id, resolve);
+      this.write(Buffer.concat([Buffer.from([type]), uint32(id), ...fields]));
+    });
+  }
+
+  private write(payload: Buffer): void {
+    this.stream.write(Buffer.concat([uint32(payload.length), payload]));
+  }
+}
+
+const statusCode = (packet: Buffer): number | undefined => {
+  return packet[0] === SSH_FXP_STATUS ? packet.readUInt32BE(5) : undefined;
+};
+
+// Split an EXTENDED_REPLY into its leading strings and the remaining bytes
+const parseReply = (packet: Buffer, stringCount: number): { strings: Buffer[]; rest: Buffer } => {
+  expect(packet[0]).toBe(SSH_FXP_EXTENDED_REPLY);
+  let offset = 5;
+  const strings: Buffer[] = [];
+  for (let i = 0; i < stringCount; i++) {
+    const length = packet.readUInt32BE(offset);
+    strings.push(packet.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+  return { strings, rest: packet.subarray(offset) };
+};
+
+const digest = (algorithm: string, data: Buffer): Buffer => crypto.createHash(algorithm).update(data).digest();
+
+describe('SFTP Checksum Extensions', () => {
+  let db: DatabaseManager;
+  let sftpServer: SFTPServer;
+  let testDir: string;
+  let ftpRoot: string;
+  let userId: number;
+  let listenerId: number;
+  let content: Buffer;
+  const TEST_PORT = 22234;
+
+  const withRawSftp = async <T>(fn: (client: RawSftpClient, version: Buffer) => Promise<T>): Promise<T> => {
+    const conn = new Client();
+    await new Promise<void>((resolve, reject) => {
+      conn.on('ready', () => resolve());
+      conn.on('error', reject);
+      conn.connect({ host: '127.0.0.1', port: TEST_PORT, username: 'hashuser', password: 'hashpass' });
+    });
+    try {
+      const stream = await new Promise<ClientChannel>((resolve, reject) => {
+        conn.subsys('sftp', (err, s) => err ? reject(err) : resolve(s));
+      });
+      const client = new RawSftpClient(stream);
+      return await fn(client, await client.init());
+    } finally {
+      await new Promise<void>((resolve) => {
+        conn.on('close', () => resolve());
+        conn.end();
+      });
+    }
+  };
+
+  const checkFileName = (client: RawSftpClient, file: string, algorithms: string, start = 0, length = 0, blockSize = 0) => {
+    return client.request(SSH_FXP_EXTENDED, string('check-file-name'), string(file), string(algorithms),
+      uint64(start), uint64(length), uint32(blockSize));
+  };
+
+  const md5Hash = (client: RawSftpClient, file: string, quickCheck: Buffer = Buffer.alloc(0)) => {
+    return client.request(SSH_FXP_EXTENDED, string('md5-hash'), string(file), uint64(0), uint64(0), string(quickCheck));
+  };
+
+  const setCanRead = (canRead: boolean) => {
+    db.setPermission({
+      userId,
+      listenerId,
+      canRead,
+      canCreate: true,
+      canEdit: true,
+      canAppend: true,
+      canDelete: true,
+      canList: true,
+      canCreateDir: true,
+      canRename: true
+    });
+  };
+
+  beforeAll(async () => {
+    testDir = path.join(os.tmpdir(), `sftp-checksum-test-${Date.now()}`);
+    ftpRoot = path.join(testDir, 'ftp-root');
+    fs.mkdirSync(ftpRoot, { recursive: true });
+
+    content = crypto.randomBytes(5000);
+    fs.writeFileSync(path.join(ftpRoot, 'data.bin'), content);
+
+    db = new DatabaseManager(path.join(testDir, 'test.db'));
+    await db.init();
+
+    userId = db.createUser({
+      username: 'hashuser',
+      password: 'hashpass',
+      passwordEnabled: true,
+      guiEnabled: false
+    });
+    listenerId = db.createListener({
+      name: 'Checksum SFTP',
+      protocol: 'SFTP',
+      bindingIp: '127.0.0.1',
+      port: TEST_PORT,
+      enabled: true
+    });
+    db.subscribeUserToListener(userId, listenerId);
+    db.addVirtualPath({ userId, virtualPath: '/', localPath: ftpRoot });
+
+    sftpServer = new SFTPServer(db.getListener(listenerId)!, db);
+    await sftpServer.start();
+  }, 30000);
+
+  afterAll(async () => {
+    await sftpServer.stop();
+    await new Promise(resolve => setTimeout(resolve, 500));
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    setCanRead(true);
+  });
+
+  describe('hashFileRange', () => {
+    test('should compute CRC-32 check values in pieces', () => {
+      const crc = createDigest('crc32');
+      crc.update(Buffer.from('1234'));
+      crc.update(Buffer.from('56789'));
+      expect(crc.digest().toString('hex')).toBe('cbf43926');
+      expect(createDigest('crc32').digest().toString('hex')).toBe('00000000');
+    });
+
+    test('should hash a whole file', async () => {
+      const [hash] = await hashFileRange(path.join(ftpRoot, 'data.bin'), 'sha256');
+      expect(hash).toEqual(digest('sha256', content));
+    });
+
+    test('should hash a range in blocks', async () => {
+      const digests = await hashFileRange(path.join(ftpRoot, 'data.bin'), 'md5', 100, 1000, 256);
+
+      expect(digests).toHaveLength(4);
+      expect(digests[0]).toEqual(digest('md5', content.subarray(100, 356)));
+      expect(digests[3]).toEqual(digest('md5', content.subarray(868, 1100)));
+    });
+  });
+
+  describe('check-file', () => {
+    test('should advertise the checksum extensions', async () => {
+      const version = await withRawSftp(async (_client, v) => v);
+      expect(version.includes(Buffer.from('check-file'))).toBe(true);
+      expect(version.includes(Buffer.from('md5-hash-handle'))).toBe(true);
+    });
+
+    test('should hash a whole file by name', async () => {
+      const reply = await withRawSftp((client) => checkFileName(client, '/data.bin', 'sha256'));
+      const { strings, rest } = parseReply(reply, 2);
+
+      expect(strings.map(s => s.toString())).toEqual(['check-file', 'sha256']);
+      expect(rest).toEqual(digest('sha256', content));
+    });
+
+    test('should use the first supported algorithm in the client\'s list', async () => {
+      const reply = await withRawSftp((client) => checkFileName(client, '/data.bin', 'crc32,sha1,md5'));
+      const { strings, rest } = parseReply(reply, 2);
+
+      expect(strings[1].toString()).toBe('sha1');
+      expect(rest).toEqual(digest('sha1', content));
+    });
+
+    test('should hash ranges block by block', async () => {
+      const reply = await withRawSftp((client) => checkFileName(client, '/data.bin', 'md5', 1024, 2048, 1024));
+      const { rest } = parseReply(reply, 2);
+
+      expect(rest).toEqual(Buffer.concat([
+        digest('md5', content.subarray(1024, 2048)),
+        digest('md5', content.subarray(2048, 3072))
+      ]));
+    });
+
+    test('should hash an open file handle', async () => {
+      const reply = await withRawSftp(async (client) => {
+        const handlePacket = await client.request(SSH_FXP_OPEN, string('/data.bin'), uint32(0x1), uint32(0));
+        expect(handlePacket[0]).toBe(SSH_FXP_HANDLE);
+        const handle = handlePacket.subarray(9, 9 + handlePacket.readUInt32BE(5));
+
+        return client.request(SSH_FXP_EXTENDED, string('check-file-handle'), string(handle), string('sha256'),
+          uint64(0), uint64(0), uint32(0));
+      });
+
+      expect(parseReply(reply, 2).rest).toEqual(digest('sha256', content));
+    });
+
+    test('should reject unsupported algorithms and tiny blocks', async () => {
+      const replies = await withRawSftp(async (client) => [
+        await checkFileName(client, '/data.bin', 'crc32'),
+        await checkFileName(client, '/data.bin', 'md5', 0, 0, 16)
+      ]);
+
+      expect(statusCode(replies[0])).toBe(8); // OP_UNSUPPORTED
+      expect(statusCode(replies[1])).toBe(4); // FAILURE
+    });
+
+    test('should require canRead', async () => {
+      setCanRead(false);
+      const reply = await withRawSftp((client) => checkFileName(client, '/data.bin', 'sha256'));
+      expect(statusCode(reply)).toBe(3); // PERMISSION_DENIED
+    });
+
+    test('should report missing files', async () => {
+      const reply = await withRawSftp((client) => checkFileName(client, '/missing.bin', 'sha256'));
+      expect(statusCode(reply)).toBe(2); // NO_SUCH_FILE
+    });
+  });
+
+  describe('md5-hash', () => {
+    test('should return the MD5 hash of the file', async () => {
+      const reply = await withRawSftp((client) => md5Hash(client, '/data.bin'));
+      const { strings } = parseReply(reply, 2);
+
+      expect(strings[0].toString()).toBe('md5-hash');
+      expect(strings[1]).toEqual(digest('md5', content));
+    });
+
+    test('should honor the quick check hash', async () => {
+      const replies = await withRawSftp(async (client) => [
+        await md5Hash(client, '/data.bin', digest('md5', content.subarray(0, 2048))),
+        await md5Hash(client, '/data.bin', digest('md5', Buffer.from('something else')))
+      ]);
+
+      expect(parseReply(replies[0], 2).strings[1]).toEqual(digest('md5', content));
+      expect(parseReply(replies[1], 2).strings[1]).toHaveLength(0);
+    });
+  });
+});
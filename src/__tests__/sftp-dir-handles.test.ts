@@ -0,0 +1,226 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import { Client, FileEntry, SFTPWrapper } from 'ssh2';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('SFTP Directory Handles', () => {
+  let db: DatabaseManager;
+  let sftpServer: SFTPServer;
+  let testDir: string;
+  let rootDir: string;
+  let dbPath: string;
+  const TEST_PORT = 22240;
+  const PASSWORD = 'listing-password';
+  const FILE_COUNT = 250;
+
+  // ssh2 reports SFTP status codes in err.code
+  const STATUS_EOF = 1;
+  const STATUS_FAILURE = 4;
+
+  interface Session {
+    conn: Client;
+    sftp: SFTPWrapper;
+  }
+
+  const connect = (): Promise<Session> => {
+    return new Promise((resolve, reject) => {
+      const conn = new Client();
+      conn.on('ready', () => {
+        conn.sftp((err, sftp) => err ? reject(err) : resolve({ conn, sftp }));
+      });
+      conn.on('error', reject);
+      conn.connect({ host: '127.0.0.1', port: TEST_PORT, username: 'lister', password: PASSWORD });
+    });
+  };
+
+  const opendir = (sftp: SFTPWrapper, dirPath: string): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+      sftp.opendir(dirPath, (err, handle) => err ? reject(err) : resolve(handle));
+    });
+  };
+
+  // One READDIR request; resolves null at EOF
+  const readPage = (sftp: SFTPWrapper, handle: Buffer): Promise<string[] | null> => {
+    return new Promise((resolve, reject) => {
+      sftp.readdir(handle, (err, list) => {
+        if (err) {
+          return (err as any).code === STATUS_EOF ? resolve(null) : reject(err);
+        }
+        resolve((list as FileEntry[]).map(entry => entry.filename));
+      });
+    });
+  };
+
+  const readAll = async (sftp: SFTPWrapper, handle: Buffer): Promise<string[]> => {
+    const names: string[] = [];
+    let page: string[] | null;
+    while ((page = await readPage(sftp, handle)) !== null) {
+      names.push(...page);
+    }
+    return names;
+  };
+
+  const close = (sftp: SFTPWrapper, handle: Buffer): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      sftp.close(handle, (err) => err ? reject(err) : resolve());
+    });
+  };
+
+  const end = (session: Session): Promise<void> => {
+    return new Promise(resolve => {
+      session.conn.on('close', () => resolve());
+      session.conn.end();
+    });
+  };
+
+  const expectedNames = () => Array.from({ length: FILE_COUNT }, (_, i) => `file-${String(i).padStart(3, '0')}.txt`);
+
+  beforeAll(async () => {
+    testDir = path.join(os.tmpdir(), `sftp-dir-handles-test-${Date.now()}`);
+    rootDir = path.join(testDir, 'root');
+    fs.mkdirSync(path.join(rootDir, 'big'), { recursive: true });
+    dbPath = path.join(testDir, 'test.db');
+
+    for (const name of expectedNames()) {
+      fs.writeFileSync(path.join(rootDir, 'big', name), name);
+    }
+
+    db = new DatabaseManager(dbPath);
+    await db.init();
+
+    const listenerId = db.createListener({
+      name: 'Listing SFTP',
+      protocol: 'SFTP',
+      bindingIp: '127.0.0.1',
+      port: TEST_PORT,
+      enabled: true
+    });
+
+    const userId = db.createUser({ username: 'lister', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+    db.subscribeUserToListener(userId, listenerId);
+    db.addVirtualPath({ userId, virtualPath: '/', localPath: rootDir, canList: true });
+
+    sftpServer = new SFTPServer(db.getListener(listenerId)!, db);
+    await sftpServer.start();
+  }, 30000);
+
+  afterAll(async () => {
+    await sftpServer.stop();
+    await new Promise(resolve => setTimeout(resolve, 500));
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('Paging', () => {
+    test('should return large directories in bounded pages', async () => {
+      const session = await connect();
+      try {
+        const handle = await opendir(session.sftp, '/big');
+        const pageSizes: number[] = [];
+        const names: string[] = [];
+        let page: string[] | null;
+        while ((page = await readPage(session.sftp, handle)) !== null) {
+          pageSizes.push(page.length);
+          names.push(...page);
+        }
+
+        expect(pageSizes).toEqual([100, 100, 50]);
+        expect(names.sort()).toEqual(expectedNames());
+        // EOF is repeated once the listing is exhausted
+        expect(await readPage(session.sftp, handle)).toBeNull();
+        await close(session.sftp, handle);
+      } finally {
+        await end(session);
+      }
+    });
+
+    test('should skip entries removed after the directory was opened', async () => {
+      const session = await connect();
+      fs.mkdirSync(path.join(rootDir, 'shrinking'));
+      for (let i = 0; i < 150; i++) {
+        fs.writeFileSync(path.join(rootDir, 'shrinking', `${i}.txt`), '');
+      }
+      try {
+        const handle = await opendir(session.sftp, '/shrinking');
+        for (const name of fs.readdirSync(path.join(rootDir, 'shrinking')).slice(0, 120)) {
+          fs.unlinkSync(path.join(rootDir, 'shrinking', name));
+        }
+
+        const names = await readAll(session.sftp, handle);
+        expect(names.sort()).toEqual(fs.readdirSync(path.join(rootDir, 'shrinking')).sort());
+        await close(session.sftp, handle);
+      } finally {
+        await end(session);
+      }
+    });
+  });
+
+  describe('Session isolation', () => {
+    test('should keep listings of other clients when one disconnects', async () => {
+      const listers = await Promise.all([connect(), connect(), connect()]);
+      const leaver = await connect();
+      try {
+        const handles = await Promise.all(listers.map(s => opendir(s.sftp, '/big')));
+        const firstPages = await Promise.all(listers.map((s, i) => readPage(s.sftp, handles[i])));
+
+        // The leaver has listings of its own in progress when it goes away
+        const leaverHandle = await opendir(leaver.sftp, '/big');
+        await readPage(leaver.sftp, leaverHandle);
+        await end(leaver);
+
+        const rest = await Promise.all(listers.map((s, i) => readAll(s.sftp, handles[i])));
+        for (let i = 0; i < listers.length; i++) {
+          expect([...firstPages[i]!, ...rest[i]].sort()).toEqual(expectedNames());
+        }
+        await Promise.all(listers.map((s, i) => close(s.sftp, handles[i])));
+      } finally {
+        await Promise.all(listers.map(end));
+      }
+    });
+
+    test('should list concurrently while clients come and go', async () => {
+      const listers = await Promise.all([connect(), connect()]);
+      try {
+        const churn = (async () => {
+          for (let i = 0; i < 3; i++) {
+            const session = await connect();
+            await opendir(session.sftp, '/big');
+            await end(session);
+          }
+        })();
+        const listings = listers.map(async s => {
+          const handle = await opendir(s.sftp, '/big');
+          const names = await readAll(s.sftp, handle);
+          await close(s.sftp, handle);
+          return names;
+        });
+
+        const [, ...results] = await Promise.all([churn, ...listings]);
+        for (const names of results) {
+          expect(names.sort()).toEqual(expectedNames());
+        }
+      } finally {
+        await Promise.all(listers.map(end));
+      }
+    });
+
+    test('should reject directory handles of another session', async () => {
+      const owner = await connect();
+      const other = await connect();
+      try {
+        const handle = await opendir(owner.sftp, '/big');
+
+        await expect(readPage(other.sftp, handle)).rejects.toMatchObject({ code: STATUS_FAILURE });
+        await expect(close(other.sftp, handle)).rejects.toMatchObject({ code: STATUS_FAILURE });
+        expect(await readPage(owner.sftp, handle)).toHaveLength(100);
+        await close(owner.sftp, handle);
+        await expect(readPage(owner.sftp, handle)).rejects.toMatchObject({ code: STATUS_FAILURE });
+      } finally {
+        await end(owner);
+        await end(other);
+      }
+    });
+  });
+});
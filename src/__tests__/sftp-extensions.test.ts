@@ -0,0 +1,253 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import { SFTP_EXTENSIONS, readStrings } from '../sftp-extensions';
+import { Client, SFTPWrapper } from 'ssh2';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('SFTP OpenSSH Extensions', () => {
+  let db: DatabaseManager;
+  let sftpServer: SFTPServer;
+  let testDir: string;
+  let ftpRoot: string;
+  let userId: number;
+  let listenerId: number;
+  const TEST_PORT = 22233;
+
+  const connect = (): Promise<{ conn: Client; sftp: SFTPWrapper }> => {
+    return new Promise((resolve, reject) => {
+      const conn = new Client();
+      conn.on('ready', () => {
+        conn.sftp((err, sftp) => {
+          if (err) return reject(err);
+          resolve({ conn, sftp });
+        });
+      });
+      conn.on('error', reject);
+      conn.connect({ host: '127.0.0.1', port: TEST_PORT, username: 'extuser', password: 'extpass' });
+    });
+  };
+
+  const disconnect = (conn: Client): Promise<void> => {
+    return new Promise((resolve) => {
+      conn.on('close', () => resolve());
+      conn.end();
+    });
+  };
+
+  const withSftp = async <T>(fn: (sftp: SFTPWrapper) => Promise<T>): Promise<T> => {
+    const { conn, sftp } = await connect();
+    try {
+      return await fn(sftp);
+    } finally {
+      await disconnect(conn);
+    }
+  };
+
+  const setPermission = (overrides: Record<string, boolean> = {}) => {
+    db.setPermission({
+      userId,
+      listenerId,
+      canRead: true,
+      canCreate: true,
+      canEdit: true,
+      canAppend: true,
+      canDelete: true,
+      canList: true,
+      canCreateDir: true,
+      canRename: true,
+      ...overrides
+    });
+  };
+
+  beforeAll(async () => {
+    testDir = path.join(os.tmpdir(), `sftp-ext-test-${Date.now()}`);
+    ftpRoot = path.join(testDir, 'ftp-root');
+    fs.mkdirSync(ftpRoot, { recursive: true });
+
+    db = new DatabaseManager(path.join(testDir, 'test.db'));
+    await db.init();
+
+    userId = db.createUser({
+      username: 'extuser',
+      password: 'extpass',
+      passwordEnabled: true,
+      guiEnabled: false
+    });
+    listenerId = db.createListener({
+      name: 'Extensions SFTP',
+      protocol: 'SFTP',
+      bindingIp: '127.0.0.1',
+      port: TEST_PORT,
+      enabled: true
+    });
+    db.subscribeUserToListener(userId, listenerId);
+    db.addVirtualPath({
+      userId,
+      virtualPath: '/',
+      localPath: ftpRoot,
+      canRead: true,
+      canWrite: true,
+      canAppend: true,
+      canDelete: true,
+      canList: true,
+      canCreateDir: true,
+      canRename: true
+    });
+
+    sftpServer = new SFTPServer(db.getListener(listenerId)!, db);
+    await sftpServer.start();
+  }, 30000);
+
+  afterAll(async () => {
+    await sftpServer.stop();
+    await new Promise(resolve => setTimeout(resolve, 500));
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    setPermission();
+    for (const entry of fs.readdirSync(ftpRoot)) {
+      fs.rmSync(path.join(ftpRoot, entry), { recursive: true, force: true });
+    }
+    fs.writeFileSync(path.join(ftpRoot, 'source.txt'), 'new content');
+    fs.writeFileSync(path.join(ftpRoot, 'target.txt'), 'old content');
+  });
+
+  test('should advertise the supported extensions', async () => {
+    const advertised = await withSftp(async (sftp) => (sftp as any)._extensions);
+    expect(advertised).toEqual(SFTP_EXTENSIONS);
+  });
+
+  test('should apply the advertised limits', async () => {
+    const limits = await withSftp(async (sftp) => ({
+      maxReadLen: (sftp as any)._maxReadLen,
+      maxOpenHandles: (sftp as any).maxOpenHandles
+    }));
+    expect(limits.maxReadLen).toBe(256 * 1024 - 2 * 1024);
+    expect(limits.maxOpenHandles).toBe(Infinity);
+  });
+
+  describe('posix-rename@openssh.com', () => {
+    test('should replace an existing file', async () => {
+      const err = await withSftp((sftp) => new Promise<any>((resolve) => {
+        sftp.ext_openssh_rename('/source.txt', '/target.txt', resolve);
+      }));
+
+      expect(err).toBeUndefined();
+      expect(fs.existsSync(path.join(ftpRoot, 'source.txt'))).toBe(false);
+      expect(fs.readFileSync(path.join(ftpRoot, 'target.txt'), 'utf-8')).toBe('new content');
+    });
+
+    test('should require canDelete to replace the target', async () => {
+      setPermission({ canDelete: false });
+      const err = await withSftp((sftp) => new Promise<any>((resolve) => {
+        sftp.ext_openssh_rename('/source.txt', '/target.txt', resolve);
+      }));
+
+      expect(err.code).toBe(3); // PERMISSION_DENIED
+      expect(fs.readFileSync(path.join(ftpRoot, 'target.txt'), 'utf-8')).toBe('old content');
+    });
+
+    test('should not require canDelete for a new name', async () => {
+      setPermission({ canDelete: false });
+      const err = await withSftp((sftp) => new Promise<any>((resolve) => {
+        sftp.ext_openssh_rename('/source.txt', '/renamed.txt', resolve);
+      }));
+
+      expect(err).toBeUndefined();
+      expect(fs.existsSync(path.join(ftpRoot, 'renamed.txt'))).toBe(true);
+    });
+  });
+
+  describe('statvfs@openssh.com', () => {
+    test('should report file system usage', async () => {
+      const stats = await withSftp((sftp) => new Promise<any>((resolve, reject) => {
+        sftp.ext_openssh_statvfs('/', (err, s) => err ? reject(err) : resolve(s));
+      }));
+
+      expect(stats.f_bsize).toBeGreaterThan(0);
+      expect(stats.f_blocks).toBeGreaterThan(0);
+      expect(stats.f_flag).toBe(0);
+      expect(stats.f_namemax).toBe(255);
+    });
+
+    test('should report read-only access', async () => {
+      setPermission({ canCreate: false, canEdit: false });
+      const stats = await withSftp((sftp) => new Promise<any>((resolve, reject) => {
+        sftp.ext_openssh_statvfs('/', (err, s) => err ? reject(err) : resolve(s));
+      }));
+
+      expect(stats.f_flag & 0x1).toBe(0x1); // ST_RDONLY
+    });
+
+    test('should require canList', async () => {
+      setPermission({ canList: false });
+      const err = await withSftp((sftp) => new Promise<any>((resolve) => {
+        sftp.ext_openssh_statvfs('/', (e) => resolve(e));
+      }));
+
+      expect(err.code).toBe(3);
+    });
+  });
+
+  describe('hardlink@openssh.com', () => {
+    test('should create a hard link', async () => {
+      const err = await withSftp((sftp) => new Promise<any>((resolve) => {
+        sftp.ext_openssh_hardlink('/source.txt', '/linked.txt', resolve);
+      }));
+
+      expect(err).toBeUndefined();
+      const source = fs.statSync(path.join(ftpRoot, 'source.txt'));
+      const linked = fs.statSync(path.join(ftpRoot, 'linked.txt'));
+      expect(linked.ino).toBe(source.ino);
+    });
+
+    test('should require canCreate', async () => {
+      setPermission({ canCreate: false });
+      const err = await withSftp((sftp) => new Promise<any>((resolve) => {
+        sftp.ext_openssh_hardlink('/source.txt', '/linked.txt', resolve);
+      }));
+
+      expect(err.code).toBe(3);
+      expect(fs.existsSync(path.join(ftpRoot, 'linked.txt'))).toBe(false);
+    });
+  });
+
+  describe('fsync@openssh.com', () => {
+    test('should flush an open file handle', async () => {
+      const err = await withSftp(async (sftp) => {
+        const handle = await new Promise<Buffer>((resolve, reject) => {
+          sftp.open('/source.txt', 'a', (e, h) => e ? reject(e) : resolve(h));
+        });
+        const result = await new Promise<any>((resolve) => sftp.ext_openssh_fsync(handle, resolve));
+        await new Promise<void>((resolve) => sftp.close(handle, () => resolve()));
+        return result;
+      });
+
+      expect(err).toBeUndefined();
+    });
+
+    test('should reject unknown handles', async () => {
+      const err = await withSftp((sftp) => new Promise<any>((resolve) => {
+        sftp.ext_openssh_fsync(Buffer.from([0, 0, 1, 0]), resolve);
+      }));
+
+      expect(err.code).toBe(4); // FAILURE
+    });
+  });
+
+  describe('Request Parsing', () => {
+    test('should read consecutive SSH strings', () => {
+      const data = Buffer.from([0, 0, 0, 2, 0x2f, 0x61, 0, 0, 0, 1, 0x62]);
+      expect(readStrings(data, 2)!.map(s => s.toString())).toEqual(['/a', 'b']);
+    });
+
+    test('should reject truncated payloads', () => {
+      expect(readStrings(Buffer.from([0, 0, 0, 5, 0x61]), 1)).toBeNull();
+      expect(readStrings(undefined, 1)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import { BufferedFile, READ_AHEAD_SIZE, WRITE_BEHIND_SIZE } from '../sftp-file-io';
+import { Client, SFTPWrapper } from 'ssh2';
+import { execFileSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('SFTP File I/O', () => {
+  let testDir: string;
+
+  beforeAll(() => {
+    testDir = path.join(os.tmpdir(), `sftp-file-io-test-${Date.now()}`);
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('BufferedFile', () => {
+    const content = crypto.randomBytes(READ_AHEAD_SIZE * 2 + 1000);
+    let filePath: string;
+
+    beforeEach(() => {
+      filePath = path.join(testDir, 'buffered.bin');
+      fs.writeFileSync(filePath, content);
+    });
+
+    test('should read sequentially and at random offsets', async () => {
+      const file = await BufferedFile.open(filePath, fs.constants.O_RDONLY);
+      const chunks: Buffer[] = [];
+      let data: Buffer;
+      while ((data = await file.read(chunks.length * 32768, 32768)).length > 0) {
+        chunks.push(data);
+      }
+
+      expect(Buffer.concat(chunks).equals(content)).toBe(true);
+      expect((await file.read(12345, 100)).equals(content.subarray(12345, 12445))).toBe(true);
+      expect(await file.read(content.length, 100)).toHaveLength(0);
+      await file.close();
+    });
+
+    test('should answer oversized reads short', async () => {
+      const file = await BufferedFile.open(filePath, fs.constants.O_RDONLY);
+      const data = await file.read(0, content.length);
+
+      expect(data.length).toBe(READ_AHEAD_SIZE);
+      expect(data.equals(content.subarray(0, READ_AHEAD_SIZE))).toBe(true);
+      await file.close();
+    });
+
+    test('should see buffered writes in later reads and stats', async () => {
+      const file = await BufferedFile.open(filePath, fs.constants.O_RDWR);
+      await file.read(0, 100);
+      await file.write(10, Buffer.from('written'));
+      await file.write(content.length, Buffer.from('tail'));
+
+      expect((await file.read(10, 7)).toString()).toBe('written');
+      expect((await file.stat()).size).toBe(content.length + 4);
+      await file.close();
+    });
+
+    test('should write pipelined requests in order', async () => {
+      const outPath = path.join(testDir, 'pipelined.bin');
+      const file = await BufferedFile.open(outPath, fs.constants.O_WRONLY | fs.constants.O_CREAT | fs.constants.O_TRUNC);
+      const writes: Promise<boolean>[] = [];
+      for (let position = 0; position < content.length; position += 32768) {
+        writes.push(file.write(position, content.subarray(position, position + 32768)));
+      }
+
+      expect(await Promise.all(writes)).toEqual(writes.map(() => true));
+      await file.close();
+      expect(fs.readFileSync(outPath).equals(content)).toBe(true);
+    });
+
+    test('should read ahead and write behind in whole blocks', async () => {
+      const file = await BufferedFile.open(filePath, fs.constants.O_RDWR);
+      const handle = await file.withFlushed(handle => handle);
+      const reads = jest.spyOn(handle, 'read');
+      const writes = jest.spyOn(handle, 'write');
+
+      // 18 requests of 32 KiB: three blocks and the read that finds the end
+      let position = 0;
+      let data: Buffer;
+      while ((data = await file.read(position, 32768)).length > 0) {
+        position += data.length;
+      }
+      expect(position).toBe(content.length);
+      expect(reads).toHaveBeenCalledTimes(4);
+
+      for (let offset = 0; offset < content.length; offset += 32768) {
+        await file.write(offset, content.subarray(offset, offset + 32768));
+      }
+      await file.close();
+      expect(writes).toHaveBeenCalledTimes(Math.ceil(content.length / WRITE_BEHIND_SIZE));
+    });
+
+    test('should refuse append-only writes away from the buffered end', async () => {
+      const file = await BufferedFile.open(filePath, fs.constants.O_WRONLY);
+
+      expect(await file.write(content.length, Buffer.from('one'), true)).toBe(true);
+      expect(await file.write(content.length, Buffer.from('two'), true)).toBe(false);
+      expect(await file.write(content.length + 3, Buffer.from('two'), true)).toBe(true);
+      expect(await file.write(0, Buffer.from('xx'), true)).toBe(false);
+      await file.close();
+
+      expect(fs.readFileSync(filePath).subarray(content.length).toString()).toBe('onetwo');
+    });
+
+    test('should report failed buffered writes on close', async () => {
+      const file = await BufferedFile.open(filePath, fs.constants.O_RDONLY);
+
+      // Accepted into the buffer; the file cannot actually be written
+      expect(await file.write(0, Buffer.alloc(WRITE_BEHIND_SIZE / 4))).toBe(true);
+      await expect(file.close()).rejects.toMatchObject({ code: 'EBADF' });
+    });
+  });
+
+  // A FIFO with no writer stands in for a stalled network share: opening it
+  // blocks until something writes to it
+  const describeWithFifo = process.platform !== 'win32' ? describe : describe.skip;
+  describeWithFifo('Parallel transfers', () => {
+    let db: DatabaseManager;
+    let sftpServer: SFTPServer;
+    let rootDir: string;
+    let fifoPath: string;
+    const TEST_PORT = 22241;
+    const PASSWORD = 'benchmark-password';
+    const CLIENTS = 3;
+    const FILE_SIZE = 4 * 1024 * 1024;
+
+    interface Session {
+      conn: Client;
+      sftp: SFTPWrapper;
+    }
+
+    const connect = (): Promise<Session> => {
+      return new Promise((resolve, reject) => {
+        const conn = new Client();
+        conn.on('ready', () => {
+          conn.sftp((err, sftp) => err ? reject(err) : resolve({ conn, sftp }));
+        });
+        conn.on('error', reject);
+        conn.connect({ host: '127.0.0.1', port: TEST_PORT, username: 'bench', password: PASSWORD });
+      });
+    };
+
+    const end = (session: Session): Promise<void> => {
+      return new Promise(resolve => {
+        session.conn.on('close', () => resolve());
+        session.conn.end();
+      });
+    };
+
+    const digest = (filePath: string) => crypto.createHash('md5').update(fs.readFileSync(filePath)).digest('hex');
+
+    // Download and re-upload a file on every session at once
+    const transferAll = async (sessions: Session[], round: string): Promise<void> => {
+      await Promise.all(sessions.map((session, i) => new Promise<void>((resolve, reject) => {
+        const localPath = path.join(testDir, `${round}-${i}.bin`);
+        session.sftp.fastGet(`/source-${i}.bin`, localPath, (err) => {
+          if (err) return reject(err);
+          session.sftp.fastPut(localPath, `/${round}-upload-${i}.bin`, (err) => err ? reject(err) : resolve());
+        });
+      })));
+
+      for (let i = 0; i < sessions.length; i++) {
+        expect(digest(path.join(rootDir, `${round}-upload-${i}.bin`))).toBe(digest(path.join(rootDir, `source-${i}.bin`)));
+      }
+    };
+
+    beforeAll(async () => {
+      rootDir = path.join(testDir, 'root');
+      fs.mkdirSync(rootDir, { recursive: true });
+      for (let i = 0; i < CLIENTS; i++) {
+        fs.writeFileSync(path.join(rootDir, `source-${i}.bin`), crypto.randomBytes(FILE_SIZE));
+      }
+      fifoPath = path.join(rootDir, 'stalled');
+      execFileSync('mkfifo', [fifoPath]);
+
+      db = new DatabaseManager(path.join(testDir, 'test.db'));
+      await db.init();
+
+      const listenerId = db.createListener({
+        name: 'Benchmark SFTP',
+        protocol: 'SFTP',
+        bindingIp: '127.0.0.1',
+        port: TEST_PORT,
+        enabled: true
+      });
+
+      const userId = db.createUser({ username: 'bench', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+      db.subscribeUserToListener(userId, listenerId);
+      db.addVirtualPath({ userId, virtualPath: '/', localPath: rootDir });
+
+      sftpServer = new SFTPServer(db.getListener(listenerId)!, db);
+      await sftpServer.start();
+    }, 30000);
+
+    afterAll(async () => {
+      await sftpServer.stop();
+      await new Promise(resolve => setTimeout(resolve, 500));
+      db.close();
+    });
+
+    test('should keep serving other clients while one is stalled', async () => {
+      const sessions = await Promise.all(Array.from({ length: CLIENTS }, connect));
+      const stalled = await connect();
+      try {
+        await transferAll(sessions, 'baseline');
+
+        const stalledOpen = new Promise<Buffer>((resolve, reject) => {
+          stalled.sftp.open('/stalled', 'r', (err, handle) => err ? reject(err) : resolve(handle));
+        });
+        // Give the stalled open time to reach the file system
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        // Completes while the stalled open is still waiting
+        let released = false;
+        stalledOpen.finally(() => released = true).catch(() => undefined);
+        await transferAll(sessions, 'stalled');
+        expect(released).toBe(false);
+
+        // Opening the other end releases the stalled client
+        fs.writeFileSync(fifoPath, 'finally');
+        expect(Buffer.isBuffer(await stalledOpen)).toBe(true);
+      } finally {
+        await Promise.all([...sessions, stalled].map(end));
+      }
+    }, 120000);
+  });
+});
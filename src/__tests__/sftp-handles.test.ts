@@ -0,0 +1,249 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import { HandleTable } from '../sftp-handles';
+import { Client, OpenMode, SFTPWrapper } from 'ssh2';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('SFTP Handle Table', () => {
+  let db: DatabaseManager;
+  let sftpServer: SFTPServer;
+  let testDir: string;
+  let rootDir: string;
+  let dbPath: string;
+  let listenerId: number;
+  const TEST_PORT = 22239;
+  const PASSWORD = 'handles-password';
+
+  // ssh2 reports SFTP status codes in err.code
+  const STATUS_PERMISSION_DENIED = 3;
+  const STATUS_FAILURE = 4;
+
+  interface Session {
+    conn: Client;
+    sftp: SFTPWrapper;
+  }
+
+  const connect = (username: string): Promise<Session> => {
+    return new Promise((resolve, reject) => {
+      const conn = new Client();
+      conn.on('ready', () => {
+        conn.sftp((err, sftp) => err ? reject(err) : resolve({ conn, sftp }));
+      });
+      conn.on('error', reject);
+      conn.connect({ host: '127.0.0.1', port: TEST_PORT, username, password: PASSWORD });
+    });
+  };
+
+  const open = (sftp: SFTPWrapper, filePath: string, flags: OpenMode): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+      sftp.open(filePath, flags, (err, handle) => err ? reject(err) : resolve(handle));
+    });
+  };
+
+  const write = (sftp: SFTPWrapper, handle: Buffer, data: string, position: number): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      const buffer = Buffer.from(data);
+      sftp.write(handle, buffer, 0, buffer.length, position, (err) => err ? reject(err) : resolve());
+    });
+  };
+
+  const read = (sftp: SFTPWrapper, handle: Buffer, length: number): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      sftp.read(handle, Buffer.alloc(length), 0, length, 0, (err, bytesRead, buffer) => {
+        err ? reject(err) : resolve(buffer.subarray(0, bytesRead).toString());
+      });
+    });
+  };
+
+  const close = (sftp: SFTPWrapper, handle: Buffer): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      sftp.close(handle, (err) => err ? reject(err) : resolve());
+    });
+  };
+
+  const end = (session: Session): Promise<void> => {
+    return new Promise(resolve => {
+      session.conn.on('close', () => resolve());
+      session.conn.end();
+    });
+  };
+
+  beforeAll(async () => {
+    testDir = path.join(os.tmpdir(), `sftp-handles-test-${Date.now()}`);
+    rootDir = path.join(testDir, 'root');
+    fs.mkdirSync(rootDir, { recursive: true });
+    dbPath = path.join(testDir, 'test.db');
+
+    db = new DatabaseManager(dbPath);
+    await db.init();
+
+    listenerId = db.createListener({
+      name: 'Handles SFTP',
+      protocol: 'SFTP',
+      bindingIp: '127.0.0.1',
+      port: TEST_PORT,
+      enabled: true
+    });
+
+    const editorId = db.createUser({ username: 'editor', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+    db.subscribeUserToListener(editorId, listenerId);
+    db.addVirtualPath({ userId: editorId, virtualPath: '/', localPath: rootDir });
+
+    // May add to existing files but not change what is already there
+    const appenderId = db.createUser({ username: 'appender', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+    db.subscribeUserToListener(appenderId, listenerId);
+    db.addVirtualPath({ userId: appenderId, virtualPath: '/', localPath: rootDir, canWrite: false, canAppend: true });
+
+    sftpServer = new SFTPServer(db.getListener(listenerId)!, db);
+    await sftpServer.start();
+  }, 30000);
+
+  afterAll(async () => {
+    await sftpServer.stop();
+    await new Promise(resolve => setTimeout(resolve, 500));
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('HandleTable', () => {
+    test('should issue unique opaque handles', () => {
+      const table = new HandleTable<string>();
+      const first = table.add('a');
+      const second = table.add('b');
+
+      expect(first.length).toBe(16);
+      expect(first.equals(second)).toBe(false);
+      expect(table.get(first)).toBe('a');
+      expect(table.get(Buffer.from(first))).toBe('a');
+      expect(table.get(Buffer.alloc(4))).toBeUndefined();
+    });
+
+    test('should delete and clear handles', () => {
+      const table = new HandleTable<string>();
+      const first = table.add('a');
+      table.add('b');
+
+      expect(table.delete(first)).toBe('a');
+      expect(table.get(first)).toBeUndefined();
+      expect(table.clear()).toEqual(['b']);
+      expect(table.size).toBe(0);
+    });
+  });
+
+  describe('Append-only writes', () => {
+    let session: Session;
+
+    beforeAll(async () => {
+      session = await connect('appender');
+    });
+
+    afterAll(async () => {
+      await end(session);
+    });
+
+    beforeEach(() => {
+      fs.writeFileSync(path.join(rootDir, 'log.txt'), 'line1\n');
+    });
+
+    test('should accept writes at the end of the file', async () => {
+      const handle = await open(session.sftp, '/log.txt', 'r+');
+      await write(session.sftp, handle, 'line2\n', 6);
+      await close(session.sftp, handle);
+
+      expect(fs.readFileSync(path.join(rootDir, 'log.txt'), 'utf8')).toBe('line1\nline2\n');
+    });
+
+    test('should refuse writes that overwrite existing data', async () => {
+      const handle = await open(session.sftp, '/log.txt', 'r+');
+      await expect(write(session.sftp, handle, 'XX', 0)).rejects.toMatchObject({ code: STATUS_PERMISSION_DENIED });
+      await expect(write(session.sftp, handle, 'XX', 100)).rejects.toMatchObject({ code: STATUS_PERMISSION_DENIED });
+      await close(session.sftp, handle);
+
+      expect(fs.readFileSync(path.join(rootDir, 'log.txt'), 'utf8')).toBe('line1\n');
+    });
+
+    test('should refuse to truncate or create files', async () => {
+      await expect(open(session.sftp, '/log.txt', 'w')).rejects.toMatchObject({ code: STATUS_PERMISSION_DENIED });
+      await expect(open(session.sftp, '/new.txt', 'a')).rejects.toMatchObject({ code: STATUS_PERMISSION_DENIED });
+
+      expect(fs.readFileSync(path.join(rootDir, 'log.txt'), 'utf8')).toBe('line1\n');
+      expect(fs.existsSync(path.join(rootDir, 'new.txt'))).toBe(false);
+    });
+
+    test('should keep the file intact when opened for writing without truncation', async () => {
+      const handle = await open(session.sftp, '/log.txt', 'a');
+      await write(session.sftp, handle, 'line2\n', 6);
+      await close(session.sftp, handle);
+
+      expect(fs.readFileSync(path.join(rootDir, 'log.txt'), 'utf8')).toBe('line1\nline2\n');
+    });
+  });
+
+  describe('Handle ownership', () => {
+    test('should reject handles of another session', async () => {
+      fs.writeFileSync(path.join(rootDir, 'shared.txt'), 'secret');
+      const owner = await connect('editor');
+      const other = await connect('editor');
+      try {
+        const handle = await open(owner.sftp, '/shared.txt', 'r');
+
+        await expect(read(other.sftp, handle, 6)).rejects.toMatchObject({ code: STATUS_FAILURE });
+        await expect(write(other.sftp, handle, 'x', 0)).rejects.toMatchObject({ code: STATUS_FAILURE });
+        await expect(close(other.sftp, handle)).rejects.toMatchObject({ code: STATUS_FAILURE });
+        expect(await read(owner.sftp, handle, 6)).toBe('secret');
+        await close(owner.sftp, handle);
+      } finally {
+        await end(owner);
+        await end(other);
+      }
+    });
+
+    test('should reject guessed file descriptor numbers', async () => {
+      const session = await connect('editor');
+      try {
+        const handle = await open(session.sftp, '/shared.txt', 'r');
+        for (let fd = 0; fd < 16; fd++) {
+          const guess = Buffer.alloc(4);
+          guess.writeUInt32BE(fd, 0);
+          await expect(read(session.sftp, guess, 6)).rejects.toMatchObject({ code: STATUS_FAILURE });
+        }
+        await close(session.sftp, handle);
+      } finally {
+        await end(session);
+      }
+    });
+
+    test('should refuse reads on handles opened for writing', async () => {
+      const session = await connect('editor');
+      try {
+        const handle = await open(session.sftp, '/write-only.txt', 'w');
+        await expect(read(session.sftp, handle, 1)).rejects.toMatchObject({ code: STATUS_PERMISSION_DENIED });
+        await close(session.sftp, handle);
+      } finally {
+        await end(session);
+      }
+    });
+  });
+
+  // Open descriptors are only observable through /proc
+  const describeWithProc = fs.existsSync('/proc/self/fd') ? describe : describe.skip;
+  describeWithProc('Session cleanup', () => {
+    test('should close handles left open when the session ends', async () => {
+      fs.writeFileSync(path.join(rootDir, 'leak.txt'), 'data');
+      const openDescriptors = () => fs.readdirSync('/proc/self/fd').length;
+      const before = openDescriptors();
+
+      const session = await connect('editor');
+      for (let i = 0; i < 5; i++) {
+        await open(session.sftp, '/leak.txt', 'r');
+      }
+      expect(openDescriptors()).toBeGreaterThanOrEqual(before + 5);
+
+      await end(session);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(openDescriptors()).toBeLessThanOrEqual(before);
+    });
+  });
+});
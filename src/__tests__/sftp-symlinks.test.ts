@@ -0,0 +1,214 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import { SymlinkPolicy, VirtualPath } from '../types';
+import { Client, SFTPWrapper } from 'ssh2';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('SFTP Symlinks (READLINK / SYMLINK)', () => {
+  let db: DatabaseManager;
+  let sftpServer: SFTPServer;
+  let testDir: string;
+  let ftpRoot: string;
+  let otherRoot: string;
+  let outsideDir: string;
+  let rootMount: VirtualPath;
+  const TEST_PORT = 22232;
+
+  const connect = (): Promise<{ conn: Client; sftp: SFTPWrapper }> => {
+    return new Promise((resolve, reject) => {
+      const conn = new Client();
+      conn.on('ready', () => {
+        conn.sftp((err, sftp) => {
+          if (err) return reject(err);
+          resolve({ conn, sftp });
+        });
+      });
+      conn.on('error', reject);
+      conn.connect({ host: '127.0.0.1', port: TEST_PORT, username: 'linkuser', password: 'linkpass' });
+    });
+  };
+
+  const disconnect = (conn: Client): Promise<void> => {
+    return new Promise((resolve) => {
+      conn.on('close', () => resolve());
+      conn.end();
+    });
+  };
+
+  // Run a single SFTP request with the root mount set to the given policy
+  const withPolicy = async <T>(policy: SymlinkPolicy, fn: (sftp: SFTPWrapper) => Promise<T>): Promise<T> => {
+    db.updateVirtualPath({ ...rootMount, symlinkPolicy: policy });
+    const { conn, sftp } = await connect();
+    try {
+      return await fn(sftp);
+    } finally {
+      await disconnect(conn);
+    }
+  };
+
+  const readlink = (sftp: SFTPWrapper, linkPath: string): Promise<{ target?: string; err?: any }> => {
+    return new Promise((resolve) => {
+      sftp.readlink(linkPath, (err, target) => resolve(err ? { err } : { target }));
+    });
+  };
+
+  const readFile = (sftp: SFTPWrapper, filePath: string): Promise<{ data?: string; err?: any }> => {
+    return new Promise((resolve) => {
+      sftp.readFile(filePath, (err, data) => resolve(err ? { err } : { data: data.toString() }));
+    });
+  };
+
+  const symlink = (sftp: SFTPWrapper, targetPath: string, linkPath: string): Promise<any> => {
+    return new Promise((resolve) => {
+      sftp.symlink(targetPath, linkPath, (err) => resolve(err));
+    });
+  };
+
+  beforeAll(async () => {
+    testDir = path.join(os.tmpdir(), `sftp-symlink-test-${Date.now()}`);
+    ftpRoot = path.join(testDir, 'ftp-root');
+    otherRoot = path.join(testDir, 'other-root');
+    outsideDir = path.join(testDir, 'outside');
+    fs.mkdirSync(path.join(ftpRoot, 'docs'), { recursive: true });
+    fs.mkdirSync(otherRoot, { recursive: true });
+    fs.mkdirSync(outsideDir, { recursive: true });
+
+    fs.writeFileSync(path.join(ftpRoot, 'docs', 'readme.txt'), 'inside');
+    fs.writeFileSync(path.join(otherRoot, 'shared.txt'), 'other mount');
+    fs.writeFileSync(path.join(outsideDir, 'secret.txt'), 'secret');
+
+    fs.symlinkSync(path.join('docs', 'readme.txt'), path.join(ftpRoot, 'inside-link'));
+    fs.symlinkSync(path.join(otherRoot, 'shared.txt'), path.join(ftpRoot, 'other-link'));
+    fs.symlinkSync(path.join(outsideDir, 'secret.txt'), path.join(ftpRoot, 'escape-link'));
+    fs.symlinkSync(outsideDir, path.join(ftpRoot, 'escape-dir'));
+
+    db = new DatabaseManager(path.join(testDir, 'test.db'));
+    await db.init();
+
+    const userId = db.createUser({
+      username: 'linkuser',
+      password: 'linkpass',
+      passwordEnabled: true,
+      guiEnabled: false
+    });
+    const listenerId = db.createListener({
+      name: 'Symlink SFTP',
+      protocol: 'SFTP',
+      bindingIp: '127.0.0.1',
+      port: TEST_PORT,
+      enabled: true
+    });
+    db.subscribeUserToListener(userId, listenerId);
+
+    const mountPermissions = {
+      canRead: true,
+      canWrite: true,
+      canAppend: true,
+      canDelete: true,
+      canList: true,
+      canCreateDir: true,
+      canRename: true
+    };
+    db.addVirtualPath({ userId, virtualPath: '/', localPath: ftpRoot, ...mountPermissions });
+    db.addVirtualPath({ userId, virtualPath: '/other', localPath: otherRoot, ...mountPermissions });
+    rootMount = db.getVirtualPaths(userId).find(vp => vp.virtualPath === '/')!;
+
+    sftpServer = new SFTPServer(db.getListener(listenerId)!, db);
+    await sftpServer.start();
+  }, 30000);
+
+  afterAll(async () => {
+    await sftpServer.stop();
+    await new Promise(resolve => setTimeout(resolve, 500));
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.join(ftpRoot, 'new-link'), { force: true });
+  });
+
+  describe('Policy Storage', () => {
+    test('should default to follow-within-mount', () => {
+      expect(rootMount.symlinkPolicy).toBe('follow-within-mount');
+    });
+
+    test('should reject unknown policies', () => {
+      expect(() => db.updateVirtualPath({ ...rootMount, symlinkPolicy: 'everything' as SymlinkPolicy })).toThrow();
+    });
+  });
+
+  describe('follow-within-mount', () => {
+    test('should read links and follow them inside the mount', async () => {
+      const result = await withPolicy('follow-within-mount', async (sftp) => ({
+        link: await readlink(sftp, '/inside-link'),
+        file: await readFile(sftp, '/inside-link')
+      }));
+
+      expect(result.link.target).toBe('docs/readme.txt');
+      expect(result.file.data).toBe('inside');
+    });
+
+    test('should reject links into another mount', async () => {
+      const result = await withPolicy('follow-within-mount', (sftp) => readFile(sftp, '/other-link'));
+      expect(result.err.code).toBe(3); // PERMISSION_DENIED
+    });
+
+    test('should create links inside the mount', async () => {
+      const err = await withPolicy('follow-within-mount', (sftp) => symlink(sftp, 'docs/readme.txt', '/new-link'));
+
+      expect(err).toBeUndefined();
+      expect(fs.readlinkSync(path.join(ftpRoot, 'new-link'))).toBe(path.join('docs', 'readme.txt'));
+    });
+  });
+
+  describe('allow', () => {
+    test('should follow links into any of the user\'s mounts', async () => {
+      const result = await withPolicy('allow', async (sftp) => ({
+        link: await readlink(sftp, '/other-link'),
+        file: await readFile(sftp, '/other-link')
+      }));
+
+      // Absolute targets are reported as virtual paths
+      expect(result.link.target).toBe('/other/shared.txt');
+      expect(result.file.data).toBe('other mount');
+    });
+  });
+
+  describe('deny', () => {
+    test('should refuse READLINK and SYMLINK', async () => {
+      const result = await withPolicy('deny', async (sftp) => ({
+        link: await readlink(sftp, '/inside-link'),
+        created: await symlink(sftp, 'docs/readme.txt', '/new-link')
+      }));
+
+      expect(result.link.err.code).toBe(3);
+      expect(result.created.code).toBe(3);
+      expect(fs.existsSync(path.join(ftpRoot, 'new-link'))).toBe(false);
+    });
+
+    test('should not follow links even inside the mount', async () => {
+      const result = await withPolicy('deny', (sftp) => readFile(sftp, '/inside-link'));
+      expect(result.err.code).toBe(3);
+    });
+  });
+
+  describe('Jail Enforcement', () => {
+    test.each<SymlinkPolicy>(['follow-within-mount', 'allow'])('should not escape the jail with policy %s', async (policy) => {
+      const result = await withPolicy(policy, async (sftp) => ({
+        link: await readlink(sftp, '/escape-link'),
+        file: await readFile(sftp, '/escape-link'),
+        nested: await readFile(sftp, '/escape-dir/secret.txt'),
+        created: await symlink(sftp, '/escape-dir/secret.txt', '/new-link')
+      }));
+
+      expect(result.link.err.code).toBe(3);
+      expect(result.file.err.code).toBe(3);
+      expect(result.nested.err.code).toBe(3);
+      expect(result.created.code).toBe(3);
+      expect(fs.existsSync(path.join(ftpRoot, 'new-link'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import {
+  SSH_ALGORITHM_PRESETS,
+  SUPPORTED_SSH_ALGORITHMS,
+  getSshAlgorithms,
+  parseSshAlgorithmSettings,
+  parseSshAlgorithms
+} from '../ssh-algorithms';
+import { Listener, SshAlgorithmProfile, SshAlgorithms } from '../types';
+import { Client, Algorithms } from 'ssh2';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('SSH Algorithm Profiles', () => {
+  const customAlgorithms: SshAlgorithms = {
+    kex: ['ecdh-sha2-nistp256'],
+    cipher: ['aes256-ctr'],
+    hmac: ['hmac-sha2-256'],
+    serverHostKey: ['ssh-ed25519'],
+    compress: ['none']
+  };
+
+  describe('Presets', () => {
+    test('should leave weak algorithms out of the modern profile', () => {
+      const modern = SSH_ALGORITHM_PRESETS.modern;
+
+      expect(modern.cipher.some(name => name.endsWith('-cbc'))).toBe(false);
+      expect(modern.hmac.some(name => name.includes('sha1') || name.includes('md5'))).toBe(false);
+      expect(modern.kex.some(name => name.endsWith('-sha1'))).toBe(false);
+      expect(modern.serverHostKey).not.toContain('ssh-rsa');
+      expect(modern.cipher.length).toBeGreaterThan(0);
+    });
+
+    test('should keep legacy algorithms in the compatible profile', () => {
+      const compatible = SSH_ALGORITHM_PRESETS.compatible;
+
+      expect(compatible.cipher).toContain('aes128-cbc');
+      expect(compatible.hmac).toContain('hmac-sha1');
+      expect(compatible.kex).toContain('diffie-hellman-group14-sha1');
+      expect(compatible.serverHostKey).toContain('ssh-rsa');
+    });
+
+    test('should resolve the algorithms of a listener', () => {
+      const listener: Listener = { name: 'l', protocol: 'SFTP', bindingIp: '127.0.0.1', port: 1, enabled: true };
+
+      expect(getSshAlgorithms(listener)).toBe(SSH_ALGORITHM_PRESETS.default);
+      expect(getSshAlgorithms({ ...listener, sshAlgorithmProfile: 'modern' })).toBe(SSH_ALGORITHM_PRESETS.modern);
+      expect(getSshAlgorithms({ ...listener, sshAlgorithmProfile: 'custom', sshAlgorithms: customAlgorithms })).toBe(customAlgorithms);
+      expect(() => getSshAlgorithms({ ...listener, sshAlgorithmProfile: 'custom' })).toThrow('none configured');
+    });
+  });
+
+  describe('Validation', () => {
+    test('should accept and tidy custom lists', () => {
+      const parsed = parseSshAlgorithms({ ...customAlgorithms, cipher: [' aes256-ctr ', 'aes128-ctr', 'aes256-ctr', ''] });
+      expect(parsed.cipher).toEqual(['aes256-ctr', 'aes128-ctr']);
+    });
+
+    test('should reject unknown, empty or unusable lists', () => {
+      expect(() => parseSshAlgorithms({ ...customAlgorithms, cipher: ['rot13'] })).toThrow('unsupported cipher algorithm rot13');
+      expect(() => parseSshAlgorithms({ ...customAlgorithms, hmac: [] })).toThrow('hmac needs at least one algorithm');
+      expect(() => parseSshAlgorithms({ ...customAlgorithms, kex: 'ecdh-sha2-nistp256' })).toThrow('kex must be a list');
+      expect(() => parseSshAlgorithms({ ...customAlgorithms, serverHostKey: ['rsa-sha2-256'] })).toThrow('serverHostKey needs');
+      expect(() => parseSshAlgorithms(null)).toThrow('Invalid SSH algorithms');
+    });
+
+    test('should check profile changes against the stored lists', () => {
+      const stored: Listener = {
+        name: 'l', protocol: 'SFTP', bindingIp: '127.0.0.1', port: 1, enabled: true,
+        sshAlgorithmProfile: 'modern', sshAlgorithms: null
+      };
+
+      expect(parseSshAlgorithmSettings({})).toEqual({});
+      expect(parseSshAlgorithmSettings({ sshAlgorithmProfile: 'compatible' }, stored)).toEqual({ sshAlgorithmProfile: 'compatible' });
+      expect(() => parseSshAlgorithmSettings({ sshAlgorithmProfile: 'strong' })).toThrow('Invalid SSH algorithm profile');
+      expect(() => parseSshAlgorithmSettings({ sshAlgorithmProfile: 'custom' }, stored)).toThrow('needs algorithm lists');
+      expect(parseSshAlgorithmSettings({ sshAlgorithmProfile: 'custom' }, { ...stored, sshAlgorithms: customAlgorithms }))
+        .toEqual({ sshAlgorithmProfile: 'custom' });
+    });
+  });
+
+  describe('Negotiation', () => {
+    let db: DatabaseManager;
+    let testDir: string;
+    const servers: SFTPServer[] = [];
+    const PASSWORD = 'algorithms-password';
+    const PORTS: Record<Exclude<SshAlgorithmProfile, 'default'>, number> = {
+      modern: 22242,
+      compatible: 22243,
+      custom: 22244
+    };
+
+    // Resolves whether the handshake and login succeeded with only the given client algorithms
+    const canConnect = (port: number, algorithms: Algorithms = {}): Promise<boolean> => {
+      return new Promise((resolve) => {
+        const conn = new Client();
+        conn.on('ready', () => {
+          conn.on('close', () => resolve(true));
+          conn.end();
+        });
+        conn.on('error', () => resolve(false));
+        conn.connect({ host: '127.0.0.1', port, username: 'algouser', password: PASSWORD, algorithms });
+      });
+    };
+
+    beforeAll(async () => {
+      testDir = path.join(os.tmpdir(), `ssh-algorithms-test-${Date.now()}`);
+      fs.mkdirSync(testDir, { recursive: true });
+
+      db = new DatabaseManager(path.join(testDir, 'test.db'));
+      await db.init();
+
+      const userId = db.createUser({ username: 'algouser', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+      db.addVirtualPath({ userId, virtualPath: '/', localPath: testDir });
+
+      for (const [profile, port] of Object.entries(PORTS) as [SshAlgorithmProfile, number][]) {
+        const listenerId = db.createListener({
+          name: `${profile} SFTP`,
+          protocol: 'SFTP',
+          bindingIp: '127.0.0.1',
+          port,
+          enabled: true,
+          sshAlgorithmProfile: profile,
+          sshAlgorithms: profile === 'custom' ? customAlgorithms : null
+        });
+        db.subscribeUserToListener(userId, listenerId);
+
+        const server = new SFTPServer(db.getListener(listenerId)!, db);
+        await server.start();
+        servers.push(server);
+      }
+    }, 60000);
+
+    afterAll(async () => {
+      for (const server of servers) {
+        await server.stop();
+      }
+      await new Promise(resolve => setTimeout(resolve, 500));
+      db.close();
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    test('should store the profile with the listener', () => {
+      const listener = db.getAllListeners().find(l => l.port === PORTS.custom)!;
+      expect(listener.sshAlgorithmProfile).toBe('custom');
+      expect(listener.sshAlgorithms).toEqual(customAlgorithms);
+    });
+
+    test('should refuse legacy clients on a modern listener', async () => {
+      expect(await canConnect(PORTS.modern)).toBe(true);
+      expect(await canConnect(PORTS.modern, { cipher: ['aes128-cbc'] })).toBe(false);
+      // AES-GCM brings its own integrity check, so MACs only matter for CTR ciphers
+      expect(await canConnect(PORTS.modern, { cipher: ['aes128-ctr'], hmac: ['hmac-sha2-256'] })).toBe(true);
+      expect(await canConnect(PORTS.modern, { cipher: ['aes128-ctr'], hmac: ['hmac-sha1'] })).toBe(false);
+      expect(await canConnect(PORTS.modern, { kex: ['diffie-hellman-group14-sha1'] })).toBe(false);
+      expect(await canConnect(PORTS.modern, { serverHostKey: ['ssh-rsa'] })).toBe(false);
+    }, 30000);
+
+    test('should accept legacy clients on a compatible listener', async () => {
+      expect(await canConnect(PORTS.compatible, {
+        kex: ['diffie-hellman-group14-sha1'],
+        cipher: ['aes128-cbc'],
+        hmac: ['hmac-sha1'],
+        serverHostKey: ['ssh-rsa']
+      })).toBe(true);
+    }, 30000);
+
+    test('should negotiate only the algorithms of a custom profile', async () => {
+      expect(await canConnect(PORTS.custom, { cipher: ['aes256-ctr'] })).toBe(true);
+      expect(await canConnect(PORTS.custom, { cipher: ['aes128-ctr'] })).toBe(false);
+      expect(await canConnect(PORTS.custom, { serverHostKey: ['ecdsa-sha2-nistp256'] })).toBe(false);
+    }, 30000);
+
+    test('should only offer supported algorithms', () => {
+      for (const category of Object.keys(SUPPORTED_SSH_ALGORITHMS) as (keyof SshAlgorithms)[]) {
+        for (const name of SSH_ALGORITHM_PRESETS.modern[category]) {
+          expect(SUPPORTED_SSH_ALGORITHMS[category]).toContain(name);
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import { base32Decode, base32Encode, generateTotp, generateTotpSecret, getOtpAuthUrl, isTotpRequired, matchTotpStep, verifyTotp, withoutTotpSecret } from '../totp';
+import { encodeQrCode, toSvg } from '../qr-code';
+import { parseAuthorizedKey } from '../user-keys';
+import { Client } from 'ssh2';
+import * as ssh2 from 'ssh2';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('TOTP Multi-Factor Authentication', () => {
+  let db: DatabaseManager;
+  let sftpServer: SFTPServer;
+  let testDir: string;
+  let dbPath: string;
+  let listenerId: number;
+  const TEST_PORT = 22236;
+  const PASSWORD = 'correct horse';
+  const secret = generateTotpSecret();
+  const serviceKeyPair = ssh2.utils.generateKeyPairSync('ed25519');
+
+  // RFC 6238 appendix B test secret ("12345678901234567890")
+  const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  // Answer keyboard-interactive prompts in order; resolves true when the login succeeds
+  const tryKeyboardLogin = (username: string, answers: string[]): Promise<boolean> => {
+    return new Promise((resolve, reject) => {
+      const conn = new Client();
+      conn.on('keyboard-interactive', (_name, _instructions, _lang, prompts, finish) => {
+        finish(prompts.map((_, i) => answers[i] || ''));
+      });
+      conn.on('ready', () => {
+        conn.on('close', () => resolve(true));
+        conn.end();
+      });
+      conn.on('error', (err: any) => {
+        if (err.level === 'client-authentication') resolve(false);
+        else reject(err);
+      });
+      conn.connect({ host: '127.0.0.1', port: TEST_PORT, username, tryKeyboard: true });
+    });
+  };
+
+  const tryLogin = (config: { username: string; password?: string; privateKey?: string }): Promise<boolean> => {
+    return new Promise((resolve, reject) => {
+      const conn = new Client();
+      conn.on('ready', () => {
+        conn.on('close', () => resolve(true));
+        conn.end();
+      });
+      conn.on('error', (err: any) => {
+        if (err.level === 'client-authentication') resolve(false);
+        else reject(err);
+      });
+      conn.connect({ host: '127.0.0.1', port: TEST_PORT, ...config });
+    });
+  };
+
+  const createUser = (username: string, mfaMode: 'disabled' | 'optional' | 'required', totpSecret: string | null): number => {
+    const userId = db.createUser({ username, password: PASSWORD, passwordEnabled: true, guiEnabled: false, mfaMode });
+    if (totpSecret) {
+      db.updateUser(username, { totpSecret });
+    }
+    db.subscribeUserToListener(userId, listenerId);
+    db.addVirtualPath({ userId, virtualPath: '/', localPath: testDir });
+    return userId;
+  };
+
+  beforeAll(async () => {
+    testDir = path.join(os.tmpdir(), `totp-test-${Date.now()}`);
+    fs.mkdirSync(testDir, { recursive: true });
+    dbPath = path.join(testDir, 'test.db');
+
+    db = new DatabaseManager(dbPath);
+    await db.init();
+
+    listenerId = db.createListener({
+      name: 'MFA SFTP',
+      protocol: 'SFTP',
+      bindingIp: '127.0.0.1',
+      port: TEST_PORT,
+      enabled: true
+    });
+
+    createUser('mfa-required', 'required', secret);
+    createUser('mfa-unenrolled', 'required', null);
+    createUser('mfa-optional', 'optional', null);
+    createUser('mfa-optional-enrolled', 'optional', secret);
+    createUser('mfa-disabled', 'disabled', null);
+
+    // Service account: MFA required but only ever logs in with a key
+    const serviceId = createUser('service', 'required', null);
+    db.updateUser('service', { passwordEnabled: false });
+    db.addUserKey({ userId: serviceId, label: 'deploy', ...parseAuthorizedKey(serviceKeyPair.public) });
+
+    sftpServer = new SFTPServer(db.getListener(listenerId)!, db);
+    await sftpServer.start();
+  }, 30000);
+
+  afterAll(async () => {
+    await sftpServer.stop();
+    await new Promise(resolve => setTimeout(resolve, 500));
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('TOTP codes', () => {
+    test('should round-trip base32', () => {
+      const data = Buffer.from('12345678901234567890');
+      expect(base32Encode(data)).toBe(RFC_SECRET);
+      expect(base32Decode(RFC_SECRET.toLowerCase())).toEqual(data);
+      expect(() => base32Decode('not base32!')).toThrow('Invalid base32 character');
+    });
+
+    test('should match the RFC 6238 test vectors', () => {
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+      expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+    });
+
+    test('should accept codes from adjacent time steps only', () => {
+      const now = 1700000000000;
+      expect(verifyTotp(secret, generateTotp(secret, now), now)).toBe(true);
+      expect(verifyTotp(secret, generateTotp(secret, now - 30000), now)).toBe(true);
+      expect(verifyTotp(secret, generateTotp(secret, now + 30000), now)).toBe(true);
+      expect(verifyTotp(secret, generateTotp(secret, now - 90000), now)).toBe(false);
+      expect(verifyTotp(secret, '12345', now)).toBe(false);
+      expect(verifyTotp(secret, '', now)).toBe(false);
+    });
+
+    test('should accept each time step only once', () => {
+      const now = 1700000000000;
+      const step = Math.floor(now / 30000);
+      expect(matchTotpStep(secret, generateTotp(secret, now), now)).toBe(step);
+      expect(matchTotpStep(secret, generateTotp(secret, now), now, step)).toBeNull();
+      expect(matchTotpStep(secret, generateTotp(secret, now - 30000), now, step - 2)).toBe(step - 1);
+      expect(matchTotpStep(secret, generateTotp(secret, now - 30000), now, step - 1)).toBeNull();
+      expect(verifyTotp(secret, generateTotp(secret, now + 30000), now, step)).toBe(true);
+    });
+
+    test('should build an otpauth URL', () => {
+      const url = getOtpAuthUrl(RFC_SECRET, 'alice');
+      expect(url).toBe(`otpauth://totp/SLightSFTP%3Aalice?secret=${RFC_SECRET}&issuer=SLightSFTP&algorithm=SHA1&digits=6&period=30`);
+    });
+
+    test('should decide per MFA mode whether a code is needed', () => {
+      expect(isTotpRequired({ username: 'a', passwordEnabled: true, guiEnabled: false, mfaMode: 'required' })).toBe(true);
+      expect(isTotpRequired({ username: 'a', passwordEnabled: true, guiEnabled: false, mfaMode: 'optional' })).toBe(false);
+      expect(isTotpRequired({ username: 'a', passwordEnabled: true, guiEnabled: false, mfaMode: 'optional', totpSecret: secret })).toBe(true);
+      expect(isTotpRequired({ username: 'a', passwordEnabled: true, guiEnabled: false, mfaMode: 'disabled', totpSecret: secret })).toBe(false);
+    });
+
+    test('should not expose the secret to the GUI', () => {
+      const user = withoutTotpSecret(db.getUser('mfa-required')!);
+      expect(user.totpSecret).toBeUndefined();
+      expect(user.totpEnrolled).toBe(true);
+      expect(withoutTotpSecret(db.getUser('mfa-optional')!).totpEnrolled).toBe(false);
+    });
+  });
+
+  describe('QR code', () => {
+    test('should pick the smallest version that fits', () => {
+      expect(encodeQrCode('hello')).toHaveLength(21);
+      expect(encodeQrCode(getOtpAuthUrl(secret, 'alice')).length).toBeGreaterThan(21);
+    });
+
+    test('should place the finder patterns', () => {
+      const matrix = encodeQrCode(getOtpAuthUrl(secret, 'alice'));
+      const size = matrix.length;
+      for (const [x, y] of [[0, 0], [size - 7, 0], [0, size - 7]]) {
+        expect(matrix[y][x]).toBe(true);
+        expect(matrix[y + 1][x + 1]).toBe(false);
+        expect(matrix[y + 3][x + 3]).toBe(true);
+      }
+    });
+
+    test('should render an SVG with a quiet zone', () => {
+      const matrix = encodeQrCode('hello');
+      const svg = toSvg(matrix, 2);
+      expect(svg).toMatch(/^<svg /);
+      expect(svg).toContain('viewBox="0 0 29 29" width="58" height="58"');
+      expect(svg).toContain('M4,4h1v1h-1z');
+    });
+  });
+
+  describe('SFTP keyboard-interactive login', () => {
+    test('should accept the password together with a valid code', async () => {
+      expect(await tryKeyboardLogin('mfa-required', [PASSWORD, generateTotp(secret)])).toBe(true);
+    });
+
+    test('should reject a wrong code', async () => {
+      const actions: string[] = [];
+      const onActivity = (activity: { action: string }) => actions.push(activity.action);
+      sftpServer.on('activity', onActivity);
+      try {
+        expect(await tryKeyboardLogin('mfa-required', [PASSWORD, '000000'])).toBe(false);
+      } finally {
+        sftpServer.off('activity', onActivity);
+      }
+      expect(actions.some(a => a.startsWith('LOGIN_FAILED (Invalid verification code)'))).toBe(true);
+    });
+
+    test('should not accept a code twice', async () => {
+      createUser('mfa-replay', 'required', secret);
+      const code = generateTotp(secret);
+      expect(await tryKeyboardLogin('mfa-replay', [PASSWORD, code])).toBe(true);
+      expect(await tryKeyboardLogin('mfa-replay', [PASSWORD, code])).toBe(false);
+      expect(db.getUser('mfa-replay')!.totpLastStep).toBeGreaterThanOrEqual(Math.floor(Date.now() / 30000) - 1);
+    });
+
+    test('should disconnect after repeated wrong codes', async () => {
+      createUser('mfa-attempts', 'required', secret);
+      const actions: string[] = [];
+      const onActivity = (activity: { action: string }) => actions.push(activity.action);
+      sftpServer.on('activity', onActivity);
+      let tries = 0;
+      let answered = 0;
+      try {
+        await new Promise<void>((resolve) => {
+          const conn = new Client();
+          conn.on('close', () => resolve());
+          conn.on('error', () => undefined);
+          conn.connect({
+            host: '127.0.0.1',
+            port: TEST_PORT,
+            username: 'mfa-attempts',
+            // Keep answering with a wrong code; stop on our own only if the server never drops us
+            authHandler: (_methods, _partial, next) => {
+              if (++tries > 5) return next(false as any);
+              next({
+                type: 'keyboard-interactive',
+                username: 'mfa-attempts',
+                prompt: (_name, _instructions, _lang, _prompts, finish) => {
+                  answered++;
+                  finish([PASSWORD, '000000']);
+                }
+              });
+            }
+          });
+        });
+      } finally {
+        sftpServer.off('activity', onActivity);
+      }
+      expect(answered).toBe(3);
+      expect(actions.filter(a => a.startsWith('LOGIN_FAILED (Invalid verification code)'))).toHaveLength(3);
+      expect(actions.some(a => a.startsWith('DISCONNECTED (Too many invalid verification codes)'))).toBe(true);
+    });
+
+    test('should reject a wrong password with a valid code', async () => {
+      expect(await tryKeyboardLogin('mfa-required', ['wrong', generateTotp(secret)])).toBe(false);
+    });
+
+    test('should refuse the plain password method when MFA is required', async () => {
+      expect(await tryLogin({ username: 'mfa-required', password: PASSWORD })).toBe(false);
+    });
+
+    test('should refuse users that must use MFA but have not enrolled', async () => {
+      expect(await tryKeyboardLogin('mfa-unenrolled', [PASSWORD, '123456'])).toBe(false);
+    });
+
+    test('should only ask for a code once an optional user has enrolled', async () => {
+      expect(await tryLogin({ username: 'mfa-optional', password: PASSWORD })).toBe(true);
+      expect(await tryKeyboardLogin('mfa-optional', [PASSWORD])).toBe(true);
+      expect(await tryLogin({ username: 'mfa-optional-enrolled', password: PASSWORD })).toBe(false);
+      expect(await tryKeyboardLogin('mfa-optional-enrolled', [PASSWORD, generateTotp(secret)])).toBe(true);
+    });
+
+    test('should leave users without MFA unaffected', async () => {
+      expect(await tryLogin({ username: 'mfa-disabled', password: PASSWORD })).toBe(true);
+    });
+
+    test('should let key-based service accounts log in without a code', async () => {
+      expect(await tryLogin({ username: 'service', privateKey: serviceKeyPair.private })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import { SFTPServer } from '../sftp-server';
+import { DatabaseManager } from '../database';
+import { getKeyRestriction, isAddressAllowed, parseAuthorizedKey, parseKeyOptions, verifyUserKeySignature } from '../user-keys';
+import { Client, SFTPWrapper } from 'ssh2';
+import * as ssh2 from 'ssh2';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('User Public Keys', () => {
+  let db: DatabaseManager;
+  let sftpServer: SFTPServer;
+  let testDir: string;
+  let dbPath: string;
+  let userId: number;
+  let restrictedUserId: number;
+  let listenerId: number;
+  const TEST_PORT = 22235;
+
+  const keyPairs = {
+    ed25519: ssh2.utils.generateKeyPairSync('ed25519', { comment: 'alice@laptop' }),
+    ecdsa: ssh2.utils.generateKeyPairSync('ecdsa', { bits: 256, comment: 'alice@desktop' }),
+    rsa: ssh2.utils.generateKeyPairSync('rsa', { bits: 2048, comment: 'alice@legacy' })
+  };
+  const unknownKeyPair = ssh2.utils.generateKeyPairSync('ed25519');
+
+  // Resolves true when the server accepts the private key, false when authentication fails
+  const tryLogin = (privateKey: string, username: string = 'keyuser'): Promise<boolean> => {
+    return new Promise((resolve, reject) => {
+      const conn = new Client();
+      conn.on('ready', () => {
+        conn.on('close', () => resolve(true));
+        conn.end();
+      });
+      conn.on('error', (err: any) => {
+        if (err.level === 'client-authentication') resolve(false);
+        else reject(err);
+      });
+      conn.connect({ host: '127.0.0.1', port: TEST_PORT, username, privateKey });
+    });
+  };
+
+  // Give the restricted user a single key with the given authorized_keys options
+  const setRestrictedKey = (options: string): string => {
+    for (const key of db.getUserKeys(restrictedUserId)) {
+      db.deleteUserKey(restrictedUserId, key.id!);
+    }
+    const keyPair = ssh2.utils.generateKeyPairSync('ed25519');
+    const entry = parseAuthorizedKey(`${options} ${keyPair.public}`);
+    db.addUserKey({ userId: restrictedUserId, label: 'restricted', ...entry });
+    return keyPair.private;
+  };
+
+  const withActivities = async (fn: () => Promise<void>): Promise<string[]> => {
+    const actions: string[] = [];
+    const onActivity = (activity: { action: string }) => actions.push(activity.action);
+    sftpServer.on('activity', onActivity);
+    try {
+      await fn();
+    } finally {
+      sftpServer.off('activity', onActivity);
+    }
+    return actions;
+  };
+
+  beforeAll(async () => {
+    testDir = path.join(os.tmpdir(), `user-keys-test-${Date.now()}`);
+    fs.mkdirSync(testDir, { recursive: true });
+    dbPath = path.join(testDir, 'test.db');
+
+    db = new DatabaseManager(dbPath);
+    await db.init();
+
+    userId = db.createUser({
+      username: 'keyuser',
+      passwordEnabled: false,
+      guiEnabled: false
+    });
+    listenerId = db.createListener({
+      name: 'Key Auth SFTP',
+      protocol: 'SFTP',
+      bindingIp: '127.0.0.1',
+      port: TEST_PORT,
+      enabled: true
+    });
+    db.subscribeUserToListener(userId, listenerId);
+    db.addVirtualPath({ userId, virtualPath: '/', localPath: testDir });
+
+    restrictedUserId = db.createUser({
+      username: 'restricted',
+      passwordEnabled: false,
+      guiEnabled: false
+    });
+    db.subscribeUserToListener(restrictedUserId, listenerId);
+    db.addVirtualPath({ userId: restrictedUserId, virtualPath: '/', localPath: testDir });
+    fs.writeFileSync(path.join(testDir, 'readme.txt'), 'hello');
+
+    for (const [label, keyPair] of Object.entries(keyPairs)) {
+      db.addUserKey({ userId, label, ...parseAuthorizedKey(keyPair.public) });
+    }
+
+    sftpServer = new SFTPServer(db.getListener(listenerId)!, db);
+    await sftpServer.start();
+  }, 30000);
+
+  afterAll(async () => {
+    await sftpServer.stop();
+    await new Promise(resolve => setTimeout(resolve, 500));
+    db.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('parseAuthorizedKey', () => {
+    test('should parse an authorized_keys line', () => {
+      const key = parseAuthorizedKey(`  ${keyPairs.ed25519.public}  `);
+
+      expect(key.publicKey).toBe(keyPairs.ed25519.public);
+      expect(key.algorithm).toBe('ssh-ed25519');
+      expect(key.comment).toBe('alice@laptop');
+      expect(key.fingerprint).toMatch(/^SHA256:[A-Za-z0-9+/]{43}$/);
+    });
+
+    test('should accept a bare base64 key blob', () => {
+      const blob = keyPairs.ecdsa.public.split(' ')[1];
+      const key = parseAuthorizedKey(blob);
+
+      expect(key.algorithm).toBe('ecdsa-sha2-nistp256');
+      expect(key.publicKey).toBe(`ecdsa-sha2-nistp256 ${blob}`);
+      expect(key.fingerprint).toBe(parseAuthorizedKey(keyPairs.ecdsa.public).fingerprint);
+    });
+
+    test('should reject private keys, garbage and multiple lines', () => {
+      expect(() => parseAuthorizedKey(keyPairs.ed25519.private)).toThrow();
+      expect(() => parseAuthorizedKey('ssh-ed25519 not-a-key')).toThrow('Invalid public key');
+      expect(() => parseAuthorizedKey(`${keyPairs.ed25519.public}\n${keyPairs.rsa.public}`)).toThrow();
+    });
+  });
+
+  describe('Signature verification', () => {
+    const data = Buffer.from('session data');
+
+    test('should reject signatures made by another key', () => {
+      const [userKey] = db.getUserKeys(userId);
+      const signature = (ssh2.utils.parseKey(unknownKeyPair.private) as ssh2.ParsedKey).sign(data);
+
+      expect(verifyUserKeySignature(userKey, data, signature as Buffer)).toBe(false);
+    });
+
+    test('should require SHA-2 signatures for RSA keys', () => {
+      const rsaKey = db.getUserKeys(userId).find(k => k.algorithm === 'ssh-rsa')!;
+      const privateKey = ssh2.utils.parseKey(keyPairs.rsa.private) as ssh2.ParsedKey;
+
+      expect(verifyUserKeySignature(rsaKey, data, privateKey.sign(data, 'sha256') as Buffer, 'sha256')).toBe(true);
+      expect(verifyUserKeySignature(rsaKey, data, privateKey.sign(data, 'sha1') as Buffer, 'sha1')).toBe(false);
+    });
+  });
+
+  describe('SFTP publickey authentication', () => {
+    test.each(Object.keys(keyPairs))('should accept a registered %s key', async (type) => {
+      const ok = await tryLogin(keyPairs[type as keyof typeof keyPairs].private);
+      expect(ok).toBe(true);
+    });
+
+    test('should reject an unregistered key', async () => {
+      const ok = await tryLogin(unknownKeyPair.private);
+      expect(ok).toBe(false);
+    });
+
+    test('should record when a key was last used', async () => {
+      const actions = await withActivities(async () => {
+        await tryLogin(keyPairs.ed25519.private);
+      });
+
+      const key = db.getUserKeys(userId).find(k => k.label === 'ed25519')!;
+      expect(key.lastUsedAt).toBeTruthy();
+      expect(actions.some(a => a.startsWith(`LOGIN (publickey ${key.fingerprint})`))).toBe(true);
+    });
+
+    test('should reject a key once it is deleted', async () => {
+      const key = db.getUserKeys(userId).find(k => k.label === 'ecdsa')!;
+      db.deleteUserKey(userId, key.id!);
+
+      expect(await tryLogin(keyPairs.ecdsa.private)).toBe(false);
+      expect(db.getUserKeys(userId)).toHaveLength(2);
+    });
+  });
+
+  describe('Key options', () => {
+    test('should parse from, expiry-time and read-only', () => {
+      const options = parseKeyOptions('from="10.0.0.0/8,!10.0.0.1,*.example.com",expiry-time="20300101Z",read-only,no-pty');
+
+      expect(options.from).toEqual(['10.0.0.0/8', '!10.0.0.1', '*.example.com']);
+      expect(options.expiryTime).toEqual(new Date(Date.UTC(2030, 0, 1)));
+      expect(options.readOnly).toBe(true);
+    });
+
+    test('should keep the options of an authorized_keys line', () => {
+      const key = parseAuthorizedKey(`from="192.168.1.0/24",read-only ${keyPairs.ed25519.public}`);
+
+      expect(key.publicKey).toBe(`from="192.168.1.0/24",read-only ${keyPairs.ed25519.public}`);
+      expect(key.algorithm).toBe('ssh-ed25519');
+      expect(key.options.from).toEqual(['192.168.1.0/24']);
+    });
+
+    test('should reject invalid options', () => {
+      expect(() => parseKeyOptions('from="10.0.0.0/33"')).toThrow('Invalid from pattern');
+      expect(() => parseKeyOptions('expiry-time="20300230"')).toThrow('Invalid expiry-time');
+      expect(() => parseKeyOptions('from="10.0.0.1')).toThrow('unterminated quote');
+      expect(() => parseKeyOptions('cert-authority')).toThrow('Unsupported key option');
+    });
+
+    test('should match addresses like OpenSSH', () => {
+      expect(isAddressAllowed(['10.0.0.0/8'], '10.1.2.3')).toBe(true);
+      expect(isAddressAllowed(['10.0.0.0/8'], '::ffff:10.1.2.3')).toBe(true);
+      expect(isAddressAllowed(['10.0.0.0/8', '!10.0.0.1'], '10.0.0.1')).toBe(false);
+      expect(isAddressAllowed(['192.168.1.*'], '192.168.1.50')).toBe(true);
+      expect(isAddressAllowed(['192.168.1.*'], '192.168.10.5')).toBe(false);
+      expect(isAddressAllowed(['2001:db8::/32'], '2001:db8::1')).toBe(true);
+    });
+
+    test('should report expired keys', () => {
+      const userKey = { userId, label: 'old', ...parseAuthorizedKey(`expiry-time="202001010000" ${keyPairs.rsa.public}`) };
+
+      expect(getKeyRestriction(userKey, '127.0.0.1', new Date(2019, 11, 31))).toBeNull();
+      expect(getKeyRestriction(userKey, '127.0.0.1')).toMatch(/^expired/);
+    });
+
+    test('should refuse a key from a disallowed source', async () => {
+      const privateKey = setRestrictedKey('from="10.0.0.0/8"');
+      let ok: boolean | undefined;
+      const actions = await withActivities(async () => {
+        ok = await tryLogin(privateKey, 'restricted');
+      });
+
+      expect(ok).toBe(false);
+      expect(actions).toContainEqual(expect.stringMatching(/^LOGIN_FAILED \(key restricted\) \[/));
+    });
+
+    test('should accept a key from an allowed source', async () => {
+      const privateKey = setRestrictedKey('from="127.0.0.0/8,::1"');
+      expect(await tryLogin(privateKey, 'restricted')).toBe(true);
+    });
+
+    test('should refuse an expired key', async () => {
+      const privateKey = setRestrictedKey('expiry-time="20200101Z"');
+      expect(await tryLogin(privateKey, 'restricted')).toBe(false);
+    });
+
+    test('should only allow reads with a read-only key', async () => {
+      const privateKey = setRestrictedKey('read-only');
+      const conn = new Client();
+      const sftp = await new Promise<SFTPWrapper>((resolve, reject) => {
+        conn.on('ready', () => conn.sftp((err, s) => err ? reject(err) : resolve(s)));
+        conn.on('error', reject);
+        conn.connect({ host: '127.0.0.1', port: TEST_PORT, username: 'restricted', privateKey });
+      });
+
+      try {
+        const content = await new Promise<Buffer>((resolve, reject) => {
+          sftp.readFile('/readme.txt', (err, data) => err ? reject(err) : resolve(data));
+        });
+        const writeError = await new Promise<any>((resolve) => {
+          sftp.writeFile('/upload.txt', 'data', resolve);
+        });
+        const removeError = await new Promise<any>((resolve) => {
+          sftp.unlink('/readme.txt', resolve);
+        });
+
+        expect(content.toString()).toBe('hello');
+        expect(writeError.code).toBe(3); // PERMISSION_DENIED
+        expect(removeError.code).toBe(3);
+        expect(fs.existsSync(path.join(testDir, 'upload.txt'))).toBe(false);
+      } finally {
+        await new Promise<void>((resolve) => {
+          conn.on('close', () => resolve());
+          conn.end();
+        });
+      }
+    });
+  });
+
+  describe('Legacy key migration', () => {
+    test('should move users.publicKey entries into user_keys', async () => {
+      const legacyPath = path.join(testDir, 'legacy.db');
+      const legacyDb = new DatabaseManager(legacyPath);
+      await legacyDb.init();
+      const legacyUserId = legacyDb.createUser({
+        username: 'legacy',
+        passwordEnabled: false,
+        publicKey: `${keyPairs.rsa.public}\n${keyPairs.ed25519.public.split(' ')[1]}`,
+        guiEnabled: false
+      });
+      legacyDb.close();
+
+      const reopened = new DatabaseManager(legacyPath);
+      await reopened.init();
+      const keys = reopened.getUserKeys(legacyUserId);
+      const user = reopened.getUser('legacy');
+      reopened.close();
+
+      expect(keys.map(k => k.algorithm)).toEqual(['ssh-rsa', 'ssh-ed25519']);
+      expect(keys.map(k => k.label)).toEqual(['alice@legacy', 'Imported key']);
+      expect(user?.publicKey).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,450 @@
+import { SFTPServer } from '../sftp-server';
+import { FTPServer } from '../ftp-server';
+import { WebServer } from '../web-server';
+import { ServerManager } from '../server-manager';
+import { DatabaseManager } from '../database';
+import { FileActivity, PermissionDeniedError, VirtualFileSystem } from '../virtual-fs';
+import { PathOutsideJailError } from '../path-jail';
+import { Permission, VirtualPath } from '../types';
+import { Client, SFTPWrapper } from 'ssh2';
+const FtpClient = require('ftp');
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('Virtual File System', () => {
+  let testDir: string;
+  let filesDir: string;
+  let privateDir: string;
+
+  const permissions = (overrides: Partial<Permission> = {}): Permission => ({
+    userId: 1,
+    listenerId: 1,
+    canRead: true,
+    canCreate: true,
+    canEdit: true,
+    canAppend: true,
+    canDelete: true,
+    canList: true,
+    canCreateDir: true,
+    canRename: true,
+    canSetAttributes: true,
+    ...overrides
+  });
+
+  // files/ is mounted at / (listing but no reading), private/ at /private (reading but no listing),
+  // which shows up in the listing of /
+  const mounts = (overrides: Partial<VirtualPath> = {}): VirtualPath[] => [
+    { userId: 1, virtualPath: '/', localPath: filesDir, canRead: false, canList: true, ...overrides },
+    { userId: 1, virtualPath: '/private', localPath: privateDir, canRead: true, canList: false }
+  ];
+
+  const recordActivity = (vfs: VirtualFileSystem): string[] => {
+    const actions: string[] = [];
+    vfs.on('activity', (activity: FileActivity) => actions.push(`${activity.action} ${activity.path}`));
+    return actions;
+  };
+
+  beforeEach(() => {
+    testDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'virtual-fs-test-')));
+    filesDir = path.join(testDir, 'files');
+    privateDir = path.join(testDir, 'private');
+    fs.mkdirSync(path.join(filesDir, 'sub'), { recursive: true });
+    fs.mkdirSync(privateDir);
+    fs.writeFileSync(path.join(filesDir, 'notes.txt'), 'notes');
+    fs.writeFileSync(path.join(privateDir, 'data.txt'), 'data');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('Permissions', () => {
+    test('should check listing against canList and reading against canRead', () => {
+      const vfs = new VirtualFileSystem(mounts());
+
+      expect(vfs.hasPermission('canList', '/')).toBe(true);
+      expect(vfs.hasPermission('canRead', '/notes.txt')).toBe(false);
+      expect(vfs.hasPermission('canList', '/private')).toBe(false);
+      expect(vfs.hasPermission('canRead', 'data.txt', '/private')).toBe(true);
+    });
+
+    test('should require both listener and mount permissions', () => {
+      const vfs = new VirtualFileSystem(mounts({ canWrite: false }), permissions({ canDelete: false }));
+
+      expect(vfs.hasPermission('canDelete', '/notes.txt')).toBe(false);
+      expect(vfs.hasPermission('canCreate', '/new.txt')).toBe(false);
+      expect(vfs.hasPermission('canRename', '/notes.txt')).toBe(true);
+      expect(vfs.hasPermission('canCreate', '/private/new.txt')).toBe(true);
+    });
+
+    test('should report operations as activity', async () => {
+      const vfs = new VirtualFileSystem(mounts());
+      const actions = recordActivity(vfs);
+
+      await vfs.list('/');
+      await vfs.openDirectory('/sub', { activity: 'OPENDIR' });
+      await expect(vfs.list('/private')).rejects.toThrow(PermissionDeniedError);
+      await expect(vfs.stat('/missing.txt')).rejects.toMatchObject({ code: 'ENOENT' });
+      await expect(vfs.createReadStream('/notes.txt')).rejects.toThrow(PermissionDeniedError);
+
+      expect(actions).toEqual([
+        'LIST /',
+        'OPENDIR /sub',
+        'LIST_DENIED /private',
+        'STAT_FAILED /missing.txt',
+        'READ_DENIED /notes.txt'
+      ]);
+    });
+  });
+
+  describe('Operations', () => {
+    test('should list directories without escaping symlinks', async () => {
+      fs.symlinkSync(path.join(testDir, 'private'), path.join(filesDir, 'outside'));
+      fs.symlinkSync('notes.txt', path.join(filesDir, 'notes-link'));
+      const vfs = new VirtualFileSystem(mounts({ symlinkPolicy: 'follow-within-mount' }));
+
+      const names = (await vfs.list('/')).map(entry => entry.name).sort();
+      expect(names).toEqual(['notes-link', 'notes.txt', 'private', 'sub']);
+      await expect(vfs.stat('/outside')).rejects.toThrow(PathOutsideJailError);
+    });
+
+    test('should not create directories while resolving paths', async () => {
+      const vfs = new VirtualFileSystem(mounts());
+
+      await expect(vfs.stat('/missing/file.txt')).rejects.toMatchObject({ code: 'ENOENT' });
+      expect(fs.existsSync(path.join(filesDir, 'missing'))).toBe(false);
+    });
+
+    test('should only append to existing files with canAppend but not canEdit', async () => {
+      const vfs = new VirtualFileSystem(mounts({ canRead: true }), permissions({ canEdit: false }));
+
+      const opened = await vfs.open('/notes.txt', { write: true });
+      expect(opened).toMatchObject({ canWrite: false, appendOnly: true });
+      await opened.file.close();
+      await expect(vfs.open('/notes.txt', { write: true, truncate: true })).rejects.toThrow(PermissionDeniedError);
+      await expect(vfs.createWriteStream('/notes.txt')).rejects.toThrow(PermissionDeniedError);
+
+      const stream = await vfs.createWriteStream('/notes.txt', { append: true });
+      await new Promise<void>((resolve, reject) => stream.end(' more', () => resolve()).on('error', reject));
+      expect(fs.readFileSync(path.join(filesDir, 'notes.txt'), 'utf8')).toBe('notes more');
+
+      const created = await vfs.open('/new.txt', { write: true, create: true });
+      expect(created).toMatchObject({ canWrite: true, appendOnly: false });
+      await created.file.close();
+    });
+
+    test('should resume writes with canAppend, and rewrite the tail only with canEdit', async () => {
+      const write = async (vfs: VirtualFileSystem, start: number, data: string) => {
+        const stream = await vfs.createWriteStream('/notes.txt', { start });
+        await new Promise<void>((resolve, reject) => stream.end(data, () => resolve()).on('error', reject));
+      };
+      const appendOnly = new VirtualFileSystem(mounts({ canRead: true }), permissions({ canEdit: false }));
+
+      await write(appendOnly, 5, ' more');
+      expect(fs.readFileSync(path.join(filesDir, 'notes.txt'), 'utf8')).toBe('notes more');
+      await expect(write(appendOnly, 5, ' less')).rejects.toThrow(PermissionDeniedError);
+      await expect(write(appendOnly, 20, 'gap')).rejects.toThrow('the file has 10 bytes');
+      await expect(appendOnly.createWriteStream('/missing.txt', { start: 5 })).rejects.toThrow('does not exist');
+
+      await expect(write(new VirtualFileSystem(mounts(), permissions({ canAppend: false })), 10, '!')).rejects.toThrow(PermissionDeniedError);
+      await write(new VirtualFileSystem(mounts()), 5, ' less');
+      expect(fs.readFileSync(path.join(filesDir, 'notes.txt'), 'utf8')).toBe('notes less');
+    });
+
+    test('should need canDelete to replace a file by renaming', async () => {
+      fs.writeFileSync(path.join(filesDir, 'other.txt'), 'other');
+      const vfs = new VirtualFileSystem(mounts(), permissions({ canDelete: false }));
+
+      await expect(vfs.rename('/other.txt', '/notes.txt')).rejects.toThrow(PermissionDeniedError);
+      await vfs.rename('/other.txt', '/sub/other.txt');
+      expect(fs.existsSync(path.join(filesDir, 'sub', 'other.txt'))).toBe(true);
+    });
+
+    test('should create one directory at a time', async () => {
+      const vfs = new VirtualFileSystem(mounts());
+
+      await expect(vfs.mkdir('/sub')).rejects.toMatchObject({ code: 'EEXIST' });
+      await expect(vfs.mkdir('/missing/new')).rejects.toMatchObject({ code: 'ENOENT' });
+      expect(fs.existsSync(path.join(filesDir, 'missing'))).toBe(false);
+      await vfs.mkdir('/sub/new');
+      expect(fs.statSync(path.join(filesDir, 'sub', 'new')).isDirectory()).toBe(true);
+    });
+
+    test('should delete files and directories by kind', async () => {
+      const vfs = new VirtualFileSystem(mounts());
+
+      await expect(vfs.delete('/sub', { kind: 'file' })).rejects.toThrow();
+      await expect(vfs.delete('/notes.txt', { kind: 'directory' })).rejects.toThrow();
+      await vfs.delete('/sub');
+      await vfs.delete('notes.txt', { cwd: '/' });
+      expect(fs.readdirSync(filesDir)).toEqual([]);
+    });
+  });
+
+  // Mounts at /inbox, /outbox and /shared/finance without a root mount: '/'
+  // and '/shared' are read-only directories listing the mount points
+  describe('Virtual root', () => {
+    let financeDir: string;
+
+    const nestedMounts = (): VirtualPath[] => [
+      { userId: 1, virtualPath: '/inbox', localPath: filesDir },
+      { userId: 1, virtualPath: '/outbox', localPath: privateDir },
+      { userId: 1, virtualPath: '/shared/finance', localPath: financeDir }
+    ];
+
+    beforeEach(() => {
+      financeDir = path.join(testDir, 'finance');
+      fs.mkdirSync(financeDir);
+      fs.writeFileSync(path.join(financeDir, 'report.txt'), 'report');
+    });
+
+    test('should list the mount points as directories', async () => {
+      const vfs = new VirtualFileSystem(nestedMounts(), permissions());
+      const actions = recordActivity(vfs);
+
+      const root = await vfs.list('/');
+      expect(root.map(entry => entry.name)).toEqual(['inbox', 'outbox', 'shared']);
+      expect(root.every(entry => entry.stats.isDirectory())).toBe(true);
+      expect((await vfs.list('/shared')).map(entry => entry.name)).toEqual(['finance']);
+      expect((await vfs.list('/shared/finance')).map(entry => entry.name)).toEqual(['report.txt']);
+      expect((await vfs.stat('/')).isDirectory()).toBe(true);
+      await expect(vfs.stat('/missing')).rejects.toThrow(PathOutsideJailError);
+
+      expect(actions).toEqual(['LIST /', 'LIST /shared', 'LIST /shared/finance', 'STAT /', 'STAT_DENIED /missing']);
+    });
+
+    test('should not change anything in virtual directories', async () => {
+      const vfs = new VirtualFileSystem(nestedMounts(), permissions());
+
+      await expect(vfs.createWriteStream('/new.txt')).rejects.toThrow();
+      await expect(vfs.mkdir('/shared/new')).rejects.toThrow();
+      await expect(vfs.rename('/inbox', '/archive')).rejects.toThrow();
+      await expect(vfs.delete('/shared')).rejects.toThrow();
+      expect(fs.readdirSync(testDir).sort()).toEqual(['files', 'finance', 'private']);
+    });
+
+    test('should list mount points inside a mounted directory', async () => {
+      const vfs = new VirtualFileSystem([
+        { userId: 1, virtualPath: '/', localPath: filesDir },
+        { userId: 1, virtualPath: '/sub/finance', localPath: financeDir },
+        { userId: 1, virtualPath: '/archive', localPath: privateDir }
+      ]);
+
+      expect((await vfs.list('/')).map(entry => entry.name).sort()).toEqual(['archive', 'notes.txt', 'sub']);
+      expect((await vfs.list('/sub')).map(entry => entry.name)).toEqual(['finance']);
+      expect((await vfs.list('/archive')).map(entry => entry.name)).toEqual(['data.txt']);
+    });
+
+    describe('Protocols', () => {
+      let db: DatabaseManager;
+      let sftpServer: SFTPServer;
+      let ftpServer: FTPServer;
+      let webServer: WebServer;
+      const SFTP_PORT = 22252;
+      const FTP_PORT = 22253;
+      const WEB_PORT = 22254;
+      const PASSWORD = 'vfs-password';
+
+      beforeEach(async () => {
+        db = new DatabaseManager(path.join(testDir, 'test.db'));
+        await db.init();
+
+        const userId = db.createUser({ username: 'rootless', password: PASSWORD, passwordEnabled: true, guiEnabled: true });
+        for (const mount of nestedMounts()) {
+          db.addVirtualPath({ ...mount, userId });
+        }
+        const sftpListenerId = db.createListener({ name: 'Root SFTP', protocol: 'SFTP', bindingIp: '127.0.0.1', port: SFTP_PORT, enabled: true });
+        const ftpListenerId = db.createListener({ name: 'Root FTP', protocol: 'FTP', bindingIp: '127.0.0.1', port: FTP_PORT, enabled: true });
+        db.subscribeUserToListener(userId, sftpListenerId);
+        db.subscribeUserToListener(userId, ftpListenerId);
+
+        sftpServer = new SFTPServer(db.getListener(sftpListenerId)!, db);
+        await sftpServer.start();
+        ftpServer = new FTPServer(db.getListener(ftpListenerId)!, db);
+        await ftpServer.start();
+        webServer = new WebServer(db, new ServerManager(db), WEB_PORT);
+        await webServer.start();
+      }, 30000);
+
+      afterEach(async () => {
+        await sftpServer.stop();
+        await ftpServer.stop();
+        await webServer.stop();
+        await new Promise(resolve => setTimeout(resolve, 500));
+        db.close();
+      });
+
+      test('should list the mount points over SFTP', async () => {
+        const conn = new Client();
+        const sftp = await new Promise<SFTPWrapper>((resolve, reject) => {
+          conn.on('ready', () => conn.sftp((err, sftp) => err ? reject(err) : resolve(sftp)));
+          conn.on('error', reject);
+          conn.connect({ host: '127.0.0.1', port: SFTP_PORT, username: 'rootless', password: PASSWORD });
+        });
+
+        try {
+          const list = (dirPath: string) => new Promise<string[]>((resolve, reject) => {
+            sftp.readdir(dirPath, (err, entries) => err ? reject(err) : resolve(entries.map(e => e.filename).sort()));
+          });
+          const realpath = (dirPath: string) => new Promise<string>((resolve, reject) => {
+            sftp.realpath(dirPath, (err, resolved) => err ? reject(err) : resolve(resolved));
+          });
+
+          expect(await realpath('.')).toBe('/');
+          expect(await list('/')).toEqual(['inbox', 'outbox', 'shared']);
+          expect(await list('/shared')).toEqual(['finance']);
+          expect(await list('/shared/finance')).toEqual(['report.txt']);
+          await expect(new Promise((resolve, reject) => {
+            sftp.writeFile('/new.txt', 'new', err => err ? reject(err) : resolve(undefined));
+          })).rejects.toMatchObject({ code: 3 });
+        } finally {
+          conn.end();
+        }
+      }, 30000);
+
+      test('should list the mount points over FTP', async () => {
+        const client = new FtpClient();
+        await new Promise<void>((resolve, reject) => {
+          client.on('ready', resolve);
+          client.on('error', reject);
+          client.connect({ host: '127.0.0.1', port: FTP_PORT, user: 'rootless', password: PASSWORD });
+        });
+
+        try {
+          const list = (dirPath: string) => new Promise<Array<{ name: string; type: string }>>((resolve, reject) => {
+            client.list(dirPath, (err: Error, entries: Array<{ name: string; type: string }>) => err ? reject(err) : resolve(entries));
+          });
+          const cwd = (dirPath: string) => new Promise<void>((resolve, reject) => {
+            client.cwd(dirPath, (err: Error) => err ? reject(err) : resolve());
+          });
+
+          const root = await list('/');
+          expect(root.map(e => e.name).sort()).toEqual(['inbox', 'outbox', 'shared']);
+          expect(root.every(e => e.type === 'd')).toBe(true);
+          await cwd('/shared');
+          expect((await list('.')).map(e => e.name)).toEqual(['finance']);
+          await cwd('finance');
+          expect((await list('.')).map(e => e.name)).toEqual(['report.txt']);
+          await cwd('/');
+          await expect(cwd('/missing')).rejects.toThrow();
+        } finally {
+          client.end();
+        }
+      }, 30000);
+
+      test('should list the mount points in the web browser', async () => {
+        const login = await fetch(`http://127.0.0.1:${WEB_PORT}/api/login`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ username: 'rootless', password: PASSWORD })
+        });
+        const cookie = login.headers.get('set-cookie')!.split(';')[0];
+
+        const response = await fetch(`http://127.0.0.1:${WEB_PORT}/api/files/browse?username=rootless&path=%2F`, {
+          headers: { cookie }
+        });
+        expect(response.status).toBe(200);
+        const body = await response.json();
+        expect(body.files).toEqual([
+          expect.objectContaining({ name: 'inbox', type: 'directory' }),
+          expect.objectContaining({ name: 'outbox', type: 'directory' }),
+          expect.objectContaining({ name: 'shared', type: 'directory' })
+        ]);
+      });
+    });
+  });
+
+  // The same user and mounts over SFTP and FTP: listing follows canList and
+  // reading canRead on both protocols
+  describe('Protocols', () => {
+    let db: DatabaseManager;
+    let sftpServer: SFTPServer;
+    let ftpServer: FTPServer;
+    const SFTP_PORT = 22250;
+    const FTP_PORT = 22251;
+    const PASSWORD = 'vfs-password';
+
+    beforeEach(async () => {
+      db = new DatabaseManager(path.join(testDir, 'test.db'));
+      await db.init();
+
+      const userId = db.createUser({ username: 'vfsuser', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+      for (const mount of mounts()) {
+        db.addVirtualPath({ ...mount, userId });
+      }
+      const sftpListenerId = db.createListener({ name: 'VFS SFTP', protocol: 'SFTP', bindingIp: '127.0.0.1', port: SFTP_PORT, enabled: true });
+      const ftpListenerId = db.createListener({ name: 'VFS FTP', protocol: 'FTP', bindingIp: '127.0.0.1', port: FTP_PORT, enabled: true });
+      db.subscribeUserToListener(userId, sftpListenerId);
+      db.subscribeUserToListener(userId, ftpListenerId);
+
+      sftpServer = new SFTPServer(db.getListener(sftpListenerId)!, db);
+      await sftpServer.start();
+      ftpServer = new FTPServer(db.getListener(ftpListenerId)!, db);
+      await ftpServer.start();
+    }, 30000);
+
+    afterEach(async () => {
+      await sftpServer.stop();
+      await ftpServer.stop();
+      await new Promise(resolve => setTimeout(resolve, 500));
+      db.close();
+    });
+
+    test('should apply the same permissions over SFTP', async () => {
+      const conn = new Client();
+      const sftp = await new Promise<SFTPWrapper>((resolve, reject) => {
+        conn.on('ready', () => conn.sftp((err, sftp) => err ? reject(err) : resolve(sftp)));
+        conn.on('error', reject);
+        conn.connect({ host: '127.0.0.1', port: SFTP_PORT, username: 'vfsuser', password: PASSWORD });
+      });
+
+      try {
+        const list = (dirPath: string) => new Promise<string[]>((resolve, reject) => {
+          sftp.readdir(dirPath, (err, entries) => err ? reject(err) : resolve(entries.map(e => e.filename).sort()));
+        });
+        const read = (filePath: string) => new Promise<string>((resolve, reject) => {
+          sftp.readFile(filePath, (err, data) => err ? reject(err) : resolve(data.toString()));
+        });
+
+        expect(await list('/')).toEqual(['notes.txt', 'private', 'sub']);
+        await expect(read('/notes.txt')).rejects.toMatchObject({ code: 3 });
+        await expect(list('/private')).rejects.toMatchObject({ code: 3 });
+        expect(await read('/private/data.txt')).toBe('data');
+      } finally {
+        conn.end();
+      }
+    }, 30000);
+
+    test('should apply the same permissions over FTP', async () => {
+      const client = new FtpClient();
+      await new Promise<void>((resolve, reject) => {
+        client.on('ready', resolve);
+        client.on('error', reject);
+        client.connect({ host: '127.0.0.1', port: FTP_PORT, user: 'vfsuser', password: PASSWORD });
+      });
+
+      try {
+        const list = (dirPath: string) => new Promise<string[]>((resolve, reject) => {
+          client.list(dirPath, (err: Error, entries: Array<{ name: string }>) => err ? reject(err) : resolve(entries.map(e => e.name).sort()));
+        });
+        const read = (filePath: string) => new Promise<string>((resolve, reject) => {
+          client.get(filePath, (err: Error, stream: NodeJS.ReadableStream) => {
+            if (err) return reject(err);
+            const chunks: Buffer[] = [];
+            stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+            stream.on('end', () => resolve(Buffer.concat(chunks).toString()));
+            stream.on('error', reject);
+          });
+        });
+
+        expect(await list('/')).toEqual(['notes.txt', 'private', 'sub']);
+        await expect(read('/notes.txt')).rejects.toThrow('Permission denied');
+        await expect(list('/private')).rejects.toThrow('Permission denied');
+        expect(await read('/private/data.txt')).toBe('data');
+      } finally {
+        client.end();
+      }
+    }, 30000);
+  });
+});
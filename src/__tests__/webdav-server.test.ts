@@ -0,0 +1,332 @@
+import { WebDAVServer } from '../webdav-server';
+import { DatabaseManager } from '../database';
+import { getSubmittedTokens, isSameOrigin, parseLockTimeout, parseWebdavSettings, parseXml, toHref, toVirtualPath } from '../webdav';
+import { Permission, ServerActivity } from '../types';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+interface DavResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebDAV', () => {
+  describe('Requests', () => {
+    test('should parse XML bodies with namespaces', () => {
+      const propfind = parseXml(`<?xml version="1.0"?>
+        <!-- a comment -->
+        <propfind xmlns="DAV:" xmlns:Z="urn:schemas-microsoft-com:">
+          <prop><getetag/><Z:Win32LastModifiedTime>Tue, 02 Jan 2024 03:04:05 GMT</Z:Win32LastModifiedTime></prop>
+          <owner><![CDATA[<me>]]> &amp; you</owner>
+        </propfind>`);
+
+      expect(propfind).toMatchObject({ name: 'propfind', namespace: 'DAV:' });
+      expect(propfind.children[0].children).toEqual([
+        { name: 'getetag', namespace: 'DAV:', children: [], text: '' },
+        { name: 'Win32LastModifiedTime', namespace: 'urn:schemas-microsoft-com:', children: [], text: 'Tue, 02 Jan 2024 03:04:05 GMT' }
+      ]);
+      expect(propfind.children[1].text).toBe('<me> & you');
+    });
+
+    test('should refuse malformed XML and document type declarations', () => {
+      expect(() => parseXml('<D:propfind xmlns:D="DAV:"><D:prop></D:propfind>')).toThrow('Malformed XML');
+      expect(() => parseXml('<x:propfind/>')).toThrow('Undeclared XML namespace prefix');
+      expect(() => parseXml('<!DOCTYPE lol [<!ENTITY lol "lol">]><propfind>&lol;</propfind>')).toThrow();
+      expect(() => parseXml('<a/><b/>')).toThrow('Malformed XML');
+    });
+
+    test('should map URLs onto virtual paths and back', () => {
+      expect(toVirtualPath('/inbox/My%20File.txt')).toBe('/inbox/My File.txt');
+      expect(toVirtualPath('http://server:8080/inbox/folder/')).toBe('/inbox/folder');
+      expect(toVirtualPath('/inbox/../../etc')).toBe('/etc');
+      expect(() => toVirtualPath('/inbox/%E0%A4%A')).toThrow('Invalid path');
+      expect(toHref('/inbox/My File.txt', false)).toBe('/inbox/My%20File.txt');
+      expect(toHref('/inbox', true)).toBe('/inbox/');
+      expect(toHref('/', true)).toBe('/');
+      expect(isSameOrigin('/inbox/copy', 'http://server:8080')).toBe(true);
+      expect(isSameOrigin('http://server:8080/inbox/copy', 'http://server:8080')).toBe(true);
+      expect(isSameOrigin('https://server:443/inbox', 'https://server')).toBe(true);
+      expect(isSameOrigin('http://other:8080/inbox/copy', 'http://server:8080')).toBe(false);
+      expect(isSameOrigin('https://server:8080/inbox/copy', 'http://server:8080')).toBe(false);
+      expect(isSameOrigin('//other/inbox/copy', 'http://server:8080')).toBe(false);
+    });
+
+    test('should read lock timeouts, tokens and settings', () => {
+      expect(parseLockTimeout('Second-600')).toBe(600);
+      expect(parseLockTimeout('Infinite, Second-4100000000')).toBe(24 * 60 * 60);
+      expect(parseLockTimeout(undefined)).toBe(60 * 60);
+      expect(getSubmittedTokens('<http://host/a> (<opaquelocktoken:1>) (Not <DAV:no-lock>)')).toEqual(['opaquelocktoken:1']);
+      expect(parseWebdavSettings({})).toEqual({});
+      expect(parseWebdavSettings({ webdavTls: 1 })).toEqual({ webdavTls: true });
+    });
+  });
+
+  describe('Server', () => {
+    let db: DatabaseManager;
+    let testDir: string;
+    let inboxDir: string;
+    let server: WebDAVServer;
+    let tlsServer: WebDAVServer;
+    let listenerId: number;
+    let tlsListenerId: number;
+    let activities: ServerActivity[];
+    const PORT = 22268;
+    const TLS_PORT = 22269;
+    const PASSWORD = 'webdav-password';
+
+    const permissions = (userId: number, overrides: Partial<Permission> = {}): Permission => ({
+      userId, listenerId, canRead: true, canCreate: true, canEdit: true, canAppend: true, canDelete: true,
+      canList: true, canCreateDir: true, canRename: true, canSetAttributes: true, ...overrides
+    });
+
+    // A request on a connection of its own, so each one logs in
+    const request = (
+      method: string,
+      url: string,
+      options: { user?: string; password?: string; headers?: http.OutgoingHttpHeaders; body?: string; tls?: boolean } = {}
+    ): Promise<DavResponse> => {
+      const { user = 'davuser', password = PASSWORD, tls = false } = options;
+      const headers: http.OutgoingHttpHeaders = { ...options.headers, Connection: 'close' };
+      if (user) {
+        headers.Authorization = `Basic ${Buffer.from(`${user}:${password}`).toString('base64')}`;
+      }
+      return new Promise((resolve, reject) => {
+        const send = tls ? https.request : http.request;
+        const req = send({
+          host: '127.0.0.1', port: tls ? TLS_PORT : PORT, method, path: url, headers, rejectUnauthorized: false
+        }, (res) => {
+          let body = '';
+          res.setEncoding('utf8');
+          res.on('data', chunk => body += chunk);
+          res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body }));
+        });
+        req.on('error', reject);
+        req.end(options.body);
+      });
+    };
+
+    const actions = () => activities.map(activity => activity.action);
+
+    beforeAll(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webdav-test-'));
+      inboxDir = path.join(testDir, 'inbox');
+      fs.mkdirSync(inboxDir);
+      fs.mkdirSync(path.join(testDir, 'outbox'));
+      fs.writeFileSync(path.join(testDir, 'outbox', 'report.txt'), 'quarterly report');
+      db = new DatabaseManager(path.join(testDir, 'test.db'));
+      await db.init();
+
+      listenerId = db.createListener({ name: 'Files', protocol: 'HTTP', bindingIp: '127.0.0.1', port: PORT, enabled: true });
+      tlsListenerId = db.createListener({ name: 'Files TLS', protocol: 'HTTP', bindingIp: '127.0.0.1', port: TLS_PORT, enabled: true, webdavTls: true });
+      const users: Array<[string, Partial<Permission>]> = [
+        ['davuser', {}],
+        ['otheruser', {}],
+        ['readonly', { canCreate: false, canEdit: false, canAppend: false, canDelete: false, canCreateDir: false, canRename: false }],
+        ['dropbox', { canRead: false, canList: false }]
+      ];
+      for (const [username, overrides] of users) {
+        const userId = db.createUser({ username, password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+        db.addVirtualPath({ userId, virtualPath: '/inbox', localPath: inboxDir, canDelete: true, canRename: true, canCreateDir: true });
+        db.addVirtualPath({ userId, virtualPath: '/outbox', localPath: path.join(testDir, 'outbox'), canWrite: false });
+        db.subscribeUserToListener(userId, listenerId);
+        db.subscribeUserToListener(userId, tlsListenerId);
+        db.setPermission(permissions(userId, overrides));
+      }
+      db.createUser({ username: 'stranger', password: PASSWORD, passwordEnabled: true, guiEnabled: false });
+
+      server = new WebDAVServer(db.getListener(listenerId)!, db);
+      server.on('activity', (activity: ServerActivity) => activities.push(activity));
+      await server.start();
+      tlsServer = new WebDAVServer(db.getListener(tlsListenerId)!, db);
+      await tlsServer.start();
+    });
+
+    beforeEach(() => {
+      activities = [];
+    });
+
+    afterAll(async () => {
+      await server.stop();
+      await tlsServer.stop();
+      db.close();
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    test('should store WebDAV listeners', () => {
+      expect(db.getListener(listenerId)).toMatchObject({ protocol: 'HTTP', webdavTls: false });
+    });
+
+    test('should ask for credentials and log failed logins', async () => {
+      const anonymous = await request('PROPFIND', '/', { user: '' });
+      expect(anonymous.status).toBe(401);
+      expect(anonymous.headers['www-authenticate']).toBe('Basic realm="Files", charset="UTF-8"');
+
+      expect((await request('PROPFIND', '/', { password: 'wrong' })).status).toBe(401);
+      expect((await request('PROPFIND', '/', { user: 'stranger' })).status).toBe(401);
+      expect(actions()).toEqual([
+        expect.stringMatching(/^LOGIN_FAILED \(Invalid password\) \[.*127\.0\.0\.1:\d+\]$/),
+        expect.stringContaining('LOGIN_FAILED (Not authorized for this listener)')
+      ]);
+
+      const options = await request('OPTIONS', '/');
+      expect(options.status).toBe(200);
+      expect(options.headers.dav).toBe('1, 2');
+      expect(options.headers.allow).toContain('PROPFIND');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(actions().slice(2)).toEqual([expect.stringMatching(/^LOGIN \(password\)/), 'LOGOUT']);
+    });
+
+    test('should keep a session for the connection of a client', async () => {
+      const agent = new http.Agent({ keepAlive: true, maxSockets: 1 });
+      const authorization = `Basic ${Buffer.from(`davuser:${PASSWORD}`).toString('base64')}`;
+      const get = () => new Promise<number>((resolve, reject) => {
+        http.get({ host: '127.0.0.1', port: PORT, path: '/outbox/report.txt', agent, headers: { Authorization: authorization } }, (res) => {
+          res.resume();
+          res.on('end', () => resolve(res.statusCode!));
+        }).on('error', reject);
+      });
+
+      try {
+        expect([await get(), await get(), await get()]).toEqual([200, 200, 200]);
+        expect(actions().filter(action => action.startsWith('LOGIN'))).toHaveLength(1);
+        const sessions = server.getActiveSessions();
+        expect(sessions).toEqual([expect.objectContaining({ username: 'davuser' })]);
+
+        expect(server.disconnectSession(sessions[0].sessionId)).toBe(true);
+        expect(server.getActiveSessions()).toEqual([]);
+        expect(actions()).toContain('LOGOUT');
+      } finally {
+        agent.destroy();
+      }
+    });
+
+    test('should upload, download and list files', async () => {
+      expect((await request('PUT', '/inbox/My%20Notes.txt', { body: 'first draft' })).status).toBe(201);
+      expect((await request('PUT', '/inbox/My%20Notes.txt', { body: 'second draft' })).status).toBe(204);
+      expect(fs.readFileSync(path.join(inboxDir, 'My Notes.txt'), 'utf8')).toBe('second draft');
+
+      const download = await request('GET', '/inbox/My%20Notes.txt');
+      expect(download).toMatchObject({ status: 200, body: 'second draft' });
+      expect(download.headers.etag).toMatch(/^"c-[0-9a-f]+"$/);
+
+      const root = await request('PROPFIND', '/', { headers: { Depth: '1' } });
+      expect(root.status).toBe(207);
+      expect(root.body.match(/<D:href>[^<]*<\/D:href>/g)).toEqual(['<D:href>/</D:href>', '<D:href>/inbox/</D:href>', '<D:href>/outbox/</D:href>']);
+
+      const file = await request('PROPFIND', '/inbox/My%20Notes.txt', {
+        headers: { Depth: '0' },
+        body: '<?xml version="1.0"?><D:propfind xmlns:D="DAV:"><D:prop><D:getcontentlength/><D:resourcetype/><X:color xmlns:X="urn:example"/></D:prop></D:propfind>'
+      });
+      expect(file.body).toContain('<D:href>/inbox/My%20Notes.txt</D:href>');
+      expect(file.body).toContain('<D:prop><D:getcontentlength>12</D:getcontentlength><D:resourcetype/></D:prop><D:status>HTTP/1.1 200 OK</D:status>');
+      expect(file.body).toContain('<D:prop><R:color xmlns:R="urn:example"/></D:prop><D:status>HTTP/1.1 404 Not Found</D:status>');
+
+      expect((await request('PROPFIND', '/', { headers: { Depth: 'infinity' } })).status).toBe(403);
+      expect((await request('PUT', '/inbox/missing/file.txt', { body: 'x' })).status).toBe(409);
+      expect((await request('GET', '/inbox/nothing.txt')).status).toBe(404);
+      expect(actions()).toEqual(expect.arrayContaining(['WRITE', 'READ', 'PROPFIND']));
+    });
+
+    test('should create, copy, move and delete collections', async () => {
+      expect((await request('MKCOL', '/inbox/project')).status).toBe(201);
+      expect((await request('MKCOL', '/inbox/project')).status).toBe(405);
+      expect((await request('MKCOL', '/inbox/a/b')).status).toBe(409);
+      await request('PUT', '/inbox/project/plan.txt', { body: 'plan' });
+
+      expect((await request('COPY', '/inbox/project', { headers: { Destination: `http://127.0.0.1:${PORT}/inbox/copy` } })).status).toBe(201);
+      expect(fs.readFileSync(path.join(inboxDir, 'copy', 'plan.txt'), 'utf8')).toBe('plan');
+      expect((await request('COPY', '/inbox/project', { headers: { Destination: '/inbox/copy', Overwrite: 'F' } })).status).toBe(412);
+      expect((await request('MOVE', '/inbox/project', { headers: { Destination: '/inbox/project/inside' } })).status).toBe(403);
+
+      expect((await request('MOVE', '/inbox/copy', { headers: { Destination: '/inbox/project' } })).status).toBe(204);
+      expect(fs.existsSync(path.join(inboxDir, 'copy'))).toBe(false);
+      expect(fs.readdirSync(path.join(inboxDir, 'project'))).toEqual(['plan.txt']);
+
+      expect((await request('DELETE', '/inbox/project')).status).toBe(204);
+      expect(fs.existsSync(path.join(inboxDir, 'project'))).toBe(false);
+      expect((await request('COPY', '/inbox/project', { headers: { Destination: 'http://elsewhere.example/inbox/copy' } })).status).toBe(502);
+      expect(fs.existsSync(path.join(inboxDir, 'copy'))).toBe(false);
+
+      expect((await request('DELETE', '/inbox')).status).toBe(403);
+      expect((await request('DELETE', '/')).status).toBe(403);
+      expect(fs.existsSync(inboxDir)).toBe(true);
+    });
+
+    test('should apply mount and listener permissions', async () => {
+      expect((await request('PUT', '/outbox/new.txt', { body: 'x' })).status).toBe(403);
+      expect((await request('GET', '/outbox/report.txt', { user: 'readonly' })).body).toBe('quarterly report');
+      expect((await request('PUT', '/inbox/readonly.txt', { user: 'readonly', body: 'x' })).status).toBe(403);
+      expect((await request('MKCOL', '/inbox/readonly', { user: 'readonly' })).status).toBe(403);
+      expect((await request('PUT', '/elsewhere.txt', { body: 'x' })).status).toBe(403);
+      expect(actions()).toEqual(expect.arrayContaining(['WRITE_DENIED', 'MKDIR_DENIED']));
+      expect(fs.existsSync(path.join(inboxDir, 'readonly.txt'))).toBe(false);
+    });
+
+    test('should only describe resources that may be listed or read', async () => {
+      expect((await request('PROPFIND', '/outbox/report.txt', { user: 'dropbox', headers: { Depth: '0' } })).status).toBe(403);
+      expect((await request('HEAD', '/outbox/report.txt', { user: 'dropbox' })).status).toBe(403);
+      expect((await request('PROPFIND', '/outbox/missing.txt', { user: 'dropbox', headers: { Depth: '0' } })).status).toBe(403);
+      expect((await request('PROPFIND', '/outbox', { user: 'dropbox', headers: { Depth: '0' } })).status).toBe(207);
+      expect((await request('PROPFIND', '/outbox/report.txt', { user: 'readonly', headers: { Depth: '0' } })).status).toBe(207);
+    });
+
+    test('should keep locked resources from being changed by others', async () => {
+      const lockinfo = '<?xml version="1.0"?><D:lockinfo xmlns:D="DAV:"><D:lockscope><D:exclusive/></D:lockscope>' +
+        '<D:locktype><D:write/></D:locktype><D:owner><D:href>davuser</D:href></D:owner></D:lockinfo>';
+      const lock = await request('LOCK', '/inbox/locked.txt', { headers: { Timeout: 'Second-600' }, body: lockinfo });
+      expect(lock.status).toBe(201);
+      expect(fs.readFileSync(path.join(inboxDir, 'locked.txt'), 'utf8')).toBe('');
+      const token = /^<(opaquelocktoken:[^>]+)>$/.exec(lock.headers['lock-token'] as string)![1];
+      expect(lock.body).toContain('<D:owner><D:href>davuser</D:href></D:owner><D:timeout>Second-600</D:timeout>');
+
+      expect((await request('LOCK', '/inbox/locked.txt', { user: 'otheruser', body: lockinfo })).status).toBe(423);
+      expect((await request('LOCK', '/inbox/locked.txt', { user: 'readonly', body: lockinfo })).status).toBe(403);
+      expect((await request('PUT', '/inbox/locked.txt', { user: 'otheruser', body: 'theirs' })).status).toBe(423);
+      expect((await request('PUT', '/inbox/locked.txt', { user: 'otheruser', headers: { If: `(<${token}>)` }, body: 'theirs' })).status).toBe(423);
+      expect((await request('PUT', '/inbox/locked.txt', { body: 'mine' })).status).toBe(423);
+      expect((await request('DELETE', '/inbox', { user: 'otheruser' })).status).toBe(423);
+
+      expect((await request('PUT', '/inbox/locked.txt', { headers: { If: `(<${token}>)` }, body: 'mine' })).status).toBe(204);
+      const refresh = await request('LOCK', '/inbox/locked.txt', { headers: { If: `(<${token}>)`, Timeout: 'Second-60' } });
+      expect(refresh.body).toContain('<D:timeout>Second-60</D:timeout>');
+      const discovery = await request('PROPFIND', '/inbox/locked.txt', { headers: { Depth: '0' } });
+      expect(discovery.body).toContain(`<D:locktoken><D:href>${token}</D:href></D:locktoken>`);
+
+      expect((await request('UNLOCK', '/inbox/locked.txt', { user: 'otheruser', headers: { 'Lock-Token': `<${token}>` } })).status).toBe(403);
+      expect((await request('UNLOCK', '/inbox/locked.txt', { headers: { 'Lock-Token': `<${token}>` } })).status).toBe(204);
+      expect((await request('PUT', '/inbox/locked.txt', { user: 'otheruser', body: 'theirs' })).status).toBe(204);
+      expect(actions()).toEqual(expect.arrayContaining(['LOCK', 'LOCK_DENIED', 'UNLOCK_DENIED', 'UNLOCK']));
+    });
+
+    test('should set Windows file times with PROPPATCH', async () => {
+      await request('PUT', '/inbox/dated.txt', { body: 'dated' });
+      const proppatch = await request('PROPPATCH', '/inbox/dated.txt', {
+        body: '<?xml version="1.0"?><D:propertyupdate xmlns:D="DAV:" xmlns:Z="urn:schemas-microsoft-com:"><D:set><D:prop>' +
+          '<Z:Win32LastModifiedTime>Tue, 02 Jan 2024 03:04:05 GMT</Z:Win32LastModifiedTime><Z:Win32FileAttributes>00000020</Z:Win32FileAttributes>' +
+          '</D:prop></D:set></D:propertyupdate>'
+      });
+      expect(proppatch.status).toBe(207);
+      expect(proppatch.body).toContain('<D:status>HTTP/1.1 200 OK</D:status>');
+      expect(fs.statSync(path.join(inboxDir, 'dated.txt')).mtime.toISOString()).toBe('2024-01-02T03:04:05.000Z');
+
+      const refused = await request('PROPPATCH', '/inbox/dated.txt', {
+        body: '<D:propertyupdate xmlns:D="DAV:" xmlns:Z="urn:schemas-microsoft-com:"><D:set><D:prop>' +
+          '<Z:Win32LastModifiedTime>Wed, 03 Jan 2024 03:04:05 GMT</Z:Win32LastModifiedTime><D:getetag>"x"</D:getetag>' +
+          '</D:prop></D:set></D:propertyupdate>'
+      });
+      expect(refused.body).toContain('<D:prop><R:Win32LastModifiedTime xmlns:R="urn:schemas-microsoft-com:"/></D:prop><D:status>HTTP/1.1 424 Failed Dependency</D:status>');
+      expect(refused.body).toContain('<D:prop><D:getetag/></D:prop><D:status>HTTP/1.1 403 Forbidden</D:status>');
+      expect(fs.statSync(path.join(inboxDir, 'dated.txt')).mtime.toISOString()).toBe('2024-01-02T03:04:05.000Z');
+    });
+
+    test('should serve HTTPS with the listener certificate', async () => {
+      const response = await request('GET', '/outbox/report.txt', { tls: true });
+      expect(response).toMatchObject({ status: 200, body: 'quarterly report' });
+      expect(db.getTlsCertificate(tlsListenerId)).toMatchObject({ source: 'generated' });
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import * as net from 'net';
+import { Listener } from './types';
+
+// Commands that make the server connect out to the client (active mode)
+const ACTIVE_MODE_COMMANDS = ['PORT', 'EPRT'];
+
+// Ports below this are where bounced data does harm (SMTP, ...), RFC 2577
+const MIN_ACTIVE_PORT = 1024;
+
+export type ActiveModeRefusal = 'disabled' | 'invalid' | 'foreign-address' | 'privileged-port';
+
+// What a refused PORT or EPRT is answered with and how it is logged
+export const ACTIVE_MODE_REFUSALS: Record<ActiveModeRefusal, { code: number; reply: string; reason: string }> = {
+  disabled: { code: 502, reply: 'Active mode is disabled, use PASV or EPSV', reason: 'Active mode disabled' },
+  invalid: { code: 501, reply: 'Syntax error in the data connection address', reason: 'Invalid address' },
+  'foreign-address': { code: 500, reply: 'Data connections are only made to your own address', reason: 'Foreign address' },
+  'privileged-port': { code: 500, reply: `Data connections are only made to ports from ${MIN_ACTIVE_PORT}`, reason: 'Privileged port' }
+};
+
+// Validate the active mode field of a listener create or update request.
+// Only fields that were given are returned.
+export function parseActiveModeSettings(settings: { allowActiveMode?: unknown }): Pick<Listener, 'allowActiveMode'> {
+  const result: Pick<Listener, 'allowActiveMode'> = {};
+  if (settings.allowActiveMode !== undefined) {
+    result.allowActiveMode = Boolean(settings.allowActiveMode);
+  }
+  return result;
+}
+
+// The address and port of a PORT (h1,h2,h3,h4,p1,p2) or EPRT (|1|ip|port|)
+// argument, or null when it is malformed
+export function parseActiveAddress(directive: string, arg: string): { host: string; port: number } | null {
+  if (directive === 'PORT') {
+    const numbers = arg.trim().split(',');
+    if (numbers.length !== 6 || !numbers.every(n => /^\d{1,3}$/.test(n) && Number(n) <= 255)) return null;
+    return { host: numbers.slice(0, 4).map(Number).join('.'), port: Number(numbers[4]) * 256 + Number(numbers[5]) };
+  }
+
+  // EPRT address families: 1 is IPv4, 2 is IPv6
+  const delimiter = arg.trim().charAt(0);
+  const [, family, host = '', port = ''] = delimiter ? arg.trim().split(delimiter) : [];
+  const version = family === '1' ? 4 : family === '2' ? 6 : null;
+  if (!version || net.isIP(host) !== version) return null;
+  if (!/^\d{1,5}$/.test(port) || Number(port) > 65535) return null;
+  return { host, port: Number(port) };
+}
+
+// Whether a command has to be refused: active mode may be disabled, and the
+// server only connects to the client itself (no FTP bounce or FXP transfers
+// to third parties), and not to privileged ports there either
+export function getActiveModeRefusal(listener: Listener, directive: string, arg: string, peerAddress: string): ActiveModeRefusal | null {
+  if (!ACTIVE_MODE_COMMANDS.includes(directive)) return null;
+  if (listener.allowActiveMode === false) return 'disabled';
+
+  const target = parseActiveAddress(directive, arg);
+  if (!target) return 'invalid';
+  if (!isSameAddress(target.host, peerAddress)) return 'foreign-address';
+  if (target.port < MIN_ACTIVE_PORT) return 'privileged-port';
+  return null;
+}
+
+// Compares IPv4 addresses with their IPv4-mapped IPv6 form too
+function isSameAddress(host: string, peerAddress: string): boolean {
+  const family = (address: string) => (net.isIP(address) === 6 ? 'ipv6' : 'ipv4');
+  if (!net.isIP(host) || !net.isIP(peerAddress)) return false;
+  const peer = new net.BlockList();
+  peer.addAddress(peerAddress, family(peerAddress));
+  return peer.check(host, family(host));
+}
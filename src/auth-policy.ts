@@ -0,0 +1,33 @@
+import { AuthPolicy, Listener, User } from './types';
+
+export type AuthFactor = 'password' | 'publickey';
+
+export const AUTH_POLICIES: AuthPolicy[] = ['any', 'password', 'publickey', 'publickey+password'];
+
+// Factors a policy insists on; 'any' is satisfied by whichever factor passed first
+const REQUIRED_FACTORS: Record<AuthPolicy, AuthFactor[]> = {
+  'any': [],
+  'password': ['password'],
+  'publickey': ['publickey'],
+  'publickey+password': ['publickey', 'password']
+};
+
+// A login has to satisfy both the user's and the listener's policy
+export function getAuthPolicies(user: User, listener: Listener): AuthPolicy[] {
+  return [user.authPolicy || 'any', listener.authPolicy || 'any'];
+}
+
+export function isFactorAllowed(policies: AuthPolicy[], factor: AuthFactor): boolean {
+  return policies.every(policy => policy === 'any' || REQUIRED_FACTORS[policy].includes(factor));
+}
+
+// Factors still needed after the given ones passed, empty once the login is complete
+export function getMissingFactors(policies: AuthPolicy[], passed: AuthFactor[]): AuthFactor[] {
+  const missing = new Set<AuthFactor>();
+  for (const policy of policies) {
+    REQUIRED_FACTORS[policy]
+      .filter(factor => !passed.includes(factor))
+      .forEach(factor => missing.add(factor));
+  }
+  return [...missing];
+}
@@ -0,0 +1,71 @@
+import { Listener } from './types';
+
+// Longest login banner or message of the day a listener accepts
+export const MAX_BANNER_LENGTH = 4096;
+
+export const BANNER_VARIABLES = ['username', 'listenerName', 'serverTime'] as const;
+
+export type BannerVariables = Record<typeof BANNER_VARIABLES[number], string>;
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+// Values for a banner of the given listener. The username stays empty before
+// login, when it is not known yet.
+export function getBannerVariables(listener: Listener, username: string = ''): BannerVariables {
+  return {
+    username,
+    listenerName: listener.name,
+    serverTime: new Date().toISOString()
+  };
+}
+
+// Fill in the {variables} of a banner template. The result uses '\n' line
+// endings and has no trailing blank lines.
+export function renderBanner(template: string, variables: BannerVariables): string {
+  return template
+    .replace(/\r\n?/g, '\n')
+    .replace(VARIABLE_PATTERN, (match, name: string) => {
+      return Object.prototype.hasOwnProperty.call(variables, name) ? variables[name as keyof BannerVariables] : match;
+    })
+    .replace(/\s+$/, '');
+}
+
+// Rendered banner lines, for protocols that send them one reply line at a time
+export function getBannerLines(template: string, variables: BannerVariables): string[] {
+  const text = renderBanner(template, variables);
+  return text ? text.split('\n') : [];
+}
+
+function parseBanner(name: string, value: unknown): string | null {
+  if (value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid ${name}: expected text`);
+  }
+  if (value.length > MAX_BANNER_LENGTH) {
+    throw new Error(`Invalid ${name}: longer than ${MAX_BANNER_LENGTH} characters`);
+  }
+  for (const [, variable] of value.matchAll(VARIABLE_PATTERN)) {
+    if (!(BANNER_VARIABLES as readonly string[]).includes(variable)) {
+      throw new Error(`Invalid ${name}: unknown variable {${variable}}`);
+    }
+  }
+  return value.trim() ? value : null;
+}
+
+// Validate the banner fields of a listener create or update request. Only
+// fields that were given are returned; empty text clears a banner.
+export function parseBannerSettings(
+  settings: { loginBanner?: unknown; motd?: unknown }
+): Pick<Listener, 'loginBanner' | 'motd'> {
+  const result: Pick<Listener, 'loginBanner' | 'motd'> = {};
+
+  if (settings.loginBanner !== undefined) {
+    result.loginBanner = parseBanner('login banner', settings.loginBanner);
+  }
+  if (settings.motd !== undefined) {
+    result.motd = parseBanner('message of the day', settings.motd);
+  }
+  return result;
+}
@@ -2,7 +2,14 @@ import initSqlJs, { Database } from 'sql.js';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import * as fs from 'fs';
-import { User, VirtualPath, Permission, Listener, UserListener, ServerActivity } from './types';
+import { User, VirtualPath, Permission, Listener, UserListener, ServerActivity, HostKey, TlsCertificate, UserKey, SymlinkPolicy } from './types';
+import { parseAuthorizedKey } from './user-keys';
+import { DEFAULT_SESSION_TIMEOUTS } from './session-timeouts';
+import { DEFAULT_HASH_SETTINGS } from './ftp-hash';
+
+// Values allowed by the CHECK constraint on listeners.protocol
+const LISTENER_PROTOCOLS: Listener['protocol'][] = ['FTP', 'FTPS', 'SFTP', 'HTTP'];
+const PROTOCOL_CHECK = `CHECK(protocol IN (${LISTENER_PROTOCOLS.map(p => `'${p}'`).join(', ')}))`;
 
 export class DatabaseManager {
   private db: Database | null = null;
@@ -52,7 +59,11 @@ export class DatabaseManager {
         passwordEnabled INTEGER NOT NULL DEFAULT 1,
         publicKey TEXT,
         guiEnabled INTEGER NOT NULL DEFAULT 0,
-        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        mfaMode TEXT NOT NULL DEFAULT 'disabled' CHECK(mfaMode IN ('disabled', 'optional', 'required')),
+        totpSecret TEXT,
+        totpLastStep INTEGER,
+        authPolicy TEXT NOT NULL DEFAULT 'any' CHECK(authPolicy IN ('any', 'password', 'publickey', 'publickey+password'))
       );
 
       CREATE TABLE IF NOT EXISTS virtual_paths (
@@ -68,17 +79,37 @@ export class DatabaseManager {
         canCreateDir INTEGER NOT NULL DEFAULT 0,
         canRename INTEGER NOT NULL DEFAULT 0,
         applyToSubdirs INTEGER NOT NULL DEFAULT 1,
+        symlinkPolicy TEXT NOT NULL DEFAULT 'follow-within-mount' CHECK(symlinkPolicy IN ('deny', 'follow-within-mount', 'allow')),
         FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
       );
 
       CREATE TABLE IF NOT EXISTS listeners (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         name TEXT UNIQUE NOT NULL,
-        protocol TEXT NOT NULL CHECK(protocol IN ('FTP', 'SFTP')),
+        protocol TEXT NOT NULL ${PROTOCOL_CHECK},
         bindingIp TEXT NOT NULL,
         port INTEGER NOT NULL,
         enabled INTEGER NOT NULL DEFAULT 1,
-        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        authPolicy TEXT NOT NULL DEFAULT 'any' CHECK(authPolicy IN ('any', 'password', 'publickey', 'publickey+password')),
+        sshAlgorithmProfile TEXT NOT NULL DEFAULT 'default' CHECK(sshAlgorithmProfile IN ('default', 'modern', 'compatible', 'custom')),
+        sshAlgorithms TEXT,
+        loginBanner TEXT,
+        motd TEXT,
+        ftpsMode TEXT NOT NULL DEFAULT 'explicit' CHECK(ftpsMode IN ('explicit', 'implicit')),
+        requireTlsLogin INTEGER NOT NULL DEFAULT 1,
+        requireTlsData INTEGER NOT NULL DEFAULT 1,
+        passivePortMin INTEGER,
+        passivePortMax INTEGER,
+        passiveAddressMode TEXT NOT NULL DEFAULT 'binding' CHECK(passiveAddressMode IN ('binding', 'external', 'auto')),
+        passiveExternalAddress TEXT,
+        allowActiveMode INTEGER NOT NULL DEFAULT 1,
+        idleTimeoutSeconds INTEGER NOT NULL DEFAULT 300,
+        maxSessionSeconds INTEGER NOT NULL DEFAULT 0,
+        authTimeoutSeconds INTEGER NOT NULL DEFAULT 60,
+        hashAlgorithm TEXT NOT NULL DEFAULT 'sha256' CHECK(hashAlgorithm IN ('sha256', 'sha1', 'md5', 'crc32')),
+        hashMaxBytes INTEGER NOT NULL DEFAULT 0,
+        webdavTls INTEGER NOT NULL DEFAULT 0
       );
 
       CREATE TABLE IF NOT EXISTS permissions (
@@ -93,6 +124,7 @@ export class DatabaseManager {
         canList INTEGER NOT NULL DEFAULT 1,
         canCreateDir INTEGER NOT NULL DEFAULT 1,
         canRename INTEGER NOT NULL DEFAULT 1,
+        canSetAttributes INTEGER NOT NULL DEFAULT 0,
         FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
         FOREIGN KEY (listenerId) REFERENCES listeners(id) ON DELETE CASCADE,
         UNIQUE(userId, listenerId)
@@ -118,6 +150,47 @@ export class DatabaseManager {
         FOREIGN KEY (listenerId) REFERENCES listeners(id) ON DELETE CASCADE
       );
 
+      CREATE TABLE IF NOT EXISTS host_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        listenerId INTEGER NOT NULL,
+        keyType TEXT NOT NULL,
+        algorithm TEXT NOT NULL,
+        privateKey TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (listenerId) REFERENCES listeners(id) ON DELETE CASCADE,
+        UNIQUE(listenerId, keyType)
+      );
+
+      CREATE TABLE IF NOT EXISTS tls_certificates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        listenerId INTEGER NOT NULL UNIQUE,
+        source TEXT NOT NULL CHECK(source IN ('generated', 'pem', 'pfx')),
+        certificate TEXT NOT NULL,
+        privateKey TEXT,
+        pfx TEXT,
+        passphrase TEXT,
+        subject TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        validFrom TEXT NOT NULL,
+        validTo TEXT NOT NULL,
+        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (listenerId) REFERENCES listeners(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS user_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER NOT NULL,
+        label TEXT NOT NULL,
+        publicKey TEXT NOT NULL,
+        algorithm TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        lastUsedAt TEXT,
+        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE(userId, fingerprint)
+      );
+
       CREATE TABLE IF NOT EXISTS settings (
         key TEXT PRIMARY KEY,
         value TEXT NOT NULL
@@ -127,26 +200,119 @@ export class DatabaseManager {
       CREATE INDEX IF NOT EXISTS idx_activities_timestamp ON server_activities(timestamp);
     `);
 
+    // Columns added after the initial schema (for databases created by older versions)
+    if (this.addColumnIfMissing('permissions', 'canSetAttributes', 'INTEGER NOT NULL DEFAULT 0')) {
+      // Existing rows may change attributes only where they could already edit files
+      this.db.run('UPDATE permissions SET canSetAttributes = canEdit');
+    }
+    this.addColumnIfMissing('users', 'mfaMode', "TEXT NOT NULL DEFAULT 'disabled' CHECK(mfaMode IN ('disabled', 'optional', 'required'))");
+    this.addColumnIfMissing('users', 'totpSecret', 'TEXT');
+    this.addColumnIfMissing('users', 'totpLastStep', 'INTEGER');
+    this.addColumnIfMissing('users', 'authPolicy', "TEXT NOT NULL DEFAULT 'any' CHECK(authPolicy IN ('any', 'password', 'publickey', 'publickey+password'))");
+    this.addColumnIfMissing('listeners', 'authPolicy', "TEXT NOT NULL DEFAULT 'any' CHECK(authPolicy IN ('any', 'password', 'publickey', 'publickey+password'))");
+    this.addColumnIfMissing('listeners', 'sshAlgorithmProfile', "TEXT NOT NULL DEFAULT 'default' CHECK(sshAlgorithmProfile IN ('default', 'modern', 'compatible', 'custom'))");
+    this.addColumnIfMissing('listeners', 'sshAlgorithms', 'TEXT');
+    this.addColumnIfMissing('listeners', 'loginBanner', 'TEXT');
+    this.addColumnIfMissing('listeners', 'motd', 'TEXT');
+    this.addColumnIfMissing('listeners', 'ftpsMode', "TEXT NOT NULL DEFAULT 'explicit' CHECK(ftpsMode IN ('explicit', 'implicit'))");
+    this.addColumnIfMissing('listeners', 'requireTlsLogin', 'INTEGER NOT NULL DEFAULT 1');
+    this.addColumnIfMissing('listeners', 'requireTlsData', 'INTEGER NOT NULL DEFAULT 1');
+    this.addColumnIfMissing('listeners', 'passivePortMin', 'INTEGER');
+    this.addColumnIfMissing('listeners', 'passivePortMax', 'INTEGER');
+    this.addColumnIfMissing('listeners', 'passiveAddressMode', "TEXT NOT NULL DEFAULT 'binding' CHECK(passiveAddressMode IN ('binding', 'external', 'auto'))");
+    this.addColumnIfMissing('listeners', 'passiveExternalAddress', 'TEXT');
+    this.addColumnIfMissing('listeners', 'allowActiveMode', 'INTEGER NOT NULL DEFAULT 1');
+    this.addColumnIfMissing('listeners', 'idleTimeoutSeconds', 'INTEGER NOT NULL DEFAULT 300');
+    this.addColumnIfMissing('listeners', 'maxSessionSeconds', 'INTEGER NOT NULL DEFAULT 0');
+    this.addColumnIfMissing('listeners', 'authTimeoutSeconds', 'INTEGER NOT NULL DEFAULT 60');
+    this.addColumnIfMissing('listeners', 'hashAlgorithm', "TEXT NOT NULL DEFAULT 'sha256' CHECK(hashAlgorithm IN ('sha256', 'sha1', 'md5', 'crc32'))");
+    this.addColumnIfMissing('listeners', 'hashMaxBytes', 'INTEGER NOT NULL DEFAULT 0');
+    this.addColumnIfMissing('listeners', 'webdavTls', 'INTEGER NOT NULL DEFAULT 0');
+    this.addColumnIfMissing('virtual_paths', 'symlinkPolicy', "TEXT NOT NULL DEFAULT 'follow-within-mount' CHECK(symlinkPolicy IN ('deny', 'follow-within-mount', 'allow'))");
+
+    this.migrateListenerProtocols();
+    this.migrateLegacyPublicKeys();
+
     // Set default settings
     this.db.run(`INSERT OR IGNORE INTO settings (key, value) VALUES ('logRetentionDays', '30')`);
 
     this.db.run('PRAGMA foreign_keys = ON');
   }
 
+  private addColumnIfMissing(table: string, column: string, definition: string): boolean {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = this.db.exec(`PRAGMA table_info(${table})`);
+    const columns = result.length > 0 ? result[0].values.map(row => row[1] as string) : [];
+    if (columns.includes(column)) return false;
+    this.db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
+
+  // Older versions only allowed some protocols in listeners.protocol. SQLite
+  // cannot change a CHECK constraint, so the table is rebuilt from its own
+  // definition (foreign keys are not enforced yet at this point).
+  private migrateListenerProtocols(): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'listeners'");
+    const definition = result[0].values[0][0] as string;
+    if (definition.includes(PROTOCOL_CHECK)) return;
+
+    const columns = this.db.exec('PRAGMA table_info(listeners)')[0].values.map(row => row[1] as string).join(', ');
+    const rebuilt = definition
+      .replace(/CHECK\s*\(\s*protocol\s+IN\s*\([^)]*\)\s*\)/i, PROTOCOL_CHECK)
+      .replace(/^CREATE TABLE\s+("?)listeners\1/i, 'CREATE TABLE listeners_new');
+    this.db.run(`
+      BEGIN;
+      ${rebuilt};
+      INSERT INTO listeners_new (${columns}) SELECT ${columns} FROM listeners;
+      DROP TABLE listeners;
+      ALTER TABLE listeners_new RENAME TO listeners;
+      COMMIT;
+    `);
+  }
+
+  // Older versions kept a single key per user in users.publicKey - move those into user_keys
+  private migrateLegacyPublicKeys(): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = this.db.exec("SELECT id, username, publicKey FROM users WHERE publicKey IS NOT NULL AND publicKey != ''");
+    if (result.length === 0) return;
+
+    for (const [userId, username, publicKey] of result[0].values) {
+      for (const line of (publicKey as string).split('\n').filter(l => l.trim())) {
+        try {
+          const key = parseAuthorizedKey(line);
+          this.db.run(`
+            INSERT OR IGNORE INTO user_keys (userId, label, publicKey, algorithm, fingerprint)
+            VALUES (?, ?, ?, ?, ?)
+          `, [userId, key.comment || 'Imported key', key.publicKey, key.algorithm, key.fingerprint]);
+        } catch (error: any) {
+          console.warn(`Skipping invalid public key of user '${username}': ${error.message}`);
+        }
+      }
+      this.db.run('UPDATE users SET publicKey = NULL WHERE id = ?', [userId]);
+    }
+  }
+
   // User operations
   createUser(user: User): number {
     if (!this.db) throw new Error('Database not initialized');
     
     const hashedPassword = user.password ? this.hashPassword(user.password) : null;
     this.db.run(`
-      INSERT INTO users (username, password, passwordEnabled, publicKey, guiEnabled)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO users (username, password, passwordEnabled, publicKey, guiEnabled, mfaMode, totpSecret, authPolicy)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       user.username,
       hashedPassword,
       user.passwordEnabled ? 1 : 0,
       user.publicKey || null,
-      user.guiEnabled ? 1 : 0
+      user.guiEnabled ? 1 : 0,
+      user.mfaMode || 'disabled',
+      user.totpSecret || null,
+      user.authPolicy || 'any'
     ]);
     
     const result = this.db.exec('SELECT last_insert_rowid() as id');
@@ -194,6 +360,18 @@ export class DatabaseManager {
       updates.push('guiEnabled = ?');
       values.push(user.guiEnabled ? 1 : 0);
     }
+    if (user.mfaMode !== undefined) {
+      updates.push('mfaMode = ?');
+      values.push(user.mfaMode);
+    }
+    if (user.totpSecret !== undefined) {
+      updates.push('totpSecret = ?');
+      values.push(user.totpSecret || null);
+    }
+    if (user.authPolicy !== undefined) {
+      updates.push('authPolicy = ?');
+      values.push(user.authPolicy);
+    }
 
     if (updates.length === 0) return;
 
@@ -202,6 +380,14 @@ export class DatabaseManager {
     this.save();
   }
 
+  // Remember the time step of an accepted verification code so it cannot be replayed
+  setTotpLastStep(username: string, step: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db.run('UPDATE users SET totpLastStep = ? WHERE username = ?', [step, username]);
+    this.save();
+  }
+
   deleteUser(username: string): void {
     if (!this.db) throw new Error('Database not initialized');
     
@@ -220,8 +406,8 @@ export class DatabaseManager {
     if (!this.db) throw new Error('Database not initialized');
     
     this.db.run(`
-      INSERT INTO virtual_paths (userId, virtualPath, localPath, canRead, canWrite, canAppend, canDelete, canList, canCreateDir, canRename, applyToSubdirs)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO virtual_paths (userId, virtualPath, localPath, canRead, canWrite, canAppend, canDelete, canList, canCreateDir, canRename, applyToSubdirs, symlinkPolicy)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [vpath.userId, vpath.virtualPath, vpath.localPath, 
         vpath.canRead !== false ? 1 : 0,
         vpath.canWrite !== false ? 1 : 0,
@@ -230,7 +416,8 @@ export class DatabaseManager {
         vpath.canList !== false ? 1 : 0,
         vpath.canCreateDir || false ? 1 : 0,
         vpath.canRename || false ? 1 : 0,
-        vpath.applyToSubdirs !== false ? 1 : 0]);
+        vpath.applyToSubdirs !== false ? 1 : 0,
+        vpath.symlinkPolicy || 'follow-within-mount']);
     
     const result = this.db.exec('SELECT last_insert_rowid() as id');
     this.save();
@@ -255,7 +442,8 @@ export class DatabaseManager {
       canList: (row[8] as number) === 1,
       canCreateDir: (row[9] as number) === 1,
       canRename: (row[10] as number) === 1,
-      applyToSubdirs: (row[11] as number) === 1
+      applyToSubdirs: (row[11] as number) === 1,
+      symlinkPolicy: row[12] as SymlinkPolicy
     }));
   }
 
@@ -266,7 +454,8 @@ export class DatabaseManager {
     this.db.run(`
       UPDATE virtual_paths 
       SET virtualPath = ?, localPath = ?, canRead = ?, canWrite = ?, canAppend = ?, 
-          canDelete = ?, canList = ?, canCreateDir = ?, canRename = ?, applyToSubdirs = ?
+          canDelete = ?, canList = ?, canCreateDir = ?, canRename = ?, applyToSubdirs = ?,
+          symlinkPolicy = ?
       WHERE id = ?
     `, [vpath.virtualPath, vpath.localPath,
         vpath.canRead !== false ? 1 : 0,
@@ -277,6 +466,7 @@ export class DatabaseManager {
         vpath.canCreateDir || false ? 1 : 0,
         vpath.canRename || false ? 1 : 0,
         vpath.applyToSubdirs !== false ? 1 : 0,
+        vpath.symlinkPolicy || 'follow-within-mount',
         vpath.id]);
     this.save();
   }
@@ -293,14 +483,35 @@ export class DatabaseManager {
     if (!this.db) throw new Error('Database not initialized');
     
     this.db.run(`
-      INSERT INTO listeners (name, protocol, bindingIp, port, enabled)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO listeners (name, protocol, bindingIp, port, enabled, authPolicy, sshAlgorithmProfile, sshAlgorithms, loginBanner, motd,
+        ftpsMode, requireTlsLogin, requireTlsData, passivePortMin, passivePortMax, passiveAddressMode, passiveExternalAddress, allowActiveMode,
+        idleTimeoutSeconds, maxSessionSeconds, authTimeoutSeconds, hashAlgorithm, hashMaxBytes, webdavTls)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       listener.name,
       listener.protocol,
       listener.bindingIp,
       listener.port,
-      listener.enabled ? 1 : 0
+      listener.enabled ? 1 : 0,
+      listener.authPolicy || 'any',
+      listener.sshAlgorithmProfile || 'default',
+      listener.sshAlgorithms ? JSON.stringify(listener.sshAlgorithms) : null,
+      listener.loginBanner || null,
+      listener.motd || null,
+      listener.ftpsMode || 'explicit',
+      listener.requireTlsLogin !== false ? 1 : 0,
+      listener.requireTlsData !== false ? 1 : 0,
+      listener.passivePortMin ?? null,
+      listener.passivePortMax ?? null,
+      listener.passiveAddressMode || 'binding',
+      listener.passiveExternalAddress || null,
+      listener.allowActiveMode !== false ? 1 : 0,
+      listener.idleTimeoutSeconds ?? DEFAULT_SESSION_TIMEOUTS.idleTimeoutSeconds,
+      listener.maxSessionSeconds ?? DEFAULT_SESSION_TIMEOUTS.maxSessionSeconds,
+      listener.authTimeoutSeconds ?? DEFAULT_SESSION_TIMEOUTS.authTimeoutSeconds,
+      listener.hashAlgorithm || DEFAULT_HASH_SETTINGS.hashAlgorithm,
+      listener.hashMaxBytes ?? DEFAULT_HASH_SETTINGS.hashMaxBytes,
+      listener.webdavTls ? 1 : 0
     ]);
     
     const result = this.db.exec('SELECT last_insert_rowid() as id');
@@ -352,6 +563,82 @@ export class DatabaseManager {
       updates.push('enabled = ?');
       values.push(listener.enabled ? 1 : 0);
     }
+    if (listener.authPolicy !== undefined) {
+      updates.push('authPolicy = ?');
+      values.push(listener.authPolicy);
+    }
+    if (listener.sshAlgorithmProfile !== undefined) {
+      updates.push('sshAlgorithmProfile = ?');
+      values.push(listener.sshAlgorithmProfile);
+    }
+    if (listener.sshAlgorithms !== undefined) {
+      updates.push('sshAlgorithms = ?');
+      values.push(listener.sshAlgorithms ? JSON.stringify(listener.sshAlgorithms) : null);
+    }
+    if (listener.loginBanner !== undefined) {
+      updates.push('loginBanner = ?');
+      values.push(listener.loginBanner || null);
+    }
+    if (listener.motd !== undefined) {
+      updates.push('motd = ?');
+      values.push(listener.motd || null);
+    }
+    if (listener.ftpsMode !== undefined) {
+      updates.push('ftpsMode = ?');
+      values.push(listener.ftpsMode);
+    }
+    if (listener.requireTlsLogin !== undefined) {
+      updates.push('requireTlsLogin = ?');
+      values.push(listener.requireTlsLogin ? 1 : 0);
+    }
+    if (listener.requireTlsData !== undefined) {
+      updates.push('requireTlsData = ?');
+      values.push(listener.requireTlsData ? 1 : 0);
+    }
+    if (listener.passivePortMin !== undefined) {
+      updates.push('passivePortMin = ?');
+      values.push(listener.passivePortMin ?? null);
+    }
+    if (listener.passivePortMax !== undefined) {
+      updates.push('passivePortMax = ?');
+      values.push(listener.passivePortMax ?? null);
+    }
+    if (listener.passiveAddressMode !== undefined) {
+      updates.push('passiveAddressMode = ?');
+      values.push(listener.passiveAddressMode);
+    }
+    if (listener.passiveExternalAddress !== undefined) {
+      updates.push('passiveExternalAddress = ?');
+      values.push(listener.passiveExternalAddress || null);
+    }
+    if (listener.allowActiveMode !== undefined) {
+      updates.push('allowActiveMode = ?');
+      values.push(listener.allowActiveMode ? 1 : 0);
+    }
+    if (listener.idleTimeoutSeconds !== undefined) {
+      updates.push('idleTimeoutSeconds = ?');
+      values.push(listener.idleTimeoutSeconds);
+    }
+    if (listener.maxSessionSeconds !== undefined) {
+      updates.push('maxSessionSeconds = ?');
+      values.push(listener.maxSessionSeconds);
+    }
+    if (listener.authTimeoutSeconds !== undefined) {
+      updates.push('authTimeoutSeconds = ?');
+      values.push(listener.authTimeoutSeconds);
+    }
+    if (listener.hashAlgorithm !== undefined) {
+      updates.push('hashAlgorithm = ?');
+      values.push(listener.hashAlgorithm);
+    }
+    if (listener.hashMaxBytes !== undefined) {
+      updates.push('hashMaxBytes = ?');
+      values.push(listener.hashMaxBytes);
+    }
+    if (listener.webdavTls !== undefined) {
+      updates.push('webdavTls = ?');
+      values.push(listener.webdavTls ? 1 : 0);
+    }
 
     if (updates.length === 0) return;
 
@@ -367,6 +654,122 @@ export class DatabaseManager {
     this.save();
   }
 
+  // Host key operations
+  saveHostKey(hostKey: HostKey): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    // One key per type and listener - importing a key replaces the existing one
+    this.db.run(`
+      INSERT OR REPLACE INTO host_keys (listenerId, keyType, algorithm, privateKey, fingerprint)
+      VALUES (?, ?, ?, ?, ?)
+    `, [
+      hostKey.listenerId,
+      hostKey.keyType,
+      hostKey.algorithm,
+      hostKey.privateKey,
+      hostKey.fingerprint
+    ]);
+    this.save();
+  }
+
+  getHostKeys(listenerId: number): HostKey[] {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = this.db.exec('SELECT * FROM host_keys WHERE listenerId = ? ORDER BY id', [listenerId]);
+    if (result.length === 0) return [];
+    
+    return result[0].values.map(row => this.mapHostKeyFromRow(result[0].columns, row));
+  }
+
+  deleteHostKeys(listenerId: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    this.db.run('DELETE FROM host_keys WHERE listenerId = ?', [listenerId]);
+    this.save();
+  }
+
+  // TLS certificate operations
+  saveTlsCertificate(certificate: TlsCertificate): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    // One certificate per listener - importing one replaces the existing one
+    this.db.run(`
+      INSERT OR REPLACE INTO tls_certificates (listenerId, source, certificate, privateKey, pfx, passphrase, subject, fingerprint, validFrom, validTo)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      certificate.listenerId,
+      certificate.source,
+      certificate.certificate,
+      certificate.privateKey,
+      certificate.pfx,
+      certificate.passphrase,
+      certificate.subject,
+      certificate.fingerprint,
+      certificate.validFrom,
+      certificate.validTo
+    ]);
+    this.save();
+  }
+
+  getTlsCertificate(listenerId: number): TlsCertificate | undefined {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = this.db.exec('SELECT * FROM tls_certificates WHERE listenerId = ?', [listenerId]);
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    
+    return this.mapTlsCertificateFromRow(result[0].columns, result[0].values[0]);
+  }
+
+  deleteTlsCertificate(listenerId: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    this.db.run('DELETE FROM tls_certificates WHERE listenerId = ?', [listenerId]);
+    this.save();
+  }
+
+  // User key operations
+  addUserKey(userKey: UserKey): number {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    this.db.run(`
+      INSERT INTO user_keys (userId, label, publicKey, algorithm, fingerprint)
+      VALUES (?, ?, ?, ?, ?)
+    `, [
+      userKey.userId,
+      userKey.label,
+      userKey.publicKey,
+      userKey.algorithm,
+      userKey.fingerprint
+    ]);
+    
+    const result = this.db.exec('SELECT last_insert_rowid() as id');
+    this.save();
+    return result[0].values[0][0] as number;
+  }
+
+  getUserKeys(userId: number): UserKey[] {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = this.db.exec('SELECT * FROM user_keys WHERE userId = ? ORDER BY id', [userId]);
+    if (result.length === 0) return [];
+    
+    return result[0].values.map(row => this.mapUserKeyFromRow(result[0].columns, row));
+  }
+
+  deleteUserKey(userId: number, id: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    this.db.run('DELETE FROM user_keys WHERE id = ? AND userId = ?', [id, userId]);
+    this.save();
+  }
+
+  touchUserKey(id: number): void {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    this.db.run('UPDATE user_keys SET lastUsedAt = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+    this.save();
+  }
+
   // Permission operations
   setPermission(permission: Permission): void {
     if (!this.db) throw new Error('Database not initialized');
@@ -382,7 +785,7 @@ export class DatabaseManager {
       this.db.run(`
         UPDATE permissions SET
           canRead = ?, canCreate = ?, canEdit = ?, canAppend = ?, canDelete = ?,
-          canList = ?, canCreateDir = ?, canRename = ?
+          canList = ?, canCreateDir = ?, canRename = ?, canSetAttributes = COALESCE(?, canSetAttributes)
         WHERE userId = ? AND listenerId = ?
       `, [
         permission.canRead ? 1 : 0,
@@ -393,14 +796,16 @@ export class DatabaseManager {
         permission.canList ? 1 : 0,
         permission.canCreateDir ? 1 : 0,
         permission.canRename ? 1 : 0,
+        // Kept as stored when not given
+        permission.canSetAttributes === undefined ? null : permission.canSetAttributes ? 1 : 0,
         permission.userId,
         permission.listenerId
       ]);
     } else {
       // Insert
       this.db.run(`
-        INSERT INTO permissions (userId, listenerId, canRead, canCreate, canEdit, canAppend, canDelete, canList, canCreateDir, canRename)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO permissions (userId, listenerId, canRead, canCreate, canEdit, canAppend, canDelete, canList, canCreateDir, canRename, canSetAttributes)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         permission.userId,
         permission.listenerId,
@@ -411,7 +816,8 @@ export class DatabaseManager {
         permission.canDelete ? 1 : 0,
         permission.canList ? 1 : 0,
         permission.canCreateDir ? 1 : 0,
-        permission.canRename ? 1 : 0
+        permission.canRename ? 1 : 0,
+        permission.canSetAttributes ? 1 : 0
       ]);
     }
     
@@ -634,6 +1040,10 @@ export class DatabaseManager {
       passwordEnabled: obj.passwordEnabled === 1,
       publicKey: obj.publicKey,
       guiEnabled: obj.guiEnabled === 1,
+      mfaMode: obj.mfaMode,
+      totpSecret: obj.totpSecret,
+      totpLastStep: obj.totpLastStep ?? null,
+      authPolicy: obj.authPolicy,
       createdAt: obj.createdAt
     };
   }
@@ -649,10 +1059,80 @@ export class DatabaseManager {
       bindingIp: obj.bindingIp,
       port: obj.port,
       enabled: obj.enabled === 1,
+      authPolicy: obj.authPolicy,
+      sshAlgorithmProfile: obj.sshAlgorithmProfile,
+      sshAlgorithms: obj.sshAlgorithms ? JSON.parse(obj.sshAlgorithms) : null,
+      loginBanner: obj.loginBanner,
+      motd: obj.motd,
+      ftpsMode: obj.ftpsMode,
+      requireTlsLogin: obj.requireTlsLogin === 1,
+      requireTlsData: obj.requireTlsData === 1,
+      passivePortMin: obj.passivePortMin ?? null,
+      passivePortMax: obj.passivePortMax ?? null,
+      passiveAddressMode: obj.passiveAddressMode,
+      passiveExternalAddress: obj.passiveExternalAddress ?? null,
+      allowActiveMode: obj.allowActiveMode === 1,
+      idleTimeoutSeconds: obj.idleTimeoutSeconds,
+      maxSessionSeconds: obj.maxSessionSeconds,
+      authTimeoutSeconds: obj.authTimeoutSeconds,
+      hashAlgorithm: obj.hashAlgorithm,
+      hashMaxBytes: obj.hashMaxBytes,
+      webdavTls: obj.webdavTls === 1,
+      createdAt: obj.createdAt
+    };
+  }
+
+  private mapHostKeyFromRow(columns: string[], row: any[]): HostKey {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    
+    return {
+      id: obj.id,
+      listenerId: obj.listenerId,
+      keyType: obj.keyType,
+      algorithm: obj.algorithm,
+      privateKey: obj.privateKey,
+      fingerprint: obj.fingerprint,
       createdAt: obj.createdAt
     };
   }
 
+  private mapTlsCertificateFromRow(columns: string[], row: any[]): TlsCertificate {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    
+    return {
+      id: obj.id,
+      listenerId: obj.listenerId,
+      source: obj.source,
+      certificate: obj.certificate,
+      privateKey: obj.privateKey,
+      pfx: obj.pfx,
+      passphrase: obj.passphrase,
+      subject: obj.subject,
+      fingerprint: obj.fingerprint,
+      validFrom: obj.validFrom,
+      validTo: obj.validTo,
+      createdAt: obj.createdAt
+    };
+  }
+
+  private mapUserKeyFromRow(columns: string[], row: any[]): UserKey {
+    const obj: any = {};
+    columns.forEach((col, i) => obj[col] = row[i]);
+    
+    return {
+      id: obj.id,
+      userId: obj.userId,
+      label: obj.label,
+      publicKey: obj.publicKey,
+      algorithm: obj.algorithm,
+      fingerprint: obj.fingerprint,
+      createdAt: obj.createdAt,
+      lastUsedAt: obj.lastUsedAt
+    };
+  }
+
   private mapPermissionFromRow(columns: string[], row: any[]): Permission {
     const obj: any = {};
     columns.forEach((col, i) => obj[col] = row[i]);
@@ -668,7 +1148,8 @@ export class DatabaseManager {
       canDelete: obj.canDelete === 1,
       canList: obj.canList === 1,
       canCreateDir: obj.canCreateDir === 1,
-      canRename: obj.canRename === 1
+      canRename: obj.canRename === 1,
+      canSetAttributes: obj.canSetAttributes === 1
     };
   }
 
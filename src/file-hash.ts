@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+
+export type HashAlgorithm = 'md5' | 'sha1' | 'sha256';
+
+// Supported algorithms, in order of preference
+export const HASH_ALGORITHMS: HashAlgorithm[] = ['sha256', 'sha1', 'md5'];
+
+export function isHashAlgorithm(name: string): name is HashAlgorithm {
+  return (HASH_ALGORITHMS as string[]).includes(name);
+}
+
+// CRC-32 is no hash, but FTP clients ask for it (XCRC) to check transfers
+export type ChecksumAlgorithm = HashAlgorithm | 'crc32';
+
+export interface Digest {
+  update(data: Buffer): void;
+  digest(): Buffer;
+}
+
+// Lookup table of the reflected CRC-32 polynomial used by zip and FTP clients.
+// zlib.crc32 would do, but it is missing from the Node version Electron bundles.
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function createDigest(algorithm: ChecksumAlgorithm): Digest {
+  if (algorithm !== 'crc32') {
+    return crypto.createHash(algorithm);
+  }
+  let crc = 0xffffffff;
+  return {
+    update: (data) => {
+      for (let i = 0; i < data.length; i++) {
+        crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+      }
+    },
+    digest: () => {
+      const result = Buffer.alloc(4);
+      result.writeUInt32BE((crc ^ 0xffffffff) >>> 0);
+      return result;
+    }
+  };
+}
+
+// Hash `length` bytes of a file (0 = up to the end) starting at `start`.
+// The file is streamed, so large files don't block the event loop or fill memory.
+// With a non-zero blockSize one digest is returned per block, otherwise one for the whole range.
+export async function hashFileRange(
+  source: string | number,
+  algorithm: ChecksumAlgorithm,
+  start: number = 0,
+  length: number = 0,
+  blockSize: number = 0
+): Promise<Buffer[]> {
+  const end = length > 0 ? start + length - 1 : undefined;
+  const stream = typeof source === 'number'
+    ? fs.createReadStream('', { fd: source, autoClose: false, start, end })
+    : fs.createReadStream(source, { start, end });
+
+  const digests: Buffer[] = [];
+  let hash = createDigest(algorithm);
+  let blockBytes = 0;
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    let offset = 0;
+    while (offset < chunk.length) {
+      const take = blockSize > 0
+        ? Math.min(blockSize - blockBytes, chunk.length - offset)
+        : chunk.length - offset;
+      hash.update(chunk.subarray(offset, offset + take));
+      offset += take;
+      blockBytes += take;
+
+      if (blockSize > 0 && blockBytes === blockSize) {
+        digests.push(hash.digest());
+        hash = createDigest(algorithm);
+        blockBytes = 0;
+      }
+    }
+  }
+
+  if (blockBytes > 0 || digests.length === 0) {
+    digests.push(hash.digest());
+  }
+  return digests;
+}
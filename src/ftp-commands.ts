@@ -0,0 +1,261 @@
+import * as fs from 'fs';
+import { ChecksumAlgorithm } from './file-hash';
+import { DEFAULT_HASH_SETTINGS, FTP_HASH_NAMES, getHashAlgorithm } from './ftp-hash';
+import { Listener } from './types';
+import { FileChecksum, VirtualFileSystem } from './virtual-fs';
+
+// Facts given for every entry of MLST and MLSD replies (RFC 3659)
+export const MLST_FACTS = ['type', 'size', 'modify', 'perm'];
+
+// What an extra command needs of the connection's file system
+export interface MachineListing {
+  get(fileName: string): Promise<fs.Stats>;
+  getFacts(fileName: string): Promise<string>;
+  listFacts(dirPath: string): Promise<string[]>;
+  checksum(fileName: string, algorithm: ChecksumAlgorithm, range: { start?: number; end?: number; maxBytes?: number }): Promise<FileChecksum>;
+}
+
+// What the extra commands keep per connection. The listener is read when
+// the client connects.
+interface CommandSession {
+  listener: Listener;
+  hashAlgorithm: ChecksumAlgorithm;
+}
+
+type Command = { directive: string; arg: string | null; raw?: string };
+
+type CommandHandler = (connection: any, command: Command, session: CommandSession) => Promise<any>;
+
+interface ExtraCommand {
+  handler: CommandHandler;
+  noAuth?: boolean;
+  // For commands ftp-srv has too: those it should still answer
+  appliesTo?: (command: Command) => boolean;
+}
+
+// Facts of a file or directory as an MLST/MLSD line, followed by its name
+export function formatFacts(stats: fs.Stats, perm: string, name: string): string {
+  const facts = [
+    `type=${stats.isDirectory() ? 'dir' : 'file'}`,
+    `size=${stats.size}`,
+    `modify=${stats.mtime.toISOString().replace(/[-:T]/g, '').slice(0, 14)}`,
+    `perm=${perm}`
+  ];
+  return `${facts.join(';')}; ${name}`;
+}
+
+// The perm fact: what the user may do with the entry. Virtual directories
+// above the mounts can be entered and listed only.
+export function getPermFact(vfs: VirtualFileSystem, virtualPath: string, stats: fs.Stats): string {
+  if (vfs.jail.isVirtualDirectory(virtualPath)) {
+    return 'el';
+  }
+  const can = (action: Parameters<VirtualFileSystem['hasPermission']>[0]) => vfs.hasPermission(action, virtualPath);
+  const letters: Array<[string, boolean]> = stats.isDirectory()
+    ? [
+      ['e', true],
+      ['l', can('canList')],
+      ['c', can('canCreate')],
+      ['m', can('canCreateDir')],
+      ['d', can('canDelete')],
+      ['f', can('canRename')],
+      ['p', can('canDelete')]
+    ]
+    : [
+      ['r', can('canRead')],
+      ['w', can('canEdit')],
+      ['a', can('canAppend')],
+      ['d', can('canDelete')],
+      ['f', can('canRename')]
+    ];
+  return letters.filter(([, allowed]) => allowed).map(([letter]) => letter).join('');
+}
+
+// The file name and optional byte range (end exclusive) of XCRC, XMD5 and
+// the like. Only a quoted name can be followed by a range, as names may
+// contain spaces. Taken from the raw command, as ftp-srv drops the quotes.
+function parseChecksumArguments(command: Command): { fileName: string; start?: number; end?: number } {
+  const arg = command.raw !== undefined ? command.raw.trim().replace(/^\S+\s*/, '') : command.arg || '';
+  const quoted = arg.match(/^"([^"]+)"(?:\s+(\d+))?(?:\s+(\d+))?\s*$/);
+  if (!quoted) {
+    return { fileName: arg };
+  }
+  return {
+    fileName: quoted[1],
+    start: quoted[2] !== undefined ? Number(quoted[2]) : undefined,
+    end: quoted[3] !== undefined ? Number(quoted[3]) : undefined
+  };
+}
+
+// XCRC, XMD5, XSHA1 and XSHA256: the checksum in hex, uppercase like other
+// servers send it
+function checksumCommand(algorithm: ChecksumAlgorithm): ExtraCommand {
+  return {
+    handler: async (connection, command, session) => {
+      const listing: MachineListing = connection.fs;
+      try {
+        const { fileName, start, end } = parseChecksumArguments(command);
+        const maxBytes = session.listener.hashMaxBytes ?? DEFAULT_HASH_SETTINGS.hashMaxBytes;
+        const checksum = await listing.checksum(fileName, algorithm, { start, end, maxBytes });
+        return connection.reply(250, checksum.digest.toString('hex').toUpperCase());
+      } catch (err: any) {
+        return connection.reply(550, err.message);
+      }
+    }
+  };
+}
+
+// Commands ftp-srv does not have, or answers without the virtual file system
+// in mind. Each one replies itself.
+const EXTRA_COMMANDS: Record<string, ExtraCommand> = {
+  // ftp-srv lists features from its own command registry
+  FEAT: {
+    noAuth: true,
+    handler: (connection, _command, session) => {
+      const tls = Boolean(connection.server?.options?.tls);
+      // Implicit FTPS connections are encrypted from the start, there is nothing to upgrade
+      const explicitTls = tls && !connection.server?.isTLS;
+      const hashes = (Object.keys(FTP_HASH_NAMES) as ChecksumAlgorithm[])
+        .map(algorithm => `${FTP_HASH_NAMES[algorithm]}${algorithm === session.hashAlgorithm ? '*' : ''}`);
+      const features = [
+        ...(explicitTls ? ['AUTH TLS'] : []),
+        ...(tls ? ['PBSZ', 'PROT'] : []),
+        `HASH ${hashes.join(';')}`,
+        'MDTM',
+        `MLST ${MLST_FACTS.map(fact => `${fact}*;`).join('')}`,
+        'REST STREAM',
+        'SIZE',
+        'TYPE A,I,L',
+        'UTF8',
+        'XCRC',
+        'XMD5',
+        'XSHA1',
+        'XSHA256'
+      ];
+      return connection.reply(211, 'Extensions supported', ...features.map(message => ({ message: ` ${message}`, raw: true })), 'End');
+    }
+  },
+
+  MLST: {
+    handler: async (connection, command) => {
+      const listing: MachineListing = connection.fs;
+      try {
+        const facts = await listing.getFacts(command.arg || '.');
+        return connection.reply(250, `Listing ${command.arg || '.'}`, { message: ` ${facts}`, raw: true }, 'End');
+      } catch (err: any) {
+        return connection.reply(550, err.message);
+      }
+    }
+  },
+
+  // Like LIST, over the data connection
+  MLSD: {
+    handler: async (connection, command) => {
+      const listing: MachineListing = connection.fs;
+      try {
+        await connection.connector.waitForConnection();
+        connection.commandSocket.pause();
+        const lines = await listing.listFacts(command.arg || '.');
+        const socket = connection.connector.socket;
+        await connection.reply(150);
+        if (lines.length > 0) {
+          await connection.reply({}, ...lines.map(message => ({ message, raw: true, socket })));
+        } else {
+          await connection.reply({ socket, useEmptyMessage: true });
+        }
+        await connection.reply(226);
+      } catch (err: any) {
+        if (err.name === 'TimeoutError') {
+          await connection.reply(425, 'No connection established');
+        } else {
+          await connection.reply(err.code === 'ENOTDIR' ? 501 : 550, err.message);
+        }
+      } finally {
+        connection.connector.end();
+        connection.commandSocket.resume();
+      }
+    }
+  },
+
+  // draft-bryan-ftpext-hash: the checksum of a whole file with the
+  // algorithm chosen by OPTS HASH
+  HASH: {
+    handler: async (connection, command, session) => {
+      const listing: MachineListing = connection.fs;
+      const algorithm = session.hashAlgorithm;
+      try {
+        const maxBytes = session.listener.hashMaxBytes ?? DEFAULT_HASH_SETTINGS.hashMaxBytes;
+        const checksum = await listing.checksum(command.arg || '', algorithm, { maxBytes });
+        const { start, end, digest, virtualPath } = checksum;
+        return connection.reply(213, `${FTP_HASH_NAMES[algorithm]} ${start}-${end} ${digest.toString('hex')} ${virtualPath}`);
+      } catch (err: any) {
+        return connection.reply(550, err.message);
+      }
+    }
+  },
+
+  // OPTS HASH shows or selects the HASH algorithm; other options go to ftp-srv
+  OPTS: {
+    noAuth: true,
+    appliesTo: command => /^HASH(\s|$)/i.test(command.arg || ''),
+    handler: (connection, command, session) => {
+      const name = (command.arg || '').slice('HASH'.length).trim();
+      if (name) {
+        const algorithm = getHashAlgorithm(name);
+        if (!algorithm) {
+          return connection.reply(501, `Unknown algorithm: ${name}`);
+        }
+        session.hashAlgorithm = algorithm;
+      }
+      return connection.reply(200, FTP_HASH_NAMES[session.hashAlgorithm]);
+    }
+  },
+
+  XCRC: checksumCommand('crc32'),
+  XMD5: checksumCommand('md5'),
+  XSHA1: checksumCommand('sha1'),
+  XSHA256: checksumCommand('sha256'),
+
+  // ftp-srv would give the size of a directory too
+  SIZE: {
+    handler: async (connection, command) => {
+      const listing: MachineListing = connection.fs;
+      try {
+        const stats = await listing.get(command.arg || '');
+        if (stats.isDirectory()) {
+          return connection.reply(550, 'Not a regular file');
+        }
+        return connection.reply(213, { message: String(stats.size) });
+      } catch (err: any) {
+        return connection.reply(550, err.message);
+      }
+    }
+  }
+};
+
+// Answer the extra commands on an ftp-srv connection; everything else goes to
+// ftp-srv. Checks authentication the way ftp-srv does for its own commands.
+export function addExtraCommands(connection: any, listener: Listener): void {
+  const session: CommandSession = {
+    listener,
+    hashAlgorithm: listener.hashAlgorithm || DEFAULT_HASH_SETTINGS.hashAlgorithm
+  };
+  const commands = connection.commands;
+  const handle = commands.handle.bind(commands);
+  commands.handle = (message: any) => {
+    const command = typeof message === 'string' ? commands.parse(message) : message;
+    const extra = EXTRA_COMMANDS[command.directive];
+    if (!extra || (extra.appliesTo && !extra.appliesTo(command))) {
+      return handle(command);
+    }
+    if (!extra.noAuth && !connection.authenticated) {
+      return connection.reply(530, `Command requires authentication: ${command.directive}`);
+    }
+    if (!extra.noAuth && !connection.fs) {
+      return connection.reply(550, 'File system not instantiated');
+    }
+    return extra.handler(connection, command, session).then(() => {
+      commands.previousCommand = { ...command };
+    });
+  };
+}
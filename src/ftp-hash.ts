@@ -0,0 +1,50 @@
+import { ChecksumAlgorithm } from './file-hash';
+import { Listener } from './types';
+
+// Algorithms as named by FTP HASH, OPTS HASH and FEAT (draft-bryan-ftpext-hash),
+// in the order FEAT lists them
+export const FTP_HASH_NAMES: Record<ChecksumAlgorithm, string> = {
+  sha256: 'SHA-256',
+  sha1: 'SHA-1',
+  md5: 'MD5',
+  crc32: 'CRC32'
+};
+
+// Defaults of listeners that were created before checksums could be set. A
+// size limit of 0 is off.
+export const DEFAULT_HASH_SETTINGS: Required<HashSettings> = {
+  hashAlgorithm: 'sha256',
+  hashMaxBytes: 0
+};
+
+export type HashSettings = Pick<Listener, 'hashAlgorithm' | 'hashMaxBytes'>;
+
+// The algorithm for an FTP name such as SHA-256, in any case
+export function getHashAlgorithm(name: string): ChecksumAlgorithm | null {
+  const algorithm = (Object.keys(FTP_HASH_NAMES) as ChecksumAlgorithm[])
+    .find(key => FTP_HASH_NAMES[key] === name.trim().toUpperCase());
+  return algorithm || null;
+}
+
+// Validate the checksum fields of a listener create or update request. Only
+// fields that were given are returned.
+export function parseHashSettings(settings: { hashAlgorithm?: unknown; hashMaxBytes?: unknown }): HashSettings {
+  const result: HashSettings = {};
+
+  if (settings.hashAlgorithm !== undefined) {
+    if (typeof settings.hashAlgorithm !== 'string' || !Object.prototype.hasOwnProperty.call(FTP_HASH_NAMES, settings.hashAlgorithm)) {
+      throw new Error(`Invalid hash algorithm: ${settings.hashAlgorithm} (use ${Object.keys(FTP_HASH_NAMES).join(', ')})`);
+    }
+    result.hashAlgorithm = settings.hashAlgorithm as ChecksumAlgorithm;
+  }
+
+  if (settings.hashMaxBytes !== undefined) {
+    const value = settings.hashMaxBytes;
+    const bytes = value === null || value === '' ? 0 : Number(value);
+    if (!Number.isSafeInteger(bytes) || bytes < 0) {
+      throw new Error(`Invalid hashMaxBytes: ${value} (whole bytes, 0 for no limit)`);
+    }
+    result.hashMaxBytes = bytes;
+  }
+  return result;
+}
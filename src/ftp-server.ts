@@ -1,10 +1,23 @@
 import { FtpSrv, FileSystem } from 'ftp-srv';
-import * as fs from 'fs';
-import * as path from 'path';
 import { DatabaseManager } from './database';
-import { Listener, User, Permission } from './types';
+import { Listener } from './types';
 import { EventEmitter } from 'events';
+import * as path from 'path';
 import logger from './logger';
+import { isTotpRequired } from './totp';
+import { getAuthPolicies, getMissingFactors, isFactorAllowed } from './auth-policy';
+import { getBannerLines, getBannerVariables } from './banners';
+import { normalizeVirtualPath } from './path-jail';
+import { FileActivity, FileChecksum, VirtualFileSystem } from './virtual-fs';
+import { getTlsRefusal, loadListenerCertificate } from './ftps';
+import { getPassiveAddress } from './passive-mode';
+import { ACTIVE_MODE_REFUSALS, getActiveModeRefusal } from './active-mode';
+import { DISCONNECT_REASONS, SessionTimer } from './session-timeouts';
+import { MachineListing, addExtraCommands, formatFacts, getPermFact } from './ftp-commands';
+import { ChecksumAlgorithm } from './file-hash';
+import { TlsCertificateMaterial, getSecureContextOptions } from './tls-certificates';
+
+const DEFAULT_GREETING = 'Welcome to SLightSFTP Server';
 
 interface ClientSession {
   connection: any;
@@ -18,20 +31,53 @@ export class FTPServer extends EventEmitter {
   private listener: Listener;
   private db: DatabaseManager;
   private activeSessions: Map<string, ClientSession> = new Map();
+  private sessionTimers: Map<any, SessionTimer> = new Map();
+  private certificate: TlsCertificateMaterial | null = null;
 
   constructor(listener: Listener, db: DatabaseManager) {
     super();
     this.listener = listener;
     this.db = db;
+    if (listener.protocol === 'FTPS') {
+      this.certificate = loadListenerCertificate(db, listener);
+    }
   }
 
   start(): Promise<void> {
     return new Promise((resolve, reject) => {
+      // Implicit FTPS speaks TLS from the start; explicit FTPS offers AUTH TLS
+      // on a plain connection, which ftp-srv does whenever it has a certificate
+      const implicit = this.listener.protocol === 'FTPS' && this.listener.ftpsMode === 'implicit';
       this.server = new FtpSrv({
-        url: `ftp://${this.listener.bindingIp}:${this.listener.port}`,
-        pasv_url: this.listener.bindingIp,
+        url: `${implicit ? 'ftps' : 'ftp'}://${this.listener.bindingIp}:${this.listener.port}`,
+        // ftp-srv's typings only allow a fixed address, it also accepts a
+        // function of the client's address
+        pasv_url: getPassiveAddress(this.listener) as string,
+        ...(this.listener.passivePortMin != null && this.listener.passivePortMax != null
+          ? { pasv_min: this.listener.passivePortMin, pasv_max: this.listener.passivePortMax }
+          : {}),
         anonymous: false,
-        greeting: ['Welcome to SLightSFTP Server']
+        greeting: [DEFAULT_GREETING],
+        tls: this.certificate ? getSecureContextOptions(this.certificate) : false
+      });
+
+      // ftp-srv sends the greeting it was constructed with right after 'connect'
+      // (an event its typings leave out), so it is replaced there to render the
+      // banner for each connection
+      const ftpSrv = this.server as any;
+      ftpSrv.on('connect', ({ connection }: { connection: any }) => {
+        const listener = this.getCurrentListener();
+        const lines = getBannerLines(listener.loginBanner || '', getBannerVariables(listener));
+        ftpSrv._greeting = lines.length > 0 ? toReplyLines(lines) : [DEFAULT_GREETING];
+        addExtraCommands(connection, listener);
+        this.trackSession(connection);
+        this.enforceActiveMode(connection);
+        this.enforceTls(connection);
+      });
+
+      ftpSrv.on('disconnect', ({ connection }: { connection: any }) => {
+        this.sessionTimers.get(connection)?.stop();
+        this.sessionTimers.delete(connection);
       });
 
       this.server.on('login', ({ connection, username, password }, resolve, reject) => {
@@ -58,12 +104,20 @@ export class FTPServer extends EventEmitter {
           return reject(new Error('Invalid credentials'));
         }
 
-        const virtualPaths = this.db.getVirtualPaths(user.id!);
-        const userPermissions = this.db.getPermission(user.id!, this.listener.id!);
+        // FTP has no way to ask for a verification code
+        if (isTotpRequired(user)) {
+          this.logActivity(`LOGIN_FAILED (MFA required) [${ipAddress}:${remotePort}]`, username, '/', false);
+          return reject(new Error('Multi-factor authentication required, use SFTP'));
+        }
+
+        // Nor can it check a key, so a password has to satisfy the auth policy on its own
+        const listener = this.getCurrentListener();
+        const policies = getAuthPolicies(user, listener);
+        if (!isFactorAllowed(policies, 'password') || getMissingFactors(policies, ['password']).length > 0) {
+          this.logActivity(`LOGIN_FAILED (password not allowed by auth policy) [${ipAddress}:${remotePort}]`, username, '/', false);
+          return reject(new Error('Password authentication not allowed for this user'));
+        }
 
-        // Default to first virtual path or root
-        const rootPath = virtualPaths.length > 0 ? virtualPaths[0].localPath : process.cwd();
-        
         // Track active session
         this.activeSessions.set(sessionId, {
           connection,
@@ -73,23 +127,15 @@ export class FTPServer extends EventEmitter {
         });
 
         this.logActivity(`LOGIN (password) [${ipAddress}:${remotePort}]`, username, '/', true);
+        this.sessionTimers.get(connection)?.login();
 
-        // Create custom file system
-        const customFS = new CustomFileSystem(
-          connection,
-          {
-            root: rootPath,
-            cwd: '/'
-          },
-          this.db,
-          user,
-          this.listener,
-          userPermissions || this.createDefaultPermission(user.id!, this.listener.id!),
-          virtualPaths,
-          (action: string, filePath: string, success: boolean) => {
-            this.logActivity(action, username, filePath, success);
-          }
-        );
+        // File operations go through the same virtual file system as SFTP and the GUI
+        const userPermissions = this.db.getPermission(user.id!, this.listener.id!);
+        const vfs = new VirtualFileSystem(this.db.getVirtualPaths(user.id!), userPermissions || null);
+        vfs.on('activity', (activity: FileActivity) => {
+          this.logActivity(activity.action, username, activity.path, activity.success);
+        });
+        const customFS = new CustomFileSystem(connection, vfs);
 
         connection.on('error', (err: any) => {
           logger.error('FTP connection error:', err);
@@ -101,7 +147,15 @@ export class FTPServer extends EventEmitter {
           this.logActivity('LOGOUT', username, '/', true);
         });
 
-        resolve({ fs: customFS });
+        // The message of the day goes ahead of the 230 reply to PASS, as the
+        // first lines of the same multi-line reply
+        const motd = getBannerLines(listener.motd || '', getBannerVariables(listener, username));
+        if (motd.length === 0) {
+          return resolve({ fs: customFS });
+        }
+        connection.reply({ code: 230, eol: false }, ...toReplyLines(motd))
+          .then(() => resolve({ fs: customFS }))
+          .catch((err: Error) => reject(err));
       });
 
       this.server.listen()
@@ -120,8 +174,12 @@ export class FTPServer extends EventEmitter {
 
   stop(): Promise<void> {
     return new Promise((resolve) => {
-      // Clear all active sessions
+      // Clear all active sessions and their timeouts
       this.activeSessions.clear();
+      for (const timer of this.sessionTimers.values()) {
+        timer.stop();
+      }
+      this.sessionTimers.clear();
       
       if (this.server) {
         this.server.close()
@@ -158,21 +216,81 @@ export class FTPServer extends EventEmitter {
     return false;
   }
 
-  private createDefaultPermission(userId: number, listenerId: number): Permission {
-    return {
-      userId,
-      listenerId,
-      canRead: true,
-      canCreate: true,
-      canEdit: true,
-      canAppend: true,
-      canDelete: true,
-      canList: true,
-      canCreateDir: true,
-      canRename: true
+  // Disconnect clients that do not log in in time, stay idle or stay too
+  // long. A command is activity until it completes, so that transfers do not
+  // run into the idle timeout. Timeouts are read when the client connects.
+  private trackSession(connection: any): void {
+    const ipAddress = connection.ip || 'unknown';
+    const remotePort = connection.commandSocket?.remotePort || 0;
+    const timer = new SessionTimer(this.getCurrentListener(), (reason) => {
+      const username = connection.username || '';
+      logger.info(`FTP client ${username || ipAddress} disconnected: ${DISCONNECT_REASONS[reason]}`);
+      this.logActivity(`DISCONNECTED (${DISCONNECT_REASONS[reason]}) [${ipAddress}:${remotePort}]`, username, '/', false);
+      connection.close(421, `${DISCONNECT_REASONS[reason]}, closing connection`);
+    });
+    this.sessionTimers.set(connection, timer);
+
+    const commands = connection.commands;
+    const handle = commands.handle.bind(commands);
+    commands.handle = (message: any) => {
+      timer.beginActivity();
+      return Promise.resolve(handle(message)).finally(() => timer.endActivity());
+    };
+  }
+
+  // Refuse logins and data connections on connections that have not been
+  // secured with AUTH TLS, as far as the listener requires it. Checked per
+  // command, so policy changes apply without a restart.
+  private enforceTls(connection: any): void {
+    const commands = connection.commands;
+    const handle = commands.handle.bind(commands);
+    commands.handle = (message: any) => {
+      const command = typeof message === 'string' ? commands.parse(message) : message;
+      const refusal = getTlsRefusal(this.getCurrentListener(), command.directive, connection.secure);
+      if (refusal === 'login') {
+        if (command.directive === 'USER') {
+          const ipAddress = connection.ip || 'unknown';
+          const remotePort = connection.commandSocket?.remotePort || 0;
+          this.logActivity(`LOGIN_FAILED (TLS required) [${ipAddress}:${remotePort}]`, command.arg || '', '/', false);
+        }
+        return connection.reply(530, 'TLS required, use AUTH TLS before logging in');
+      }
+      if (refusal === 'data') {
+        return connection.reply(522, 'TLS required for data connections, use AUTH TLS');
+      }
+      return handle(command);
+    };
+  }
+
+  // Refuse PORT and EPRT when the listener does not allow active mode, and
+  // data connections to anything but the client itself (FTP bounce, FXP).
+  // Checked per command, so the setting applies without a restart.
+  private enforceActiveMode(connection: any): void {
+    const commands = connection.commands;
+    const handle = commands.handle.bind(commands);
+    commands.handle = (message: any) => {
+      const command = typeof message === 'string' ? commands.parse(message) : message;
+      const peerAddress = connection.commandSocket?.remoteAddress || '';
+      const refusal = getActiveModeRefusal(this.getCurrentListener(), command.directive, command.arg || '', peerAddress);
+      // ftp-srv refuses both before login
+      if (!refusal || !connection.authenticated) {
+        return handle(command);
+      }
+
+      const { code, reply, reason } = ACTIVE_MODE_REFUSALS[refusal];
+      const ipAddress = connection.ip || 'unknown';
+      const remotePort = connection.commandSocket?.remotePort || 0;
+      logger.warn(`FTP ${command.directive} refused for ${connection.username || ipAddress}: ${reason} (${command.arg || ''})`);
+      this.logActivity(`ACTIVE_MODE_DENIED (${reason}: ${command.directive} ${command.arg || ''}) [${ipAddress}:${remotePort}]`, connection.username || '', '/', false);
+      return connection.reply(code, reply);
     };
   }
 
+  // Banners and the auth policy can change while the listener runs
+  private getCurrentListener(): Listener {
+    return (this.listener.id !== undefined && this.db.getListener(this.listener.id)) || this.listener;
+  }
+
   private logActivity(action: string, username: string, filePath: string, success: boolean): void {
     this.emit('activity', {
       listenerId: this.listener.id!,
@@ -184,309 +302,98 @@ export class FTPServer extends EventEmitter {
   }
 }
 
-class CustomFileSystem extends FileSystem {
-  private db: DatabaseManager;
-  private user: User;
-  private listener: Listener;
-  private permissions: Permission;
-  private virtualPaths: any[];
-  private logCallback: (action: string, path: string, success: boolean) => void;
-
-  constructor(
-    connection: any,
-    options: any,
-    db: DatabaseManager,
-    user: User,
-    listener: Listener,
-    permissions: Permission,
-    virtualPaths: any[],
-    logCallback: (action: string, path: string, success: boolean) => void
-  ) {
-    super(connection, options);
-    this.db = db;
-    this.user = user;
-    this.listener = listener;
-    this.permissions = permissions;
-    this.virtualPaths = virtualPaths;
-    this.logCallback = logCallback;
-  }
-
-  // Override _resolvePath to fix double path resolution issue
-  _resolvePath(inputPath: string = '.'): { clientPath: string; fsPath: string } {
-    // Normalize separators to forward slashes
-    const resolvedPath = inputPath.replace(/\\/g, '/');
-    
-    // Join cwd with new path
-    const joinedPath = path.isAbsolute(resolvedPath)
-      ? path.normalize(resolvedPath)
-      : path.join('/', this.cwd, resolvedPath);
-    
-    // Map through our virtual path system
-    let fsPath: string;
-    
-    // Check if we already have an absolute path within our virtual paths
-    if (path.isAbsolute(resolvedPath)) {
-      for (const vp of this.virtualPaths) {
-        if (resolvedPath.startsWith(vp.localPath) || resolvedPath.replace(/\\/g, '/').startsWith(vp.localPath.replace(/\\/g, '/'))) {
-          // Already correctly resolved
-          fsPath = resolvedPath;
-          return {
-            clientPath: joinedPath.replace(/\\/g, '/'),
-            fsPath: fsPath
-          };
-        }
-      }
-    }
-    
-    // Otherwise map the virtual path to local path
-    for (const vp of this.virtualPaths) {
-      if (joinedPath.startsWith(vp.virtualPath)) {
-        const relativePath = joinedPath.substring(vp.virtualPath.length);
-        fsPath = path.join(vp.localPath, relativePath);
-        return {
-          clientPath: joinedPath.replace(/\\/g, '/'),
-          fsPath: fsPath
-        };
-      }
-    }
-    
-    // Default: use first virtual path or root
-    fsPath = this.virtualPaths.length > 0
-      ? path.join(this.virtualPaths[0].localPath, joinedPath)
-      : path.join(this.root as string, joinedPath);
-    
-    return {
-      clientPath: joinedPath.replace(/\\/g, '/'),
-      fsPath: fsPath
-    };
-  }
+// Banner lines as text for a multi-line reply. ftp-srv drops an empty message,
+// which would leave a bare code that ends the reply early.
+function toReplyLines(lines: string[]): string[] {
+  return lines.map(line => line || ' ');
+}
 
-  private mapPath(virtualPath: string): string {
-    // Normalize path separators
-    const normalizedPath = virtualPath.replace(/\\/g, '/');
-    
-    // If path is already absolute (Windows or Unix), check if it's within our allowed paths
-    if (path.isAbsolute(virtualPath)) {
-      // Check if the path is already within one of our virtual paths
-      for (const vp of this.virtualPaths) {
-        const normalizedLocalPath = vp.localPath.replace(/\\/g, '/');
-        const normalizedVirtualPath = virtualPath.replace(/\\/g, '/');
-        
-        if (normalizedVirtualPath.startsWith(normalizedLocalPath) || 
-            normalizedVirtualPath.startsWith(normalizedLocalPath.replace(/\//g, '\\'))) {
-          // Already a valid absolute path within virtual path - return as-is
-          return virtualPath;
-        }
-      }
-      
-      // If root is set and path starts with it, also return as-is
-      const rootPath = this.root as string;
-      if (rootPath && (virtualPath.startsWith(rootPath) || virtualPath.startsWith(rootPath.replace(/\\/g, '/')))) {
-        return virtualPath;
-      }
-    }
-    
-    // Handle relative/virtual paths
-    for (const vp of this.virtualPaths) {
-      if (normalizedPath.startsWith(vp.virtualPath)) {
-        const relativePath = normalizedPath.substring(vp.virtualPath.length);
-        return path.join(vp.localPath, relativePath);
-      }
-    }
-    
-    // Default mapping
-    return this.virtualPaths.length > 0
-      ? path.join(this.virtualPaths[0].localPath, normalizedPath)
-      : path.join(this.root as string, normalizedPath);
-  }
+// ftp-srv file system over the user's VirtualFileSystem. Paths are taken
+// relative to the working directory; a refused or failed operation rejects,
+// which ftp-srv answers with a 550 reply.
+class CustomFileSystem extends FileSystem implements MachineListing {
+  private vfs: VirtualFileSystem;
 
-  private findVirtualPath(virtualPath: string) {
-    for (const vp of this.virtualPaths) {
-      if (virtualPath.startsWith(vp.virtualPath) || vp.virtualPath === '/') {
-        return vp;
-      }
-    }
-    return this.virtualPaths.length > 0 ? this.virtualPaths[0] : null;
+  constructor(connection: any, vfs: VirtualFileSystem) {
+    super(connection, { root: '/', cwd: '/' });
+    this.vfs = vfs;
   }
 
-  private checkVpPermission(action: keyof Permission, virtualPath: string): boolean {
-    // First check listener-level permissions
-    if (!this.permissions[action]) return false;
-    
-    // Then check virtual path permissions
-    const vp = this.findVirtualPath(virtualPath);
-    if (!vp) return false;
-    
-    // Map Permission keys to VirtualPath permission keys
-    const vpPermMap: Record<string, string> = {
-      'canCreate': 'canWrite',
-      'canEdit': 'canWrite',
-      'canAppend': 'canAppend',
-      'canDelete': 'canDelete',
-      'canList': 'canRead',  // For FTP, list needs read permission
-      'canCreateDir': 'canCreateDir',
-      'canRename': 'canRename'
-    };
-    
-    const vpPermKey = vpPermMap[action];
-    if (!vpPermKey || !vp.hasOwnProperty(vpPermKey)) return false;
-    
-    return vp[vpPermKey] !== false;
+  // Checked through the virtual file system, so virtual directories above
+  // the mounts (such as '/' without a root mount) can be entered too
+  chdir(dirPath: string = '.'): Promise<any> {
+    const normalized = normalizeVirtualPath(dirPath, this.cwd);
+    return this.vfs.stat(normalized, { activity: 'CWD' }).then((stats) => {
+      if (!stats.isDirectory()) throw new Error('Not a valid directory');
+      (this as any).cwd = normalized;
+      return normalized;
+    });
   }
 
   get(fileName: string): Promise<any> {
-    if (!this.checkVpPermission('canList', fileName)) {
-      this.logCallback('GET_DENIED', fileName, false);
-      return Promise.reject(new Error('Permission denied'));
-    }
-
-    const realPath = this.mapPath(fileName);
-    this.logCallback('GET', fileName, true);
-    return super.get(realPath);
+    return this.vfs.stat(fileName, { cwd: this.cwd }).then(stats => Object.assign(stats, { name: fileName }));
   }
 
   list(dirPath: string = '.'): Promise<any> {
-    if (!this.checkVpPermission('canList', dirPath)) {
-      this.logCallback('LIST_DENIED', dirPath, false);
-      return Promise.reject(new Error('Permission denied'));
-    }
-
-    this.logCallback('LIST', dirPath, true);
-    
-    // Use parent's list method which properly returns stat objects with methods
-    return super.list(dirPath).catch((err: Error) => {
-      this.logCallback('LIST_FAILED', dirPath, false);
-      throw err;
+    return this.vfs.list(dirPath, { cwd: this.cwd }).then((entries) => {
+      return entries.map(entry => Object.assign(entry.stats, { name: entry.name }));
     });
   }
 
-  write(fileName: string, options?: any): Promise<any> {
-    if (!this.checkVpPermission('canCreate', fileName) && !this.checkVpPermission('canEdit', fileName)) {
-      this.logCallback('WRITE_DENIED', fileName, false);
-      return Promise.reject(new Error('Permission denied'));
-    }
-
-    const realPath = this.mapPath(fileName);
-    this.logCallback('WRITE', fileName, true);
+  // MLST line of a file or directory, named by its full virtual path
+  getFacts(fileName: string = '.'): Promise<string> {
+    const virtualPath = normalizeVirtualPath(fileName, this.cwd);
+    return this.vfs.stat(virtualPath, { activity: 'MLST' }).then(stats => formatFacts(stats, getPermFact(this.vfs, virtualPath, stats), virtualPath));
+  }
 
-    return new Promise((resolve, reject) => {
-      const writeStream = fs.createWriteStream(realPath, options);
-      writeStream.on('error', (err) => {
-        this.logCallback('WRITE_FAILED', fileName, false);
-        reject(err);
-      });
-      writeStream.on('finish', () => {
-        resolve({ stream: writeStream });
-      });
-      resolve({ stream: writeStream });
+  // MLSD lines of the entries of a directory
+  listFacts(dirPath: string = '.'): Promise<string[]> {
+    const directory = normalizeVirtualPath(dirPath, this.cwd);
+    return this.vfs.list(directory, { activity: 'MLSD' }).then((entries) => {
+      return entries.map(entry => formatFacts(entry.stats, getPermFact(this.vfs, normalizeVirtualPath(entry.name, directory), entry.stats), entry.name));
     });
   }
 
-  read(fileName: string, options?: any): Promise<any> {
-    if (!this.checkVpPermission('canList', fileName)) {
-      this.logCallback('READ_DENIED', fileName, false);
-      return Promise.reject(new Error('Permission denied'));
-    }
+  checksum(fileName: string, algorithm: ChecksumAlgorithm, range: { start?: number; end?: number; maxBytes?: number }): Promise<FileChecksum> {
+    return this.vfs.checksum(fileName, algorithm, range, { cwd: this.cwd });
+  }
 
-    const realPath = this.mapPath(fileName);
-    this.logCallback('READ', fileName, true);
+  write(fileName: string, { append = false, start = undefined }: { append?: boolean; start?: any } = {}): Promise<any> {
+    return this.vfs.createWriteStream(fileName, { append, start }, { cwd: this.cwd }).then(stream => ({
+      stream,
+      clientPath: normalizeVirtualPath(fileName, this.cwd)
+    }));
+  }
 
-    return new Promise((resolve, reject) => {
-      const readStream = fs.createReadStream(realPath, options);
-      readStream.on('error', (err) => {
-        this.logCallback('READ_FAILED', fileName, false);
-        reject(err);
-      });
-      resolve({ stream: readStream });
-    });
+  read(fileName: string, { start = undefined }: { start?: any } = {}): Promise<any> {
+    return this.vfs.createReadStream(fileName, start, { cwd: this.cwd }).then(stream => ({
+      stream,
+      clientPath: normalizeVirtualPath(fileName, this.cwd)
+    }));
   }
 
   delete(fileName: string): Promise<any> {
-    if (!this.checkVpPermission('canDelete', fileName)) {
-      this.logCallback('DELETE_DENIED', fileName, false);
-      return Promise.reject(new Error('Permission denied'));
-    }
-
-    const realPath = this.mapPath(fileName);
-    this.logCallback('DELETE', fileName, true);
-
-    return new Promise((resolve, reject) => {
-      fs.stat(realPath, (err, stats) => {
-        if (err) {
-          this.logCallback('DELETE_FAILED', fileName, false);
-          return reject(err);
-        }
-
-        if (stats.isDirectory()) {
-          fs.rmdir(realPath, (err) => {
-            if (err) {
-              this.logCallback('DELETE_FAILED', fileName, false);
-              return reject(err);
-            }
-            resolve(undefined);
-          });
-        } else {
-          fs.unlink(realPath, (err) => {
-            if (err) {
-              this.logCallback('DELETE_FAILED', fileName, false);
-              return reject(err);
-            }
-            resolve(undefined);
-          });
-        }
-      });
-    });
+    return this.vfs.delete(fileName, { cwd: this.cwd });
   }
 
+  // Resolves the virtual path, which ftp-srv puts in the 257 reply. The
+  // message of an error becomes the 550 reply, so it must not name local paths.
   mkdir(dirPath: string): Promise<any> {
-    if (!this.checkVpPermission('canCreateDir', dirPath)) {
-      this.logCallback('MKDIR_DENIED', dirPath, false);
-      return Promise.reject(new Error('Permission denied'));
-    }
-
-    const realPath = this.mapPath(dirPath);
-    this.logCallback('MKDIR', dirPath, true);
-
-    return new Promise((resolve, reject) => {
-      fs.mkdir(realPath, { recursive: true }, (err) => {
-        if (err) {
-          this.logCallback('MKDIR_FAILED', dirPath, false);
-          return reject(err);
-        }
-        resolve(undefined);
-      });
+    const virtualPath = normalizeVirtualPath(dirPath, this.cwd);
+    return this.vfs.mkdir(dirPath, { cwd: this.cwd }).then(() => virtualPath, (err) => {
+      if (err.code === 'EEXIST') throw new Error(`${virtualPath}: File exists`);
+      if (err.code === 'ENOENT') throw new Error(`${path.posix.dirname(virtualPath)}: No such file or directory`);
+      throw err;
     });
   }
 
   rename(fromPath: string, toPath: string): Promise<any> {
-    if (!this.checkVpPermission('canRename', fromPath) || !this.checkVpPermission('canRename', toPath)) {
-      this.logCallback('RENAME_DENIED', `${fromPath} -> ${toPath}`, false);
-      return Promise.reject(new Error('Permission denied'));
-    }
-
-    const realFromPath = this.mapPath(fromPath);
-    const realToPath = this.mapPath(toPath);
-    this.logCallback('RENAME', `${fromPath} -> ${toPath}`, true);
-
-    return new Promise((resolve, reject) => {
-      fs.rename(realFromPath, realToPath, (err) => {
-        if (err) {
-          this.logCallback('RENAME_FAILED', `${fromPath} -> ${toPath}`, false);
-          return reject(err);
-        }
-        resolve(undefined);
-      });
-    });
+    return this.vfs.rename(fromPath, toPath, { cwd: this.cwd });
   }
 
-  chmod(fileName: string, mode: string): Promise<any> {
-    // For simplicity, always allow chmod
-    const realPath = this.mapPath(fileName);
-    return new Promise((resolve, reject) => {
-      fs.chmod(realPath, parseInt(mode, 8), (err) => {
-        if (err) return reject(err);
-        resolve(undefined);
-      });
-    });
+  // SITE CHMOD passes the mode already parsed from octal
+  chmod(fileName: string, mode: string | number): Promise<any> {
+    const fileMode = typeof mode === 'number' ? mode : parseInt(mode, 8);
+    return this.vfs.setAttributes(fileName, { mode: fileMode }, { cwd: this.cwd, activity: 'CHMOD' });
   }
 }
@@ -0,0 +1,78 @@
+import * as os from 'os';
+import { DatabaseManager } from './database';
+import { FtpsMode, Listener } from './types';
+import { TlsCertificateMaterial, generateCertificate } from './tls-certificates';
+import logger from './logger';
+
+export const FTPS_MODES: FtpsMode[] = ['explicit', 'implicit'];
+
+// Commands that open a data connection, refused on a plain control connection
+// when the listener requires TLS for data
+const DATA_CONNECTION_COMMANDS = ['PASV', 'EPSV', 'PORT', 'EPRT'];
+const LOGIN_COMMANDS = ['USER', 'PASS'];
+
+export type TlsRefusal = 'login' | 'data';
+
+// Validate the FTPS fields of a listener create or update request. Only
+// fields that were given are returned.
+export function parseFtpsSettings(
+  settings: { ftpsMode?: unknown; requireTlsLogin?: unknown; requireTlsData?: unknown }
+): Pick<Listener, 'ftpsMode' | 'requireTlsLogin' | 'requireTlsData'> {
+  const result: Pick<Listener, 'ftpsMode' | 'requireTlsLogin' | 'requireTlsData'> = {};
+
+  if (settings.ftpsMode !== undefined) {
+    if (!FTPS_MODES.includes(settings.ftpsMode as FtpsMode)) {
+      throw new Error(`Invalid FTPS mode: ${settings.ftpsMode}`);
+    }
+    result.ftpsMode = settings.ftpsMode as FtpsMode;
+  }
+  if (settings.requireTlsLogin !== undefined) {
+    result.requireTlsLogin = Boolean(settings.requireTlsLogin);
+  }
+  if (settings.requireTlsData !== undefined) {
+    result.requireTlsData = Boolean(settings.requireTlsData);
+  }
+  return result;
+}
+
+// Whether a command has to be refused on a control connection that is not
+// (yet) protected by TLS. Implicit FTPS connections are always protected;
+// ftp-srv protects the data connections of a protected control connection.
+export function getTlsRefusal(listener: Listener, directive: string, secure: boolean): TlsRefusal | null {
+  if (listener.protocol !== 'FTPS' || secure) return null;
+
+  if (listener.requireTlsLogin !== false && LOGIN_COMMANDS.includes(directive)) return 'login';
+  if (listener.requireTlsData !== false && DATA_CONNECTION_COMMANDS.includes(directive)) return 'data';
+  return null;
+}
+
+// Names a generated certificate is issued for: the binding address unless it
+// is a wildcard, the machine's host name and localhost
+export function getCertificateHostnames(listener: Listener): string[] {
+  const names = [os.hostname(), 'localhost'];
+  if (listener.bindingIp && !['0.0.0.0', '::'].includes(listener.bindingIp)) {
+    names.unshift(listener.bindingIp);
+  }
+  return [...new Set(names)];
+}
+
+// FTPS and WebDAV listeners (which may serve HTTPS) have a TLS certificate
+export function usesTlsCertificate(listener: Listener): boolean {
+  return listener.protocol === 'FTPS' || listener.protocol === 'HTTP';
+}
+
+// The certificate of a listener. Like SSH host keys, a self-signed
+// certificate is generated on first start and kept, so clients can pin it.
+export function loadListenerCertificate(db: DatabaseManager, listener: Listener): TlsCertificateMaterial {
+  const stored = listener.id !== undefined ? db.getTlsCertificate(listener.id) : undefined;
+  if (stored) {
+    return stored;
+  }
+
+  const certificate = generateCertificate(getCertificateHostnames(listener));
+  if (listener.id !== undefined) {
+    db.saveTlsCertificate({ listenerId: listener.id, ...certificate });
+    logger.info(`Generated TLS certificate for listener ${listener.name}: ${certificate.fingerprint}`);
+  }
+  return certificate;
+}
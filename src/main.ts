@@ -4,7 +4,23 @@ import * as fs from 'fs';
 import { DatabaseManager } from './database';
 import { ServerManager } from './server-manager';
 import { WebServer } from './web-server';
+import { Listener } from './types';
+import { parseHostKey } from './host-keys';
+import { parseAuthorizedKey } from './user-keys';
+import { SSH_ALGORITHM_PRESETS, SUPPORTED_SSH_ALGORITHMS, getSshAlgorithms, parseSshAlgorithmSettings } from './ssh-algorithms';
+import { parseBannerSettings } from './banners';
+import { getCertificateHostnames, parseFtpsSettings, usesTlsCertificate } from './ftps';
+import { parsePassiveSettings } from './passive-mode';
+import { parseActiveModeSettings } from './active-mode';
+import { parseWebdavSettings } from './webdav';
+import { parseSessionTimeouts } from './session-timeouts';
+import { parseHashSettings } from './ftp-hash';
+import { TlsCertificateMaterial, generateCertificate, getCertificateSummary, parseCertificateImport } from './tls-certificates';
+import { VirtualFileSystem } from './virtual-fs';
+import { generateTotpSecret, getOtpAuthUrl, verifyTotp, withoutTotpSecret } from './totp';
+import { encodeQrCode, toSvg } from './qr-code';
 import * as crypto from 'crypto';
+import { pipeline } from 'stream/promises';
 import logger from './logger';
 
 let mainWindow: BrowserWindow | null = null;
@@ -328,7 +344,8 @@ async function initializeDatabase(): Promise<void> {
       canDelete: true,
       canList: true,
       canCreateDir: true,
-      canRename: true
+      canRename: true,
+      canSetAttributes: true
     });
     
     db.setPermission({
@@ -341,7 +358,8 @@ async function initializeDatabase(): Promise<void> {
       canDelete: true,
       canList: true,
       canCreateDir: true,
-      canRename: true
+      canRename: true,
+      canSetAttributes: true
     });
     
     // Add a default virtual path with full permissions
@@ -491,7 +509,13 @@ function setupIpcHandlers(): void {
 
   // User operations
   ipcMain.handle('create-user', async (event, user) => {
-    const userId = db.createUser(user);
+    // An initial public key goes into user_keys instead of the legacy users column
+    const { publicKey, ...userData } = user;
+    const key = publicKey ? parseAuthorizedKey(publicKey) : null;
+    const userId = db.createUser(userData);
+    if (key) {
+      db.addUserKey({ userId, label: key.comment || key.algorithm, ...key });
+    }
     
     // Log user creation
     db.logActivity({
@@ -506,11 +530,12 @@ function setupIpcHandlers(): void {
   });
   
   ipcMain.handle('get-user', async (event, username) => {
-    return db.getUser(username);
+    const user = db.getUser(username);
+    return user && withoutTotpSecret(user);
   });
   
   ipcMain.handle('get-all-users', async () => {
-    return db.getAllUsers();
+    return db.getAllUsers().map(withoutTotpSecret);
   });
   
   ipcMain.handle('update-user', async (event, username, updates, listeners, virtualPaths, permissions) => {
@@ -561,7 +586,8 @@ function setupIpcHandlers(): void {
         canList: vp.canList,
         canCreateDir: vp.canCreateDir,
         canRename: vp.canRename,
-        applyToSubdirs: vp.applyToSubdirs
+        applyToSubdirs: vp.applyToSubdirs,
+        symlinkPolicy: vp.symlinkPolicy
       });
     }
     
@@ -588,6 +614,96 @@ function setupIpcHandlers(): void {
     });
   });
   
+  // SSH public keys for publickey authentication
+  ipcMain.handle('get-user-keys', async (event, username) => {
+    const user = db.getUser(username);
+    if (!user) throw new Error('User not found');
+    return db.getUserKeys(user.id!);
+  });
+  
+  ipcMain.handle('add-user-key', async (event, username, label, publicKey) => {
+    const user = db.getUser(username);
+    if (!user) throw new Error('User not found');
+    
+    const key = parseAuthorizedKey(publicKey || '');
+    if (db.getUserKeys(user.id!).some(k => k.fingerprint === key.fingerprint)) {
+      throw new Error(`Key ${key.fingerprint} is already registered for this user`);
+    }
+    const id = db.addUserKey({ userId: user.id!, label: label || key.comment || key.algorithm, ...key });
+    
+    // Log key addition
+    db.logActivity({
+      listenerId: null,
+      username: authenticatedUser?.username || 'system',
+      action: 'USER_KEY_ADDED',
+      path: `/users/${username}/${key.algorithm} ${key.fingerprint}`,
+      success: true
+    });
+    
+    return id;
+  });
+  
+  ipcMain.handle('delete-user-key', async (event, username, id) => {
+    const user = db.getUser(username);
+    if (!user) throw new Error('User not found');
+    
+    const key = db.getUserKeys(user.id!).find(k => k.id === id);
+    if (!key) throw new Error('Key not found');
+    db.deleteUserKey(user.id!, id);
+    
+    // Log key removal
+    db.logActivity({
+      listenerId: null,
+      username: authenticatedUser?.username || 'system',
+      action: 'USER_KEY_DELETED',
+      path: `/users/${username}/${key.algorithm} ${key.fingerprint}`,
+      success: true
+    });
+  });
+  
+  // TOTP enrollment: the secret is only stored once the user has proven it works
+  ipcMain.handle('start-totp-enrollment', async (event, username) => {
+    const user = db.getUser(username);
+    if (!user) throw new Error('User not found');
+    
+    const secret = generateTotpSecret();
+    const otpAuthUrl = getOtpAuthUrl(secret, username);
+    return { secret, otpAuthUrl, qrCode: toSvg(encodeQrCode(otpAuthUrl)) };
+  });
+  
+  ipcMain.handle('confirm-totp-enrollment', async (event, username, secret, code) => {
+    const user = db.getUser(username);
+    if (!user) throw new Error('User not found');
+    if (!secret || !verifyTotp(secret, code)) throw new Error('Invalid verification code');
+    
+    db.updateUser(username, { totpSecret: secret });
+    
+    // Log TOTP enrollment
+    db.logActivity({
+      listenerId: null,
+      username: authenticatedUser?.username || 'system',
+      action: 'USER_TOTP_ENROLLED',
+      path: `/users/${username}`,
+      success: true
+    });
+  });
+  
+  ipcMain.handle('reset-totp', async (event, username) => {
+    const user = db.getUser(username);
+    if (!user) throw new Error('User not found');
+    
+    db.updateUser(username, { totpSecret: null });
+    
+    // Log TOTP reset
+    db.logActivity({
+      listenerId: null,
+      username: authenticatedUser?.username || 'system',
+      action: 'USER_TOTP_RESET',
+      path: `/users/${username}`,
+      success: true
+    });
+  });
+  
   ipcMain.handle('get-user-listeners', async (event, userId) => {
     return db.getUserListeners(userId);
   });
@@ -609,7 +725,17 @@ function setupIpcHandlers(): void {
   
   // Listener operations
   ipcMain.handle('create-listener', async (event, listener) => {
-    const listenerId = db.createListener(listener);
+    const listenerId = db.createListener({
+      ...listener,
+      ...parseSshAlgorithmSettings(listener),
+      ...parseBannerSettings(listener),
+      ...parseFtpsSettings(listener),
+      ...parsePassiveSettings(listener),
+      ...parseActiveModeSettings(listener),
+      ...parseSessionTimeouts(listener),
+      ...parseHashSettings(listener),
+      ...parseWebdavSettings(listener)
+    });
     
     // Log listener creation
     db.logActivity({
@@ -632,7 +758,18 @@ function setupIpcHandlers(): void {
   });
   
   ipcMain.handle('update-listener', async (event, id, updates) => {
-    db.updateListener(id, updates);
+    const previous = db.getListener(id);
+    db.updateListener(id, {
+      ...updates,
+      ...parseSshAlgorithmSettings(updates, previous),
+      ...parseBannerSettings(updates),
+      ...parseFtpsSettings(updates),
+      ...parsePassiveSettings(updates, previous),
+      ...parseActiveModeSettings(updates),
+      ...parseSessionTimeouts(updates),
+      ...parseHashSettings(updates),
+      ...parseWebdavSettings(updates)
+    });
     
     const listener = db.getListener(id);
     
@@ -644,6 +781,25 @@ function setupIpcHandlers(): void {
       path: `/listeners/${listener?.name || id}`,
       success: true
     });
+    
+    // Running servers choose their SSH algorithms, FTPS mode, passive mode and
+    // whether WebDAV uses TLS on start; banners, TLS requirements, active mode,
+    // timeouts and checksum settings are read for each connection or command
+    // and need no restart
+    const algorithmsChanged = previous && listener && listener.protocol === 'SFTP' &&
+      JSON.stringify(getSshAlgorithms(previous)) !== JSON.stringify(getSshAlgorithms(listener));
+    const ftpsModeChanged = previous && listener && listener.protocol === 'FTPS' && previous.ftpsMode !== listener.ftpsMode;
+    const passiveModeChanged = previous && listener && (listener.protocol === 'FTP' || listener.protocol === 'FTPS') &&
+      (['passivePortMin', 'passivePortMax', 'passiveAddressMode', 'passiveExternalAddress'] as const)
+        .some(field => previous[field] !== listener[field]);
+    const webdavTlsChanged = previous && listener && listener.protocol === 'HTTP' && previous.webdavTls !== listener.webdavTls;
+    if ((algorithmsChanged || ftpsModeChanged || passiveModeChanged || webdavTlsChanged) && serverManager.isListenerRunning(id)) {
+      await serverManager.restartListener(id);
+    }
+  });
+  
+  ipcMain.handle('get-ssh-algorithms', async () => {
+    return { presets: SSH_ALGORITHM_PRESETS, supported: SUPPORTED_SSH_ALGORITHMS };
   });
   
   ipcMain.handle('delete-listener', async (event, id) => {
@@ -664,6 +820,75 @@ function setupIpcHandlers(): void {
     });
   });
   
+  // SSH host keys (private key material stays in the main process)
+  ipcMain.handle('get-host-keys', async (event, id) => {
+    return db.getHostKeys(id).map(k => ({
+      keyType: k.keyType,
+      algorithm: k.algorithm,
+      fingerprint: k.fingerprint,
+      createdAt: k.createdAt
+    }));
+  });
+  
+  ipcMain.handle('import-host-key', async (event, id, privateKey) => {
+    const listener = db.getListener(id);
+    if (!listener) throw new Error('Listener not found');
+    if (listener.protocol !== 'SFTP') throw new Error('Host keys are only used by SFTP listeners');
+    
+    const hostKey = parseHostKey(privateKey || '');
+    db.saveHostKey({ listenerId: id, ...hostKey });
+    
+    // Log host key import
+    db.logActivity({
+      listenerId: id,
+      username: authenticatedUser?.username || 'system',
+      action: 'HOST_KEY_IMPORTED',
+      path: `/listeners/${listener.name}/${hostKey.algorithm} ${hostKey.fingerprint}`,
+      success: true
+    });
+    
+    // Running servers load their host keys on start
+    if (serverManager.isListenerRunning(id)) {
+      await serverManager.restartListener(id);
+    }
+  });
+  
+  // FTPS and WebDAV certificates (private key material stays in the main process)
+  ipcMain.handle('get-tls-certificate', async (event, id) => {
+    const certificate = db.getTlsCertificate(id);
+    return certificate ? getCertificateSummary(certificate) : null;
+  });
+  
+  const saveTlsCertificate = async (id: number, action: string, createCertificate: (listener: Listener) => TlsCertificateMaterial) => {
+    const listener = db.getListener(id);
+    if (!listener) throw new Error('Listener not found');
+    if (!usesTlsCertificate(listener)) throw new Error('Certificates are only used by FTPS and WebDAV listeners');
+    
+    const certificate = createCertificate(listener);
+    db.saveTlsCertificate({ listenerId: id, ...certificate });
+    
+    db.logActivity({
+      listenerId: id,
+      username: authenticatedUser?.username || 'system',
+      action,
+      path: `/listeners/${listener.name}/${certificate.subject} ${certificate.fingerprint}`,
+      success: true
+    });
+    
+    // Running servers load their certificate on start
+    if (serverManager.isListenerRunning(id)) {
+      await serverManager.restartListener(id);
+    }
+  };
+  
+  ipcMain.handle('import-tls-certificate', async (event, id, certificate) => {
+    await saveTlsCertificate(id, 'TLS_CERTIFICATE_IMPORTED', () => parseCertificateImport(certificate || {}));
+  });
+  
+  ipcMain.handle('generate-tls-certificate', async (event, id) => {
+    await saveTlsCertificate(id, 'TLS_CERTIFICATE_GENERATED', (listener) => generateCertificate(getCertificateHostnames(listener)));
+  });
+  
   // Server management
   ipcMain.handle('start-listener', async (event, id) => {
     await serverManager.startListener(id);
@@ -805,9 +1030,6 @@ function setupIpcHandlers(): void {
 
   // File browsing
   ipcMain.handle('browse-files', async (event, username, path) => {
-    const fs = require('fs');
-    const pathModule = require('path');
-    
     const user = db.getUser(username);
     if (!user) throw new Error('User not found');
     
@@ -816,36 +1038,14 @@ function setupIpcHandlers(): void {
       throw new Error('User has no virtual paths configured');
     }
     
-    // Map virtual path to real path
-    let realPath = '';
-    for (const vp of virtualPaths) {
-      if (path === vp.virtualPath || path.startsWith(vp.virtualPath + '/')) {
-        const relativePath = path.substring(vp.virtualPath.length);
-        realPath = pathModule.join(vp.localPath, relativePath);
-        break;
-      }
-    }
-    
-    if (!realPath && virtualPaths.length > 0) {
-      realPath = pathModule.join(virtualPaths[0].localPath, path);
-    }
-    
-    // Ensure directory exists
-    if (!fs.existsSync(realPath)) {
-      fs.mkdirSync(realPath, { recursive: true });
-    }
-    
-    const files = fs.readdirSync(realPath);
-    const fileList = files.map((file: string) => {
-      const filePath = pathModule.join(realPath, file);
-      const stats = fs.statSync(filePath);
-      return {
-        name: file,
-        size: stats.size,
-        mtime: stats.mtime,
-        isDirectory: stats.isDirectory()
-      };
-    });
+    // Same paths and permissions as the user gets over SFTP and FTP
+    const entries = await new VirtualFileSystem(virtualPaths).list(path);
+    const fileList = entries.map(({ name, stats }) => ({
+      name,
+      size: stats.size,
+      mtime: stats.mtime,
+      isDirectory: stats.isDirectory()
+    }));
     
     return { files: fileList };
   });
@@ -862,37 +1062,23 @@ function setupIpcHandlers(): void {
       throw new Error('User has no virtual paths configured');
     }
     
-    // Map virtual path to real path
-    let realPath = '';
-    for (const vp of virtualPaths) {
-      if (filePath === vp.virtualPath || filePath.startsWith(vp.virtualPath + '/')) {
-        const relativePath = filePath.substring(vp.virtualPath.length);
-        realPath = pathModule.join(vp.localPath, relativePath);
-        break;
-      }
-    }
-    
-    if (!realPath && virtualPaths.length > 0) {
-      realPath = pathModule.join(virtualPaths[0].localPath, filePath);
-    }
-    
-    if (!fs.existsSync(realPath)) {
-      throw new Error('File not found');
-    }
+    // Open the file first, so a missing or unreadable file fails before the dialog
+    const source = await new VirtualFileSystem(virtualPaths).createReadStream(filePath);
     
     // Show save dialog
     const result = await dialog.showSaveDialog({
-      defaultPath: pathModule.basename(realPath),
+      defaultPath: pathModule.posix.basename(filePath),
       filters: [
         { name: 'All Files', extensions: ['*'] }
       ]
     });
     
     if (!result.canceled && result.filePath) {
-      fs.copyFileSync(realPath, result.filePath);
+      await pipeline(source, fs.createWriteStream(result.filePath));
       return { success: true, savedPath: result.filePath };
     }
     
+    source.destroy();
     return { success: false };
   });
 
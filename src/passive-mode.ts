@@ -0,0 +1,154 @@
+import * as dns from 'dns';
+import * as net from 'net';
+import * as os from 'os';
+import { Listener, PassiveAddressMode } from './types';
+
+export const PASSIVE_ADDRESS_MODES: PassiveAddressMode[] = ['binding', 'external', 'auto'];
+
+type PassiveSettings = Pick<Listener, 'passivePortMin' | 'passivePortMax' | 'passiveAddressMode' | 'passiveExternalAddress'>;
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*$/;
+
+// Validate the passive mode fields of a listener create or update request.
+// Only fields that were given are returned; `current` is the stored listener
+// on updates, against which the combined settings are checked.
+export function parsePassiveSettings(
+  settings: { passivePortMin?: unknown; passivePortMax?: unknown; passiveAddressMode?: unknown; passiveExternalAddress?: unknown },
+  current?: Listener | null
+): PassiveSettings {
+  const result: PassiveSettings = {};
+
+  if (settings.passivePortMin !== undefined) {
+    result.passivePortMin = parsePort('passive port range start', settings.passivePortMin);
+  }
+  if (settings.passivePortMax !== undefined) {
+    result.passivePortMax = parsePort('passive port range end', settings.passivePortMax);
+  }
+  if (settings.passiveAddressMode !== undefined) {
+    if (!PASSIVE_ADDRESS_MODES.includes(settings.passiveAddressMode as PassiveAddressMode)) {
+      throw new Error(`Invalid passive address mode: ${settings.passiveAddressMode}`);
+    }
+    result.passiveAddressMode = settings.passiveAddressMode as PassiveAddressMode;
+  }
+  if (settings.passiveExternalAddress !== undefined) {
+    const address = typeof settings.passiveExternalAddress === 'string' ? settings.passiveExternalAddress.trim() : settings.passiveExternalAddress;
+    if (address !== null && address !== '' && (typeof address !== 'string' || !(net.isIPv4(address) || HOSTNAME_PATTERN.test(address)))) {
+      throw new Error(`Invalid external address: ${settings.passiveExternalAddress} (PASV needs an IPv4 address or a host name)`);
+    }
+    result.passiveExternalAddress = address || null;
+  }
+
+  const merged = { ...current, ...result };
+  if ((merged.passivePortMin == null) !== (merged.passivePortMax == null)) {
+    throw new Error('A passive port range needs both a start and an end');
+  }
+  if (merged.passivePortMin != null && merged.passivePortMin > merged.passivePortMax!) {
+    throw new Error(`Invalid passive port range: ${merged.passivePortMin}-${merged.passivePortMax}`);
+  }
+  if (merged.passiveAddressMode && merged.passiveAddressMode !== 'binding' && !merged.passiveExternalAddress) {
+    throw new Error(`The ${merged.passiveAddressMode} passive address mode needs an external address`);
+  }
+  return result;
+}
+
+function parsePort(name: string, value: unknown): number | null {
+  if (value === null || value === '') return null;
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return port;
+}
+
+// Why a listener cannot start next to the others, or null. Its control port
+// and passive range may not overlap the control ports or passive ranges of
+// other listeners on the same address, nor the port of the web admin server,
+// which listens on every address.
+export function findPortConflict(listener: Listener, others: Listener[], webPort: number | null = null): string | null {
+  // Port 0 lets the system pick a free port, which cannot collide
+  const ranges = (l: Listener): Array<[number, number, string]> => {
+    const result: Array<[number, number, string]> = l.port > 0 ? [[l.port, l.port, `port ${l.port}`]] : [];
+    if (isFtp(l) && l.passivePortMin != null && l.passivePortMax != null) {
+      result.push([l.passivePortMin, l.passivePortMax, `passive ports ${l.passivePortMin}-${l.passivePortMax}`]);
+    }
+    return result;
+  };
+
+  const own = ranges(listener);
+  if (isFtp(listener) && listener.passivePortMin != null && listener.passivePortMax != null &&
+      listener.port >= listener.passivePortMin && listener.port <= listener.passivePortMax) {
+    return `The passive ports ${listener.passivePortMin}-${listener.passivePortMax} of listener ${listener.name} include its own port ${listener.port}`;
+  }
+
+  if (webPort !== null) {
+    const used = own.find(([min, max]) => min <= webPort && webPort <= max);
+    if (used) {
+      return `The ${used[2]} of listener ${listener.name} collide with the port ${webPort} of the web admin server`;
+    }
+  }
+
+  for (const other of others) {
+    if (!sharesAddress(listener, other)) continue;
+    for (const [min, max, description] of own) {
+      for (const [otherMin, otherMax, otherDescription] of ranges(other)) {
+        if (min <= otherMax && otherMin <= max) {
+          return `The ${description} of listener ${listener.name} collide with the ${otherDescription} of listener ${other.name}`;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function isFtp(listener: Listener): boolean {
+  return listener.protocol === 'FTP' || listener.protocol === 'FTPS';
+}
+
+function sharesAddress(a: Listener, b: Listener): boolean {
+  const wildcard = (ip: string) => ip === '0.0.0.0' || ip === '::';
+  return a.bindingIp === b.bindingIp || wildcard(a.bindingIp) || wildcard(b.bindingIp);
+}
+
+// The address sent in PASV replies, as ftp-srv's pasv_url: the binding
+// address, or a function of the client's address for the external and auto
+// modes. In auto mode clients on a local subnet get the address of the
+// interface facing them and everyone else the external address.
+export function getPassiveAddress(listener: Listener): string | ((clientIp: string) => Promise<string>) {
+  const mode = listener.passiveAddressMode || 'binding';
+  if (mode === 'binding' || !listener.passiveExternalAddress) {
+    return listener.bindingIp;
+  }
+
+  const externalAddress = listener.passiveExternalAddress;
+  return async (clientIp: string) => {
+    const client = clientIp.replace(/^::ffff:/, '');
+    if (mode === 'auto') {
+      const localAddress = getLocalAddressFor(client, listener.bindingIp);
+      if (localAddress) return localAddress;
+    }
+    if (net.isIPv4(externalAddress)) return externalAddress;
+    return (await dns.promises.lookup(externalAddress, { family: 4 })).address;
+  };
+}
+
+// The IPv4 address of this machine that a client on one of its subnets
+// reaches it by, or null for clients elsewhere
+export function getLocalAddressFor(clientIp: string, bindingIp: string): string | null {
+  if (!net.isIPv4(clientIp)) return null;
+  if (clientIp.startsWith('127.')) return clientIp;
+
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (address.family !== 'IPv4' || address.internal) continue;
+      if (bindingIp !== '0.0.0.0' && address.address !== bindingIp) continue;
+      if (isInSubnet(clientIp, address.address, address.netmask)) return address.address;
+    }
+  }
+  return null;
+}
+
+function isInSubnet(ip: string, network: string, netmask: string): boolean {
+  const toNumber = (value: string) => value.split('.').reduce((n, part) => (n << 8) + Number(part), 0) >>> 0;
+  const mask = toNumber(netmask);
+  return ((toNumber(ip) & mask) >>> 0) === ((toNumber(network) & mask) >>> 0);
+}
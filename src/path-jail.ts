@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SymlinkPolicy, VirtualPath } from './types';
+
+// Thrown when a path resolves outside the directories mounted for a user
+export class PathOutsideJailError extends Error {
+  constructor(public readonly virtualPath: string) {
+    super(`Access denied: ${virtualPath} is outside the shared directories`);
+    this.name = 'PathOutsideJailError';
+  }
+}
+
+// A virtual path and the local path it maps to, before any symlinks are resolved
+export interface MappedPath {
+  virtualPath: string;
+  localPath: string;
+  mount: VirtualPath;
+}
+
+// Turn a client path into an absolute virtual path. Backslashes count as
+// separators and '..' stops at the virtual root, so the result never names a
+// parent of a mount. Relative paths are taken from cwd.
+export function normalizeVirtualPath(inputPath: string, cwd: string = '/'): string {
+  const input = inputPath.replace(/\\/g, '/');
+  return path.posix.resolve('/', cwd.replace(/\\/g, '/'), input);
+}
+
+// Resolve all symlinks in a path. For paths that don't exist (yet) the deepest
+// existing ancestor is resolved; dangling links are followed by hand
+export async function resolveRealPath(target: string, depth: number = 0): Promise<string> {
+  let current = path.resolve(target);
+  const remainder: string[] = [];
+
+  while (true) {
+    try {
+      return path.join(await fs.promises.realpath(current), ...remainder);
+    } catch {
+      try {
+        if (depth < 32 && (await fs.promises.lstat(current)).isSymbolicLink()) {
+          const linkTarget = path.resolve(path.dirname(current), await fs.promises.readlink(current));
+          return resolveRealPath(path.join(linkTarget, ...remainder), depth + 1);
+        }
+      } catch {
+        // Not a link - keep walking up
+      }
+
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return path.join(current, ...remainder);
+      }
+      remainder.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+export function isWithinRoots(target: string, roots: string[]): boolean {
+  return roots.some(root => {
+    const relative = path.relative(root, target);
+    return relative === '' || (relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative));
+  });
+}
+
+// Maps the virtual paths of one user onto their mounts and keeps every access
+// inside them. Paths are canonicalized with realpath, so neither '..' nor a
+// symlink can reach a file outside the mounted roots; symlinks are followed
+// only as far as each mount's symlink policy allows. Protocols reach it
+// through VirtualFileSystem.
+export class PathJail {
+  private mounts: VirtualPath[];
+  // Real path of each mount's localPath, resolved on first use
+  private realRoots = new Map<VirtualPath, Promise<string>>();
+
+  constructor(mounts: VirtualPath[]) {
+    // Longest virtual path first, so nested mounts win over their parents
+    this.mounts = [...mounts].sort((a, b) => toMountPath(b).length - toMountPath(a).length);
+  }
+
+  // The mount serving a virtual path, or null for paths below no mount
+  findMount(virtualPath: string): VirtualPath | null {
+    const normalized = normalizeVirtualPath(virtualPath);
+    return this.mounts.find(mount => isBelow(normalized, toMountPath(mount))) || null;
+  }
+
+  // Names of the mount points directly below a virtual path, e.g. 'inbox' and
+  // 'shared' below '/' for mounts at /inbox and /shared/finance
+  getMountPointsBelow(virtualPath: string): string[] {
+    const normalized = normalizeVirtualPath(virtualPath);
+    const names = new Set<string>();
+    for (const mount of this.mounts) {
+      const mountPath = toMountPath(mount);
+      if (mountPath !== normalized && isBelow(mountPath, normalized)) {
+        names.add(path.posix.relative(normalized, mountPath).split('/')[0]);
+      }
+    }
+    return [...names].sort();
+  }
+
+  // Paths above the mounts that no mount serves, such as '/' when only /inbox
+  // and /outbox are mounted, are read-only directories listing the mount points
+  isVirtualDirectory(virtualPath: string): boolean {
+    return !this.findMount(virtualPath) && this.getMountPointsBelow(virtualPath).length > 0;
+  }
+
+  getSymlinkPolicy(virtualPath: string): SymlinkPolicy {
+    return this.findMount(virtualPath)?.symlinkPolicy || 'follow-within-mount';
+  }
+
+  // Map a virtual path onto its mount without touching the file system. The
+  // result stays below the mount's localPath, but symlinks may still lead
+  // elsewhere; use resolve() or contains() before accessing it.
+  map(virtualPath: string, cwd: string = '/'): MappedPath | null {
+    const normalized = normalizeVirtualPath(virtualPath, cwd);
+    const mount = this.findMount(normalized);
+    if (!mount) return null;
+
+    const relativePath = path.posix.relative(toMountPath(mount), normalized);
+    return {
+      virtualPath: normalized,
+      localPath: path.join(mount.localPath, ...relativePath.split('/').filter(Boolean)),
+      mount
+    };
+  }
+
+  // Map a virtual path and check it against the jail
+  async resolve(virtualPath: string, options: { cwd?: string; followLast?: boolean } = {}): Promise<MappedPath> {
+    const mapped = this.map(virtualPath, options.cwd);
+    if (!mapped || !(await this.contains(mapped.virtualPath, mapped.localPath, options.followLast))) {
+      throw new PathOutsideJailError(normalizeVirtualPath(virtualPath, options.cwd));
+    }
+    return mapped;
+  }
+
+  // Jail check for a local path mapped from the given virtual path. Symlinks
+  // along the way are resolved, so a link pointing outside the allowed roots is
+  // rejected instead of followed. With followLast = false the final component
+  // itself is not resolved (for operations such as LSTAT, REMOVE or RENAME that
+  // act on the link).
+  async contains(virtualPath: string, localPath: string, followLast: boolean = true): Promise<boolean> {
+    const mount = this.findMount(virtualPath);
+    if (!mount) return false;
+
+    const mountRoot = await this.getRealRoot(mount);
+    const lexicalPath = path.join(mountRoot, path.relative(mount.localPath, localPath));
+    const resolvedPath = followLast
+      ? await resolveRealPath(localPath)
+      : path.join(await resolveRealPath(path.dirname(localPath)), path.basename(localPath));
+
+    if (resolvedPath === lexicalPath) {
+      return isWithinRoots(lexicalPath, [mountRoot]);
+    }
+    return this.isLinkTargetAllowed(virtualPath, resolvedPath);
+  }
+
+  // Check whether a resolved symlink target lies inside the roots the mount's
+  // policy allows: its own localPath, or any of the user's
+  async isLinkTargetAllowed(virtualPath: string, resolvedTarget: string): Promise<boolean> {
+    const mount = this.findMount(virtualPath);
+    const policy = this.getSymlinkPolicy(virtualPath);
+    if (!mount || policy === 'deny') return false;
+
+    const roots = await Promise.all((policy === 'allow' ? this.mounts : [mount]).map(m => this.getRealRoot(m)));
+    return isWithinRoots(resolvedTarget, roots);
+  }
+
+  // Mount roots are resolved once; a root that does not exist yet keeps its
+  // lexical path
+  private getRealRoot(mount: VirtualPath): Promise<string> {
+    let root = this.realRoots.get(mount);
+    if (!root) {
+      root = resolveRealPath(mount.localPath);
+      this.realRoots.set(mount, root);
+    }
+    return root;
+  }
+
+  // Map a local path back to the user's virtual namespace
+  toVirtualPath(localPath: string): string | null {
+    const byLocalPath = [...this.mounts].sort((a, b) => b.localPath.length - a.localPath.length);
+    for (const mount of byLocalPath) {
+      if (isWithinRoots(localPath, [path.resolve(mount.localPath)])) {
+        const relativePath = path.relative(mount.localPath, localPath).split(path.sep).join('/');
+        return path.posix.join(toMountPath(mount), relativePath);
+      }
+    }
+    return null;
+  }
+}
+
+function toMountPath(mount: VirtualPath): string {
+  return normalizeVirtualPath(mount.virtualPath);
+}
+
+// Whether a normalized virtual path is the given directory or inside it
+function isBelow(virtualPath: string, directory: string): boolean {
+  return directory === '/' || virtualPath === directory || virtualPath.startsWith(directory + '/');
+}
@@ -0,0 +1,379 @@
+// Minimal QR code encoder (ISO/IEC 18004) for TOTP enrollment links: byte mode,
+// error correction level M, smallest version that fits the text.
+
+// Per version (index 1-40): error correction codewords per block and number of blocks, level M
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26,
+  26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28
+];
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14,
+  16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49
+];
+
+// Format information bits for level M
+const ECC_LEVEL_BITS = 0;
+
+export type QrMatrix = boolean[][];
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: QrMatrix;
+  private readonly isFunction: boolean[][];
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => Array(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => Array(this.size).fill(false));
+  }
+
+  build(codewords: number[]): QrMatrix {
+    this.drawFunctionPatterns();
+    this.drawCodewords(codewords);
+
+    // Pick the mask with the lowest penalty score
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < 8; mask++) {
+      this.applyMask(mask);
+      this.drawFormatBits(mask);
+      const penalty = this.getPenaltyScore();
+      if (penalty < bestPenalty) {
+        bestMask = mask;
+        bestPenalty = penalty;
+      }
+      this.applyMask(mask); // XOR again to undo
+    }
+    this.applyMask(bestMask);
+    this.drawFormatBits(bestMask);
+    return this.modules;
+  }
+
+  private setFunctionModule(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = getAlignmentPatternPositions(this.version);
+    const count = positions.length;
+    for (let i = 0; i < count; i++) {
+      for (let j = 0; j < count; j++) {
+        // Skip the three corners occupied by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === count - 1) || (i === count - 1 && j === 0)) continue;
+        this.drawAlignmentPattern(positions[i], positions[j]);
+      }
+    }
+
+    this.drawFormatBits(0); // Reserve the area, overwritten once the mask is chosen
+    this.drawVersion();
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private drawFormatBits(mask: number): void {
+    const data = (ECC_LEVEL_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    // First copy, around the top left finder pattern
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, bit(i));
+    this.setFunctionModule(8, 7, bit(6));
+    this.setFunctionModule(8, 8, bit(7));
+    this.setFunctionModule(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, bit(i));
+
+    // Second copy, split between the other two finder patterns
+    for (let i = 0; i < 8; i++) this.setFunctionModule(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunctionModule(8, this.size - 15 + i, bit(i));
+    this.setFunctionModule(8, this.size - 8, true); // Always dark
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, dark);
+      this.setFunctionModule(b, a, dark);
+    }
+  }
+
+  // Place the data bits in the two-column zigzag, skipping function modules
+  private drawCodewords(codewords: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  private applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y][x]) continue;
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = (x * y) % 2 + (x * y) % 3 === 0; break;
+          case 6: invert = ((x * y) % 2 + (x * y) % 3) % 2 === 0; break;
+          default: invert = ((x + y) % 2 + (x * y) % 3) % 2 === 0; break;
+        }
+        if (invert) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  private getPenaltyScore(): number {
+    let result = 0;
+    const size = this.size;
+    const at = (x: number, y: number) => this.modules[y][x];
+
+    // Runs of five or more modules of the same color, and finder-like patterns
+    for (let pass = 0; pass < 2; pass++) {
+      for (let a = 0; a < size; a++) {
+        let runColor = false;
+        let runLength = 0;
+        const line: boolean[] = [];
+        for (let b = 0; b < size; b++) {
+          const dark = pass === 0 ? at(b, a) : at(a, b);
+          line.push(dark);
+          if (b > 0 && dark === runColor) {
+            runLength++;
+            if (runLength === 5) result += 3;
+            else if (runLength > 5) result++;
+          } else {
+            runColor = dark;
+            runLength = 1;
+          }
+        }
+        result += countFinderLikePatterns(line) * 40;
+      }
+    }
+
+    // 2x2 blocks of the same color
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = at(x, y);
+        if (color === at(x + 1, y) && color === at(x, y + 1) && color === at(x + 1, y + 1)) {
+          result += 3;
+        }
+      }
+    }
+
+    // Balance of dark and light modules
+    let dark = 0;
+    for (const row of this.modules) {
+      for (const module of row) if (module) dark++;
+    }
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    result += k * 10;
+    return result;
+  }
+}
+
+// 1:1:3:1:1 dark/light patterns with four light modules on either side
+function countFinderLikePatterns(line: boolean[]): number {
+  const pattern = [true, false, true, true, true, false, true];
+  const padded = [...Array(4).fill(false), ...line, ...Array(4).fill(false)];
+  let count = 0;
+  for (let i = 0; i + 7 <= padded.length; i++) {
+    if (!pattern.every((v, j) => padded[i + j] === v)) continue;
+    const lightBefore = i >= 4 && padded.slice(i - 4, i).every(v => !v);
+    const lightAfter = i + 11 <= padded.length && padded.slice(i + 7, i + 11).every(v => !v);
+    if (lightBefore || lightAfter) count++;
+  }
+  return count;
+}
+
+function getAlignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = version * 4 + 10; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+// Modules available for data and error correction codewords
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const count = Math.floor(version / 7) + 2;
+    result -= (25 * count - 10) * count - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getNumDataCodewords(version: number): number {
+  return Math.floor(getNumRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+}
+
+// Reed-Solomon arithmetic over GF(2^8) with the QR polynomial 0x11D
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result: number[] = Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result: number[] = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => result[i] ^= gfMultiply(coef, factor));
+  }
+  return result;
+}
+
+// Split the data into blocks, append error correction and interleave
+function addErrorCorrection(data: number[], version: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const length = shortBlockLength - eccLength + (i < numShortBlocks ? 0 : 1);
+    const blockData = data.slice(k, k + length);
+    k += length;
+    const ecc = reedSolomonRemainder(blockData, divisor);
+    if (i < numShortBlocks) blockData.push(0); // Placeholder, skipped when interleaving
+    blocks.push(blockData.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function encodeData(text: string, version: number): number[] | null {
+  const bytes = Buffer.from(text, 'utf8');
+  const capacityBits = getNumDataCodewords(version) * 8;
+  const countBits = version <= 9 ? 8 : 16;
+  if (bytes.length >= 2 ** countBits) return null;
+
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0x4, 4); // Byte mode
+  append(bytes.length, countBits);
+  for (const b of bytes) append(b, 8);
+  if (bits.length > capacityBits) return null;
+
+  // Terminator, byte alignment and alternating pad bytes
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  }
+  return codewords;
+}
+
+export function encodeQrCode(text: string): QrMatrix {
+  for (let version = 1; version <= 40; version++) {
+    const data = encodeData(text, version);
+    if (data) {
+      return new QrBuilder(version).build(addErrorCorrection(data, version));
+    }
+  }
+  throw new Error('Text too long for a QR code');
+}
+
+// Render as a standalone SVG with the recommended four-module quiet zone
+export function toSvg(matrix: QrMatrix, moduleSize: number = 4): string {
+  const border = 4;
+  const size = matrix.length + border * 2;
+  const path = matrix.flatMap((row, y) => row.map((dark, x) => dark ? `M${x + border},${y + border}h1v1h-1z` : '')).join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" width="${size * moduleSize}" height="${size * moduleSize}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+}
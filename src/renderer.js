@@ -393,6 +393,50 @@ async function editListener(id) {
     form.bindingIp.value = listener.bindingIp;
     form.port.value = listener.port;
     form.enabled.checked = listener.enabled;
+    form.authPolicy.value = listener.authPolicy || 'any';
+    form.sshAlgorithmProfile.value = listener.sshAlgorithmProfile || 'default';
+    form.loginBanner.value = listener.loginBanner || '';
+    form.motd.value = listener.motd || '';
+    form.ftpsMode.value = listener.ftpsMode || 'explicit';
+    form.requireTlsLogin.checked = listener.requireTlsLogin !== false;
+    form.requireTlsData.checked = listener.requireTlsData !== false;
+    form.passivePortMin.value = listener.passivePortMin || '';
+    form.passivePortMax.value = listener.passivePortMax || '';
+    form.passiveAddressMode.value = listener.passiveAddressMode || 'binding';
+    form.passiveExternalAddress.value = listener.passiveExternalAddress || '';
+    form.allowActiveMode.checked = listener.allowActiveMode !== false;
+    form.idleTimeoutSeconds.value = listener.idleTimeoutSeconds;
+    form.maxSessionSeconds.value = listener.maxSessionSeconds;
+    form.authTimeoutSeconds.value = listener.authTimeoutSeconds;
+    form.hashAlgorithm.value = listener.hashAlgorithm || 'sha256';
+    form.hashMaxBytes.value = listener.hashMaxBytes;
+    form.webdavTls.checked = listener.webdavTls === true;
+    
+    const isFTP = listener.protocol === 'FTP' || listener.protocol === 'FTPS';
+    document.getElementById('ftpSettingsSection').style.display = isFTP ? 'block' : 'none';
+    
+    const isFTPS = listener.protocol === 'FTPS';
+    document.getElementById('ftpsSettingsSection').style.display = isFTPS ? 'block' : 'none';
+    
+    const isWebDAV = listener.protocol === 'HTTP';
+    document.getElementById('webdavSettingsSection').style.display = isWebDAV ? 'block' : 'none';
+    
+    const usesCertificate = isFTPS || isWebDAV;
+    document.getElementById('tlsCertificateSection').style.display = usesCertificate ? 'block' : 'none';
+    clearTlsCertificateImport();
+    if (usesCertificate) {
+      await renderTlsCertificate(listener.id);
+    }
+    
+    const isSFTP = listener.protocol === 'SFTP';
+    document.getElementById('sshSettingsSection').style.display = isSFTP ? 'block' : 'none';
+    document.getElementById('hostKeyImport').value = '';
+    document.getElementById('hostKeyFile').value = '';
+    if (isSFTP) {
+      sshAlgorithmPresets = sshAlgorithmPresets || (await ipcRenderer.invoke('get-ssh-algorithms')).presets;
+      renderSshAlgorithmLists(listener.sshAlgorithms);
+      await renderHostKeys(listener.id);
+    }
     
     showModal('editListenerModal');
   } catch (err) {
@@ -400,6 +444,183 @@ async function editListener(id) {
   }
 }
 
+// Fields of the algorithm lists in the edit listener dialog, by ssh2 category
+const SSH_ALGORITHM_FIELDS = {
+  kex: 'sshKex',
+  cipher: 'sshCipher',
+  hmac: 'sshHmac',
+  serverHostKey: 'sshServerHostKey',
+  compress: 'sshCompress'
+};
+let sshAlgorithmPresets = null;
+
+// Show the lists of the selected profile. Presets are read-only; switching to
+// custom starts from the lists currently shown unless saved lists are given.
+function renderSshAlgorithmLists(customAlgorithms) {
+  const form = document.getElementById('editListenerForm');
+  const profile = form.sshAlgorithmProfile.value;
+  const isCustom = profile === 'custom';
+  
+  for (const [category, field] of Object.entries(SSH_ALGORITHM_FIELDS)) {
+    const textarea = form[field];
+    if (!isCustom) {
+      textarea.value = sshAlgorithmPresets[profile][category].join('\n');
+    } else if (customAlgorithms) {
+      textarea.value = customAlgorithms[category].join('\n');
+    }
+    textarea.readOnly = !isCustom;
+  }
+}
+
+function getSshAlgorithmLists(formData) {
+  const algorithms = {};
+  for (const [category, field] of Object.entries(SSH_ALGORITHM_FIELDS)) {
+    algorithms[category] = formData.get(field).split(/[\s,]+/).filter(name => name);
+  }
+  return algorithms;
+}
+
+async function renderHostKeys(listenerId) {
+  const hostKeys = await ipcRenderer.invoke('get-host-keys', listenerId);
+  const html = hostKeys.map(k => `
+    <div class="virtual-path-item">
+      <div>
+        <strong>${k.algorithm}</strong>
+        <div style="font-size: 0.85em; color: #666; margin-top: 5px; font-family: monospace;">${k.fingerprint}</div>
+      </div>
+    </div>
+  `).join('');
+  
+  document.getElementById('listenerHostKeys').innerHTML = html || '<p>Host keys are generated when the listener first starts</p>';
+}
+
+function loadHostKeyFile(event) {
+  const file = event.target.files[0];
+  if (!file) return;
+  
+  const reader = new FileReader();
+  reader.onload = () => {
+    document.getElementById('hostKeyImport').value = reader.result;
+  };
+  reader.readAsText(file);
+}
+
+async function importHostKey() {
+  const form = document.getElementById('editListenerForm');
+  const listenerId = parseInt(form.id.value);
+  const privateKey = document.getElementById('hostKeyImport').value.trim();
+  
+  if (!privateKey) {
+    alert('Select a key file or paste an OpenSSH private key first.');
+    return;
+  }
+  
+  try {
+    await ipcRenderer.invoke('import-host-key', listenerId, privateKey);
+    document.getElementById('hostKeyImport').value = '';
+    document.getElementById('hostKeyFile').value = '';
+    await renderHostKeys(listenerId);
+  } catch (err) {
+    alert(`Failed to import host key: ${err.message}`);
+  }
+}
+
+async function renderTlsCertificate(listenerId) {
+  const certificate = await ipcRenderer.invoke('get-tls-certificate', listenerId);
+  const sources = { generated: 'Self-signed', pem: 'Imported PEM', pfx: 'Imported PFX' };
+  document.getElementById('listenerTlsCertificate').innerHTML = certificate ? `
+    <div class="virtual-path-item">
+      <div>
+        <strong>${certificate.subject}</strong> (${sources[certificate.source]})
+        <div style="font-size: 0.85em; color: #666; margin-top: 5px;">Valid ${new Date(certificate.validFrom).toLocaleDateString()} to ${new Date(certificate.validTo).toLocaleDateString()}</div>
+        <div style="font-size: 0.85em; color: #666; margin-top: 5px; font-family: monospace; word-break: break-all;">${certificate.fingerprint}</div>
+      </div>
+    </div>
+  ` : '<p>A self-signed certificate is generated when the listener first starts</p>';
+}
+
+// PFX files are binary and sent as base64; PEM files may hold the
+// certificate, the private key or both
+let tlsPfxImport = null;
+
+function clearTlsCertificateImport() {
+  tlsPfxImport = null;
+  document.getElementById('tlsCertificateFile').value = '';
+  document.getElementById('tlsCertificateImport').value = '';
+  document.getElementById('tlsPrivateKeyImport').value = '';
+  document.getElementById('tlsPassphrase').value = '';
+}
+
+function loadTlsCertificateFile(event) {
+  const file = event.target.files[0];
+  if (!file) return;
+  
+  const reader = new FileReader();
+  if (/\.(pfx|p12)$/i.test(file.name)) {
+    reader.onload = () => {
+      tlsPfxImport = reader.result.split(',')[1];
+      document.getElementById('tlsCertificateImport').value = `PFX file: ${file.name}`;
+    };
+    reader.readAsDataURL(file);
+    return;
+  }
+  
+  reader.onload = () => {
+    tlsPfxImport = null;
+    const text = reader.result;
+    const keyMatch = text.match(/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/);
+    const certificates = text.match(/-----BEGIN CERTIFICATE-----[\s\S]*?-----END CERTIFICATE-----/g);
+    if (certificates) {
+      document.getElementById('tlsCertificateImport').value = certificates.join('\n');
+    }
+    if (keyMatch) {
+      document.getElementById('tlsPrivateKeyImport').value = keyMatch[0];
+    }
+  };
+  reader.readAsText(file);
+}
+
+async function importTlsCertificate() {
+  const form = document.getElementById('editListenerForm');
+  const listenerId = parseInt(form.id.value);
+  const passphrase = document.getElementById('tlsPassphrase').value;
+  const certificate = tlsPfxImport
+    ? { pfx: tlsPfxImport, passphrase }
+    : {
+      certificate: document.getElementById('tlsCertificateImport').value.trim(),
+      privateKey: document.getElementById('tlsPrivateKeyImport').value.trim(),
+      passphrase
+    };
+  
+  if (!certificate.pfx && (!certificate.certificate || !certificate.privateKey)) {
+    alert('Select a PFX file, or give a PEM certificate and private key first.');
+    return;
+  }
+  
+  try {
+    await ipcRenderer.invoke('import-tls-certificate', listenerId, certificate);
+    clearTlsCertificateImport();
+    await renderTlsCertificate(listenerId);
+  } catch (err) {
+    alert(`Failed to import certificate: ${err.message}`);
+  }
+}
+
+async function generateTlsCertificate() {
+  const form = document.getElementById('editListenerForm');
+  const listenerId = parseInt(form.id.value);
+  if (!confirm('Replace the current certificate with a new self-signed one? Clients that pinned the old one will warn.')) {
+    return;
+  }
+  
+  try {
+    await ipcRenderer.invoke('generate-tls-certificate', listenerId);
+    await renderTlsCertificate(listenerId);
+  } catch (err) {
+    alert(`Failed to generate certificate: ${err.message}`);
+  }
+}
+
 
 // Active Sessions
 async function loadActiveSessions() {
@@ -481,12 +702,17 @@ function formatDuration(ms) {
 async function loadUsers() {
   const users = await ipcRenderer.invoke('get-all-users');
   
+  const keyCounts = {};
+  for (const user of users) {
+    keyCounts[user.username] = (await ipcRenderer.invoke('get-user-keys', user.username)).length;
+  }
+  
   const tbody = document.querySelector('#users-table tbody');
   tbody.innerHTML = users.map(user => `
     <tr>
       <td>${user.username}</td>
       <td>${user.passwordEnabled ? '✓' : '✗'}</td>
-      <td>${user.publicKey ? '✓' : '✗'}</td>
+      <td>${keyCounts[user.username] ? `✓ (${keyCounts[user.username]})` : '✗'}</td>
       <td>${user.guiEnabled ? '✓' : '✗'}</td>
       <td>
         <button class="btn btn-primary" onclick="editUser('${user.username}')">Edit</button>
@@ -508,8 +734,13 @@ async function editUser(username) {
   const form = document.getElementById('editUserForm');
   form.username.value = username;
   form.passwordEnabled.checked = user.passwordEnabled;
-  form.publicKey.value = user.publicKey || '';
   form.guiEnabled.checked = user.guiEnabled;
+  form.authPolicy.value = user.authPolicy || 'any';
+  form.mfaMode.value = user.mfaMode || 'disabled';
+  renderTotpStatus(user.totpEnrolled);
+  document.getElementById('userKeyLabel').value = '';
+  document.getElementById('userKeyImport').value = '';
+  await renderUserKeys(username);
   
   // Populate listeners with permissions
   let listenersHtml = '';
@@ -554,6 +785,10 @@ async function editUser(username) {
               <input type="checkbox" id="perm-${listener.id}-canRename" ${permission?.canRename ? 'checked' : ''}>
               <label for="perm-${listener.id}-canRename">Rename Files</label>
             </div>
+            <div class="checkbox-group">
+              <input type="checkbox" id="perm-${listener.id}-canSetAttributes" ${permission?.canSetAttributes ? 'checked' : ''}>
+              <label for="perm-${listener.id}-canSetAttributes">Change Attributes</label>
+            </div>
           </div>
           <div style="margin-top: 10px;">
             <button type="button" class="btn" style="background: #95a5a6; color: white; font-size: 12px;" onclick="setAllPermissions(${listener.id}, true)">Select All</button>
@@ -580,19 +815,122 @@ function toggleListenerPermissions(listenerId) {
 }
 
 function setAllPermissions(listenerId, value) {
-  const permissions = ['canCreate', 'canEdit', 'canAppend', 'canDelete', 'canList', 'canCreateDir', 'canRename'];
+  const permissions = ['canCreate', 'canEdit', 'canAppend', 'canDelete', 'canList', 'canCreateDir', 'canRename', 'canSetAttributes'];
   permissions.forEach(perm => {
     document.getElementById(`perm-${listenerId}-${perm}`).checked = value;
   });
 }
 
 function setReadOnlyPermissions(listenerId) {
-  const permissions = ['canCreate', 'canEdit', 'canAppend', 'canDelete', 'canList', 'canCreateDir', 'canRename'];
+  const permissions = ['canCreate', 'canEdit', 'canAppend', 'canDelete', 'canList', 'canCreateDir', 'canRename', 'canSetAttributes'];
   permissions.forEach(perm => {
     document.getElementById(`perm-${listenerId}-${perm}`).checked = (perm === 'canList');
   });
 }
 
+async function renderUserKeys(username) {
+  const keys = await ipcRenderer.invoke('get-user-keys', username);
+  const html = keys.map(k => {
+    // authorized_keys options (from=, expiry-time=, read-only) precede the key type
+    const options = k.publicKey.slice(0, k.publicKey.indexOf(k.algorithm + ' ')).trim();
+    return `
+    <div class="virtual-path-item">
+      <div>
+        <strong>${k.label}</strong> (${k.algorithm})
+        <div style="font-size: 0.85em; color: #666; margin-top: 5px; font-family: monospace;">${k.fingerprint}</div>
+        ${options ? `<div style="font-size: 0.85em; color: #666; margin-top: 5px;">Restrictions: <code>${options}</code></div>` : ''}
+        <div style="font-size: 0.85em; color: #666; margin-top: 5px;">
+          Added ${new Date(k.createdAt + 'Z').toLocaleString()} · ${k.lastUsedAt ? `Last used ${new Date(k.lastUsedAt + 'Z').toLocaleString()}` : 'Never used'}
+        </div>
+      </div>
+      <div>
+        <button type="button" class="btn btn-danger" onclick="deleteUserKey(${k.id})">Remove</button>
+      </div>
+    </div>
+  `;
+  }).join('');
+
+  document.getElementById('userKeysList').innerHTML = html || '<p>No public keys configured</p>';
+}
+
+async function addUserKey() {
+  const username = document.getElementById('editUserForm').username.value;
+  const label = document.getElementById('userKeyLabel').value.trim();
+  const publicKey = document.getElementById('userKeyImport').value.trim();
+
+  if (!publicKey) {
+    alert('Paste a public key in authorized_keys format first.');
+    return;
+  }
+
+  try {
+    await ipcRenderer.invoke('add-user-key', username, label, publicKey);
+    document.getElementById('userKeyLabel').value = '';
+    document.getElementById('userKeyImport').value = '';
+    await renderUserKeys(username);
+  } catch (err) {
+    alert(`Failed to add key: ${err.message}`);
+  }
+}
+
+async function deleteUserKey(id) {
+  if (!confirm('Remove this public key? The user will no longer be able to log in with it.')) return;
+
+  const username = document.getElementById('editUserForm').username.value;
+  try {
+    await ipcRenderer.invoke('delete-user-key', username, id);
+    await renderUserKeys(username);
+  } catch (err) {
+    alert(`Failed to remove key: ${err.message}`);
+  }
+}
+
+let pendingTotpSecret = null;
+
+function renderTotpStatus(enrolled) {
+  pendingTotpSecret = null;
+  document.getElementById('totpEnrollment').style.display = 'none';
+  document.getElementById('totpStatus').textContent = enrolled ? 'Authenticator enrolled' : 'No authenticator enrolled';
+  document.getElementById('resetTotpBtn').style.display = enrolled ? 'inline-block' : 'none';
+}
+
+async function startTotpEnrollment() {
+  const username = document.getElementById('editUserForm').username.value;
+  try {
+    const enrollment = await ipcRenderer.invoke('start-totp-enrollment', username);
+    pendingTotpSecret = enrollment.secret;
+    document.getElementById('totpQrCode').innerHTML = enrollment.qrCode;
+    document.getElementById('totpSecret').textContent = enrollment.secret;
+    document.getElementById('totpCode').value = '';
+    document.getElementById('totpEnrollment').style.display = 'block';
+  } catch (err) {
+    alert(`Failed to start enrollment: ${err.message}`);
+  }
+}
+
+async function confirmTotpEnrollment() {
+  const username = document.getElementById('editUserForm').username.value;
+  const code = document.getElementById('totpCode').value.trim();
+  try {
+    await ipcRenderer.invoke('confirm-totp-enrollment', username, pendingTotpSecret, code);
+    renderTotpStatus(true);
+  } catch (err) {
+    alert(`Failed to confirm enrollment: ${err.message}`);
+  }
+}
+
+async function resetTotp() {
+  if (!confirm('Remove the enrolled authenticator? With MFA required the user cannot log in with a password until a new one is enrolled.')) return;
+
+  const username = document.getElementById('editUserForm').username.value;
+  try {
+    await ipcRenderer.invoke('reset-totp', username);
+    renderTotpStatus(false);
+  } catch (err) {
+    alert(`Failed to reset authenticator: ${err.message}`);
+  }
+}
+
 function renderVirtualPaths() {
   const html = currentUserVirtualPaths.map((vp, index) => `
     <div class="virtual-path-item">
@@ -609,6 +947,7 @@ function renderVirtualPaths() {
             vp.canRename ? 'Rename' : null
           ].filter(Boolean).join(', ') || 'None'}
           ${vp.applyToSubdirs ? '(applies to subdirs)' : ''}
+          ${vp.symlinkPolicy === 'deny' ? '(symlinks denied)' : vp.symlinkPolicy === 'allow' ? '(symlinks allowed)' : ''}
         </div>
       </div>
       <div>
@@ -634,6 +973,7 @@ function addVirtualPath() {
   document.getElementById('vpCanCreateDir').checked = false;
   document.getElementById('vpCanRename').checked = false;
   document.getElementById('vpApplyToSubdirs').checked = true;
+  document.getElementById('vpSymlinkPolicy').value = 'follow-within-mount';
   showModal('virtualPathModal');
 }
 
@@ -651,6 +991,7 @@ function editVirtualPath(index) {
   document.getElementById('vpCanCreateDir').checked = vp.canCreateDir || false;
   document.getElementById('vpCanRename').checked = vp.canRename || false;
   document.getElementById('vpApplyToSubdirs').checked = vp.applyToSubdirs !== false;
+  document.getElementById('vpSymlinkPolicy').value = vp.symlinkPolicy || 'follow-within-mount';
   showModal('virtualPathModal');
 }
 
@@ -1090,8 +1431,29 @@ document.getElementById('editListenerForm').addEventListener('submit', async (e)
     name: formData.get('name'),
     bindingIp: formData.get('bindingIp'),
     port: parseInt(formData.get('port')),
-    enabled: formData.get('enabled') === 'on'
+    enabled: formData.get('enabled') === 'on',
+    authPolicy: formData.get('authPolicy'),
+    sshAlgorithmProfile: formData.get('sshAlgorithmProfile'),
+    loginBanner: formData.get('loginBanner'),
+    motd: formData.get('motd'),
+    ftpsMode: formData.get('ftpsMode'),
+    requireTlsLogin: formData.get('requireTlsLogin') === 'on',
+    requireTlsData: formData.get('requireTlsData') === 'on',
+    passivePortMin: formData.get('passivePortMin'),
+    passivePortMax: formData.get('passivePortMax'),
+    passiveAddressMode: formData.get('passiveAddressMode'),
+    passiveExternalAddress: formData.get('passiveExternalAddress'),
+    allowActiveMode: formData.get('allowActiveMode') === 'on',
+    idleTimeoutSeconds: formData.get('idleTimeoutSeconds'),
+    maxSessionSeconds: formData.get('maxSessionSeconds'),
+    authTimeoutSeconds: formData.get('authTimeoutSeconds'),
+    hashAlgorithm: formData.get('hashAlgorithm'),
+    hashMaxBytes: formData.get('hashMaxBytes'),
+    webdavTls: formData.get('webdavTls') === 'on'
   };
+  if (updates.sshAlgorithmProfile === 'custom') {
+    updates.sshAlgorithms = getSshAlgorithmLists(formData);
+  }
   
   try {
     await ipcRenderer.invoke('update-listener', id, updates);
@@ -1138,7 +1500,8 @@ document.getElementById('virtualPathForm').addEventListener('submit', (e) => {
     canList: document.getElementById('vpCanList').checked,
     canCreateDir: document.getElementById('vpCanCreateDir').checked,
     canRename: document.getElementById('vpCanRename').checked,
-    applyToSubdirs: document.getElementById('vpApplyToSubdirs').checked
+    applyToSubdirs: document.getElementById('vpApplyToSubdirs').checked,
+    symlinkPolicy: document.getElementById('vpSymlinkPolicy').value
   };
   
   if (index === -1) {
@@ -1159,8 +1522,9 @@ document.getElementById('editUserForm').addEventListener('submit', async (e) =>
   const data = {
     password: formData.get('password') || undefined,
     passwordEnabled: formData.get('passwordEnabled') === 'on',
-    publicKey: formData.get('publicKey') || undefined,
-    guiEnabled: formData.get('guiEnabled') === 'on'
+    guiEnabled: formData.get('guiEnabled') === 'on',
+    authPolicy: formData.get('authPolicy'),
+    mfaMode: formData.get('mfaMode')
   };
   
   // Get selected listeners and their permissions
@@ -1183,7 +1547,8 @@ document.getElementById('editUserForm').addEventListener('submit', async (e) =>
         canDelete: document.getElementById(`perm-${listener.id}-canDelete`)?.checked || false,
         canList: document.getElementById(`perm-${listener.id}-canList`)?.checked || true,
         canCreateDir: document.getElementById(`perm-${listener.id}-canCreateDir`)?.checked || false,
-        canRename: document.getElementById(`perm-${listener.id}-canRename`)?.checked || false
+        canRename: document.getElementById(`perm-${listener.id}-canRename`)?.checked || false,
+        canSetAttributes: document.getElementById(`perm-${listener.id}-canSetAttributes`)?.checked || false
       };
       permissions.push(permission);
     }
@@ -0,0 +1,546 @@
+import * as ssh2 from 'ssh2';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PathOutsideJailError } from './path-jail';
+import { BufferedFile } from './sftp-file-io';
+import { PermissionDeniedError, VirtualFileSystem } from './virtual-fs';
+
+// Options of the remote side of an OpenSSH scp invocation ("scp -t" / "scp -f")
+export interface ScpCommand {
+  mode: 'sink' | 'source';
+  recursive: boolean;
+  preserve: boolean;
+  targetIsDirectory: boolean;
+  paths: string[];
+}
+
+// Session services the transfer runs through. Files are accessed through the
+// session's virtual file system, shared with the SFTP subsystem, which also
+// reports the activities.
+export interface ScpContext {
+  vfs: VirtualFileSystem;
+  onActivity(): void;
+}
+
+// Chunk size used when sending files to the client
+const READ_CHUNK_SIZE = 64 * 1024;
+
+// Split a command line the way a POSIX shell would for plain words and quotes
+function splitCommandLine(commandLine: string): string[] {
+  const words: string[] = [];
+  let current: string | null = null;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < commandLine.length; i++) {
+    const char = commandLine[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < commandLine.length) {
+        current += commandLine[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current = current ?? '';
+    } else if (char === '\\' && i + 1 < commandLine.length) {
+      current = (current ?? '') + commandLine[++i];
+    } else if (/\s/.test(char)) {
+      if (current !== null) words.push(current);
+      current = null;
+    } else {
+      current = (current ?? '') + char;
+    }
+  }
+  if (quote) {
+    throw new Error('Unterminated quote');
+  }
+  if (current !== null) words.push(current);
+  return words;
+}
+
+// Parse the command of an exec request, or return null when it is not scp
+export function parseScpCommand(commandLine: string): ScpCommand | null {
+  let words: string[];
+  try {
+    words = splitCommandLine(commandLine);
+  } catch {
+    return null;
+  }
+  if (words.length === 0 || path.posix.basename(words[0]) !== 'scp') return null;
+
+  const command: ScpCommand = { mode: 'sink', recursive: false, preserve: false, targetIsDirectory: false, paths: [] };
+  let mode: ScpCommand['mode'] | undefined;
+  let i = 1;
+  for (; i < words.length && words[i].startsWith('-'); i++) {
+    if (words[i] === '--') {
+      i++;
+      break;
+    }
+    for (const flag of words[i].slice(1)) {
+      switch (flag) {
+        case 't': mode = 'sink'; break;
+        case 'f': mode = 'source'; break;
+        case 'r': command.recursive = true; break;
+        case 'p': command.preserve = true; break;
+        case 'd': command.targetIsDirectory = true; break;
+        // Verbose and quiet only affect the client side
+        case 'v': case 'q': break;
+        default: return null;
+      }
+    }
+  }
+
+  command.paths = words.slice(i);
+  if (!mode || command.paths.length === 0 || (mode === 'sink' && command.paths.length !== 1)) return null;
+  command.mode = mode;
+  return command;
+}
+
+// Remote paths are relative to the user's virtual root; "~" is the root itself
+export function toScpVirtualPath(remotePath: string): string {
+  const withoutHome = remotePath === '~' ? '/' : remotePath.replace(/^~\//, '/');
+  return path.posix.normalize(path.posix.join('/', withoutHome));
+}
+
+// Buffers channel data so the protocol can be read line by line and byte by byte
+class ChannelReader {
+  private buffer: Buffer = Buffer.alloc(0);
+  private ended = false;
+  private waiting: (() => void) | null = null;
+
+  constructor(channel: ssh2.ServerChannel) {
+    channel.on('data', (data: Buffer) => {
+      this.buffer = this.buffer.length ? Buffer.concat([this.buffer, data]) : data;
+      this.wake();
+    });
+    channel.on('end', () => {
+      this.ended = true;
+      this.wake();
+    });
+    channel.on('close', () => {
+      this.ended = true;
+      this.wake();
+    });
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.();
+  }
+
+  // Wait for more data; false once the channel has ended
+  private async more(): Promise<boolean> {
+    if (this.ended) return false;
+    await new Promise<void>(resolve => this.waiting = resolve);
+    return true;
+  }
+
+  async readByte(): Promise<number | null> {
+    while (this.buffer.length === 0) {
+      if (!(await this.more()) && this.buffer.length === 0) return null;
+    }
+    const byte = this.buffer[0];
+    this.buffer = this.buffer.subarray(1);
+    return byte;
+  }
+
+  async readLine(): Promise<string | null> {
+    let newline: number;
+    while ((newline = this.buffer.indexOf(0x0a)) === -1) {
+      if (!(await this.more()) && this.buffer.indexOf(0x0a) === -1) return null;
+    }
+    const line = this.buffer.subarray(0, newline).toString('utf8');
+    this.buffer = this.buffer.subarray(newline + 1);
+    return line;
+  }
+
+  // Up to maxLength bytes, or null once the channel has ended
+  async read(maxLength: number): Promise<Buffer | null> {
+    while (this.buffer.length === 0) {
+      if (!(await this.more()) && this.buffer.length === 0) return null;
+    }
+    const chunk = this.buffer.subarray(0, maxLength);
+    this.buffer = this.buffer.subarray(chunk.length);
+    return chunk;
+  }
+}
+
+interface FileTimes {
+  mtime: number;
+  atime: number;
+}
+
+// Raised when the peer breaks the protocol; the transfer cannot continue
+class ScpProtocolError extends Error {}
+
+// One scp invocation on an exec channel. Files are received (sink, "scp -t")
+// or sent (source, "scp -f") with the legacy rcp protocol: control lines such
+// as "C0644 <size> <name>", each answered by a single status byte.
+export class ScpTransfer {
+  private readonly reader: ChannelReader;
+  private errors = 0;
+  private closed = false;
+
+  constructor(
+    private readonly channel: ssh2.ServerChannel,
+    private readonly command: ScpCommand,
+    private readonly context: ScpContext
+  ) {
+    this.reader = new ChannelReader(channel);
+    channel.once('close', () => this.closed = true);
+  }
+
+  // Run the transfer and resolve with the exit status for the client
+  async run(): Promise<number> {
+    try {
+      if (this.command.mode === 'sink') {
+        await this.sink(toScpVirtualPath(this.command.paths[0]));
+      } else {
+        await this.source(this.command.paths.map(toScpVirtualPath));
+      }
+    } catch (err: any) {
+      this.errors++;
+      if (err instanceof ScpProtocolError) {
+        this.channel.write(Buffer.from(`\x02scp: protocol error: ${err.message}\n`));
+      }
+    }
+    return this.errors > 0 ? 1 : 0;
+  }
+
+  private ok(): void {
+    this.channel.write(Buffer.from([0]));
+  }
+
+  // Report a problem with one file; the peer carries on with the next one
+  private warn(message: string): void {
+    this.errors++;
+    this.channel.write(Buffer.from(`\x01scp: ${message}\n`));
+  }
+
+  // Wait for the channel to take more data; fails once the peer has gone away,
+  // as a closed channel never drains
+  private async write(data: Buffer): Promise<void> {
+    if (this.closed) throw new Error('channel closed');
+    if (this.channel.write(data)) return;
+    await new Promise<void>((resolve, reject) => {
+      const settle = (err?: Error) => {
+        this.channel.off('drain', onDrain);
+        this.channel.off('close', onClose);
+        this.channel.off('error', settle);
+        if (err) reject(err); else resolve();
+      };
+      const onDrain = () => settle();
+      const onClose = () => settle(new Error('channel closed'));
+      this.channel.on('drain', onDrain);
+      this.channel.on('close', onClose);
+      this.channel.on('error', settle);
+      if (this.closed) onClose();
+    });
+  }
+
+  // Wait for the peer's status byte: true when it succeeded, false on a warning
+  private async readStatus(): Promise<boolean> {
+    const status = await this.reader.readByte();
+    if (status === 0) return true;
+    if (status === null) throw new ScpProtocolError('unexpected end of stream');
+
+    const message = await this.reader.readLine();
+    if (status === 1) return false;
+    throw new Error(message || 'transfer aborted by client');
+  }
+
+  // Whether a path is an existing directory, virtual directories included
+  private async isDirectory(virtualPath: string): Promise<boolean> {
+    return this.context.vfs.lookup(virtualPath).then(stats => stats.isDirectory(), () => false);
+  }
+
+  // Receive files: the client sends C (file), D (enter directory), E (leave
+  // directory) and T (times of the next entry) records
+  private async sink(target: string): Promise<void> {
+    const targetIsDirectory = await this.isDirectory(target);
+    if (this.command.targetIsDirectory && !targetIsDirectory) {
+      this.warn(`${target}: Not a directory`);
+      return;
+    }
+
+    const directories: { virtualPath: string; times?: FileTimes }[] = [];
+    let times: FileTimes | undefined;
+    this.ok();
+
+    for (;;) {
+      const line = await this.reader.readLine();
+      if (line === null) break;
+      this.context.onActivity();
+
+      const type = line[0];
+      if (type === '\x01' || type === '\x02') {
+        // The client reports its own errors (e.g. an unreadable local file)
+        this.errors++;
+        if (type === '\x02') break;
+        continue;
+      }
+      if (type === 'E') {
+        const directory = directories.pop();
+        if (!directory) throw new ScpProtocolError('unexpected E record');
+        if (directory.times) {
+          await this.preserveAttributes(directory.virtualPath, directory.times);
+        }
+        this.ok();
+        continue;
+      }
+      if (type === 'T') {
+        const match = /^T(\d+) \d+ (\d+) \d+$/.exec(line);
+        if (!match) throw new ScpProtocolError(`invalid T record: ${line}`);
+        times = { mtime: parseInt(match[1]), atime: parseInt(match[2]) };
+        this.ok();
+        continue;
+      }
+
+      const match = /^([CD])([0-7]{4}) (\d+) (.+)$/.exec(line);
+      if (!match) throw new ScpProtocolError(`invalid record: ${line}`);
+      const [, recordType, modeText, sizeText, name] = match;
+      if (name.includes('/') || name === '.' || name === '..') {
+        throw new ScpProtocolError(`unexpected filename: ${name}`);
+      }
+
+      // Without an existing directory as target the first entry takes the target's name
+      const parent = directories.length > 0 ? directories[directories.length - 1].virtualPath : target;
+      const virtualPath = directories.length > 0 || targetIsDirectory ? path.posix.join(parent, name) : target;
+      const mode = parseInt(modeText, 8);
+      const entryTimes = times;
+      times = undefined;
+
+      if (recordType === 'D') {
+        if (!this.command.recursive) throw new ScpProtocolError('received directory without -r');
+        if (await this.receiveDirectory(virtualPath, mode)) {
+          directories.push({ virtualPath, times: entryTimes });
+          this.ok();
+        }
+      } else {
+        await this.receiveFile(virtualPath, parseInt(sizeText), mode, entryTimes);
+      }
+    }
+
+    if (directories.length > 0) {
+      throw new ScpProtocolError('unexpected end of stream');
+    }
+  }
+
+  // Create (or reuse) a directory; false when the client has to skip it
+  private async receiveDirectory(virtualPath: string, mode: number): Promise<boolean> {
+    if (await this.isDirectory(virtualPath)) return true;
+
+    try {
+      await this.context.vfs.mkdir(virtualPath, { activity: 'SCP_MKDIR' });
+    } catch (err: any) {
+      this.warn(`${virtualPath}: ${describeError(err)}`);
+      return false;
+    }
+    await this.preserveAttributes(virtualPath, { mode });
+    return true;
+  }
+
+  private async receiveFile(virtualPath: string, size: number, mode: number, times?: FileTimes): Promise<void> {
+    let file: BufferedFile | undefined;
+    let writeError: Error | undefined;
+    try {
+      ({ file } = await this.context.vfs.open(virtualPath, { write: true, create: true, truncate: true }, { activity: 'SCP_UPLOAD' }));
+    } catch (err: any) {
+      if (isDenied(err)) {
+        // The client skips the file's data after a warning
+        this.warn(`${virtualPath}: Permission denied`);
+        return;
+      }
+      writeError = err;
+    }
+    this.ok();
+
+    // The data has to be consumed even when it cannot be written
+    try {
+      let received = 0;
+      while (received < size) {
+        const chunk = await this.reader.read(size - received);
+        if (chunk === null) throw new ScpProtocolError('unexpected end of stream');
+        if (file && !writeError) {
+          await file.write(received, chunk).catch((err: Error) => writeError = err);
+        }
+        received += chunk.length;
+      }
+    } finally {
+      // Buffered writes that fail are reported when the file is closed
+      await file?.close().catch((err: Error) => writeError = writeError || err);
+    }
+    const clientOk = await this.readStatus();
+
+    if (writeError || !clientOk) {
+      // A file that could not be opened was already logged as failed
+      if (file) this.context.vfs.logActivity('SCP_UPLOAD_FAILED', virtualPath, false);
+      if (writeError) {
+        this.warn(`${virtualPath}: ${writeError.message}`);
+      } else {
+        this.errors++;
+        this.ok();
+      }
+      return;
+    }
+
+    if (this.command.preserve) {
+      await this.preserveAttributes(virtualPath, { mode, ...times });
+    }
+    this.ok();
+  }
+
+  // Attributes sent with -p are best effort, like chmod failures in OpenSSH's
+  // sink, and silently left out without canSetAttributes
+  private async preserveAttributes(virtualPath: string, attrs: { mode?: number; atime?: number; mtime?: number }): Promise<void> {
+    if (!this.command.preserve || !this.context.vfs.hasPermission('canSetAttributes', virtualPath)) return;
+    await this.context.vfs.setAttributes(virtualPath, attrs, { activity: 'SCP_SETSTAT' }).catch(() => undefined);
+  }
+
+  // Send files after the client has signalled it is ready
+  private async source(virtualPaths: string[]): Promise<void> {
+    if (!(await this.readStatus())) return;
+    for (const virtualPath of virtualPaths) {
+      await this.sendEntry(virtualPath);
+    }
+  }
+
+  private async sendEntry(virtualPath: string): Promise<void> {
+    this.context.onActivity();
+
+    let stats: fs.Stats;
+    try {
+      stats = await this.context.vfs.lookup(virtualPath);
+    } catch (err: any) {
+      if (isDenied(err)) {
+        this.context.vfs.logActivity('SCP_DOWNLOAD_DENIED', virtualPath, false);
+        this.warn(`${virtualPath}: Permission denied`);
+      } else {
+        this.context.vfs.logActivity('SCP_DOWNLOAD_FAILED', virtualPath, false);
+        this.warn(`${virtualPath}: No such file or directory`);
+      }
+      return;
+    }
+
+    if (stats.isDirectory()) {
+      await this.sendDirectory(virtualPath, stats);
+    } else if (stats.isFile()) {
+      await this.sendFile(virtualPath, stats);
+    } else {
+      this.warn(`${virtualPath}: not a regular file`);
+    }
+  }
+
+  // The virtual root has no name of its own, so it is sent under the name of
+  // the local directory mounted there
+  private async entryName(virtualPath: string): Promise<string> {
+    const name = path.posix.basename(virtualPath);
+    if (name) return name;
+    try {
+      return path.basename((await this.context.vfs.resolve(virtualPath)).localPath) || 'root';
+    } catch {
+      return 'root';
+    }
+  }
+
+  private async sendTimes(stats: fs.Stats): Promise<boolean> {
+    if (!this.command.preserve) return true;
+    await this.write(Buffer.from(`T${Math.floor(stats.mtimeMs / 1000)} 0 ${Math.floor(stats.atimeMs / 1000)} 0\n`));
+    return this.readStatus();
+  }
+
+  private async sendDirectory(virtualPath: string, stats: fs.Stats): Promise<void> {
+    if (!this.command.recursive) {
+      this.warn(`${virtualPath}: not a regular file`);
+      return;
+    }
+
+    let names: string[];
+    try {
+      ({ names } = await this.context.vfs.openDirectory(virtualPath, { activity: 'SCP_DOWNLOAD' }));
+    } catch (err: any) {
+      this.warn(`${virtualPath}: ${describeError(err)}`);
+      return;
+    }
+
+    if (!(await this.sendTimes(stats))) return;
+    await this.write(Buffer.from(`D${this.formatMode(stats.mode)} 0 ${await this.entryName(virtualPath)}\n`));
+    if (!(await this.readStatus())) return;
+
+    for (const name of names.sort()) {
+      await this.sendEntry(path.posix.join(virtualPath, name));
+    }
+
+    await this.write(Buffer.from('E\n'));
+    await this.readStatus();
+  }
+
+  private async sendFile(virtualPath: string, stats: fs.Stats): Promise<void> {
+    let file: BufferedFile;
+    try {
+      ({ file } = await this.context.vfs.open(virtualPath, { read: true }, { activity: 'SCP_DOWNLOAD' }));
+    } catch (err: any) {
+      this.warn(`${virtualPath}: ${describeError(err)}`);
+      return;
+    }
+
+    try {
+      if (!(await this.sendTimes(stats))) return;
+      await this.write(Buffer.from(`C${this.formatMode(stats.mode)} ${stats.size} ${await this.entryName(virtualPath)}\n`));
+      if (!(await this.readStatus())) return;
+
+      // Exactly the announced size is sent, even if the file changes meanwhile
+      let sent = 0;
+      let readError: Error | undefined;
+      while (sent < stats.size) {
+        const length = Math.min(READ_CHUNK_SIZE, stats.size - sent);
+        let data: Buffer = Buffer.alloc(0);
+        if (!readError) {
+          data = await file.read(sent, length).catch((err: Error) => {
+            readError = err;
+            return Buffer.alloc(0);
+          });
+        }
+        if (data.length === 0) {
+          data = Buffer.alloc(length);
+          readError = readError || new Error('file truncated during transfer');
+        }
+        await this.write(Buffer.from(data));
+        sent += data.length;
+        this.context.onActivity();
+      }
+
+      if (readError) {
+        this.context.vfs.logActivity('SCP_DOWNLOAD_FAILED', virtualPath, false);
+        this.warn(`${virtualPath}: ${readError.message}`);
+      } else {
+        this.ok();
+      }
+      if (!(await this.readStatus()) && !readError) {
+        this.context.vfs.logActivity('SCP_DOWNLOAD_FAILED', virtualPath, false);
+      }
+    } catch (err) {
+      // The client went away mid-transfer
+      this.context.vfs.logActivity('SCP_DOWNLOAD_FAILED', virtualPath, false);
+      throw err;
+    } finally {
+      await file.close();
+    }
+  }
+
+  private formatMode(mode: number): string {
+    return (mode & 0o7777).toString(8).padStart(4, '0');
+  }
+}
+
+// Refusals by the virtual file system, which it has already logged
+function isDenied(err: any): boolean {
+  return err instanceof PermissionDeniedError || err instanceof PathOutsideJailError;
+}
+
+function describeError(err: any): string {
+  return isDenied(err) ? 'Permission denied' : err.message;
+}
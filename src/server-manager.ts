@@ -2,8 +2,10 @@ import { EventEmitter } from 'events';
 import { DatabaseManager } from './database';
 import { SFTPServer } from './sftp-server';
 import { FTPServer } from './ftp-server';
+import { WebDAVServer } from './webdav-server';
 import { Listener, ServerActivity } from './types';
 import logger from './logger';
+import { findPortConflict } from './passive-mode';
 
 export interface ActiveSession {
   sessionId: string;
@@ -17,13 +19,19 @@ export interface ActiveSession {
 
 export class ServerManager extends EventEmitter {
   private db: DatabaseManager;
-  private servers: Map<number, SFTPServer | FTPServer> = new Map();
+  private servers: Map<number, SFTPServer | FTPServer | WebDAVServer> = new Map();
+  private webPort: number | null = null;
 
   constructor(db: DatabaseManager) {
     super();
     this.db = db;
   }
 
+  // Port of the web admin server, kept free of listeners; null when there is none
+  setWebPort(port: number | null): void {
+    this.webPort = port;
+  }
+
   async startListener(listenerId: number): Promise<void> {
     const listener = this.db.getListener(listenerId);
     if (!listener) {
@@ -38,12 +46,21 @@ export class ServerManager extends EventEmitter {
       throw new Error(`Listener ${listenerId} is already running`);
     }
 
-    let server: SFTPServer | FTPServer;
+    // Only running listeners hold their ports; enabled ones may still be stopped
+    const runningListeners = this.db.getAllListeners().filter(l => l.id !== listenerId && this.servers.has(l.id!));
+    const conflict = findPortConflict(listener, runningListeners, this.webPort);
+    if (conflict) {
+      throw new Error(conflict);
+    }
+
+    let server: SFTPServer | FTPServer | WebDAVServer;
 
     if (listener.protocol === 'SFTP') {
       server = new SFTPServer(listener, this.db);
-    } else if (listener.protocol === 'FTP') {
+    } else if (listener.protocol === 'FTP' || listener.protocol === 'FTPS') {
       server = new FTPServer(listener, this.db);
+    } else if (listener.protocol === 'HTTP') {
+      server = new WebDAVServer(listener, this.db);
     } else {
       throw new Error(`Unknown protocol: ${listener.protocol}`);
     }
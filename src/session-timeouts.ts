@@ -0,0 +1,115 @@
+import { Listener } from './types';
+
+// Defaults of listeners that were created before the timeouts could be set.
+// A timeout of 0 is off.
+export const DEFAULT_SESSION_TIMEOUTS = {
+  idleTimeoutSeconds: 300,
+  maxSessionSeconds: 0,
+  authTimeoutSeconds: 60
+};
+
+// Longest delay setTimeout can wait
+const MAX_TIMEOUT_SECONDS = Math.floor(0x7fffffff / 1000);
+
+export type SessionTimeouts = Pick<Listener, 'idleTimeoutSeconds' | 'maxSessionSeconds' | 'authTimeoutSeconds'>;
+
+export type DisconnectReason = 'auth-timeout' | 'idle-timeout' | 'session-limit';
+
+// How a disconnect is recorded in the activity log
+export const DISCONNECT_REASONS: Record<DisconnectReason, string> = {
+  'auth-timeout': 'Authentication timeout',
+  'idle-timeout': 'Idle timeout',
+  'session-limit': 'Session time limit'
+};
+
+// Validate the timeout fields of a listener create or update request. Only
+// fields that were given are returned.
+export function parseSessionTimeouts(
+  settings: { idleTimeoutSeconds?: unknown; maxSessionSeconds?: unknown; authTimeoutSeconds?: unknown }
+): SessionTimeouts {
+  const result: SessionTimeouts = {};
+
+  for (const field of ['idleTimeoutSeconds', 'maxSessionSeconds', 'authTimeoutSeconds'] as const) {
+    const value = settings[field];
+    if (value === undefined) continue;
+
+    const seconds = value === null || value === '' ? 0 : Number(value);
+    if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_TIMEOUT_SECONDS) {
+      throw new Error(`Invalid ${field}: ${value} (whole seconds up to ${MAX_TIMEOUT_SECONDS}, 0 for none)`);
+    }
+    result[field] = seconds;
+  }
+  return result;
+}
+
+// Timers of one client connection, shared by the SFTP and FTP servers: the
+// authentication timeout runs from connect to login, the session limit from
+// login, and the idle timeout from the end of the last activity. Activities
+// that take a while (an FTP transfer) are bracketed by begin and end, so the
+// client is not idle while they run.
+export class SessionTimer {
+  private timeouts: Required<SessionTimeouts>;
+  // Replaceable, for servers that learn more about the client later on
+  onTimeout: (reason: DisconnectReason) => void;
+  private authTimer: NodeJS.Timeout | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private sessionTimer: NodeJS.Timeout | null = null;
+  private loggedIn = false;
+  private busy = 0;
+  private stopped = false;
+
+  constructor(listener: Listener, onTimeout: (reason: DisconnectReason) => void) {
+    this.timeouts = {
+      idleTimeoutSeconds: listener.idleTimeoutSeconds ?? DEFAULT_SESSION_TIMEOUTS.idleTimeoutSeconds,
+      maxSessionSeconds: listener.maxSessionSeconds ?? DEFAULT_SESSION_TIMEOUTS.maxSessionSeconds,
+      authTimeoutSeconds: listener.authTimeoutSeconds ?? DEFAULT_SESSION_TIMEOUTS.authTimeoutSeconds
+    };
+    this.onTimeout = onTimeout;
+    this.authTimer = this.schedule(this.timeouts.authTimeoutSeconds, 'auth-timeout');
+  }
+
+  login(): void {
+    if (this.stopped || this.loggedIn) return;
+    this.loggedIn = true;
+    this.clear(this.authTimer);
+    this.authTimer = null;
+    this.sessionTimer = this.schedule(this.timeouts.maxSessionSeconds, 'session-limit');
+    this.activity();
+  }
+
+  // Something happened: the idle timeout starts over
+  activity(): void {
+    if (this.stopped || !this.loggedIn) return;
+    this.clear(this.idleTimer);
+    this.idleTimer = this.busy > 0 ? null : this.schedule(this.timeouts.idleTimeoutSeconds, 'idle-timeout');
+  }
+
+  beginActivity(): void {
+    this.busy++;
+    this.activity();
+  }
+
+  endActivity(): void {
+    this.busy = Math.max(0, this.busy - 1);
+    this.activity();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.clear(this.authTimer);
+    this.clear(this.idleTimer);
+    this.clear(this.sessionTimer);
+  }
+
+  private schedule(seconds: number, reason: DisconnectReason): NodeJS.Timeout | null {
+    if (seconds <= 0) return null;
+    return setTimeout(() => {
+      this.stop();
+      this.onTimeout(reason);
+    }, seconds * 1000);
+  }
+
+  private clear(timer: NodeJS.Timeout | null): void {
+    if (timer) clearTimeout(timer);
+  }
+}
@@ -0,0 +1,180 @@
+import * as ssh2 from 'ssh2';
+
+// SFTP packet types this module rewrites
+const SSH_FXP_VERSION = 2;
+const SSH_FXP_DATA = 103;
+const SSH_FXP_EXTENDED_REPLY = 201;
+
+// Largest packet the ssh2 SFTP parser accepts from a client
+const MAX_PACKET_LENGTH = 256 * 1024;
+// Room for the packet header around READ/WRITE payloads
+const PACKET_OVERHEAD = 2 * 1024;
+
+// statvfs f_flag bit for read-only file systems
+export const ST_RDONLY = 0x1;
+
+// OpenSSH extensions advertised in the VERSION packet (name -> version)
+export const OPENSSH_EXTENSIONS: Record<string, string> = {
+  'posix-rename@openssh.com': '1',
+  'statvfs@openssh.com': '2',
+  'fstatvfs@openssh.com': '2',
+  'hardlink@openssh.com': '1',
+  'fsync@openssh.com': '1',
+  'limits@openssh.com': '1'
+};
+
+// Checksum extensions from draft-ietf-secsh-filexfer-extensions
+export const CHECKSUM_EXTENSIONS: Record<string, string> = {
+  'check-file': '1',
+  'md5-hash': '1',
+  'md5-hash-handle': '1'
+};
+
+export const SFTP_EXTENSIONS: Record<string, string> = { ...OPENSSH_EXTENSIONS, ...CHECKSUM_EXTENSIONS };
+
+export interface StatVfs {
+  bsize: number;
+  frsize: number;
+  blocks: number;
+  bfree: number;
+  bavail: number;
+  files: number;
+  ffree: number;
+  favail: number;
+  fsid: number;
+  flag: number;
+  namemax: number;
+}
+
+export interface ExtensionChannel {
+  sendExtendedReply(reqId: number, payload: Buffer): void;
+}
+
+// ssh2 only implements the client side of SFTP extensions: the server always
+// answers INIT with a bare VERSION packet and has no EXTENDED_REPLY method.
+// Outgoing packets of this channel are rewritten to add both.
+export function enableExtensions(sftp: ssh2.SFTPWrapper, extensions: Record<string, string>): ExtensionChannel {
+  const protocol = (sftp as any)._protocol;
+  const channelId = (sftp as any).outgoing.id;
+  const pendingReplies: Set<number> = new Set();
+  let versionSent = false;
+
+  const channelData = protocol.channelData;
+  protocol.channelData = function (id: number, data: Buffer) {
+    if (id === channelId && isCompletePacket(data)) {
+      if (!versionSent && data[4] === SSH_FXP_VERSION) {
+        versionSent = true;
+        data = buildVersionPacket(data.readUInt32BE(5), extensions);
+      } else if (data[4] === SSH_FXP_DATA && pendingReplies.delete(data.readUInt32BE(5))) {
+        data = buildPacket(SSH_FXP_EXTENDED_REPLY, data.readUInt32BE(5), data.subarray(13));
+      }
+    }
+    return channelData.call(this, id, data);
+  };
+
+  return {
+    sendExtendedReply(reqId: number, payload: Buffer): void {
+      // Sent as DATA so ssh2 handles channel windowing, then rewritten above
+      pendingReplies.add(reqId);
+      sftp.data(reqId, payload);
+    }
+  };
+}
+
+function isCompletePacket(data: Buffer): boolean {
+  return data.length >= 9 && data.readUInt32BE(0) === data.length - 4;
+}
+
+function buildPacket(type: number, id: number, payload: Buffer): Buffer {
+  const packet = Buffer.alloc(9 + payload.length);
+  packet.writeUInt32BE(packet.length - 4, 0);
+  packet[4] = type;
+  packet.writeUInt32BE(id, 5);
+  payload.copy(packet, 9);
+  return packet;
+}
+
+function buildVersionPacket(version: number, extensions: Record<string, string>): Buffer {
+  const pairs = Object.entries(extensions).flatMap(([name, data]) => [encodeString(name), encodeString(data)]);
+  return buildPacket(SSH_FXP_VERSION, version, Buffer.concat(pairs));
+}
+
+function encodeString(value: string | Buffer): Buffer {
+  const data = Buffer.isBuffer(value) ? value : Buffer.from(value, 'utf8');
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  return Buffer.concat([length, data]);
+}
+
+function encodeUInt64s(values: number[]): Buffer {
+  const buf = Buffer.alloc(values.length * 8);
+  values.forEach((value, i) => buf.writeBigUInt64BE(BigInt(Math.max(0, Math.floor(value))), i * 8));
+  return buf;
+}
+
+// Sequential reader for the payload of an extended request
+export class PacketReader {
+  private offset = 0;
+
+  constructor(private data: Buffer = Buffer.alloc(0)) {}
+
+  readString(): Buffer {
+    const length = this.readUInt32();
+    return this.take(length);
+  }
+
+  readUInt32(): number {
+    return this.take(4).readUInt32BE(0);
+  }
+
+  readUInt64(): number {
+    return Number(this.take(8).readBigUInt64BE(0));
+  }
+
+  private take(length: number): Buffer {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Malformed extended request');
+    }
+    const value = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+}
+
+// Read the SSH strings of an extended request's payload
+export function readStrings(data: Buffer | undefined, count: number): Buffer[] | null {
+  if (!data) return null;
+
+  const reader = new PacketReader(data);
+  try {
+    return Array.from({ length: count }, () => reader.readString());
+  } catch {
+    return null;
+  }
+}
+
+export function encodeStatVfs(stats: StatVfs): Buffer {
+  return encodeUInt64s([
+    stats.bsize, stats.frsize, stats.blocks, stats.bfree, stats.bavail,
+    stats.files, stats.ffree, stats.favail, stats.fsid, stats.flag, stats.namemax
+  ]);
+}
+
+// max-open-handles of 0 means no limit
+export function encodeLimits(): Buffer {
+  return encodeUInt64s([
+    MAX_PACKET_LENGTH,
+    MAX_PACKET_LENGTH - PACKET_OVERHEAD,
+    MAX_PACKET_LENGTH - PACKET_OVERHEAD,
+    0
+  ]);
+}
+
+// check-file reply: algorithm used followed by the concatenated block digests
+export function encodeCheckFileReply(algorithm: string, digests: Buffer[]): Buffer {
+  return Buffer.concat([encodeString('check-file'), encodeString(algorithm), ...digests]);
+}
+
+export function encodeMd5HashReply(digest: Buffer): Buffer {
+  return Buffer.concat([encodeString('md5-hash'), encodeString(digest)]);
+}
@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+
+// Bytes read from the file at once when a client reads sequentially. Larger
+// READ requests are answered short, which the protocol allows.
+export const READ_AHEAD_SIZE = 256 * 1024;
+
+// Bytes of consecutive writes collected before they are written to the file.
+// At most one such buffer is being written while the next one fills up.
+export const WRITE_BEHIND_SIZE = 256 * 1024;
+
+interface ReadCache {
+  position: number;
+  data: Buffer;
+}
+
+interface PendingWrite {
+  position: number;
+  chunks: Buffer[];
+  length: number;
+}
+
+// An open file of an SFTP session. All I/O is asynchronous so a slow disk or
+// network share only delays the session using it. Sequential reads are served
+// from a read-ahead buffer and consecutive writes are acknowledged once
+// buffered; a failed buffered write is reported by the next write, sync or close.
+// Operations on one file run one at a time, in the order they were requested.
+export class BufferedFile {
+  private queue: Promise<unknown> = Promise.resolve();
+  private readCache: ReadCache | null = null;
+  private nextReadPosition = 0;
+  private pending: PendingWrite | null = null;
+  private flushing: Promise<void> | null = null;
+  private flushingEnd = 0;
+  private writeError: Error | null = null;
+
+  private constructor(private handle: fs.promises.FileHandle) {}
+
+  static async open(filePath: string, flags: number): Promise<BufferedFile> {
+    return new BufferedFile(await fs.promises.open(filePath, flags));
+  }
+
+  get fd(): number {
+    return this.handle.fd;
+  }
+
+  // Resolves an empty buffer at the end of the file
+  read(position: number, length: number): Promise<Buffer> {
+    return this.serialize(async () => {
+      await this.drainWrites();
+      length = Math.min(length, READ_AHEAD_SIZE);
+
+      const cache = this.readCache;
+      if (cache && position >= cache.position && position + length <= cache.position + cache.data.length) {
+        this.nextReadPosition = position + length;
+        return cache.data.subarray(position - cache.position, position - cache.position + length);
+      }
+
+      const size = position === this.nextReadPosition ? READ_AHEAD_SIZE : length;
+      const buffer = Buffer.alloc(size);
+      const { bytesRead } = await this.handle.read(buffer, 0, size, position);
+      const data = buffer.subarray(0, bytesRead);
+      this.readCache = { position, data };
+      this.nextReadPosition = position + Math.min(length, bytesRead);
+      return data.subarray(0, length);
+    });
+  }
+
+  // With appendOnly the write is refused (resolving false) unless it starts
+  // exactly at the end of the file, buffered data included
+  write(position: number, data: Buffer, appendOnly: boolean = false): Promise<boolean> {
+    return this.serialize(async () => {
+      this.throwWriteError();
+      this.readCache = null;
+
+      if (appendOnly) {
+        const { size } = await this.handle.stat();
+        if (position !== Math.max(size, this.bufferedEnd())) {
+          return false;
+        }
+      }
+
+      const pending = this.pending;
+      if (pending && position === pending.position + pending.length && pending.length + data.length <= WRITE_BEHIND_SIZE) {
+        pending.chunks.push(Buffer.from(data));
+        pending.length += data.length;
+      } else {
+        await this.startFlush();
+        this.pending = { position, chunks: [Buffer.from(data)], length: data.length };
+      }
+
+      if (this.pending!.length >= WRITE_BEHIND_SIZE) {
+        await this.startFlush();
+      }
+      return true;
+    });
+  }
+
+  // Run an operation on the open file once buffered writes have reached the
+  // file, without other reads or writes in between
+  withFlushed<T>(operation: (handle: fs.promises.FileHandle) => Promise<T> | T): Promise<T> {
+    return this.serialize(async () => {
+      await this.drainWrites();
+      this.readCache = null;
+      return operation(this.handle);
+    });
+  }
+
+  stat(): Promise<fs.Stats> {
+    return this.withFlushed(() => this.handle.stat());
+  }
+
+  sync(): Promise<void> {
+    return this.withFlushed(() => this.handle.sync());
+  }
+
+  close(): Promise<void> {
+    return this.serialize(async () => {
+      try {
+        await this.drainWrites();
+      } finally {
+        await this.handle.close();
+      }
+    });
+  }
+
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Hand the pending buffer to the background writer. Waits for the previous
+  // buffer first, which bounds memory use and slows down a client that writes
+  // faster than the file can take it.
+  private async startFlush(): Promise<void> {
+    if (this.flushing) {
+      await this.flushing;
+    }
+    const pending = this.pending;
+    if (!pending) {
+      return;
+    }
+
+    this.pending = null;
+    this.flushingEnd = pending.position + pending.length;
+    this.flushing = this.writeFully(Buffer.concat(pending.chunks, pending.length), pending.position)
+      .catch((err: Error) => {
+        this.writeError = this.writeError ?? err;
+      })
+      .finally(() => {
+        this.flushing = null;
+        this.flushingEnd = 0;
+      });
+  }
+
+  private async drainWrites(): Promise<void> {
+    await this.startFlush();
+    if (this.flushing) {
+      await this.flushing;
+    }
+    this.throwWriteError();
+  }
+
+  private async writeFully(buffer: Buffer, position: number): Promise<void> {
+    let written = 0;
+    while (written < buffer.length) {
+      const { bytesWritten } = await this.handle.write(buffer, written, buffer.length - written, position + written);
+      written += bytesWritten;
+    }
+  }
+
+  private bufferedEnd(): number {
+    const pendingEnd = this.pending ? this.pending.position + this.pending.length : 0;
+    return Math.max(pendingEnd, this.flushingEnd);
+  }
+
+  private throwWriteError(): void {
+    const err = this.writeError;
+    if (err) {
+      this.writeError = null;
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import * as crypto from 'crypto';
+import { BufferedFile } from './sftp-file-io';
+import { OpenDirectory } from './virtual-fs';
+
+// Bytes of randomness in a handle; clients treat handles as opaque strings
+const HANDLE_LENGTH = 16;
+
+// An open file together with what the session may do with it. Rights are
+// decided once at OPEN time from the path's permissions.
+export interface FileHandle {
+  file: BufferedFile;
+  virtualPath: string;
+  canRead: boolean;
+  canWrite: boolean;
+  // canAppend without canEdit: writes are only accepted at the end of the file
+  appendOnly: boolean;
+}
+
+// An open directory listing. Entry names are read once at OPENDIR and then
+// returned a page at a time by READDIR; position is the next entry to send.
+export interface DirHandle {
+  directory: OpenDirectory;
+  position: number;
+}
+
+// Handles issued to one SFTP session. Handles are random, so they cannot be
+// guessed, and are only valid in the session that opened them.
+export class HandleTable<T> {
+  private entries: Map<string, T> = new Map();
+
+  add(entry: T): Buffer {
+    let handle: Buffer;
+    do {
+      handle = crypto.randomBytes(HANDLE_LENGTH);
+    } while (this.entries.has(handle.toString('hex')));
+
+    this.entries.set(handle.toString('hex'), entry);
+    return handle;
+  }
+
+  get(handle: Buffer): T | undefined {
+    return this.entries.get(handle.toString('hex'));
+  }
+
+  delete(handle: Buffer): T | undefined {
+    const key = handle.toString('hex');
+    const entry = this.entries.get(key);
+    this.entries.delete(key);
+    return entry;
+  }
+
+  // Remove every handle, e.g. when the session ends
+  clear(): T[] {
+    const entries = [...this.entries.values()];
+    this.entries.clear();
+    return entries;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -1,16 +1,31 @@
 import * as ssh2 from 'ssh2';
 import * as fs from 'fs';
-import * as path from 'path';
+import * as net from 'net';
 import { DatabaseManager } from './database';
-import { Listener, User, Permission } from './types';
+import { AuthPolicy, Listener, User, Permission } from './types';
 import { EventEmitter } from 'events';import logger from './logger';
+import { HOST_KEY_TYPES, HostKeyMaterial, generateHostKey } from './host-keys';
+import { getSshAlgorithms, isHostKeyAllowed } from './ssh-algorithms';
+import { isTotpRequired, matchTotpStep } from './totp';
+import { AuthFactor, getAuthPolicies, getMissingFactors, isFactorAllowed } from './auth-policy';
+import { findUserKey, getKeyOptions, getKeyRestriction, toReadOnlyPermission, verifyUserKeySignature } from './user-keys';
+import { SFTP_EXTENSIONS, ST_RDONLY, PacketReader, enableExtensions, encodeCheckFileReply, encodeLimits, encodeMd5HashReply, encodeStatVfs, readStrings } from './sftp-extensions';
+import { HashAlgorithm, hashFileRange, isHashAlgorithm } from './file-hash';
+import { ScpTransfer, parseScpCommand } from './scp';
+import { DirHandle, FileHandle, HandleTable } from './sftp-handles';
+import { BufferedFile } from './sftp-file-io';
+import { getBannerVariables, renderBanner } from './banners';
+import { PathOutsideJailError, normalizeVirtualPath } from './path-jail';
+import { FileActivity, OpenMode, PermissionDeniedError, VirtualFileSystem, applyAttributes } from './virtual-fs';
+import { DISCONNECT_REASONS, DisconnectReason, SessionTimer } from './session-timeouts';
 // SFTP constants (from ssh2-streams)
 const SFTP_STATUS_CODE = {
   OK: 0,
   EOF: 1,
   NO_SUCH_FILE: 2,
   PERMISSION_DENIED: 3,
-  FAILURE: 4
+  FAILURE: 4,
+  OP_UNSUPPORTED: 8
 };
 
 const SFTP_OPEN_MODE = {
@@ -22,6 +37,12 @@ const SFTP_OPEN_MODE = {
   EXCL: 0x00000020
 };
 
+// Most entries returned by one READDIR; clients keep asking until EOF
+const READDIR_PAGE_SIZE = 100;
+
+// Wrong verification codes a connection may send before it is dropped
+const MAX_TOTP_FAILURES = 3;
+
 interface ClientSession {
   client: any;
   username: string;
@@ -33,39 +54,59 @@ export class SFTPServer extends EventEmitter {
   private server: ssh2.Server | null = null;
   private listener: Listener;
   private db: DatabaseManager;
-  private hostKeys: Buffer[] = [];
-  private dirHandles: Map<string, { path: string; files: string[]; sentAll: boolean }> | null = null;
-  private idleTimeoutMs: number = 300000; // 5 minutes default
-  private clientTimeouts: Map<any, NodeJS.Timeout> = new Map();
+  private hostKeys: HostKeyMaterial[] = [];
+  private sessionTimers: Map<net.Socket, SessionTimer> = new Map();
   private activeSessions: Map<string, ClientSession> = new Map();
 
-  constructor(listener: Listener, db: DatabaseManager, idleTimeoutMs?: number) {
+  constructor(listener: Listener, db: DatabaseManager) {
     super();
     this.listener = listener;
     this.db = db;
-    if (idleTimeoutMs !== undefined) {
-      this.idleTimeoutMs = idleTimeoutMs;
-    }
-    this.generateHostKeys();
+    this.loadHostKeys();
   }
 
-  private generateHostKeys(): void {
-    // Generate RSA host key
-    const { generateKeyPairSync } = require('crypto');
-    const { privateKey } = generateKeyPairSync('rsa', {
-      modulusLength: 2048,
-      privateKeyEncoding: {
-        type: 'pkcs1',
-        format: 'pem'
+  private loadHostKeys(): void {
+    // Host keys are generated once per listener and persisted, so clients
+    // keep seeing the same host identity across restarts
+    const listenerId = this.listener.id;
+    const storedKeys = listenerId !== undefined ? this.db.getHostKeys(listenerId) : [];
+
+    for (const keyType of HOST_KEY_TYPES) {
+      const stored = storedKeys.find(k => k.keyType === keyType);
+      if (stored) {
+        this.hostKeys.push(stored);
+        continue;
       }
-    });
-    this.hostKeys.push(Buffer.from(privateKey));
+
+      const generated = generateHostKey(keyType);
+      if (listenerId !== undefined) {
+        this.db.saveHostKey({ listenerId, ...generated });
+        logger.info(`Generated ${generated.algorithm} host key for listener ${this.listener.name}: ${generated.fingerprint}`);
+      }
+      this.hostKeys.push(generated);
+    }
   }
 
   start(): Promise<void> {
     return new Promise((resolve, reject) => {
+      // Only host keys whose algorithm the listener allows are offered
+      const algorithms = getSshAlgorithms(this.listener);
+      const hostKeys = this.hostKeys.filter(k => isHostKeyAllowed(k.algorithm, algorithms)).map(k => k.privateKey);
+      if (hostKeys.length === 0) {
+        return reject(new Error(`None of the host keys of listener ${this.listener.name} is allowed by its SSH algorithms`));
+      }
+
+      const server = this;
       this.server = new ssh2.Server({
-        hostKeys: this.hostKeys
+        hostKeys,
+        // Names were checked against what ssh2 supports when they were saved
+        algorithms: algorithms as ssh2.Algorithms,
+        // Sent as the auth banner. ssh2 reads it once for every new connection,
+        // so a getter renders it with the current listener settings and time.
+        get banner(): string | undefined {
+          const listener = server.getCurrentListener();
+          return listener.loginBanner ? renderBanner(listener.loginBanner, getBannerVariables(listener)) : undefined;
+        }
       }, (client) => {
         logger.debug('SFTP client connected');
         const sessionId = `sftp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -75,616 +116,716 @@ export class SFTPServer extends EventEmitter {
         let username: string | undefined;
         let authenticatedUser: User | undefined;
         let userPermissions: Permission | undefined;
+        // Factors passed so far. With SSH partial success a client can combine
+        // a key and a password when the auth policy asks for both.
+        let passedFactors: AuthFactor[] = [];
+        let passedMethods: string[] = [];
+        let readOnlyKey = false;
+        let totpFailures = 0;
+
+        const logAuth = (action: string, success: boolean) => {
+          this.emit('activity', {
+            listenerId: this.listener.id!,
+            username: username!,
+            action: `${action} [${ipAddress}:${remotePort}]`,
+            path: '/',
+            success
+          });
+        };
+
+        const timer = this.sessionTimers.get((client as any)._sock);
+        if (timer) {
+          timer.onTimeout = (reason) => {
+            this.logDisconnect(reason, username || '', ipAddress, remotePort);
+            client.end();
+          };
+        }
+
+        // Track the session once the user has passed authentication
+        const completeLogin = (user: User, method: string) => {
+          this.activeSessions.set(sessionId, {
+            client,
+            username: user.username,
+            ipAddress,
+            connectedAt: new Date()
+          });
+          console.log(`[SESSION] Added active session: ${sessionId} for user ${user.username} from ${ipAddress}`);
+          console.log(`[SESSION] Total active sessions: ${this.activeSessions.size}`);
+
+          authenticatedUser = user;
+          userPermissions = this.db.getPermission(user.id!, this.listener.id!);
+          logAuth(`LOGIN (${method})`, true);
+        };
+
+        // SSH methods that can provide the given factors
+        const getAuthMethods = (user: User, factors: AuthFactor[]): ssh2.AuthenticationType[] => {
+          return factors.flatMap((factor): ssh2.AuthenticationType[] => {
+            if (factor === 'publickey') return ['publickey'];
+            if (!user.passwordEnabled) return [];
+            return isTotpRequired(user) ? ['keyboard-interactive'] : ['password', 'keyboard-interactive'];
+          });
+        };
+
+        // Record a passed factor, then either finish the login or ask for what the policy still needs
+        const passFactor = (ctx: ssh2.AuthContext, user: User, policies: AuthPolicy[], factor: AuthFactor, method: string) => {
+          if (!passedFactors.includes(factor)) {
+            passedFactors.push(factor);
+            passedMethods.push(method);
+          }
+
+          const missing = getMissingFactors(policies, passedFactors);
+          if (missing.length > 0) {
+            logAuth(`LOGIN_PARTIAL (${method})`, true);
+            return ctx.reject(getAuthMethods(user, missing), true);
+          }
+
+          completeLogin(user, passedMethods.join(' + '));
+          if (readOnlyKey) {
+            userPermissions = toReadOnlyPermission(userPermissions, user.id!, this.listener.id!);
+          }
+          ctx.accept();
+        };
 
         client.on('authentication', (ctx) => {
+          // Factors only add up for the same username
+          if (ctx.username !== username) {
+            passedFactors = [];
+            passedMethods = [];
+            readOnlyKey = false;
+          }
           username = ctx.username;
           const user = this.db.getUser(username);
 
           if (!user) {
-            this.emit('activity', {
-              listenerId: this.listener.id!,
-              username: username,
-              action: `LOGIN_FAILED (User not found) [${ipAddress}:${remotePort}]`,
-              path: '/',
-              success: false
-            });
+            logAuth('LOGIN_FAILED (User not found)', false);
             return ctx.reject();
           }
 
           const userListeners = this.db.getUserListeners(user.id!);
           if (!userListeners.includes(this.listener.id!)) {
-            this.emit('activity', {
-              listenerId: this.listener.id!,
-              username: username,
-              action: `LOGIN_FAILED (Not authorized for this listener) [${ipAddress}:${remotePort}]`,
-              path: '/',
-              success: false
-            });
+            logAuth('LOGIN_FAILED (Not authorized for this listener)', false);
             return ctx.reject();
           }
 
+          // Read the listener again so policy changes apply without a restart
+          const policies = getAuthPolicies(user, this.getCurrentListener());
+          const factor: AuthFactor | undefined = ctx.method === 'publickey' ? 'publickey'
+            : ctx.method === 'password' || ctx.method === 'keyboard-interactive' ? 'password'
+            : undefined;
+          if (factor && !isFactorAllowed(policies, factor)) {
+            logAuth(`LOGIN_FAILED (${ctx.method} not allowed by auth policy)`, false);
+            const allowed = (['publickey', 'password'] as AuthFactor[]).filter(f => isFactorAllowed(policies, f) && !passedFactors.includes(f));
+            return ctx.reject(getAuthMethods(user, allowed));
+          }
+
           if (ctx.method === 'password' && user.passwordEnabled) {
+            // Users with a second factor have to log in with keyboard-interactive
+            if (isTotpRequired(user)) {
+              logAuth('LOGIN_FAILED (MFA required)', false);
+              return ctx.reject(['keyboard-interactive', 'publickey']);
+            }
+
             if (this.db.verifyPassword(username, ctx.password)) {
-              
-              // Track active session
-              this.activeSessions.set(sessionId, {
-                client,
-                username: username,
-                ipAddress,
-                connectedAt: new Date()
-              });
-              console.log(`[SESSION] Added active session: ${sessionId} for user ${username} from ${ipAddress}`);
-              console.log(`[SESSION] Total active sessions: ${this.activeSessions.size}`);
-              
-              authenticatedUser = user;
-              userPermissions = this.db.getPermission(user.id!, this.listener.id!);
-              this.emit('activity', {
-                listenerId: this.listener.id!,
-                username: username,
-                action: `LOGIN (password) [${ipAddress}:${remotePort}]`,
-                path: '/',
-                success: true
-              });
-              return ctx.accept();
+              return passFactor(ctx, user, policies, 'password', 'password');
             } else {
-              this.emit('activity', {
-                listenerId: this.listener.id!,
-                username: username,
-                action: `LOGIN_FAILED (Invalid password) [${ipAddress}:${remotePort}]`,
-                path: '/',
-                success: false
-              });
+              logAuth('LOGIN_FAILED (Invalid password)', false);
               return ctx.reject();
             }
-          } else if (ctx.method === 'publickey' && user.publicKey) {
-            // Simple public key verification
-            if (ctx.key.algo === 'ssh-rsa' || ctx.key.algo === 'ssh-ed25519') {
-              const providedKey = ctx.key.data.toString('base64');
-              const storedKey = user.publicKey;
-              
-              if (providedKey === storedKey || storedKey.includes(providedKey)) {
-                if (ctx.signature) {
-                  // Track active session
-                  this.activeSessions.set(sessionId, {
-                    client,
-                    username: username,
-                    ipAddress,
-                    connectedAt: new Date()
-                  });
-                  console.log(`[SESSION] Added active session: ${sessionId} for user ${username} from ${ipAddress}`);
-                  console.log(`[SESSION] Total active sessions: ${this.activeSessions.size}`);
-                  
-                  authenticatedUser = user;
-                  userPermissions = this.db.getPermission(user.id!, this.listener.id!);
-                  this.emit('activity', {
-                    listenerId: this.listener.id!,
-                    username: username,
-                    action: `LOGIN (publickey) [${ipAddress}:${remotePort}]`,
-                    path: '/',
-                    success: true
-                  });
-                  return ctx.accept();
-                } else {
-                  return ctx.accept();
+          } else if (ctx.method === 'keyboard-interactive' && user.passwordEnabled) {
+            if (user.mfaMode === 'required' && !user.totpSecret) {
+              logAuth('LOGIN_FAILED (MFA not enrolled)', false);
+              return ctx.reject();
+            }
+
+            const withTotp = isTotpRequired(user);
+            const prompts = [{ prompt: 'Password: ', echo: false }];
+            if (withTotp) {
+              prompts.push({ prompt: 'Verification code: ', echo: false });
+            }
+
+            return ctx.prompt(prompts, 'SLightSFTP', '', (answers) => {
+              // ssh2 passes an error instead of answers when the client aborts the exchange
+              if (!Array.isArray(answers)) return;
+
+              if (!this.db.verifyPassword(user.username, answers[0] || '')) {
+                logAuth('LOGIN_FAILED (Invalid password)', false);
+                return ctx.reject();
+              }
+              if (withTotp) {
+                // Read again, another connection may have used a code while this one was prompted
+                const lastStep = this.db.getUser(user.username)?.totpLastStep ?? null;
+                const step = matchTotpStep(user.totpSecret!, answers[1] || '', Date.now(), lastStep);
+                if (step === null) {
+                  logAuth('LOGIN_FAILED (Invalid verification code)', false);
+                  ctx.reject();
+                  if (++totpFailures >= MAX_TOTP_FAILURES) {
+                    logAuth('DISCONNECTED (Too many invalid verification codes)', false);
+                    client.end();
+                  }
+                  return;
                 }
+                this.db.setTotpLastStep(user.username, step);
+              }
+
+              passFactor(ctx, user, policies, 'password', withTotp ? 'keyboard-interactive+totp' : 'keyboard-interactive');
+            });
+          } else if (ctx.method === 'publickey') {
+            const userKey = findUserKey(this.db.getUserKeys(user.id!), ctx.key);
+            if (userKey) {
+              const restriction = getKeyRestriction(userKey, ipAddress);
+              if (restriction) {
+                logger.warn(`SFTP key ${userKey.fingerprint} of ${username} refused: ${restriction}`);
+                logAuth('LOGIN_FAILED (key restricted)', false);
+                return ctx.reject();
               }
+
+              // Without a signature the client is only asking whether the key is acceptable
+              if (!ctx.signature || !ctx.blob) {
+                return ctx.accept();
+              }
+
+              if (verifyUserKeySignature(userKey, ctx.blob, ctx.signature, ctx.hashAlgo)) {
+                readOnlyKey = getKeyOptions(userKey).readOnly;
+                this.db.touchUserKey(userKey.id!);
+                return passFactor(ctx, user, policies, 'publickey', `publickey ${userKey.fingerprint}`);
+              }
+
+              logAuth('LOGIN_FAILED (Invalid signature)', false);
+              return ctx.reject();
             }
           }
 
-          this.emit('activity', {
-            listenerId: this.listener.id!,
-            username: username,
-            action: `LOGIN_FAILED (Invalid public key or auth method) [${ipAddress}:${remotePort}]`,
-            path: '/',
-            success: false
-          });
+          logAuth('LOGIN_FAILED (Invalid public key or auth method)', false);
           ctx.reject();
         });
 
         client.on('ready', () => {
           logger.info(`SFTP client authenticated: ${username}`);
 
-          // Set up idle timeout for this client
-          this.resetIdleTimeout(client, username!);
+          // Authentication is over; the idle timeout and session limit start
+          timer?.login();
+
+          // The message of the day goes to stderr of the first exec channel,
+          // which scp prints to the terminal. ssh2 offers no stderr stream for
+          // the SFTP subsystem, so SFTP sessions do not get it.
+          const listener = this.getCurrentListener();
+          let motd = listener.motd ? renderBanner(listener.motd, getBannerVariables(listener, username!)) : '';
+          const takeMotd = (): string => {
+            const text = motd ? `${motd.replace(/\n/g, '\r\n')}\r\n` : '';
+            motd = '';
+            return text;
+          };
 
           client.on('session', (accept) => {
             const session = accept();
+            const logActivity = (action: string, filePath: string, success: boolean) => {
+              this.emit('activity', {
+                listenerId: this.listener.id!,
+                username: username!,
+                action,
+                path: filePath,
+                success
+              });
+            };
 
-            session.on('sftp', (accept) => {
-              const sftp = accept();
-              const virtualPaths = this.db.getVirtualPaths(authenticatedUser!.id!);
+            // Paths, permissions and file operations of this user, shared with FTP and the GUI
+            const vfs = new VirtualFileSystem(this.db.getVirtualPaths(authenticatedUser!.id!), userPermissions || null);
+            vfs.on('activity', (activity: FileActivity) => logActivity(activity.action, activity.path, activity.success));
 
-              // Map virtual paths to real paths
-              const pathMapper = (virtualPath: string): string => {
-                // Normalize path and ensure it starts with /
-                let normalizedVPath = virtualPath.replace(/\\/g, '/');
-                
-                // If path is an absolute Windows or local path, extract just the relative part
-                if (normalizedVPath.match(/^[A-Za-z]:/)) {
-                  // It's a Windows absolute path - this shouldn't happen normally
-                  // Extract everything after the last occurrence of the base path
-                  if (virtualPaths.length > 0) {
-                    const basePath = virtualPaths[0].localPath.replace(/\\/g, '/');
-                    const idx = normalizedVPath.indexOf(basePath);
-                    if (idx !== -1) {
-                      normalizedVPath = normalizedVPath.substring(idx + basePath.length);
-                    }
-                  }
-                }
-                
-                // Ensure path starts with /
-                if (!normalizedVPath.startsWith('/')) {
-                  normalizedVPath = '/' + normalizedVPath;
-                }
-                
-                // Find matching virtual path (try longest match first)
-                const sortedPaths = [...virtualPaths].sort((a, b) => b.virtualPath.length - a.virtualPath.length);
-                
-                for (const vp of sortedPaths) {
-                  const normalizedVpPath = vp.virtualPath.replace(/\\/g, '/');
-                  
-                  // Handle exact match or path starting with virtual path
-                  if (normalizedVPath === normalizedVpPath || normalizedVPath.startsWith(normalizedVpPath + '/') || normalizedVpPath === '/') {
-                    let relativePath = normalizedVPath.substring(normalizedVpPath.length);
-                    
-                    // Remove leading slash from relative path if virtual path is not root
-                    if (normalizedVpPath !== '/' && relativePath.startsWith('/')) {
-                      relativePath = relativePath.substring(1);
-                    } else if (normalizedVpPath === '/' && relativePath.startsWith('/')) {
-                      relativePath = relativePath.substring(1);
-                    }
-                    
-                    const realPath = path.join(vp.localPath, relativePath);
-                    
-                    console.log(`Path mapping: ${virtualPath} -> ${normalizedVPath} -> ${realPath}`);
-                    
-                    // Ensure the directory exists
-                    const dirPath = fs.existsSync(realPath) && fs.statSync(realPath).isDirectory() 
-                      ? realPath 
-                      : path.dirname(realPath);
-                    
-                    if (!fs.existsSync(dirPath)) {
-                      try {
-                        fs.mkdirSync(dirPath, { recursive: true });
-                        console.log(`Created directory: ${dirPath}`);
-                      } catch (err) {
-                        console.error('Error creating directory:', err);
-                      }
-                    }
-                    
-                    return realPath;
-                  }
-                }
-                
-                // Default to first virtual path if available
-                if (virtualPaths.length > 0) {
-                  const defaultPath = path.join(virtualPaths[0].localPath, normalizedVPath);
-                  
-                  // Ensure base directory exists
-                  if (!fs.existsSync(virtualPaths[0].localPath)) {
-                    try {
-                      fs.mkdirSync(virtualPaths[0].localPath, { recursive: true });
-                      console.log(`Created base directory: ${virtualPaths[0].localPath}`);
-                    } catch (err) {
-                      console.error('Error creating base directory:', err);
-                    }
-                  }
-                  
-                  return defaultPath;
-                }
-                
-                // Fallback
-                return virtualPath;
-              };
+            // scp runs as an exec request ("scp -t" to upload, "scp -f" to download)
+            session.on('exec', (accept, reject, info) => {
+              const command = parseScpCommand(info.command);
+              if (!command) {
+                logger.warn(`SFTP exec request refused for ${username}: ${info.command}`);
+                logActivity('EXEC_DENIED', '/', false);
+                return reject();
+              }
 
-              // Helper to find the matching virtual path for a given path
-              const findVirtualPath = (virtualPath: string) => {
-                let normalizedVPath = virtualPath.replace(/\\/g, '/');
-                if (!normalizedVPath.startsWith('/')) normalizedVPath = '/' + normalizedVPath;
-                
-                const sortedPaths = [...virtualPaths].sort((a, b) => b.virtualPath.length - a.virtualPath.length);
-                for (const vp of sortedPaths) {
-                  const normalizedVpPath = vp.virtualPath.replace(/\\/g, '/');
-                  if (normalizedVPath === normalizedVpPath || normalizedVPath.startsWith(normalizedVpPath + '/') || normalizedVpPath === '/') {
-                    return vp;
-                  }
-                }
-                return virtualPaths.length > 0 ? virtualPaths[0] : null;
-              };
+              const channel = accept();
+              const motdText = takeMotd();
+              if (motdText) {
+                channel.stderr.write(motdText);
+              }
+              const transfer = new ScpTransfer(channel, command, {
+                vfs,
+                onActivity: () => this.resetIdleTimeout(client)
+              });
+              transfer.run().then(exitCode => {
+                channel.exit(exitCode);
+                channel.end();
+              }).catch((err) => {
+                logger.error(`SCP transfer of ${username} failed:`, err);
+                channel.exit(1);
+                channel.end();
+              });
+            });
 
-              // Check both listener-level and virtual path-level permissions
-              const checkPermission = (action: keyof Permission, virtualPath: string = '/'): boolean => {
-                console.log(`[PERMISSION CHECK] Action: ${action}, Path: ${virtualPath}`);
-                
-                // Find the matching virtual path
-                const vp = findVirtualPath(virtualPath);
-                if (!vp) {
-                  console.log(`[PERMISSION CHECK] No virtual path found for: ${virtualPath}`);
-                  return false;
-                }
-                console.log(`[PERMISSION CHECK] Found virtual path: ${vp.virtualPath} -> ${vp.localPath}`);
-                
-                // Map Permission keys to VirtualPath permission keys
-                const vpPermMap: Record<string, keyof typeof vp> = {
-                  'canRead': 'canRead',
-                  'canCreate': 'canWrite',
-                  'canEdit': 'canWrite',
-                  'canAppend': 'canAppend',
-                  'canDelete': 'canDelete',
-                  'canList': 'canList',
-                  'canCreateDir': 'canCreateDir',
-                  'canRename': 'canRename'
-                };
-                
-                const vpPermKey = vpPermMap[action];
-                if (!vpPermKey) {
-                  console.log(`[PERMISSION CHECK] No permission mapping for action: ${action}`);
-                  return false;
-                }
-                
-                // Check virtual path permissions first
-                const hasVPathPerm = vp[vpPermKey] !== false;
-                console.log(`[PERMISSION CHECK] VPath permission ${vpPermKey}: ${hasVPathPerm}`);
-                
-                // If user has listener-level permissions, check those too (AND condition)
-                // If no listener permissions, virtual path permissions alone are sufficient
-                if (userPermissions) {
-                  const listenerPerm = Boolean(userPermissions[action]);
-                  console.log(`[PERMISSION CHECK] Listener permission ${action}: ${listenerPerm}`);
-                  const result = listenerPerm && hasVPathPerm;
-                  console.log(`[PERMISSION CHECK] Final result (listener AND vpath): ${result}`);
-                  return result;
+            session.on('sftp', (accept) => {
+              const sftp = accept();
+              const extensions = enableExtensions(sftp, SFTP_EXTENSIONS);
+
+              // Open files and directories of this session, looked up by the opaque handle given to the client
+              const fileHandles = new HandleTable<FileHandle>();
+              const dirHandles = new HandleTable<DirHandle>();
+              sftp.on('close', () => {
+                dirHandles.clear();
+                for (const fileHandle of fileHandles.clear()) {
+                  fileHandle.file.close().catch((err) => {
+                    console.error('SFTP handle cleanup error:', err);
+                  });
                 }
-                
-                // No listener permissions - rely solely on virtual path permissions
-                console.log(`[PERMISSION CHECK] No listener permissions, using vpath only: ${hasVPathPerm}`);
-                return hasVPathPerm;
-              };
+              });
 
-              const logActivity = (action: string, filePath: string, success: boolean) => {
-                this.emit('activity', {
-                  listenerId: this.listener.id!,
-                  username: username!,
-                  action,
-                  path: filePath,
-                  success
+              // SFTP command handlers. Every request counts as activity for the idle timeout.
+              const onRequest: typeof sftp.on = (event: any, listener: (...args: any[]) => void) => {
+                return sftp.on(event, (...args: any[]) => {
+                  this.resetIdleTimeout(client);
+                  listener(...args);
                 });
               };
 
-              // SFTP command handlers
-              sftp.on('OPEN', (reqId, filename, flags, attrs) => {
-                const realPath = pathMapper(filename);
-                console.log(`SFTP OPEN: ${filename} -> ${realPath}`);
-
-                // Check permissions based on flags
-                const writeFlag = flags & (SFTP_OPEN_MODE.WRITE | SFTP_OPEN_MODE.APPEND | SFTP_OPEN_MODE.CREAT);
-                const readFlag = flags & SFTP_OPEN_MODE.READ;
+              onRequest('OPEN', (reqId, filename, flags) => {
+                console.log(`SFTP OPEN: ${filename}`);
+                vfs.open(filename, toOpenMode(flags)).then((opened) => {
+                  const { file, virtualPath, canRead, canWrite, appendOnly } = opened;
+                  sftp.handle(reqId, fileHandles.add({ file, virtualPath, canRead, canWrite, appendOnly }));
+                }).catch((err) => {
+                  console.error('SFTP OPEN error:', err);
+                  sftp.status(reqId, toStatusCode(err));
+                });
+              });
 
-                if (writeFlag && !checkPermission('canCreate', filename) && !checkPermission('canEdit', filename)) {
-                  logActivity('OPEN_DENIED', filename, false);
-                  return sftp.status(reqId, SFTP_STATUS_CODE.PERMISSION_DENIED);
+              onRequest('READ', (reqId, handle, offset, length) => {
+                const fileHandle = fileHandles.get(handle);
+                if (!fileHandle) {
+                  return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
                 }
-
-                // Check canRead for read operations, canList for listing directories
-                if (readFlag && !checkPermission('canRead', filename)) {
-                  logActivity('OPEN_DENIED', filename, false);
+                if (!fileHandle.canRead) {
                   return sftp.status(reqId, SFTP_STATUS_CODE.PERMISSION_DENIED);
                 }
 
-                try {
-                  const openFlags = this.convertSFTPFlags(flags);
-                  const handle = fs.openSync(realPath, openFlags);
-                  const handleBuffer = Buffer.alloc(4);
-                  handleBuffer.writeUInt32BE(handle, 0);
-                  logActivity('OPEN', filename, true);
-                  sftp.handle(reqId, handleBuffer);
-                } catch (err: any) {
-                  console.error('SFTP OPEN error:', err);
-                  logActivity('OPEN_FAILED', filename, false);
-                  
-                  // Return appropriate error status codes
-                  if (err.code === 'ENOENT') {
-                    sftp.status(reqId, SFTP_STATUS_CODE.NO_SUCH_FILE);
-                  } else if (err.code === 'EACCES' || err.code === 'EPERM') {
-                    sftp.status(reqId, SFTP_STATUS_CODE.PERMISSION_DENIED);
-                  } else {
-                    sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
-                  }
-                }
-              });
-
-              sftp.on('READ', (reqId, handle, offset, length) => {
-                // Reset idle timeout on activity
-                this.resetIdleTimeout(client, username!);
-                
-                const handleNum = handle.readUInt32BE(0);
-                try {
-                  const buffer = Buffer.alloc(length);
-                  const bytesRead = fs.readSync(handleNum, buffer, 0, length, offset);
-                  if (bytesRead === 0) {
+                fileHandle.file.read(offset, length).then((data) => {
+                  if (data.length === 0) {
                     sftp.status(reqId, SFTP_STATUS_CODE.EOF);
                   } else {
-                    sftp.data(reqId, buffer.slice(0, bytesRead));
+                    sftp.data(reqId, data);
                   }
-                } catch (err) {
+                }).catch((err) => {
                   console.error('SFTP READ error:', err);
                   sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
-                }
+                });
               });
 
-              sftp.on('WRITE', (reqId, handle, offset, data) => {
-                // Reset idle timeout on activity
-                this.resetIdleTimeout(client, username!);
-                
-                // We don't have the filename in WRITE, so we skip path-level check here
-                // Permissions were already checked in OPEN
-                if (!userPermissions || (!userPermissions.canEdit && !userPermissions.canAppend)) {
+              onRequest('WRITE', (reqId, handle, offset, data) => {
+                const fileHandle = fileHandles.get(handle);
+                if (!fileHandle) {
+                  return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                }
+                if (!fileHandle.canWrite && !fileHandle.appendOnly) {
+                  logActivity('WRITE_DENIED', fileHandle.virtualPath, false);
                   return sftp.status(reqId, SFTP_STATUS_CODE.PERMISSION_DENIED);
                 }
 
-                const handleNum = handle.readUInt32BE(0);
-                try {
-                  fs.writeSync(handleNum, data, 0, data.length, offset);
+                // Append-only handles may extend the file but not overwrite what is there
+                fileHandle.file.write(offset, data, fileHandle.appendOnly).then((written) => {
+                  if (!written) {
+                    logActivity('WRITE_DENIED', fileHandle.virtualPath, false);
+                    return sftp.status(reqId, SFTP_STATUS_CODE.PERMISSION_DENIED);
+                  }
                   sftp.status(reqId, SFTP_STATUS_CODE.OK);
-                } catch (err) {
+                }).catch((err) => {
                   console.error('SFTP WRITE error:', err);
                   sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
-                }
+                });
               });
 
-              sftp.on('CLOSE', (reqId, handle) => {
+              onRequest('CLOSE', (reqId, handle) => {
                 // Try to parse as a directory handle first
-                const handleStr = handle.toString();
-                if (this.dirHandles && this.dirHandles.has(handleStr)) {
-                  console.log(`[CLOSE] Closing directory handle: ${handleStr}`);
-                  this.dirHandles.delete(handleStr);
+                if (dirHandles.delete(handle)) {
                   return sftp.status(reqId, SFTP_STATUS_CODE.OK);
                 }
                 
                 // Otherwise treat as file handle
-                const handleNum = handle.readUInt32BE(0);
-                try {
-                  fs.closeSync(handleNum);
+                const fileHandle = fileHandles.delete(handle);
+                if (!fileHandle) {
+                  return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                }
+
+                // Buffered writes are completed first; their errors are reported here
+                fileHandle.file.close().then(() => {
                   sftp.status(reqId, SFTP_STATUS_CODE.OK);
-                } catch (err) {
+                }).catch((err) => {
                   console.error('SFTP CLOSE error:', err);
                   sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
-                }
+                });
               });
 
-              sftp.on('OPENDIR', (reqId, dirPath) => {
+              onRequest('OPENDIR', (reqId, dirPath) => {
                 console.log(`[OPENDIR] Request ${reqId} for path: ${dirPath}`);
-                
-                // Reset idle timeout on activity
-                this.resetIdleTimeout(client, username!);
-                
-                const permResult = checkPermission('canList', dirPath);
-                console.log(`[OPENDIR] Permission check result: ${permResult}`);
-                
-                if (!permResult) {
-                  console.log(`[OPENDIR] DENIED - No permission for: ${dirPath}`);
-                  logActivity('OPENDIR_DENIED', dirPath, false);
-                  return sftp.status(reqId, SFTP_STATUS_CODE.PERMISSION_DENIED);
-                }
 
-                const realPath = pathMapper(dirPath);
-                console.log(`[OPENDIR] Mapping: ${dirPath} -> ${realPath}`);
-
-                try {
-                  console.log(`[OPENDIR] Reading directory: ${realPath}`);
-                  const files = fs.readdirSync(realPath);
-                  console.log(`[OPENDIR] Found ${files.length} files`);
-                  
-                  // Create a unique handle for this directory read operation
-                  const handleId = `dir_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-                  const handleBuffer = Buffer.from(handleId);
-                  
-                  // Store the directory listing state
-                  if (!this.dirHandles) {
-                    this.dirHandles = new Map();
-                  }
-                  this.dirHandles.set(handleId, { path: realPath, files, sentAll: false });
-                  
-                  console.log(`[OPENDIR] Created handle ${handleId} for ${files.length} files`);
-                  
-                  logActivity('OPENDIR', dirPath, true);
-                  sftp.handle(reqId, handleBuffer);
-                  console.log(`[OPENDIR] Handle sent successfully`);
-                } catch (err: any) {
+                vfs.openDirectory(dirPath, { activity: 'OPENDIR' }).then((directory) => {
+                  console.log(`[OPENDIR] Found ${directory.names.length} files in ${directory.localPath}`);
+                  sftp.handle(reqId, dirHandles.add({ directory, position: 0 }));
+                }).catch((err) => {
                   console.error('[OPENDIR] Error:', err);
-                  logActivity('OPENDIR_FAILED', dirPath, false);
-                  sftp.status(reqId, SFTP_STATUS_CODE.NO_SUCH_FILE);
-                }
+                  const status = toStatusCode(err);
+                  sftp.status(reqId, status === SFTP_STATUS_CODE.FAILURE ? SFTP_STATUS_CODE.NO_SUCH_FILE : status);
+                });
               });
 
-              sftp.on('READDIR', (reqId, handle) => {
+              onRequest('READDIR', async (reqId, handle) => {
                 console.log(`[READDIR] Request ${reqId}`);
                 try {
-                  const handleId = handle.toString();
-                  console.log(`[READDIR] Handle ID: ${handleId}`);
-                  
-                  if (!this.dirHandles || !this.dirHandles.has(handleId)) {
+                  const dirHandle = dirHandles.get(handle);
+                  if (!dirHandle) {
                     console.log(`[READDIR] Invalid or expired handle`);
                     return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
                   }
-                  
-                  const handleData = this.dirHandles.get(handleId)!;
-                  const { path: dirPath, files, sentAll } = handleData;
-                  console.log(`[READDIR] Path: ${dirPath}, Files: ${files.length}, SentAll: ${sentAll}`);
 
-                  if (sentAll) {
-                    console.log(`[READDIR] EOF - all files already sent`);
-                    return sftp.status(reqId, SFTP_STATUS_CODE.EOF);
-                  }
+                  const { directory } = dirHandle;
 
-                  const fileList: any[] = [];
-                  console.log(`[READDIR] Processing ${files.length} files`);
-
-                  for (const file of files) {
-                    try {
-                      const filePath = path.join(dirPath, file);
-                      const stats = fs.statSync(filePath);
-                      fileList.push({
-                        filename: file,
-                        longname: this.formatLongname(file, stats),
-                        attrs: {
-                          mode: stats.mode,
-                          uid: stats.uid,
-                          gid: stats.gid,
-                          size: stats.size,
-                          atime: Math.floor(stats.atimeMs / 1000),
-                          mtime: Math.floor(stats.mtimeMs / 1000)
-                        }
-                      });
-                    } catch (err) {
-                      console.error(`[READDIR] Error stating file ${file}:`, err);
-                    }
+                  // Only the entries of this page are stat'ed, so huge directories are
+                  // answered in bounded steps. Entries removed since OPENDIR are skipped.
+                  let fileList: ssh2.FileEntry[] = [];
+                  while (fileList.length === 0 && dirHandle.position < directory.names.length) {
+                    const page = directory.names.slice(dirHandle.position, dirHandle.position + READDIR_PAGE_SIZE);
+                    dirHandle.position += page.length;
+
+                    const entries = await vfs.readEntries(directory, page);
+                    fileList = entries.map(entry => ({
+                      filename: entry.name,
+                      longname: this.formatLongname(entry.name, entry.stats),
+                      attrs: this.toAttrs(entry.stats)
+                    }));
                   }
 
-                  // Mark as sent so next READDIR returns EOF
-                  handleData.sentAll = true;
+                  if (fileList.length === 0) {
+                    return sftp.status(reqId, SFTP_STATUS_CODE.EOF);
+                  }
 
-                  console.log(`[READDIR] Sending ${fileList.length} file entries`);
+                  console.log(`[READDIR] Sending ${fileList.length} of ${directory.names.length} entries of ${directory.localPath}`);
                   sftp.name(reqId, fileList);
-                  console.log(`[READDIR] Response sent`);
                 } catch (err) {
                   console.error('[READDIR] Error:', err);
                   sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
                 }
               });
 
-              sftp.on('STAT', (reqId, filePath) => {
-                // Reset idle timeout on activity
-                this.resetIdleTimeout(client, username!);
-                
-                const realPath = pathMapper(filePath);
-                try {
-                  const stats = fs.statSync(realPath);
-                  logActivity('STAT', filePath, true);
-                  sftp.attrs(reqId, {
-                    mode: stats.mode,
-                    uid: stats.uid,
-                    gid: stats.gid,
-                    size: stats.size,
-                    atime: Math.floor(stats.atimeMs / 1000),
-                    mtime: Math.floor(stats.mtimeMs / 1000)
-                  });
-                } catch (err) {
-                  logActivity('STAT_FAILED', filePath, true);
-                  sftp.status(reqId, SFTP_STATUS_CODE.NO_SUCH_FILE);
+              // STAT follows symlinks, LSTAT reports the link itself
+              const handleStat = (reqId: number, filePath: string, followLast: boolean) => {
+                vfs.stat(filePath, { followLast }).then((stats) => {
+                  sftp.attrs(reqId, this.toAttrs(stats));
+                }).catch((err) => {
+                  const status = toStatusCode(err);
+                  sftp.status(reqId, status === SFTP_STATUS_CODE.FAILURE ? SFTP_STATUS_CODE.NO_SUCH_FILE : status);
+                });
+              };
+
+              onRequest('STAT', (reqId, filePath) => handleStat(reqId, filePath, true));
+              onRequest('LSTAT', (reqId, filePath) => handleStat(reqId, filePath, false));
+
+              onRequest('FSTAT', async (reqId, handle) => {
+                const dirHandle = dirHandles.get(handle);
+                const fileHandle = fileHandles.get(handle);
+                if (!dirHandle && !fileHandle) {
+                  return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
                 }
-              });
 
-              sftp.on('LSTAT', (reqId, filePath) => {
-                // Reset idle timeout on activity
-                this.resetIdleTimeout(client, username!);
-                
-                const realPath = pathMapper(filePath);
                 try {
-                  const stats = fs.lstatSync(realPath);
-                  logActivity('LSTAT', filePath, true);
-                  sftp.attrs(reqId, {
-                    mode: stats.mode,
-                    uid: stats.uid,
-                    gid: stats.gid,
-                    size: stats.size,
-                    atime: Math.floor(stats.atimeMs / 1000),
-                    mtime: Math.floor(stats.mtimeMs / 1000)
-                  });
+                  const stats = dirHandle ? await vfs.statDirectory(dirHandle.directory) : await fileHandle!.file.stat();
+                  sftp.attrs(reqId, this.toAttrs(stats));
                 } catch (err) {
-                  logActivity('LSTAT_FAILED', filePath, true);
-                  sftp.status(reqId, SFTP_STATUS_CODE.NO_SUCH_FILE);
+                  console.error('SFTP FSTAT error:', err);
+                  sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
                 }
               });
 
-              sftp.on('REMOVE', (reqId, filePath) => {
-                if (!checkPermission('canDelete', filePath)) {
-                  logActivity('REMOVE_DENIED', filePath, false);
+              onRequest('SETSTAT', (reqId, filePath, attrs) => {
+                vfs.setAttributes(filePath, attrs).then(() => {
+                  sftp.status(reqId, SFTP_STATUS_CODE.OK);
+                }).catch((err) => {
+                  sftp.status(reqId, toStatusCode(err));
+                });
+              });
+
+              onRequest('FSETSTAT', (reqId, handle, attrs) => {
+                const fileHandle = fileHandles.get(handle);
+                if (!fileHandle) {
+                  return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                }
+                const filePath = fileHandle.virtualPath;
+
+                if (!vfs.hasPermission('canSetAttributes', filePath) ||
+                    (attrs.size !== undefined && !vfs.hasPermission('canEdit', filePath))) {
+                  logActivity('FSETSTAT_DENIED', filePath, false);
+                  return sftp.status(reqId, SFTP_STATUS_CODE.PERMISSION_DENIED);
+                }
+                // Resizing through a handle is a write; append-only handles may not shrink the file
+                if (attrs.size !== undefined && (fileHandle.appendOnly || !fileHandle.canWrite)) {
+                  logActivity('FSETSTAT_DENIED', filePath, false);
                   return sftp.status(reqId, SFTP_STATUS_CODE.PERMISSION_DENIED);
                 }
 
-                const realPath = pathMapper(filePath);
-                try {
-                  fs.unlinkSync(realPath);
-                  logActivity('REMOVE', filePath, true);
+                fileHandle.file.withFlushed((handle) => applyAttributes(handle, attrs)).then(() => {
+                  logActivity('FSETSTAT', filePath, true);
                   sftp.status(reqId, SFTP_STATUS_CODE.OK);
-                } catch (err) {
-                  logActivity('REMOVE_FAILED', filePath, false);
+                }).catch(() => {
+                  logActivity('FSETSTAT_FAILED', filePath, false);
                   sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
-                }
+                });
               });
 
-              sftp.on('RMDIR', (reqId, dirPath) => {
-                if (!checkPermission('canDelete', dirPath)) {
-                  logActivity('RMDIR_DENIED', dirPath, false);
-                  return sftp.status(reqId, SFTP_STATUS_CODE.PERMISSION_DENIED);
-                }
+              onRequest('REMOVE', (reqId, filePath) => {
+                vfs.delete(filePath, { kind: 'file', activity: 'REMOVE' }).then(() => {
+                  sftp.status(reqId, SFTP_STATUS_CODE.OK);
+                }).catch((err) => {
+                  sftp.status(reqId, toStatusCode(err));
+                });
+              });
 
-                const realPath = pathMapper(dirPath);
-                try {
-                  fs.rmdirSync(realPath);
-                  logActivity('RMDIR', dirPath, true);
+              onRequest('RMDIR', (reqId, dirPath) => {
+                vfs.delete(dirPath, { kind: 'directory', activity: 'RMDIR' }).then(() => {
                   sftp.status(reqId, SFTP_STATUS_CODE.OK);
-                } catch (err) {
-                  logActivity('RMDIR_FAILED', dirPath, false);
-                  sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
-                }
+                }).catch((err) => {
+                  sftp.status(reqId, toStatusCode(err));
+                });
               });
 
-              sftp.on('MKDIR', (reqId, dirPath, attrs) => {
-                if (!checkPermission('canCreateDir', dirPath)) {
-                  logActivity('MKDIR_DENIED', dirPath, false);
-                  return sftp.status(reqId, SFTP_STATUS_CODE.PERMISSION_DENIED);
-                }
+              onRequest('MKDIR', (reqId, dirPath) => {
+                vfs.mkdir(dirPath).then(() => {
+                  sftp.status(reqId, SFTP_STATUS_CODE.OK);
+                }).catch((err) => {
+                  sftp.status(reqId, toStatusCode(err));
+                });
+              });
 
-                const realPath = pathMapper(dirPath);
-                try {
-                  fs.mkdirSync(realPath, { recursive: true });
-                  logActivity('MKDIR', dirPath, true);
+              onRequest('RENAME', (reqId, oldPath, newPath) => {
+                vfs.rename(oldPath, newPath).then(() => {
                   sftp.status(reqId, SFTP_STATUS_CODE.OK);
+                }).catch((err) => {
+                  sftp.status(reqId, toStatusCode(err));
+                });
+              });
+
+              // check-file-name / check-file-handle and md5-hash / md5-hash-handle:
+              // hash a range of a file on the server so clients can verify transfers
+              const handleChecksumRequest = (reqId: number, extName: string, extData: Buffer | undefined) => {
+                const isCheckFile = extName.startsWith('check-file-');
+                const byHandle = extName.endsWith('-handle');
+                let filePath: string | undefined;
+                let fd = -1;
+                let file: BufferedFile | undefined;
+                let algorithm: HashAlgorithm | undefined = 'md5';
+                let start: number;
+                let length: number;
+                let blockSize = 0;
+                let quickCheckHash: Buffer = Buffer.alloc(0);
+
+                try {
+                  const reader = new PacketReader(extData);
+                  const target = reader.readString();
+                  if (isCheckFile) {
+                    const requested = reader.readString().toString('utf8').split(',').map(name => name.trim());
+                    algorithm = requested.find(isHashAlgorithm);
+                  }
+                  start = reader.readUInt64();
+                  length = reader.readUInt64();
+                  if (isCheckFile) {
+                    blockSize = reader.readUInt32();
+                  } else {
+                    quickCheckHash = reader.readString();
+                  }
+
+                  if (byHandle) {
+                    const fileHandle = fileHandles.get(target);
+                    filePath = fileHandle?.virtualPath;
+                    file = fileHandle?.file;
+                    fd = file ? file.fd : -1;
+                  } else {
+                    filePath = target.toString('utf8');
+                  }
                 } catch (err) {
-                  logActivity('MKDIR_FAILED', dirPath, false);
-                  sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                  return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                }
+
+                if (filePath === undefined) {
+                  return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                }
+                if (!algorithm) {
+                  return sftp.status(reqId, SFTP_STATUS_CODE.OP_UNSUPPORTED);
+                }
+                // Block sizes below 256 bytes are not allowed by the specification
+                if (blockSize !== 0 && blockSize < 256) {
+                  return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
                 }
-              });
 
-              sftp.on('RENAME', (reqId, oldPath, newPath) => {
-                if (!checkPermission('canRename', oldPath) || !checkPermission('canRename', newPath)) {
-                  logActivity('RENAME_DENIED', `${oldPath} -> ${newPath}`, false);
+                if (byHandle && !vfs.hasPermission('canRead', filePath)) {
+                  logActivity('CHECKSUM_DENIED', filePath, false);
                   return sftp.status(reqId, SFTP_STATUS_CODE.PERMISSION_DENIED);
                 }
 
-                const realOldPath = pathMapper(oldPath);
-                const realNewPath = pathMapper(newPath);
-                try {
-                  fs.renameSync(realOldPath, realNewPath);
-                  logActivity('RENAME', `${oldPath} -> ${newPath}`, true);
-                  sftp.status(reqId, SFTP_STATUS_CODE.OK);
-                } catch (err) {
-                  logActivity('RENAME_FAILED', `${oldPath} -> ${newPath}`, false);
-                  sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                const hashAlgorithm = algorithm;
+                const computeReply = async (source: string | number): Promise<Buffer> => {
+                  if (isCheckFile) {
+                    return encodeCheckFileReply(hashAlgorithm, await hashFileRange(source, hashAlgorithm, start, length, blockSize));
+                  }
+                  // The quick check covers the first 2048 bytes; on mismatch an empty hash is returned
+                  if (quickCheckHash.length > 0) {
+                    const [quickHash] = await hashFileRange(source, 'md5', start, length > 0 ? Math.min(length, 2048) : 2048);
+                    if (!quickHash.equals(quickCheckHash)) {
+                      return encodeMd5HashReply(Buffer.alloc(0));
+                    }
+                  }
+                  const [digest] = await hashFileRange(source, 'md5', start, length);
+                  return encodeMd5HashReply(digest);
+                };
+
+                // Hash open files as written so far, buffered writes included. Paths
+                // go through the jail, open files were mapped when they were opened.
+                const checksum = file
+                  ? file.withFlushed(() => computeReply(fd))
+                  : vfs.authorize('CHECKSUM', filePath, 'canRead').then(mapped => computeReply(mapped.localPath));
+                checksum.then((reply) => {
+                  logActivity('CHECKSUM', filePath!, true);
+                  extensions.sendExtendedReply(reqId, reply);
+                }).catch((err: any) => {
+                  // Refusals were already logged by the virtual file system
+                  if (!(err instanceof PermissionDeniedError) && !(err instanceof PathOutsideJailError)) {
+                    console.error('SFTP CHECKSUM error:', err);
+                    logActivity('CHECKSUM_FAILED', filePath!, false);
+                  }
+                  sftp.status(reqId, toStatusCode(err));
+                });
+              };
+
+              onRequest('EXTENDED', (reqId, extName, extData) => {
+                switch (extName) {
+                  case 'posix-rename@openssh.com': {
+                    const args = readStrings(extData, 2);
+                    if (!args) return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                    const [oldPath, newPath] = args.map(arg => arg.toString('utf8'));
+
+                    vfs.rename(oldPath, newPath, { activity: 'POSIX_RENAME' }).then(() => {
+                      sftp.status(reqId, SFTP_STATUS_CODE.OK);
+                    }).catch((err) => {
+                      sftp.status(reqId, toStatusCode(err));
+                    });
+                    return;
+                  }
+
+                  case 'statvfs@openssh.com':
+                  case 'fstatvfs@openssh.com': {
+                    const args = readStrings(extData, 1);
+                    if (!args) return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+
+                    let filePath: string | undefined;
+                    if (extName === 'statvfs@openssh.com') {
+                      filePath = args[0].toString('utf8');
+                    } else {
+                      filePath = dirHandles.get(args[0])?.directory.virtualPath ?? fileHandles.get(args[0])?.virtualPath;
+                    }
+                    if (filePath === undefined) {
+                      return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                    }
+
+                    const statPath = filePath;
+                    vfs.authorize('STATVFS', statPath, 'canList', { logPath: statPath }).then((mapped) => {
+                      return fs.promises.statfs(mapped.localPath);
+                    }).then((stats) => {
+                      // Report the mount as read-only when nothing may be written to it
+                      const readOnly = !vfs.hasPermission('canCreate', statPath) && !vfs.hasPermission('canEdit', statPath);
+                      extensions.sendExtendedReply(reqId, encodeStatVfs({
+                        bsize: stats.bsize,
+                        frsize: stats.bsize,
+                        blocks: stats.blocks,
+                        bfree: stats.bfree,
+                        bavail: stats.bavail,
+                        files: stats.files,
+                        ffree: stats.ffree,
+                        favail: stats.ffree,
+                        fsid: 0,
+                        flag: readOnly ? ST_RDONLY : 0,
+                        namemax: 255
+                      }));
+                      logActivity('STATVFS', statPath, true);
+                    }).catch((err: any) => {
+                      // Refusals were already logged by the virtual file system
+                      if (!(err instanceof PermissionDeniedError) && !(err instanceof PathOutsideJailError)) {
+                        logActivity('STATVFS_FAILED', statPath, false);
+                      }
+                      sftp.status(reqId, toStatusCode(err));
+                    });
+                    return;
+                  }
+
+                  case 'hardlink@openssh.com': {
+                    const args = readStrings(extData, 2);
+                    if (!args) return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                    const [oldPath, newPath] = args.map(arg => arg.toString('utf8'));
+
+                    vfs.link(oldPath, newPath).then(() => {
+                      sftp.status(reqId, SFTP_STATUS_CODE.OK);
+                    }).catch((err) => {
+                      sftp.status(reqId, toStatusCode(err));
+                    });
+                    return;
+                  }
+
+                  case 'fsync@openssh.com': {
+                    const args = readStrings(extData, 1);
+                    const fileHandle = args ? fileHandles.get(args[0]) : undefined;
+                    if (!fileHandle) {
+                      return sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                    }
+
+                    fileHandle.file.sync().then(() => {
+                      sftp.status(reqId, SFTP_STATUS_CODE.OK);
+                    }).catch((err) => {
+                      console.error('SFTP FSYNC error:', err);
+                      sftp.status(reqId, SFTP_STATUS_CODE.FAILURE);
+                    });
+                    return;
+                  }
+
+                  case 'limits@openssh.com':
+                    return extensions.sendExtendedReply(reqId, encodeLimits());
+
+                  case 'check-file-name':
+                  case 'check-file-handle':
+                  case 'md5-hash':
+                  case 'md5-hash-handle':
+                    return handleChecksumRequest(reqId, extName, extData);
+
+                  default:
+                    return sftp.status(reqId, SFTP_STATUS_CODE.OP_UNSUPPORTED);
                 }
               });
 
-              sftp.on('REALPATH', (reqId, filePath) => {
+              onRequest('READLINK', (reqId, linkPath) => {
+                vfs.readLink(linkPath).then((name) => {
+                  sftp.name(reqId, [{ filename: name, longname: name, attrs: {} as ssh2.Attributes }]);
+                }).catch((err) => {
+                  sftp.status(reqId, toStatusCode(err));
+                });
+              });
+
+              onRequest('SYMLINK', (reqId, linkPath, targetPath) => {
+                vfs.symlink(linkPath, targetPath).then(() => {
+                  sftp.status(reqId, SFTP_STATUS_CODE.OK);
+                }).catch((err) => {
+                  sftp.status(reqId, toStatusCode(err));
+                });
+              });
+
+              onRequest('REALPATH', async (reqId, filePath) => {
                 // REALPATH should return the normalized VIRTUAL path, not the local filesystem path
                 // The client will use this path in subsequent operations, so it must remain virtual
                 
-                // Normalize the virtual path to POSIX format
-                let normalizedPath = (filePath || '/').replace(/\\/g, '/');
-                
-                // Ensure it starts with /
-                if (!normalizedPath.startsWith('/')) {
-                  normalizedPath = '/' + normalizedPath;
-                }
-                
-                // Resolve any .. or . in the path
-                normalizedPath = path.posix.normalize(normalizedPath);
-                
-                // Verify the path exists by mapping to local and checking
+                const normalizedPath = normalizeVirtualPath(filePath || '/');
+
+                // Verify the path exists (a mount or a virtual directory above the mounts)
                 try {
-                  const localPath = pathMapper(normalizedPath);
-                  const stats = fs.statSync(localPath);
+                  const stats = await vfs.lookup(normalizedPath);
                   
                   // Return the VIRTUAL path, not the local path
                   sftp.name(reqId, [{
@@ -721,18 +862,6 @@ export class SFTPServer extends EventEmitter {
           this.activeSessions.delete(sessionId);
           console.log(`[SESSION] Sessions after delete: ${this.activeSessions.size}`);
           
-          // Clear idle timeout for this client
-          this.clearIdleTimeout(client);
-          
-          // Clean up all directory handles for this client
-          if (this.dirHandles) {
-            const handleCount = this.dirHandles.size;
-            if (handleCount > 0) {
-              console.log(`[DISCONNECT] Cleaning up ${handleCount} directory handles`);
-              this.dirHandles.clear();
-            }
-          }
-          
           if (username) {
             this.emit('activity', {
               listenerId: this.listener.id!,
@@ -746,7 +875,21 @@ export class SFTPServer extends EventEmitter {
 
         client.on('close', () => {
           console.log('[CLIENT] Close event - connection closed');
-          this.clearIdleTimeout(client);
+        });
+      });
+
+      // ssh2 only hands clients over once they have sent their SSH version, so
+      // the timeouts start with the socket. Read on connect, so changes apply
+      // to new connections.
+      (this.server as any)._srv.on('connection', (socket: net.Socket) => {
+        const timer = new SessionTimer(this.getCurrentListener(), (reason) => {
+          this.logDisconnect(reason, '', socket.remoteAddress || 'unknown', socket.remotePort || 0);
+          socket.destroy();
+        });
+        this.sessionTimers.set(socket, timer);
+        socket.once('close', () => {
+          timer.stop();
+          this.sessionTimers.delete(socket);
         });
       });
 
@@ -766,11 +909,11 @@ export class SFTPServer extends EventEmitter {
 
   stop(): Promise<void> {
     return new Promise((resolve) => {
-      // Clear all idle timeouts
-      for (const timeout of this.clientTimeouts.values()) {
-        clearTimeout(timeout);
+      // Clear all session timeouts
+      for (const timer of this.sessionTimers.values()) {
+        timer.stop();
       }
-      this.clientTimeouts.clear();
+      this.sessionTimers.clear();
       
       // Clear all active sessions
       this.activeSessions.clear();
@@ -809,48 +952,35 @@ export class SFTPServer extends EventEmitter {
     return false;
   }
 
-  private resetIdleTimeout(client: any, username: string): void {
-    // Clear existing timeout
-    if (this.clientTimeouts.has(client)) {
-      clearTimeout(this.clientTimeouts.get(client)!);
-    }
-    
-    // Set new timeout
-    const timeout = setTimeout(() => {
-      console.log(`[IDLE TIMEOUT] Force disconnecting idle client: ${username}`);
-      client.end();
-      this.clientTimeouts.delete(client);
-    }, this.idleTimeoutMs);
-    
-    this.clientTimeouts.set(client, timeout);
+  // Banners and the auth policy can change while the listener runs
+  private getCurrentListener(): Listener {
+    return (this.listener.id !== undefined && this.db.getListener(this.listener.id)) || this.listener;
   }
 
-  private clearIdleTimeout(client: any): void {
-    if (this.clientTimeouts.has(client)) {
-      clearTimeout(this.clientTimeouts.get(client)!);
-      this.clientTimeouts.delete(client);
-    }
+  private resetIdleTimeout(client: any): void {
+    this.sessionTimers.get(client._sock)?.activity();
   }
 
-  private convertSFTPFlags(flags: number): string {
-    let nodeFlags = '';
-    
-    if (flags & SFTP_OPEN_MODE.READ) {
-      nodeFlags += 'r';
-    }
-    if (flags & SFTP_OPEN_MODE.WRITE) {
-      nodeFlags += 'w';
-    }
-    if (flags & SFTP_OPEN_MODE.APPEND) {
-      nodeFlags = 'a';
-    }
-    if (flags & SFTP_OPEN_MODE.CREAT) {
-      if (!nodeFlags.includes('w') && !nodeFlags.includes('a')) {
-        nodeFlags = 'w';
-      }
-    }
-    
-    return nodeFlags || 'r';
+  private logDisconnect(reason: DisconnectReason, username: string, ipAddress: string, remotePort: number): void {
+    logger.info(`SFTP client ${username || ipAddress} disconnected: ${DISCONNECT_REASONS[reason]}`);
+    this.emit('activity', {
+      listenerId: this.listener.id!,
+      username,
+      action: `DISCONNECTED (${DISCONNECT_REASONS[reason]}) [${ipAddress}:${remotePort}]`,
+      path: '/',
+      success: false
+    });
+  }
+
+  private toAttrs(stats: fs.Stats): ssh2.Attributes {
+    return {
+      mode: stats.mode,
+      uid: stats.uid,
+      gid: stats.gid,
+      size: stats.size,
+      atime: Math.floor(stats.atimeMs / 1000),
+      mtime: Math.floor(stats.mtimeMs / 1000)
+    };
   }
 
   private formatLongname(filename: string, stats: fs.Stats): string {
@@ -883,3 +1013,28 @@ export class SFTPServer extends EventEmitter {
     return typeChar + owner + group + others;
   }
 }
+
+// SFTP status for an error of a file operation
+function toStatusCode(err: any): number {
+  if (err instanceof PermissionDeniedError || err instanceof PathOutsideJailError) {
+    return SFTP_STATUS_CODE.PERMISSION_DENIED;
+  }
+  if (err.code === 'ENOENT') {
+    return SFTP_STATUS_CODE.NO_SUCH_FILE;
+  }
+  if (err.code === 'EACCES' || err.code === 'EPERM') {
+    return SFTP_STATUS_CODE.PERMISSION_DENIED;
+  }
+  return SFTP_STATUS_CODE.FAILURE;
+}
+
+function toOpenMode(flags: number): OpenMode {
+  return {
+    read: Boolean(flags & SFTP_OPEN_MODE.READ),
+    write: Boolean(flags & SFTP_OPEN_MODE.WRITE),
+    append: Boolean(flags & SFTP_OPEN_MODE.APPEND),
+    create: Boolean(flags & SFTP_OPEN_MODE.CREAT),
+    truncate: Boolean(flags & SFTP_OPEN_MODE.TRUNC),
+    exclusive: Boolean(flags & SFTP_OPEN_MODE.EXCL)
+  };
+}
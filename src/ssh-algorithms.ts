@@ -0,0 +1,157 @@
+import { Listener, SshAlgorithmProfile, SshAlgorithms } from './types';
+
+// ssh2 does not export the algorithms it supports, so they are taken from its
+// protocol constants. Those already leave out what the local crypto lacks.
+const ssh2Constants: Record<string, string[]> = require('ssh2/lib/protocol/constants');
+
+export const SSH_ALGORITHM_PROFILES: SshAlgorithmProfile[] = ['default', 'modern', 'compatible', 'custom'];
+
+// Suffix of each category's constants in ssh2
+const CATEGORIES: Record<keyof SshAlgorithms, string> = {
+  kex: 'KEX',
+  cipher: 'CIPHER',
+  hmac: 'MAC',
+  serverHostKey: 'SERVER_HOST_KEY',
+  compress: 'COMPRESSION'
+};
+
+function fromConstants(prefix: 'DEFAULT' | 'SUPPORTED'): SshAlgorithms {
+  const lists: Partial<SshAlgorithms> = {};
+  for (const [category, suffix] of Object.entries(CATEGORIES) as [keyof SshAlgorithms, string][]) {
+    lists[category] = [...ssh2Constants[`${prefix}_${suffix}`]];
+  }
+  return lists as SshAlgorithms;
+}
+
+// Everything this build of ssh2 can negotiate; custom lists have to stay within it
+export const SUPPORTED_SSH_ALGORITHMS: SshAlgorithms = fromConstants('SUPPORTED');
+
+// No SHA-1, CBC, or key exchange below 2048-bit groups. RSA host keys are left
+// out because ssh2 cannot offer them without SHA-1 'ssh-rsa' signatures.
+const MODERN_ALGORITHMS: SshAlgorithms = {
+  kex: [
+    'curve25519-sha256',
+    'curve25519-sha256@libssh.org',
+    'ecdh-sha2-nistp256',
+    'ecdh-sha2-nistp384',
+    'ecdh-sha2-nistp521',
+    'diffie-hellman-group-exchange-sha256',
+    'diffie-hellman-group16-sha512',
+    'diffie-hellman-group18-sha512',
+    'diffie-hellman-group14-sha256'
+  ],
+  cipher: [
+    'chacha20-poly1305@openssh.com',
+    'aes256-gcm@openssh.com',
+    'aes128-gcm@openssh.com',
+    'aes256-ctr',
+    'aes192-ctr',
+    'aes128-ctr'
+  ],
+  hmac: [
+    'hmac-sha2-512-etm@openssh.com',
+    'hmac-sha2-256-etm@openssh.com',
+    'hmac-sha2-512',
+    'hmac-sha2-256'
+  ],
+  serverHostKey: ['ssh-ed25519', 'ecdsa-sha2-nistp256', 'ecdsa-sha2-nistp384', 'ecdsa-sha2-nistp521'],
+  compress: ['none', 'zlib@openssh.com']
+};
+
+function restrictToSupported(algorithms: SshAlgorithms): SshAlgorithms {
+  const lists: Partial<SshAlgorithms> = {};
+  for (const category of Object.keys(CATEGORIES) as (keyof SshAlgorithms)[]) {
+    lists[category] = algorithms[category].filter(name => SUPPORTED_SSH_ALGORITHMS[category].includes(name));
+  }
+  return lists as SshAlgorithms;
+}
+
+// Lists behind each preset profile. 'compatible' adds legacy algorithms
+// (CBC ciphers, SHA-1 MACs and key exchange) for old clients and appliances.
+export const SSH_ALGORITHM_PRESETS: Record<Exclude<SshAlgorithmProfile, 'custom'>, SshAlgorithms> = {
+  default: fromConstants('DEFAULT'),
+  modern: restrictToSupported(MODERN_ALGORITHMS),
+  compatible: SUPPORTED_SSH_ALGORITHMS
+};
+
+export function isSshAlgorithmProfile(value: string): value is SshAlgorithmProfile {
+  return (SSH_ALGORITHM_PROFILES as string[]).includes(value);
+}
+
+// Whether a host key of the given algorithm ('ssh-ed25519', 'ecdsa-sha2-nistp256',
+// 'ssh-rsa') may be served. ssh2 offers every loaded key whatever serverHostKey
+// says, so keys that are not allowed must not be loaded at all.
+export function isHostKeyAllowed(algorithm: string, algorithms: SshAlgorithms): boolean {
+  return algorithms.serverHostKey.includes(algorithm);
+}
+
+// Validate custom lists from the GUI or the API. Every category needs at least
+// one supported algorithm, and at least one host key type has to remain usable.
+export function parseSshAlgorithms(value: unknown): SshAlgorithms {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Invalid SSH algorithms: expected lists of algorithm names');
+  }
+
+  const lists: Partial<SshAlgorithms> = {};
+  for (const category of Object.keys(CATEGORIES) as (keyof SshAlgorithms)[]) {
+    const names = (value as Record<string, unknown>)[category];
+    if (!Array.isArray(names) || names.some(name => typeof name !== 'string')) {
+      throw new Error(`Invalid SSH algorithms: ${category} must be a list of algorithm names`);
+    }
+
+    const list = [...new Set((names as string[]).map(name => name.trim()).filter(name => name))];
+    if (list.length === 0) {
+      throw new Error(`Invalid SSH algorithms: ${category} needs at least one algorithm`);
+    }
+    const unsupported = list.find(name => !SUPPORTED_SSH_ALGORITHMS[category].includes(name));
+    if (unsupported) {
+      throw new Error(`Invalid SSH algorithms: unsupported ${category} algorithm ${unsupported}`);
+    }
+    lists[category] = list;
+  }
+
+  if (!lists.serverHostKey!.some(name => name === 'ssh-ed25519' || name === 'ssh-rsa' || name.startsWith('ecdsa-sha2-'))) {
+    throw new Error('Invalid SSH algorithms: serverHostKey needs ssh-ed25519, an ecdsa-sha2 algorithm or ssh-rsa');
+  }
+  return lists as SshAlgorithms;
+}
+
+// Algorithms an SFTP listener negotiates, in the shape ssh2.Server expects
+export function getSshAlgorithms(listener: Listener): SshAlgorithms {
+  const profile = listener.sshAlgorithmProfile || 'default';
+  if (profile !== 'custom') {
+    return SSH_ALGORITHM_PRESETS[profile];
+  }
+  if (!listener.sshAlgorithms) {
+    throw new Error(`Listener ${listener.name} uses custom SSH algorithms but has none configured`);
+  }
+  return listener.sshAlgorithms;
+}
+
+// Validate the SSH algorithm fields of a listener create or update request.
+// Only fields that were given are returned; `current` is the stored listener
+// on updates, whose custom lists may be kept when only the profile changes.
+export function parseSshAlgorithmSettings(
+  settings: { sshAlgorithmProfile?: unknown; sshAlgorithms?: unknown },
+  current?: Listener | null
+): Pick<Listener, 'sshAlgorithmProfile' | 'sshAlgorithms'> {
+  const result: Pick<Listener, 'sshAlgorithmProfile' | 'sshAlgorithms'> = {};
+  const { sshAlgorithmProfile, sshAlgorithms } = settings;
+
+  if (sshAlgorithmProfile !== undefined) {
+    if (typeof sshAlgorithmProfile !== 'string' || !isSshAlgorithmProfile(sshAlgorithmProfile)) {
+      throw new Error(`Invalid SSH algorithm profile: ${sshAlgorithmProfile}`);
+    }
+    result.sshAlgorithmProfile = sshAlgorithmProfile;
+  }
+  if (sshAlgorithms !== undefined) {
+    result.sshAlgorithms = sshAlgorithms === null ? null : parseSshAlgorithms(sshAlgorithms);
+  }
+
+  const profile = result.sshAlgorithmProfile ?? current?.sshAlgorithmProfile;
+  const lists = result.sshAlgorithms !== undefined ? result.sshAlgorithms : current?.sshAlgorithms;
+  if (profile === 'custom' && !lists) {
+    throw new Error('The custom SSH algorithm profile needs algorithm lists');
+  }
+  return result;
+}
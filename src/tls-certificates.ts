@@ -0,0 +1,241 @@
+import * as crypto from 'crypto';
+import * as net from 'net';
+import * as tls from 'tls';
+import { TlsCertificate } from './types';
+
+export type TlsCertificateMaterial = Omit<TlsCertificate, 'id' | 'listenerId' | 'createdAt'>;
+
+// Validity of generated certificates; clients refuse longer lived ones
+const GENERATED_VALIDITY_DAYS = 825;
+
+// Object identifiers used in generated certificates
+const OID_COMMON_NAME = '2.5.4.3';
+const OID_SHA256_WITH_RSA = '1.2.840.113549.1.1.11';
+const OID_SUBJECT_ALT_NAME = '2.5.29.17';
+const OID_BASIC_CONSTRAINTS = '2.5.29.19';
+const OID_EXT_KEY_USAGE = '2.5.29.37';
+const OID_SERVER_AUTH = '1.3.6.1.5.5.7.3.1';
+
+// Self-signed RSA certificate for the given host names and IP addresses. The
+// first one becomes the common name, all of them subject alternative names.
+export function generateCertificate(hostnames: string[]): TlsCertificateMaterial {
+  if (hostnames.length === 0) {
+    throw new Error('A certificate needs at least one host name');
+  }
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const now = new Date();
+  const notBefore = new Date(now.getTime() - 60 * 60 * 1000);
+  const notAfter = new Date(now.getTime() + GENERATED_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+  const name = sequence(set(sequence(oid(OID_COMMON_NAME), utf8String(hostnames[0]))));
+  const signatureAlgorithm = sequence(oid(OID_SHA256_WITH_RSA), der(0x05, Buffer.alloc(0)));
+
+  const tbsCertificate = sequence(
+    der(0xa0, integer(Buffer.from([2]))), // v3
+    integer(crypto.randomBytes(16)),
+    signatureAlgorithm,
+    name,
+    sequence(time(notBefore), time(notAfter)),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+    der(0xa3, sequence(
+      extension(OID_BASIC_CONSTRAINTS, sequence()),
+      extension(OID_EXT_KEY_USAGE, sequence(oid(OID_SERVER_AUTH))),
+      extension(OID_SUBJECT_ALT_NAME, sequence(...hostnames.map(subjectAltName)))
+    ))
+  );
+  const signature = crypto.sign('sha256', tbsCertificate, privateKey);
+  const certificate = sequence(tbsCertificate, signatureAlgorithm, bitString(signature));
+
+  return {
+    source: 'generated',
+    ...describeCertificate(new crypto.X509Certificate(certificate)),
+    certificate: toPem('CERTIFICATE', certificate),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    pfx: null,
+    passphrase: null
+  };
+}
+
+// Parse a PEM certificate (optionally followed by its chain) and private key.
+// An encrypted key is stored decrypted, like SSH host keys.
+export function parsePemCertificate(certificate: string, privateKey: string, passphrase?: string): TlsCertificateMaterial {
+  let x509: crypto.X509Certificate;
+  try {
+    x509 = new crypto.X509Certificate(certificate.trim());
+  } catch (err: any) {
+    throw new Error(`Invalid certificate: ${err.message}`);
+  }
+
+  let key: crypto.KeyObject;
+  try {
+    key = crypto.createPrivateKey({ key: privateKey.trim(), passphrase: passphrase || undefined });
+  } catch (err: any) {
+    throw new Error(`Invalid private key: ${err.message}`);
+  }
+  if (!x509.checkPrivateKey(key)) {
+    throw new Error('The private key does not belong to the certificate');
+  }
+
+  return {
+    source: 'pem',
+    ...describeCertificate(x509),
+    certificate: certificate.trim(),
+    privateKey: key.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    pfx: null,
+    passphrase: null
+  };
+}
+
+// Parse a PKCS#12 (PFX) file. Node can use it but not unpack it, so it is
+// stored as it is (base64) together with its passphrase.
+export function parsePfxCertificate(pfx: Buffer, passphrase?: string): TlsCertificateMaterial {
+  let secureContext: tls.SecureContext;
+  try {
+    secureContext = tls.createSecureContext({ pfx, passphrase: passphrase || undefined });
+  } catch (err: any) {
+    throw new Error(`Invalid PFX file: ${err.message}`);
+  }
+
+  // The certificate a server socket would present
+  const socket = new tls.TLSSocket(null as any, { isServer: true, secureContext });
+  const peerCertificate = socket.getCertificate();
+  socket.destroy();
+  if (!peerCertificate || !('raw' in peerCertificate)) {
+    throw new Error('Invalid PFX file: no certificate found');
+  }
+
+  return {
+    source: 'pfx',
+    ...describeCertificate(new crypto.X509Certificate(peerCertificate.raw)),
+    certificate: toPem('CERTIFICATE', peerCertificate.raw),
+    privateKey: null,
+    pfx: pfx.toString('base64'),
+    passphrase: passphrase || null
+  };
+}
+
+// Parse a certificate import request: a base64 PFX file, or a PEM
+// certificate and private key, each with an optional passphrase
+export function parseCertificateImport(
+  data: { certificate?: unknown; privateKey?: unknown; pfx?: unknown; passphrase?: unknown }
+): TlsCertificateMaterial {
+  const passphrase = typeof data.passphrase === 'string' ? data.passphrase : undefined;
+  if (typeof data.pfx === 'string' && data.pfx) {
+    return parsePfxCertificate(Buffer.from(data.pfx, 'base64'), passphrase);
+  }
+  if (typeof data.certificate !== 'string' || typeof data.privateKey !== 'string') {
+    throw new Error('A PFX file or a PEM certificate and private key are required');
+  }
+  return parsePemCertificate(data.certificate, data.privateKey, passphrase);
+}
+
+// What may be shown of a certificate: no key material or passphrase
+export function getCertificateSummary(certificate: TlsCertificate): Pick<TlsCertificate, 'source' | 'subject' | 'fingerprint' | 'validFrom' | 'validTo' | 'createdAt'> {
+  const { source, subject, fingerprint, validFrom, validTo, createdAt } = certificate;
+  return { source, subject, fingerprint, validFrom, validTo, createdAt };
+}
+
+// Options for tls.createSecureContext (and ftp-srv's tls option)
+export function getSecureContextOptions(material: TlsCertificateMaterial): tls.SecureContextOptions {
+  if (material.pfx) {
+    return { pfx: Buffer.from(material.pfx, 'base64'), passphrase: material.passphrase || undefined };
+  }
+  return { cert: material.certificate, key: material.privateKey! };
+}
+
+function describeCertificate(x509: crypto.X509Certificate): Pick<TlsCertificate, 'subject' | 'fingerprint' | 'validFrom' | 'validTo'> {
+  return {
+    subject: x509.subject.replace(/\n/g, ', '),
+    fingerprint: `SHA256:${x509.fingerprint256}`,
+    validFrom: new Date(x509.validFrom).toISOString(),
+    validTo: new Date(x509.validTo).toISOString()
+  };
+}
+
+function toPem(label: string, data: Buffer): string {
+  const lines = data.toString('base64').match(/.{1,64}/g) || [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+}
+
+// Minimal DER encoding, enough for the certificates generated above
+
+function der(tag: number, content: Buffer): Buffer {
+  let length: Buffer;
+  if (content.length < 0x80) {
+    length = Buffer.from([content.length]);
+  } else {
+    const bytes: number[] = [];
+    for (let n = content.length; n > 0; n = Math.floor(n / 256)) bytes.unshift(n % 256);
+    length = Buffer.from([0x80 | bytes.length, ...bytes]);
+  }
+  return Buffer.concat([Buffer.from([tag]), length, content]);
+}
+
+function sequence(...items: Buffer[]): Buffer {
+  return der(0x30, Buffer.concat(items));
+}
+
+function set(...items: Buffer[]): Buffer {
+  return der(0x31, Buffer.concat(items));
+}
+
+// Unsigned big-endian integer
+function integer(value: Buffer): Buffer {
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0) start++;
+  const trimmed = value.subarray(start);
+  return der(0x02, trimmed[0] & 0x80 ? Buffer.concat([Buffer.from([0]), trimmed]) : trimmed);
+}
+
+function oid(value: string): Buffer {
+  const [first, second, ...rest] = value.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const encoded = [arc & 0x7f];
+    for (let n = arc >>> 7; n > 0; n >>>= 7) encoded.unshift(0x80 | (n & 0x7f));
+    bytes.push(...encoded);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+function utf8String(value: string): Buffer {
+  return der(0x0c, Buffer.from(value, 'utf8'));
+}
+
+function bitString(value: Buffer): Buffer {
+  return der(0x03, Buffer.concat([Buffer.from([0]), value]));
+}
+
+// UTCTime up to 2049, GeneralizedTime after that (RFC 5280)
+function time(date: Date): Buffer {
+  const digits = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+  return date.getUTCFullYear() < 2050 ? der(0x17, Buffer.from(digits.slice(2))) : der(0x18, Buffer.from(digits));
+}
+
+function extension(id: string, value: Buffer): Buffer {
+  return sequence(oid(id), der(0x04, value));
+}
+
+function subjectAltName(hostname: string): Buffer {
+  if (net.isIPv4(hostname)) {
+    return der(0x87, Buffer.from(hostname.split('.').map(Number)));
+  }
+  if (net.isIPv6(hostname)) {
+    return der(0x87, ipv6ToBuffer(hostname));
+  }
+  return der(0x82, Buffer.from(hostname, 'ascii'));
+}
+
+function ipv6ToBuffer(address: string): Buffer {
+  const [head, tail = ''] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = address.includes('::') && tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = [...headGroups, ...Array(address.includes('::') ? missing : 0).fill('0'), ...tailGroups];
+  return Buffer.concat(groups.map(group => {
+    const bytes = Buffer.alloc(2);
+    bytes.writeUInt16BE(parseInt(group, 16));
+    return bytes;
+  }));
+}
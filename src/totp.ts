@@ -0,0 +1,115 @@
+import * as crypto from 'crypto';
+import { User } from './types';
+
+// RFC 6238 parameters used by common authenticator apps
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from adjacent time steps are accepted to allow for clock drift
+const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(text: string): Buffer {
+  const clean = text.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160-bit secret, the size recommended by RFC 4226 for HMAC-SHA1
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+function hotp(secret: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter), 0);
+  const digest = crypto.createHmac('sha1', secret).update(message).digest();
+
+  const offset = digest[digest.length - 1] & 0xf;
+  const code = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return code.toString().padStart(TOTP_DIGITS, '0');
+}
+
+export function generateTotp(secret: string, time: number = Date.now()): string {
+  return hotp(base32Decode(secret), Math.floor(time / 1000 / TOTP_STEP_SECONDS));
+}
+
+// Time step of the code within the allowed drift, or null when it does not match.
+// Steps up to lastStep were already used, so each code is accepted only once.
+export function matchTotpStep(secret: string, code: string, time: number = Date.now(), lastStep: number | null = null): number | null {
+  const candidate = (code || '').replace(/\s/g, '');
+  if (!/^\d+$/.test(candidate) || candidate.length !== TOTP_DIGITS) return null;
+
+  const key = base32Decode(secret);
+  const counter = Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const step = counter + drift;
+    if (lastStep !== null && step <= lastStep) continue;
+    const expected = hotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(candidate))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function verifyTotp(secret: string, code: string, time: number = Date.now(), lastStep: number | null = null): boolean {
+  return matchTotpStep(secret, code, time, lastStep) !== null;
+}
+
+// Key URI understood by authenticator apps, encoded in the enrollment QR code
+export function getOtpAuthUrl(secret: string, username: string, issuer: string = 'SLightSFTP'): string {
+  const label = encodeURIComponent(`${issuer}:${username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Whether password logins of this user need a verification code. With MFA
+// optional the code is only asked once the user has enrolled a secret.
+export function isTotpRequired(user: User): boolean {
+  return user.mfaMode === 'required' || (user.mfaMode === 'optional' && !!user.totpSecret);
+}
+
+// User as returned to the GUI and REST API: the TOTP secret never leaves the server after enrollment
+export function withoutTotpSecret(user: User): User {
+  const { totpSecret, totpLastStep, ...rest } = user;
+  return { ...rest, totpEnrolled: Boolean(totpSecret) };
+}
@@ -1,3 +1,31 @@
+export type MfaMode = 'disabled' | 'optional' | 'required';
+
+// Which SSH authentication methods a login has to pass: 'any' accepts a
+// password or a key, 'publickey+password' needs both (SSH partial success)
+export type AuthPolicy = 'any' | 'password' | 'publickey' | 'publickey+password';
+
+// SSH algorithm set of an SFTP listener: 'default' keeps ssh2's own defaults,
+// 'custom' uses the listener's sshAlgorithms lists
+export type SshAlgorithmProfile = 'default' | 'modern' | 'compatible' | 'custom';
+
+// How an FTPS listener starts TLS: 'explicit' upgrades a plain connection
+// with AUTH TLS, 'implicit' speaks TLS from the first byte (usually port 990)
+export type FtpsMode = 'explicit' | 'implicit';
+
+// Address an FTP listener announces in PASV replies: 'binding' is its own
+// address, 'external' a public (NAT) address for every client, 'auto' the
+// public address only for clients outside the server's own subnets
+export type PassiveAddressMode = 'binding' | 'external' | 'auto';
+
+// Algorithm names in order of preference, keyed like ssh2's `algorithms` option
+export interface SshAlgorithms {
+  kex: string[];
+  cipher: string[];
+  hmac: string[];
+  serverHostKey: string[];
+  compress: string[];
+}
+
 export interface User {
   id?: number;
   username: string;
@@ -5,9 +33,16 @@ export interface User {
   passwordEnabled: boolean;
   publicKey?: string;
   guiEnabled: boolean;
+  mfaMode?: MfaMode;
+  totpSecret?: string | null;
+  totpLastStep?: number | null; // Time step of the last accepted verification code
+  totpEnrolled?: boolean; // Sent to the GUI instead of the secret
+  authPolicy?: AuthPolicy;
   createdAt?: string;
 }
 
+export type SymlinkPolicy = 'deny' | 'follow-within-mount' | 'allow';
+
 export interface VirtualPath {
   id?: number;
   userId: number;
@@ -21,6 +56,7 @@ export interface VirtualPath {
   canCreateDir?: boolean;
   canRename?: boolean;
   applyToSubdirs?: boolean;
+  symlinkPolicy?: SymlinkPolicy;
 }
 
 export interface Permission {
@@ -35,17 +71,75 @@ export interface Permission {
   canList: boolean;
   canCreateDir: boolean;
   canRename: boolean;
+  canSetAttributes?: boolean;
 }
 
 export interface Listener {
   id?: number;
   name: string;
-  protocol: 'FTP' | 'SFTP' | 'HTTP';
+  protocol: 'FTP' | 'FTPS' | 'SFTP' | 'HTTP';
   bindingIp: string;
   port: number;
   enabled: boolean;
   maxConnections?: number;
+  authPolicy?: AuthPolicy;
+  sshAlgorithmProfile?: SshAlgorithmProfile;
+  sshAlgorithms?: SshAlgorithms | null; // Only used by the 'custom' profile
+  loginBanner?: string | null; // Shown before authentication, e.g. a legal notice
+  motd?: string | null; // Message of the day, shown after login
+  ftpsMode?: FtpsMode;
+  requireTlsLogin?: boolean; // Explicit FTPS: refuse USER/PASS before AUTH TLS
+  requireTlsData?: boolean; // Explicit FTPS: refuse data connections before AUTH TLS
+  passivePortMin?: number | null; // Passive data port range, ftp-srv's default (1024-65535) when unset
+  passivePortMax?: number | null;
+  passiveAddressMode?: PassiveAddressMode;
+  passiveExternalAddress?: string | null; // IPv4 address or host name, for the 'external' and 'auto' modes
+  allowActiveMode?: boolean; // PORT/EPRT, only ever to the client's own address
+  idleTimeoutSeconds?: number; // Disconnect logged-in clients without activity; 0 is off
+  maxSessionSeconds?: number; // Disconnect clients this long after login; 0 is off
+  authTimeoutSeconds?: number; // Disconnect clients that have not logged in by then; 0 is off
+  hashAlgorithm?: 'sha256' | 'sha1' | 'md5' | 'crc32'; // FTP HASH algorithm until the client picks one with OPTS HASH
+  hashMaxBytes?: number; // Largest file or range FTP checksum commands hash; 0 is no limit
+  webdavTls?: boolean; // WebDAV: serve HTTPS with the listener's TLS certificate
+  createdAt?: string;
+}
+
+export interface HostKey {
+  id?: number;
+  listenerId: number;
+  keyType: 'ed25519' | 'ecdsa' | 'rsa';
+  algorithm: string;
+  privateKey: string;
+  fingerprint: string;
+  createdAt?: string;
+}
+
+// Certificate of an FTPS listener: a PEM certificate and key (generated or
+// imported), or an imported PFX file kept as it is
+export interface TlsCertificate {
+  id?: number;
+  listenerId: number;
+  source: 'generated' | 'pem' | 'pfx';
+  certificate: string; // PEM, with the chain when imported that way
+  privateKey: string | null;
+  pfx: string | null; // base64
+  passphrase: string | null;
+  subject: string;
+  fingerprint: string;
+  validFrom: string;
+  validTo: string;
+  createdAt?: string;
+}
+
+export interface UserKey {
+  id?: number;
+  userId: number;
+  label: string;
+  publicKey: string;
+  algorithm: string;
+  fingerprint: string;
   createdAt?: string;
+  lastUsedAt?: string | null;
 }
 
 export interface UserListener {
@@ -0,0 +1,270 @@
+import * as ssh2 from 'ssh2';
+import * as net from 'net';
+import { getFingerprint } from './host-keys';
+import { Permission, UserKey } from './types';
+
+// Restrictions parsed from the options field of an authorized_keys line
+export interface KeyOptions {
+  from?: string[];
+  expiryTime?: Date;
+  readOnly: boolean;
+}
+
+export type UserKeyMaterial = Pick<UserKey, 'publicKey' | 'algorithm' | 'fingerprint'> & {
+  comment: string;
+  options: KeyOptions;
+};
+
+// Key types accepted for publickey authentication
+export const USER_KEY_ALGORITHMS = [
+  'ssh-ed25519',
+  'ecdsa-sha2-nistp256',
+  'ecdsa-sha2-nistp384',
+  'ecdsa-sha2-nistp521',
+  'ssh-rsa'
+];
+
+// RSA keys must sign with rsa-sha2-256/512, SHA-1 (plain ssh-rsa) signatures are refused
+const RSA_HASH_ALGORITHMS = ['sha256', 'sha512'];
+
+// OpenSSH options that have no effect on an SFTP-only server. They are accepted
+// so existing authorized_keys lines can be pasted unchanged.
+const IGNORED_OPTIONS = [
+  'restrict', 'command', 'environment', 'permitopen', 'permitlisten', 'tunnel',
+  'agent-forwarding', 'no-agent-forwarding', 'port-forwarding', 'no-port-forwarding',
+  'pty', 'no-pty', 'user-rc', 'no-user-rc', 'X11-forwarding', 'no-X11-forwarding',
+  'no-touch-required', 'verify-required'
+];
+
+// Custom option: the key may log in but never change anything
+const READ_ONLY_OPTION = 'read-only';
+
+function parsePublicKey(keyData: string | Buffer): ssh2.ParsedKey {
+  const parsed = ssh2.utils.parseKey(keyData);
+  if (parsed instanceof Error) {
+    throw new Error(`Invalid public key: ${parsed.message}`);
+  }
+  const key = Array.isArray(parsed) ? parsed[0] : parsed;
+  if (key.isPrivateKey()) {
+    throw new Error('Invalid public key: a public key is required, not a private key');
+  }
+  if (!USER_KEY_ALGORITHMS.includes(key.type)) {
+    throw new Error(`Unsupported public key type: ${key.type}`);
+  }
+  return key;
+}
+
+// Split "[options] type base64 [comment]" into its options and key parts.
+// Option values are double-quoted and may contain spaces and commas.
+function splitAuthorizedKey(entry: string): { options: string; key: string } {
+  if (/^(ssh-|ecdsa-|sk-)/.test(entry)) {
+    return { options: '', key: entry };
+  }
+
+  let inQuotes = false;
+  for (let i = 0; i < entry.length; i++) {
+    const char = entry[i];
+    if (char === '\\' && inQuotes) {
+      i++;
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (/\s/.test(char) && !inQuotes) {
+      return { options: entry.slice(0, i), key: entry.slice(i).trim() };
+    }
+  }
+  return { options: '', key: entry };
+}
+
+function splitOptions(options: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < options.length; i++) {
+    const char = options[i];
+    if (char === '\\' && inQuotes && options[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      result.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (inQuotes) {
+    throw new Error('Invalid key options: unterminated quote');
+  }
+  result.push(current);
+  return result;
+}
+
+// expiry-time="YYYYMMDD[HHMM[SS]]" in local time, or UTC with a trailing Z
+function parseExpiryTime(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?(Z)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid expiry-time: ${value}`);
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(v => parseInt(v || '0'));
+  const isUtc = Boolean(match[7]);
+  const date = isUtc
+    ? new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+    : new Date(year, month - 1, day, hour, minute, second);
+
+  // Date rolls invalid values over (e.g. February 30th), so compare the fields back
+  const dayOfMonth = isUtc ? date.getUTCDate() : date.getDate();
+  if (dayOfMonth !== day || month < 1 || month > 12 || hour > 23 || minute > 59 || second > 59) {
+    throw new Error(`Invalid expiry-time: ${value}`);
+  }
+  return date;
+}
+
+function validateFromPattern(entry: string): void {
+  const pattern = entry.startsWith('!') ? entry.slice(1) : entry;
+  if (!pattern) {
+    throw new Error('Invalid from pattern: empty entry');
+  }
+  if (pattern.includes('/')) {
+    const [address, bits] = pattern.split('/');
+    const family = net.isIP(address);
+    const prefix = Number(bits);
+    if (!family || !/^\d+$/.test(bits) || prefix > (family === 4 ? 32 : 128)) {
+      throw new Error(`Invalid from pattern: ${entry}`);
+    }
+  }
+}
+
+export function parseKeyOptions(options: string): KeyOptions {
+  const result: KeyOptions = { readOnly: false };
+  if (!options) return result;
+
+  for (const option of splitOptions(options)) {
+    const separator = option.indexOf('=');
+    const name = separator === -1 ? option : option.slice(0, separator);
+    const value = separator === -1 ? undefined : option.slice(separator + 1);
+
+    if (name === 'from' && value) {
+      result.from = value.split(',').map(p => p.trim());
+      result.from.forEach(validateFromPattern);
+    } else if (name === 'expiry-time' && value) {
+      result.expiryTime = parseExpiryTime(value);
+    } else if (name === READ_ONLY_OPTION && value === undefined) {
+      result.readOnly = true;
+    } else if (!IGNORED_OPTIONS.includes(name)) {
+      throw new Error(`Unsupported key option: ${option}`);
+    }
+  }
+  return result;
+}
+
+// Parse one authorized_keys entry ("[options] type base64 [comment]").
+// A bare base64 key blob, as stored by older versions, is accepted too.
+export function parseAuthorizedKey(line: string): UserKeyMaterial {
+  const entry = line.trim();
+  if (!entry || entry.includes('\n')) {
+    throw new Error('Invalid public key: expected a single authorized_keys line');
+  }
+
+  const isBareBlob = !/\s/.test(entry);
+  const { options, key: keyPart } = isBareBlob ? { options: '', key: entry } : splitAuthorizedKey(entry);
+  const key = parsePublicKey(isBareBlob ? Buffer.from(entry, 'base64') : keyPart);
+
+  return {
+    publicKey: isBareBlob ? `${key.type} ${key.getPublicSSH().toString('base64')}` : entry,
+    algorithm: key.type,
+    fingerprint: getFingerprint(key),
+    comment: key.comment || '',
+    options: parseKeyOptions(options)
+  };
+}
+
+// Options of a stored key; stored lines were validated when they were added
+export function getKeyOptions(userKey: UserKey): KeyOptions {
+  return parseKeyOptions(splitAuthorizedKey(userKey.publicKey).options);
+}
+
+// Find the stored key a client offered during publickey authentication
+export function findUserKey(keys: UserKey[], offered: ssh2.PublicKey): UserKey | undefined {
+  return keys.find(k => {
+    try {
+      const key = parsePublicKey(splitAuthorizedKey(k.publicKey).key);
+      return key.type === offered.algo && key.getPublicSSH().equals(offered.data);
+    } catch {
+      return false;
+    }
+  });
+}
+
+// Check the client's signature over the session data with the stored key
+export function verifyUserKeySignature(userKey: UserKey, blob: Buffer, signature: Buffer, hashAlgo?: string): boolean {
+  try {
+    const key = parsePublicKey(splitAuthorizedKey(userKey.publicKey).key);
+    if (key.type === 'ssh-rsa' && !RSA_HASH_ALGORITHMS.includes(hashAlgo || '')) {
+      return false;
+    }
+    return key.verify(blob, signature, hashAlgo as any) === true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesPattern(pattern: string, address: string): boolean {
+  if (pattern.includes('/')) {
+    const [network, bits] = pattern.split('/');
+    const family = net.isIPv6(network) ? 'ipv6' : 'ipv4';
+    const subnet = new net.BlockList();
+    subnet.addSubnet(network, parseInt(bits), family);
+    return net.isIP(address) !== 0 && subnet.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+  }
+
+  const regex = new RegExp('^' + pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$', 'i');
+  return regex.test(address);
+}
+
+// OpenSSH from= semantics: a negated match rejects, otherwise one entry must match
+export function isAddressAllowed(patterns: string[], ipAddress: string): boolean {
+  const address = ipAddress.startsWith('::ffff:') && net.isIPv4(ipAddress.slice(7)) ? ipAddress.slice(7) : ipAddress;
+
+  let allowed = false;
+  for (const entry of patterns) {
+    const negated = entry.startsWith('!');
+    if (matchesPattern(negated ? entry.slice(1) : entry, address)) {
+      if (negated) return false;
+      allowed = true;
+    }
+  }
+  return allowed;
+}
+
+// Why a key may not be used from this address right now, or null when it may
+export function getKeyRestriction(userKey: UserKey, ipAddress: string, now: Date = new Date()): string | null {
+  let options: KeyOptions;
+  try {
+    options = getKeyOptions(userKey);
+  } catch (error: any) {
+    return error.message;
+  }
+
+  if (options.expiryTime && now >= options.expiryTime) {
+    return `expired ${options.expiryTime.toISOString()}`;
+  }
+  if (options.from && !isAddressAllowed(options.from, ipAddress)) {
+    return `not allowed from ${ipAddress}`;
+  }
+  return null;
+}
+
+// Listener permissions for a session authenticated with a read-only key
+export function toReadOnlyPermission(permission: Permission | undefined, userId: number, listenerId: number): Permission {
+  return {
+    ...(permission || { userId, listenerId, canRead: true, canList: true }),
+    canCreate: false,
+    canEdit: false,
+    canAppend: false,
+    canDelete: false,
+    canCreateDir: false,
+    canRename: false,
+    canSetAttributes: false
+  };
+}
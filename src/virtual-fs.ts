@@ -0,0 +1,522 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { Permission, VirtualPath } from './types';
+import { MappedPath, PathJail, PathOutsideJailError, normalizeVirtualPath, resolveRealPath } from './path-jail';
+import { BufferedFile } from './sftp-file-io';
+import { ChecksumAlgorithm, createDigest, hashFileRange } from './file-hash';
+
+// Thrown when the user's permissions do not allow an operation
+export class PermissionDeniedError extends Error {
+  constructor(public readonly virtualPath: string) {
+    super(`Permission denied: ${virtualPath}`);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+// Emitted as 'activity' for every operation, with _DENIED or _FAILED appended
+// to the action when it was refused or went wrong
+export interface FileActivity {
+  action: string;
+  path: string;
+  success: boolean;
+}
+
+// Options shared by all operations. Relative paths are taken from cwd, and
+// activity replaces the action name used in activity events (e.g. OPENDIR
+// instead of LIST), so protocols can keep the names their clients see.
+export interface FileOperationOptions {
+  cwd?: string;
+  activity?: string;
+}
+
+export interface DirectoryEntry {
+  name: string;
+  virtualPath: string;
+  localPath: string;
+  stats: fs.Stats;
+}
+
+// An opened directory: the entry names are read once, their details can be
+// fetched later, a page at a time. localPath is empty for virtual directories.
+export interface OpenDirectory {
+  virtualPath: string;
+  localPath: string;
+  names: string[];
+}
+
+export interface OpenMode {
+  read?: boolean;
+  write?: boolean;
+  append?: boolean;
+  create?: boolean;
+  truncate?: boolean;
+  exclusive?: boolean;
+}
+
+// An opened file together with what may be done with it. canAppend without
+// canEdit gives an append-only file: writes are only accepted at its end.
+export interface OpenFile {
+  virtualPath: string;
+  localPath: string;
+  file: BufferedFile;
+  canRead: boolean;
+  canWrite: boolean;
+  appendOnly: boolean;
+}
+
+// Checksum of the bytes from start up to end (exclusive) of a file
+export interface FileChecksum {
+  virtualPath: string;
+  digest: Buffer;
+  start: number;
+  end: number;
+}
+
+export interface FileAttributes {
+  size?: number;
+  mode?: number;
+  atime?: number | Date;
+  mtime?: number | Date;
+}
+
+// Mount (virtual path) permission that goes with each listener permission
+const MOUNT_PERMISSIONS: Partial<Record<keyof Permission, keyof VirtualPath>> = {
+  canRead: 'canRead',
+  canCreate: 'canWrite',
+  canEdit: 'canWrite',
+  canAppend: 'canAppend',
+  canDelete: 'canDelete',
+  canList: 'canList',
+  canCreateDir: 'canCreateDir',
+  canRename: 'canRename',
+  canSetAttributes: 'canWrite'
+};
+
+// The files of one user as every protocol sees them. Paths are resolved
+// through the user's PathJail, permissions are evaluated the same way for
+// SFTP, SCP, FTP, the web API and the GUI, and every operation is reported as
+// an 'activity' event. Without listener permissions (web API, GUI) only the
+// mount permissions apply.
+//
+// Directories above the mounts that no mount serves (e.g. '/' with only /inbox
+// and /outbox mounted) are virtual: they can be listed and show the mount
+// points as folders, but nothing can be changed in them.
+export class VirtualFileSystem extends EventEmitter {
+  readonly jail: PathJail;
+  private permissions: Permission | null;
+  private createdAt = new Date();
+
+  constructor(mounts: VirtualPath[], permissions: Permission | null = null) {
+    super();
+    this.jail = new PathJail(mounts);
+    this.permissions = permissions;
+  }
+
+  // Listener permissions (when there are any) and the permissions of the
+  // mount serving the path both have to allow the action
+  hasPermission(action: keyof Permission, virtualPath: string, cwd: string = '/'): boolean {
+    const mount = this.jail.findMount(normalizeVirtualPath(virtualPath, cwd));
+    const mountPermission = MOUNT_PERMISSIONS[action];
+    if (!mount || !mountPermission) return false;
+
+    const allowedByMount = mount[mountPermission] !== false;
+    return this.permissions ? Boolean(this.permissions[action]) && allowedByMount : allowedByMount;
+  }
+
+  // Map a path through the jail without checking permissions
+  resolve(virtualPath: string, options: { cwd?: string; followLast?: boolean } = {}): Promise<MappedPath> {
+    return this.jail.resolve(virtualPath, options);
+  }
+
+  // Check a permission (none when null) and the jail for a path. A refusal is
+  // logged as <activity>_DENIED and thrown as PermissionDeniedError or
+  // PathOutsideJailError.
+  async authorize(
+    activity: string,
+    virtualPath: string,
+    permission: keyof Permission | null,
+    options: { cwd?: string; followLast?: boolean; logPath?: string } = {}
+  ): Promise<MappedPath> {
+    const normalized = normalizeVirtualPath(virtualPath, options.cwd);
+    const logPath = options.logPath ?? normalized;
+    if (permission && !this.hasPermission(permission, normalized)) {
+      this.logActivity(`${activity}_DENIED`, logPath, false);
+      throw new PermissionDeniedError(normalized);
+    }
+
+    try {
+      return await this.jail.resolve(normalized, { followLast: options.followLast });
+    } catch (err) {
+      this.logActivity(`${activity}_DENIED`, logPath, false);
+      throw err;
+    }
+  }
+
+  logActivity(action: string, virtualPath: string, success: boolean): void {
+    const activity: FileActivity = { action, path: virtualPath, success };
+    this.emit('activity', activity);
+  }
+
+  // Attributes of a file; with followLast = false those of a symlink itself
+  stat(virtualPath: string, options: FileOperationOptions & { followLast?: boolean } = {}): Promise<fs.Stats> {
+    const followLast = options.followLast !== false;
+    const activity = options.activity || (followLast ? 'STAT' : 'LSTAT');
+    return this.run(activity, virtualPath, options, async () => {
+      if (this.jail.isVirtualDirectory(normalizeVirtualPath(virtualPath, options.cwd))) {
+        return this.getVirtualDirectoryStats();
+      }
+      const { localPath } = await this.authorize(activity, virtualPath, null, { cwd: options.cwd, followLast });
+      return followLast ? fs.promises.stat(localPath) : fs.promises.lstat(localPath);
+    });
+  }
+
+  // Attributes of a path without an activity event, for lookups such as SFTP
+  // REALPATH. Throws PathOutsideJailError for paths outside the jail.
+  async lookup(virtualPath: string, cwd: string = '/'): Promise<fs.Stats> {
+    const normalized = normalizeVirtualPath(virtualPath, cwd);
+    if (this.jail.isVirtualDirectory(normalized)) {
+      return this.getVirtualDirectoryStats();
+    }
+    return fs.promises.stat((await this.jail.resolve(normalized)).localPath);
+  }
+
+  // Read the entry names of a directory. Their details are fetched with
+  // readEntries. Mount points below the directory are listed as entries too.
+  openDirectory(virtualPath: string, options: FileOperationOptions = {}): Promise<OpenDirectory> {
+    const activity = options.activity || 'LIST';
+    return this.run(activity, virtualPath, options, async () => {
+      const normalized = normalizeVirtualPath(virtualPath, options.cwd);
+      const mountPoints = this.jail.getMountPointsBelow(normalized);
+      if (this.jail.isVirtualDirectory(normalized)) {
+        return { virtualPath: normalized, localPath: '', names: mountPoints };
+      }
+
+      const mapped = await this.authorize(activity, normalized, 'canList');
+      const names = await fs.promises.readdir(mapped.localPath);
+      names.push(...mountPoints.filter(name => !names.includes(name)));
+      return { virtualPath: mapped.virtualPath, localPath: mapped.localPath, names };
+    });
+  }
+
+  // Details of some entries of an opened directory. Entries removed since it
+  // was opened and symlinks leading out of the jail are left out.
+  async readEntries(directory: OpenDirectory, names: string[]): Promise<DirectoryEntry[]> {
+    const entries = await Promise.all(names.map(async (name): Promise<DirectoryEntry | null> => {
+      const virtualPath = path.posix.join(directory.virtualPath, name);
+      if (this.jail.isVirtualDirectory(virtualPath)) {
+        return { name, virtualPath, localPath: '', stats: this.getVirtualDirectoryStats() };
+      }
+
+      // Mapped again, as the entry may be a mount point of its own
+      const mapped = this.jail.map(virtualPath);
+      try {
+        if (!mapped || !(await this.jail.contains(virtualPath, mapped.localPath))) return null;
+        return { name, virtualPath, localPath: mapped.localPath, stats: await fs.promises.stat(mapped.localPath) };
+      } catch {
+        return null;
+      }
+    }));
+    return entries.filter((entry): entry is DirectoryEntry => entry !== null);
+  }
+
+  // Attributes of an opened directory, e.g. for SFTP FSTAT
+  statDirectory(directory: OpenDirectory): Promise<fs.Stats> {
+    return directory.localPath ? fs.promises.stat(directory.localPath) : Promise.resolve(this.getVirtualDirectoryStats());
+  }
+
+  async list(virtualPath: string, options: FileOperationOptions = {}): Promise<DirectoryEntry[]> {
+    const directory = await this.openDirectory(virtualPath, options);
+    return this.readEntries(directory, directory.names);
+  }
+
+  // Open a file. New files need canCreate; existing files may be rewritten
+  // with canEdit, or only extended with canAppend (never truncated).
+  open(virtualPath: string, mode: OpenMode, options: FileOperationOptions = {}): Promise<OpenFile> {
+    const activity = options.activity || 'OPEN';
+    return this.run(activity, virtualPath, options, async () => {
+      const mapped = await this.authorize(activity, virtualPath, mode.read ? 'canRead' : null, { cwd: options.cwd });
+
+      let canWrite = false;
+      let appendOnly = false;
+      if (mode.write || mode.append || mode.create || mode.truncate) {
+        ({ canWrite, appendOnly } = await this.authorizeWrite(activity, mapped, Boolean(mode.truncate)));
+      }
+
+      const file = await BufferedFile.open(mapped.localPath, toOpenFlags(mode));
+      return { virtualPath: mapped.virtualPath, localPath: mapped.localPath, file, canRead: Boolean(mode.read), canWrite, appendOnly };
+    });
+  }
+
+  // Stream a file, e.g. for an FTP download
+  createReadStream(virtualPath: string, start?: number, options: FileOperationOptions = {}): Promise<fs.ReadStream> {
+    const activity = options.activity || 'READ';
+    return this.run(activity, virtualPath, options, async () => {
+      const { localPath } = await this.authorize(activity, virtualPath, 'canRead', { cwd: options.cwd });
+
+      // Checked up front, as a stream only reports a missing file once it is read
+      const stats = await fs.promises.stat(localPath);
+      if (stats.isDirectory()) {
+        throw new Error('Cannot read a directory');
+      }
+      return fs.createReadStream(localPath, { start });
+    });
+  }
+
+  // Checksum of a file, or of a part of it, e.g. for FTP HASH. Ranges are
+  // clamped to the file; maxBytes (0 for none) limits how much is hashed.
+  checksum(
+    virtualPath: string,
+    algorithm: ChecksumAlgorithm,
+    range: { start?: number; end?: number; maxBytes?: number } = {},
+    options: FileOperationOptions = {}
+  ): Promise<FileChecksum> {
+    const activity = options.activity || 'CHECKSUM';
+    return this.run(activity, virtualPath, options, async () => {
+      const mapped = await this.authorize(activity, virtualPath, 'canRead', { cwd: options.cwd });
+      const stats = await fs.promises.stat(mapped.localPath);
+      if (!stats.isFile()) {
+        throw new Error('Not a regular file');
+      }
+
+      const end = Math.min(range.end ?? stats.size, stats.size);
+      const start = Math.min(range.start ?? 0, end);
+      if (range.maxBytes && end - start > range.maxBytes) {
+        throw new Error(`Cannot hash more than ${range.maxBytes} bytes`);
+      }
+      // A length of 0 would hash up to the end of the file
+      const [digest] = end > start ? await hashFileRange(mapped.localPath, algorithm, start, end - start) : [createDigest(algorithm).digest()];
+      return { virtualPath: mapped.virtualPath, digest, start, end };
+    });
+  }
+
+  // Stream into a file, e.g. for an FTP upload. Without append or start the
+  // file is replaced. append adds to the end of an existing file and start
+  // resumes an upload there (FTP REST): both extend the file and need
+  // canAppend, resuming before the end also rewrites data and needs canEdit.
+  createWriteStream(virtualPath: string, write: { append?: boolean; start?: number } = {}, options: FileOperationOptions = {}): Promise<fs.WriteStream> {
+    const activity = options.activity || 'WRITE';
+    return this.run(activity, virtualPath, options, async () => {
+      const mapped = await this.authorize(activity, virtualPath, null, { cwd: options.cwd });
+      const size = await fs.promises.stat(mapped.localPath).then(stats => stats.size, () => null);
+
+      if (size === null || (!write.append && !write.start)) {
+        if (write.start) {
+          throw new Error(`Cannot resume ${mapped.virtualPath}: the file does not exist`);
+        }
+        await this.authorizeWrite(activity, mapped, true);
+        return fs.createWriteStream(mapped.localPath, { flags: write.append ? 'a' : 'w' });
+      }
+
+      const start = write.append ? size : write.start!;
+      if (start > size) {
+        throw new Error(`Cannot resume ${mapped.virtualPath} at ${start}: the file has ${size} bytes`);
+      }
+      const rewrites = start < size;
+      if (!this.hasPermission('canAppend', mapped.virtualPath) || (rewrites && !this.hasPermission('canEdit', mapped.virtualPath))) {
+        this.logActivity(`${activity}_DENIED`, mapped.virtualPath, false);
+        throw new PermissionDeniedError(mapped.virtualPath);
+      }
+
+      if (rewrites) {
+        await fs.promises.truncate(mapped.localPath, start);
+      }
+      return fs.createWriteStream(mapped.localPath, { flags: 'a' });
+    });
+  }
+
+  // Create one directory. Like mkdir(2) it fails with EEXIST when the path
+  // exists and with ENOENT when its parent does not.
+  mkdir(virtualPath: string, options: FileOperationOptions = {}): Promise<void> {
+    const activity = options.activity || 'MKDIR';
+    return this.run(activity, virtualPath, options, async () => {
+      const { localPath } = await this.authorize(activity, virtualPath, 'canCreateDir', { cwd: options.cwd, followLast: false });
+      await fs.promises.mkdir(localPath);
+    });
+  }
+
+  // Rename or move a file or directory. Replacing an existing file also
+  // counts as deleting it.
+  rename(fromPath: string, toPath: string, options: FileOperationOptions = {}): Promise<void> {
+    const activity = options.activity || 'RENAME';
+    const logPath = `${normalizeVirtualPath(fromPath, options.cwd)} -> ${normalizeVirtualPath(toPath, options.cwd)}`;
+    return this.runLogged(activity, logPath, async () => {
+      const from = await this.authorize(activity, fromPath, 'canRename', { cwd: options.cwd, followLast: false, logPath });
+      const to = await this.authorize(activity, toPath, 'canRename', { cwd: options.cwd, followLast: false, logPath });
+      const replacesTarget = await fs.promises.lstat(to.localPath).then(() => true, () => false);
+      if (replacesTarget && !this.hasPermission('canDelete', to.virtualPath)) {
+        this.logActivity(`${activity}_DENIED`, logPath, false);
+        throw new PermissionDeniedError(to.virtualPath);
+      }
+      await fs.promises.rename(from.localPath, to.localPath);
+    });
+  }
+
+  // Delete a file or an empty directory. A symlink is deleted itself. With a
+  // kind the operation fails for the other kind of entry, like unlink and rmdir.
+  delete(virtualPath: string, options: FileOperationOptions & { kind?: 'file' | 'directory' } = {}): Promise<void> {
+    const activity = options.activity || 'DELETE';
+    return this.run(activity, virtualPath, options, async () => {
+      const { localPath } = await this.authorize(activity, virtualPath, 'canDelete', { cwd: options.cwd, followLast: false });
+      const kind = options.kind || ((await fs.promises.lstat(localPath)).isDirectory() ? 'directory' : 'file');
+      await (kind === 'directory' ? fs.promises.rmdir(localPath) : fs.promises.unlink(localPath));
+    });
+  }
+
+  // Changing the size rewrites the contents, so it also needs canEdit.
+  setAttributes(virtualPath: string, attrs: FileAttributes, options: FileOperationOptions = {}): Promise<void> {
+    const activity = options.activity || 'SETSTAT';
+    return this.run(activity, virtualPath, options, async () => {
+      const mapped = await this.authorize(activity, virtualPath, 'canSetAttributes', { cwd: options.cwd });
+      if (attrs.size !== undefined && !this.hasPermission('canEdit', mapped.virtualPath)) {
+        this.logActivity(`${activity}_DENIED`, mapped.virtualPath, false);
+        throw new PermissionDeniedError(mapped.virtualPath);
+      }
+      await applyAttributes(mapped.localPath, attrs);
+    });
+  }
+
+  // The target of a symlink as the client may see it. Links are only revealed
+  // when their target stays inside the jail; relative targets are passed
+  // through, absolute ones are turned into virtual paths.
+  readLink(virtualPath: string, options: FileOperationOptions = {}): Promise<string> {
+    const activity = options.activity || 'READLINK';
+    return this.run(activity, virtualPath, options, async () => {
+      const mapped = await this.authorize(activity, virtualPath, 'canRead', { cwd: options.cwd, followLast: false });
+      if (this.jail.getSymlinkPolicy(mapped.virtualPath) === 'deny') {
+        this.logActivity(`${activity}_DENIED`, mapped.virtualPath, false);
+        throw new PermissionDeniedError(mapped.virtualPath);
+      }
+
+      const target = await fs.promises.readlink(mapped.localPath);
+      const resolvedTarget = path.resolve(path.dirname(mapped.localPath), target);
+      const name = path.isAbsolute(target) ? this.jail.toVirtualPath(resolvedTarget) : target.split(path.sep).join('/');
+      if (name === null || !(await this.jail.isLinkTargetAllowed(mapped.virtualPath, await resolveRealPath(resolvedTarget)))) {
+        this.logActivity(`${activity}_DENIED`, mapped.virtualPath, false);
+        throw new PathOutsideJailError(mapped.virtualPath);
+      }
+      return name;
+    });
+  }
+
+  // Create a symlink, if the mount's symlink policy allows its target.
+  // Relative targets are kept relative so the link survives moving the share.
+  symlink(linkPath: string, targetPath: string, options: FileOperationOptions = {}): Promise<void> {
+    const activity = options.activity || 'SYMLINK';
+    const linkVPath = normalizeVirtualPath(linkPath, options.cwd);
+    const logPath = `${linkVPath} -> ${targetPath}`;
+    return this.runLogged(activity, logPath, async () => {
+      const link = await this.authorize(activity, linkVPath, 'canCreate', { followLast: false, logPath });
+      const targetVPath = normalizeVirtualPath(targetPath, path.posix.dirname(linkVPath));
+      const target = this.jail.map(targetVPath);
+      if (this.jail.getSymlinkPolicy(linkVPath) === 'deny' || !target ||
+          !(await this.jail.isLinkTargetAllowed(linkVPath, await resolveRealPath(target.localPath)))) {
+        this.logActivity(`${activity}_DENIED`, logPath, false);
+        throw new PathOutsideJailError(targetVPath);
+      }
+
+      const linkTarget = path.posix.isAbsolute(targetPath)
+        ? target.localPath
+        : path.relative(path.dirname(link.localPath), target.localPath) || '.';
+      await fs.promises.symlink(linkTarget, link.localPath);
+    });
+  }
+
+  // Create a hard link. Both names share the same content, so the new name
+  // needs canCreate and the existing file must be editable.
+  link(existingPath: string, newPath: string, options: FileOperationOptions = {}): Promise<void> {
+    const activity = options.activity || 'HARDLINK';
+    const logPath = `${normalizeVirtualPath(existingPath, options.cwd)} -> ${normalizeVirtualPath(newPath, options.cwd)}`;
+    return this.runLogged(activity, logPath, async () => {
+      const to = await this.authorize(activity, newPath, 'canCreate', { cwd: options.cwd, followLast: false, logPath });
+      const from = await this.authorize(activity, existingPath, 'canEdit', { cwd: options.cwd, followLast: false, logPath });
+      await fs.promises.link(from.localPath, to.localPath);
+    });
+  }
+
+  // A read-only directory, dated when the file system was set up
+  private getVirtualDirectoryStats(): fs.Stats {
+    const time = this.createdAt;
+    return Object.assign(Object.create(fs.Stats.prototype) as fs.Stats, {
+      mode: fs.constants.S_IFDIR | 0o555,
+      nlink: 1,
+      uid: 0,
+      gid: 0,
+      size: 0,
+      atime: time,
+      mtime: time,
+      ctime: time,
+      birthtime: time,
+      atimeMs: time.getTime(),
+      mtimeMs: time.getTime(),
+      ctimeMs: time.getTime(),
+      birthtimeMs: time.getTime()
+    });
+  }
+
+  // Which writes the user may make to a mapped file, see open()
+  private async authorizeWrite(activity: string, mapped: MappedPath, truncate: boolean): Promise<{ canWrite: boolean; appendOnly: boolean }> {
+    const exists = await fs.promises.stat(mapped.localPath).then(() => true, () => false);
+    if (!exists ? this.hasPermission('canCreate', mapped.virtualPath) : this.hasPermission('canEdit', mapped.virtualPath)) {
+      return { canWrite: true, appendOnly: false };
+    }
+    if (exists && !truncate && this.hasPermission('canAppend', mapped.virtualPath)) {
+      return { canWrite: false, appendOnly: true };
+    }
+    this.logActivity(`${activity}_DENIED`, mapped.virtualPath, false);
+    throw new PermissionDeniedError(mapped.virtualPath);
+  }
+
+  // Log a successful operation as activity and a failed one as activity_FAILED.
+  // Refusals were already logged as _DENIED by authorize.
+  private run<T>(activity: string, virtualPath: string, options: FileOperationOptions, operation: () => Promise<T>): Promise<T> {
+    return this.runLogged(activity, normalizeVirtualPath(virtualPath, options.cwd), operation);
+  }
+
+  private async runLogged<T>(activity: string, logPath: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      const result = await operation();
+      this.logActivity(activity, logPath, true);
+      return result;
+    } catch (err) {
+      if (!(err instanceof PermissionDeniedError) && !(err instanceof PathOutsideJailError)) {
+        this.logActivity(`${activity}_FAILED`, logPath, false);
+      }
+      throw err;
+    }
+  }
+}
+
+// Apply attributes to a path or an open file. Ownership (uid/gid) changes are
+// not supported.
+export async function applyAttributes(target: string | fs.promises.FileHandle, attrs: FileAttributes): Promise<void> {
+  if (typeof target === 'string') {
+    if (attrs.size !== undefined) await fs.promises.truncate(target, attrs.size);
+    if (attrs.mode !== undefined) await fs.promises.chmod(target, attrs.mode & 0o7777);
+    if (attrs.atime !== undefined || attrs.mtime !== undefined) {
+      const stats = await fs.promises.stat(target);
+      await fs.promises.utimes(target, attrs.atime ?? stats.atime, attrs.mtime ?? stats.mtime);
+    }
+  } else {
+    if (attrs.size !== undefined) await target.truncate(attrs.size);
+    if (attrs.mode !== undefined) await target.chmod(attrs.mode & 0o7777);
+    if (attrs.atime !== undefined || attrs.mtime !== undefined) {
+      const stats = await target.stat();
+      await target.utimes(attrs.atime ?? stats.atime, attrs.mtime ?? stats.mtime);
+    }
+  }
+}
+
+// Map an open mode one to one onto open(2) flags, so a plain write does not
+// truncate the file the way Node's 'w' mode would
+function toOpenFlags(mode: OpenMode): number {
+  const { O_RDONLY, O_WRONLY, O_RDWR, O_APPEND, O_CREAT, O_TRUNC, O_EXCL } = fs.constants;
+  const canWrite = mode.write || mode.append;
+
+  let flags = mode.read && canWrite ? O_RDWR : canWrite ? O_WRONLY : O_RDONLY;
+  if (mode.append) flags |= O_APPEND;
+  if (mode.create) flags |= O_CREAT;
+  if (mode.truncate) flags |= O_TRUNC;
+  if (mode.exclusive) flags |= O_EXCL;
+  return flags;
+}
@@ -46,11 +46,13 @@ console.log('🚀 Starting SLightSFTP Server with Web GUI...\n');
       logger.info('💡 The test database should auto-create listeners on first run');
     }
   
+    // Created first so that no listener takes the web GUI port
+    const webServer = new WebServer(db, serverManager, WEB_PORT);
+
     // Start all enabled listeners
     await serverManager.startAllEnabledListeners();
     
     // Start web GUI server
-    const webServer = new WebServer(db, serverManager, WEB_PORT);
     await webServer.start();
     
     logger.info('🎯 Server is ready!');
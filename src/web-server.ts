@@ -8,6 +8,21 @@ const cookieParser = require('cookie-parser');
 import { DatabaseManager } from './database';
 import { ServerManager } from './server-manager';
 import { User, Listener } from './types';
+import { parseHostKey } from './host-keys';
+import { SSH_ALGORITHM_PRESETS, SUPPORTED_SSH_ALGORITHMS, parseSshAlgorithmSettings } from './ssh-algorithms';
+import { parseBannerSettings } from './banners';
+import { getCertificateHostnames, parseFtpsSettings, usesTlsCertificate } from './ftps';
+import { parsePassiveSettings } from './passive-mode';
+import { parseActiveModeSettings } from './active-mode';
+import { parseWebdavSettings } from './webdav';
+import { parseSessionTimeouts } from './session-timeouts';
+import { parseHashSettings } from './ftp-hash';
+import { TlsCertificateMaterial, generateCertificate, getCertificateSummary, parseCertificateImport } from './tls-certificates';
+import { PathOutsideJailError, normalizeVirtualPath } from './path-jail';
+import { DirectoryEntry, PermissionDeniedError, VirtualFileSystem } from './virtual-fs';
+import { parseAuthorizedKey } from './user-keys';
+import { generateTotpSecret, getOtpAuthUrl, verifyTotp, withoutTotpSecret } from './totp';
+import { encodeQrCode, toSvg } from './qr-code';
 import logger from './logger';
 
 // Get __dirname for CommonJS compatibility
@@ -31,6 +46,7 @@ export class WebServer {
     this.db = db;
     this.serverManager = serverManager;
     this.port = port;
+    this.serverManager.setWebPort(port);
     this.app = express();
     this.server = http.createServer(this.app);
     this.wss = new WebSocket.Server({ server: this.server });
@@ -232,13 +248,22 @@ export class WebServer {
     this.app.post('/api/listeners', async (req: Request, res: Response) => {
       try {
         const session = (req as any).session as WebSession;
-        const { name, protocol, bindingIp, port, enabled } = req.body;
+        const { name, protocol, bindingIp, port, enabled, authPolicy } = req.body;
         const listener: Listener = {
           name,
           protocol,
           bindingIp,
           port,
-          enabled
+          enabled,
+          authPolicy,
+          ...parseSshAlgorithmSettings(req.body),
+          ...parseBannerSettings(req.body),
+          ...parseFtpsSettings(req.body),
+          ...parsePassiveSettings(req.body),
+          ...parseActiveModeSettings(req.body),
+          ...parseSessionTimeouts(req.body),
+          ...parseHashSettings(req.body),
+          ...parseWebdavSettings(req.body)
         };
         const id = this.db.createListener(listener);
         
@@ -259,8 +284,8 @@ export class WebServer {
     this.app.put('/api/listeners/:id', async (req: Request, res: Response) => {
       try {
         const session = (req as any).session as WebSession;
-        const id = parseInt(req.params.id);
-        const { name, bindingIp, port, enabled } = req.body;
+        const id = parseInt(req.params.id as string);
+        const { name, bindingIp, port, enabled, authPolicy } = req.body;
         
         const listener = this.db.getListener(id);
         if (!listener) {
@@ -268,7 +293,18 @@ export class WebServer {
           return;
         }
 
-        this.db.updateListener(id, { name, bindingIp, port, enabled });
+        const sshAlgorithmSettings = parseSshAlgorithmSettings(req.body, listener);
+        const bannerSettings = parseBannerSettings(req.body);
+        const ftpsSettings = parseFtpsSettings(req.body);
+        const passiveSettings = parsePassiveSettings(req.body, listener);
+        const activeModeSettings = parseActiveModeSettings(req.body);
+        const sessionTimeouts = parseSessionTimeouts(req.body);
+        const hashSettings = parseHashSettings(req.body);
+        const webdavSettings = parseWebdavSettings(req.body);
+        this.db.updateListener(id, {
+          name, bindingIp, port, enabled, authPolicy, ...sshAlgorithmSettings, ...bannerSettings, ...ftpsSettings, ...passiveSettings, ...activeModeSettings,
+          ...sessionTimeouts, ...hashSettings, ...webdavSettings
+        });
         this.logActivity(session.username, 'WEB_LISTENER_UPDATED', `Updated listener '${listener.name}'`, true, id);
         
         // Restart listener if running
@@ -289,7 +325,7 @@ export class WebServer {
     this.app.delete('/api/listeners/:id', async (req: Request, res: Response) => {
       try {
         const session = (req as any).session as WebSession;
-        const id = parseInt(req.params.id);
+        const id = parseInt(req.params.id as string);
         const listener = this.db.getListener(id);
         
         if (this.serverManager.isListenerRunning(id)) {
@@ -309,7 +345,7 @@ export class WebServer {
     this.app.post('/api/listeners/:id/start', async (req: Request, res: Response) => {
       try {
         const session = (req as any).session as WebSession;
-        const id = parseInt(req.params.id);
+        const id = parseInt(req.params.id as string);
         const listener = this.db.getListener(id);
         await this.serverManager.startListener(id);
         this.logActivity(session.username, 'WEB_LISTENER_STARTED', `Started listener '${listener?.name}'`, true, id);
@@ -324,7 +360,7 @@ export class WebServer {
     this.app.post('/api/listeners/:id/stop', async (req: Request, res: Response) => {
       try {
         const session = (req as any).session as WebSession;
-        const id = parseInt(req.params.id);
+        const id = parseInt(req.params.id as string);
         const listener = this.db.getListener(id);
         await this.serverManager.stopListener(id);
         this.logActivity(session.username, 'WEB_LISTENER_STOPPED', `Stopped listener '${listener?.name}'`, true, id);
@@ -339,7 +375,7 @@ export class WebServer {
     this.app.post('/api/listeners/:id/restart', async (req: Request, res: Response) => {
       try {
         const session = (req as any).session as WebSession;
-        const id = parseInt(req.params.id);
+        const id = parseInt(req.params.id as string);
         const listener = this.db.getListener(id);
         await this.serverManager.restartListener(id);
         this.logActivity(session.username, 'WEB_LISTENER_RESTARTED', `Restarted listener '${listener?.name}'`, true, id);
@@ -377,34 +413,90 @@ export class WebServer {
     });
 
     // Get specific listener
+    // Preset algorithm lists and everything a custom profile may use
+    this.app.get('/api/ssh-algorithms', (req: Request, res: Response) => {
+      res.json({ presets: SSH_ALGORITHM_PRESETS, supported: SUPPORTED_SSH_ALGORITHMS });
+    });
+
     this.app.get('/api/listeners/:id', (req: Request, res: Response) => {
-      const id = parseInt(req.params.id);
+      const id = parseInt(req.params.id as string);
       const listener = this.db.getListener(id);
       if (!listener) {
         res.status(404).json({ error: 'Listener not found' });
         return;
       }
-      res.json(listener);
+      res.json({ ...listener, hostKeys: this.getHostKeySummaries(id), tlsCertificate: this.getTlsCertificateSummary(id) });
+    });
+
+    // SSH host keys (private key material is never returned)
+    this.app.get('/api/listeners/:id/host-keys', (req: Request, res: Response) => {
+      const id = parseInt(req.params.id as string);
+      res.json(this.getHostKeySummaries(id));
+    });
+
+    this.app.post('/api/listeners/:id/host-keys', async (req: Request, res: Response) => {
+      try {
+        const session = (req as any).session as WebSession;
+        const id = parseInt(req.params.id as string);
+        const listener = this.db.getListener(id);
+        if (!listener) {
+          res.status(404).json({ error: 'Listener not found' });
+          return;
+        }
+        if (listener.protocol !== 'SFTP') {
+          res.status(400).json({ error: 'Host keys are only used by SFTP listeners' });
+          return;
+        }
+
+        const hostKey = parseHostKey(req.body.privateKey || '');
+        this.db.saveHostKey({ listenerId: id, ...hostKey });
+        this.logActivity(session.username, 'WEB_HOST_KEY_IMPORTED', `Imported ${hostKey.algorithm} host key ${hostKey.fingerprint} for listener '${listener.name}'`, true, id);
+
+        // Running servers load their host keys on start
+        if (this.serverManager.isListenerRunning(id)) {
+          await this.serverManager.restartListener(id);
+        }
+
+        res.json(this.getHostKeySummaries(id));
+      } catch (error: any) {
+        const session = (req as any).session as WebSession;
+        this.logActivity(session.username, 'WEB_HOST_KEY_IMPORT_FAILED', error.message, false);
+        res.status(400).json({ error: error.message });
+      }
+    });
+
+    // FTPS and WebDAV certificates (private key material is never returned)
+    this.app.get('/api/listeners/:id/certificate', (req: Request, res: Response) => {
+      const id = parseInt(req.params.id as string);
+      res.json(this.getTlsCertificateSummary(id));
+    });
+
+    this.app.post('/api/listeners/:id/certificate', async (req: Request, res: Response) => {
+      await this.saveTlsCertificate(req, res, 'IMPORTED', () => parseCertificateImport(req.body));
+    });
+
+    this.app.post('/api/listeners/:id/certificate/generate', async (req: Request, res: Response) => {
+      await this.saveTlsCertificate(req, res, 'GENERATED', (listener) => generateCertificate(getCertificateHostnames(listener)));
     });
 
     // Users
     this.app.get('/api/users', (req: Request, res: Response) => {
-      const users = this.db.getAllUsers();
+      const users = this.db.getAllUsers().map(withoutTotpSecret);
       res.json(users);
     });
 
     this.app.get('/api/users/:username', (req: Request, res: Response) => {
-      const username = req.params.username;
+      const username = req.params.username as string;
       const user = this.db.getUser(username);
       if (!user) {
         res.status(404).json({ error: 'User not found' });
         return;
       }
-      res.json(user);
+      res.json(withoutTotpSecret(user));
     });
 
     this.app.get('/api/users/id/:userId/listeners', (req: Request, res: Response) => {
-      const userId = parseInt(req.params.userId);
+      const userId = parseInt(req.params.userId as string);
       const listenerIds = this.db.getUserListeners(userId);
       res.json(listenerIds);
     });
@@ -412,18 +504,23 @@ export class WebServer {
     this.app.post('/api/users', (req: Request, res: Response) => {
       try {
         const session = (req as any).session as WebSession;
-        const { username, password, passwordEnabled, publicKey, guiEnabled } = req.body;
+        const { username, password, passwordEnabled, publicKey, guiEnabled, mfaMode, authPolicy } = req.body;
         const hashedPassword = password ? this.hashPassword(password) : '';
+        const key = publicKey ? parseAuthorizedKey(publicKey) : null;
         
         const user: User = {
           username,
           password: hashedPassword,
           passwordEnabled,
-          publicKey: publicKey || '',
-          guiEnabled
+          guiEnabled,
+          mfaMode,
+          authPolicy
         };
         
         const id = this.db.createUser(user);
+        if (key) {
+          this.db.addUserKey({ userId: id, label: key.comment || key.algorithm, ...key });
+        }
         this.logActivity(session.username, 'WEB_USER_CREATED', `Created user '${username}'`, true);
         
         res.json({ ...user, id });
@@ -437,10 +534,10 @@ export class WebServer {
     this.app.put('/api/users/:username', (req: Request, res: Response) => {
       try {
         const session = (req as any).session as WebSession;
-        const username = req.params.username;
-        const { password, passwordEnabled, publicKey, guiEnabled } = req.body;
+        const username = req.params.username as string;
+        const { password, passwordEnabled, guiEnabled, mfaMode, authPolicy } = req.body;
         
-        const updates: any = { passwordEnabled, publicKey, guiEnabled };
+        const updates: any = { passwordEnabled, guiEnabled, mfaMode, authPolicy };
         if (password) {
           updates.password = this.hashPassword(password);
         }
@@ -458,7 +555,7 @@ export class WebServer {
     this.app.delete('/api/users/:username', (req: Request, res: Response) => {
       try {
         const session = (req as any).session as WebSession;
-        const username = req.params.username;
+        const username = req.params.username as string;
         this.db.deleteUser(username);
         this.logActivity(session.username, 'WEB_USER_DELETED', `Deleted user '${username}'`, true);
         res.json({ success: true });
@@ -471,7 +568,7 @@ export class WebServer {
 
     // User subscriptions
     this.app.get('/api/users/:username/subscriptions', (req: Request, res: Response) => {
-      const username = req.params.username;
+      const username = req.params.username as string;
       const user = this.db.getUser(username);
       if (!user || !user.id) {
         res.status(404).json({ error: 'User not found' });
@@ -483,7 +580,7 @@ export class WebServer {
 
     this.app.post('/api/users/:username/subscriptions', (req: Request, res: Response) => {
       try {
-        const username = req.params.username;
+        const username = req.params.username as string;
         const { listenerId } = req.body;
         const user = this.db.getUser(username);
         if (!user || !user.id) {
@@ -499,8 +596,8 @@ export class WebServer {
 
     this.app.delete('/api/users/:username/subscriptions/:listenerId', (req: Request, res: Response) => {
       try {
-        const username = req.params.username;
-        const listenerId = parseInt(req.params.listenerId);
+        const username = req.params.username as string;
+        const listenerId = parseInt(req.params.listenerId as string);
         const user = this.db.getUser(username);
         if (!user || !user.id) {
           res.status(404).json({ error: 'User not found' });
@@ -513,9 +610,120 @@ export class WebServer {
       }
     });
 
+    // SSH public keys
+    this.app.get('/api/users/:username/keys', (req: Request, res: Response) => {
+      const user = this.db.getUser(req.params.username as string);
+      if (!user || !user.id) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+      res.json(this.db.getUserKeys(user.id));
+    });
+
+    this.app.post('/api/users/:username/keys', (req: Request, res: Response) => {
+      try {
+        const session = (req as any).session as WebSession;
+        const username = req.params.username as string;
+        const user = this.db.getUser(username);
+        if (!user || !user.id) {
+          res.status(404).json({ error: 'User not found' });
+          return;
+        }
+
+        const key = parseAuthorizedKey(req.body.publicKey || '');
+        if (this.db.getUserKeys(user.id).some(k => k.fingerprint === key.fingerprint)) {
+          res.status(409).json({ error: `Key ${key.fingerprint} is already registered for this user` });
+          return;
+        }
+        const id = this.db.addUserKey({ userId: user.id, label: req.body.label || key.comment || key.algorithm, ...key });
+        this.logActivity(session.username, 'WEB_USER_KEY_ADDED', `Added ${key.algorithm} key ${key.fingerprint} for user '${username}'`, true);
+
+        res.json(this.db.getUserKeys(user.id).find(k => k.id === id));
+      } catch (error: any) {
+        const session = (req as any).session as WebSession;
+        this.logActivity(session.username, 'WEB_USER_KEY_ADD_FAILED', error.message, false);
+        res.status(400).json({ error: error.message });
+      }
+    });
+
+    this.app.delete('/api/users/:username/keys/:id', (req: Request, res: Response) => {
+      try {
+        const session = (req as any).session as WebSession;
+        const username = req.params.username as string;
+        const id = parseInt(req.params.id as string);
+        const user = this.db.getUser(username);
+        const key = user?.id ? this.db.getUserKeys(user.id).find(k => k.id === id) : undefined;
+        if (!user || !user.id || !key) {
+          res.status(404).json({ error: 'Key not found' });
+          return;
+        }
+
+        this.db.deleteUserKey(user.id, id);
+        this.logActivity(session.username, 'WEB_USER_KEY_DELETED', `Deleted ${key.algorithm} key ${key.fingerprint} of user '${username}'`, true);
+        res.json({ success: true });
+      } catch (error: any) {
+        const session = (req as any).session as WebSession;
+        this.logActivity(session.username, 'WEB_USER_KEY_DELETE_FAILED', error.message, false);
+        res.status(400).json({ error: error.message });
+      }
+    });
+
+    // TOTP enrollment: the secret is only stored once a code generated from it is confirmed
+    this.app.post('/api/users/:username/totp/enrollment', (req: Request, res: Response) => {
+      const username = req.params.username as string;
+      if (!this.db.getUser(username)) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const secret = generateTotpSecret();
+      const otpAuthUrl = getOtpAuthUrl(secret, username);
+      res.json({ secret, otpAuthUrl, qrCode: toSvg(encodeQrCode(otpAuthUrl)) });
+    });
+
+    this.app.post('/api/users/:username/totp', (req: Request, res: Response) => {
+      try {
+        const session = (req as any).session as WebSession;
+        const username = req.params.username as string;
+        const { secret, code } = req.body;
+        if (!this.db.getUser(username)) {
+          res.status(404).json({ error: 'User not found' });
+          return;
+        }
+        if (!secret || !verifyTotp(secret, code)) {
+          this.logActivity(session.username, 'WEB_USER_TOTP_ENROLL_FAILED', `Invalid verification code for user '${username}'`, false);
+          res.status(400).json({ error: 'Invalid verification code' });
+          return;
+        }
+
+        this.db.updateUser(username, { totpSecret: secret });
+        this.logActivity(session.username, 'WEB_USER_TOTP_ENROLLED', `Enrolled TOTP for user '${username}'`, true);
+        res.json({ success: true });
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    });
+
+    this.app.delete('/api/users/:username/totp', (req: Request, res: Response) => {
+      try {
+        const session = (req as any).session as WebSession;
+        const username = req.params.username as string;
+        if (!this.db.getUser(username)) {
+          res.status(404).json({ error: 'User not found' });
+          return;
+        }
+
+        this.db.updateUser(username, { totpSecret: null });
+        this.logActivity(session.username, 'WEB_USER_TOTP_RESET', `Reset TOTP for user '${username}'`, true);
+        res.json({ success: true });
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+      }
+    });
+
     // Virtual paths
     this.app.get('/api/users/:username/virtual-paths', (req: Request, res: Response) => {
-      const username = req.params.username;
+      const username = req.params.username as string;
       const user = this.db.getUser(username);
       if (!user || !user.id) {
         res.status(404).json({ error: 'User not found' });
@@ -527,7 +735,7 @@ export class WebServer {
 
     this.app.post('/api/users/:username/virtual-paths', (req: Request, res: Response) => {
       try {
-        const username = req.params.username;
+        const username = req.params.username as string;
         const virtualPath = req.body;
         const user = this.db.getUser(username);
         if (!user || !user.id) {
@@ -544,7 +752,7 @@ export class WebServer {
 
     this.app.delete('/api/users/:username/virtual-paths/:id', (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
+        const id = parseInt(req.params.id as string);
         this.db.deleteVirtualPath(id);
         res.json({ success: true });
       } catch (error: any) {
@@ -581,7 +789,7 @@ export class WebServer {
 
     this.app.delete('/api/sessions/:sessionId', async (req: Request, res: Response) => {
       try {
-        const sessionId = req.params.sessionId;
+        const sessionId = req.params.sessionId as string;
         const success = this.serverManager.disconnectSession(sessionId);
         if (!success) {
           res.status(404).json({ error: 'Session not found' });
@@ -594,10 +802,10 @@ export class WebServer {
     });
 
     // File browsing
-    this.app.get('/api/files/browse', (req: Request, res: Response) => {
+    this.app.get('/api/files/browse', async (req: Request, res: Response) => {
       try {
         const username = req.query.username as string;
-        const virtualPath = req.query.path as string || '/';
+        const requestedPath = req.query.path as string || '/';
         
         if (!username) {
           res.status(400).json({ error: 'Username is required' });
@@ -610,54 +818,33 @@ export class WebServer {
           return;
         }
 
-        const virtualPaths = this.db.getVirtualPaths(user.id);
-        
-        // Find matching virtual path - need to match from root
-        const matchingVPath = virtualPaths.find(vp => {
-          // Normalize paths for comparison
-          const vpNorm = vp.virtualPath.endsWith('/') ? vp.virtualPath : vp.virtualPath + '/';
-          const pathNorm = virtualPath.endsWith('/') ? virtualPath : virtualPath + '/';
-          
-          // Match if exact or if virtual path is a prefix
-          return virtualPath === vp.virtualPath || 
-                 pathNorm.startsWith(vpNorm) ||
-                 (vp.virtualPath === '/' && virtualPath.startsWith('/'));
-        });
-
-        if (!matchingVPath) {
-          logger.error(`No matching virtual path for ${username} accessing ${virtualPath}. Available paths:`, virtualPaths.map(vp => vp.virtualPath));
-          res.status(403).json({ error: 'No access to this path' });
-          return;
-        }
-
-        // Map virtual path to local path
-        const relativePath = virtualPath.substring(matchingVPath.virtualPath.length);
-        const localPath = path.join(matchingVPath.localPath, relativePath);
-
-        // Check if path exists and list files
-        if (!fs.existsSync(localPath)) {
-          res.status(404).json({ error: 'Path not found' });
-          return;
-        }
-
-        const stat = fs.statSync(localPath);
-        if (!stat.isDirectory()) {
-          res.status(400).json({ error: 'Path is not a directory' });
+        // Browsing shows what the user would see: the mounts and their permissions
+        const vfs = new VirtualFileSystem(this.db.getVirtualPaths(user.id));
+        let entries: DirectoryEntry[];
+        try {
+          entries = await vfs.list(requestedPath);
+        } catch (error: any) {
+          if (error instanceof PathOutsideJailError || error instanceof PermissionDeniedError) {
+            logger.warn(`Refused ${username} browsing ${requestedPath}: ${error.message}`);
+            res.status(403).json({ error: 'No access to this path' });
+          } else if (error.code === 'ENOENT') {
+            res.status(404).json({ error: 'Path not found' });
+          } else if (error.code === 'ENOTDIR') {
+            res.status(400).json({ error: 'Path is not a directory' });
+          } else {
+            throw error;
+          }
           return;
         }
 
-        const files = fs.readdirSync(localPath).map((name: string) => {
-          const filePath = path.join(localPath, name);
-          const fileStat = fs.statSync(filePath);
-          return {
-            name,
-            type: fileStat.isDirectory() ? 'directory' : 'file',
-            size: fileStat.size,
-            modified: fileStat.mtime
-          };
-        });
+        const files = entries.map(({ name, stats }) => ({
+          name,
+          type: stats.isDirectory() ? 'directory' : 'file',
+          size: stats.size,
+          modified: stats.mtime
+        }));
 
-        res.json({ files, currentPath: virtualPath });
+        res.json({ files, currentPath: normalizeVirtualPath(requestedPath) });
       } catch (error: any) {
         logger.error('File browse error:', error);
         res.status(500).json({ error: error.message });
@@ -665,6 +852,56 @@ export class WebServer {
     });
   }
 
+  // Store a certificate made by createCertificate for an FTPS or WebDAV listener and
+  // restart the listener if it runs, as certificates are loaded on start
+  private async saveTlsCertificate(
+    req: Request,
+    res: Response,
+    verb: 'IMPORTED' | 'GENERATED',
+    createCertificate: (listener: Listener) => TlsCertificateMaterial
+  ): Promise<void> {
+    const session = (req as any).session as WebSession;
+    try {
+      const id = parseInt(req.params.id as string);
+      const listener = this.db.getListener(id);
+      if (!listener) {
+        res.status(404).json({ error: 'Listener not found' });
+        return;
+      }
+      if (!usesTlsCertificate(listener)) {
+        res.status(400).json({ error: 'Certificates are only used by FTPS and WebDAV listeners' });
+        return;
+      }
+
+      const certificate = createCertificate(listener);
+      this.db.saveTlsCertificate({ listenerId: id, ...certificate });
+      this.logActivity(session.username, `WEB_TLS_CERTIFICATE_${verb}`, `${verb === 'IMPORTED' ? 'Imported' : 'Generated'} certificate ${certificate.subject} ${certificate.fingerprint} for listener '${listener.name}'`, true, id);
+
+      if (this.serverManager.isListenerRunning(id)) {
+        await this.serverManager.restartListener(id);
+      }
+
+      res.json(this.getTlsCertificateSummary(id));
+    } catch (error: any) {
+      this.logActivity(session.username, `WEB_TLS_CERTIFICATE_${verb === 'IMPORTED' ? 'IMPORT' : 'GENERATE'}_FAILED`, error.message, false);
+      res.status(400).json({ error: error.message });
+    }
+  }
+
+  private getTlsCertificateSummary(listenerId: number) {
+    const certificate = this.db.getTlsCertificate(listenerId);
+    return certificate ? getCertificateSummary(certificate) : null;
+  }
+
+  private getHostKeySummaries(listenerId: number): Array<{ keyType: string; algorithm: string; fingerprint: string; createdAt?: string }> {
+    return this.db.getHostKeys(listenerId).map(k => ({
+      keyType: k.keyType,
+      algorithm: k.algorithm,
+      fingerprint: k.fingerprint,
+      createdAt: k.createdAt
+    }));
+  }
+
   private setupWebSocket(): void {
     this.wss.on('connection', (ws: WebSocket) => {
       logger.info('WebSocket client connected');
@@ -977,6 +1214,107 @@ export class WebServer {
               if (!response.ok) throw new Error('Failed to get listener');
               return response.json();
             },
+            'get-ssh-algorithms': async () => {
+              const response = await fetch('/api/ssh-algorithms');
+              if (!response.ok) throw new Error('Failed to get SSH algorithms');
+              return response.json();
+            },
+            'get-host-keys': async (id) => {
+              const response = await fetch(\`/api/listeners/\${id}/host-keys\`);
+              if (!response.ok) throw new Error('Failed to get host keys');
+              return response.json();
+            },
+            'import-host-key': async (id, privateKey) => {
+              const response = await fetch(\`/api/listeners/\${id}/host-keys\`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ privateKey })
+              });
+              if (!response.ok) {
+                const error = await response.json();
+                throw new Error(error.error || 'Failed to import host key');
+              }
+              return response.json();
+            },
+            'get-tls-certificate': async (id) => {
+              const response = await fetch(\`/api/listeners/\${id}/certificate\`);
+              if (!response.ok) throw new Error('Failed to get certificate');
+              return response.json();
+            },
+            'import-tls-certificate': async (id, certificate) => {
+              const response = await fetch(\`/api/listeners/\${id}/certificate\`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(certificate)
+              });
+              if (!response.ok) {
+                const error = await response.json();
+                throw new Error(error.error || 'Failed to import certificate');
+              }
+              return response.json();
+            },
+            'generate-tls-certificate': async (id) => {
+              const response = await fetch(\`/api/listeners/\${id}/certificate/generate\`, { method: 'POST' });
+              if (!response.ok) {
+                const error = await response.json();
+                throw new Error(error.error || 'Failed to generate certificate');
+              }
+              return response.json();
+            },
+            'get-user-keys': async (username) => {
+              const response = await fetch(\`/api/users/\${username}/keys\`);
+              if (!response.ok) throw new Error('Failed to get user keys');
+              return response.json();
+            },
+            'add-user-key': async (username, label, publicKey) => {
+              const response = await fetch(\`/api/users/\${username}/keys\`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ label, publicKey })
+              });
+              if (!response.ok) {
+                const error = await response.json();
+                throw new Error(error.error || 'Failed to add key');
+              }
+              return response.json();
+            },
+            'delete-user-key': async (username, id) => {
+              const response = await fetch(\`/api/users/\${username}/keys/\${id}\`, {
+                method: 'DELETE'
+              });
+              if (!response.ok) {
+                const error = await response.json();
+                throw new Error(error.error || 'Failed to delete key');
+              }
+              return response.json();
+            },
+            'start-totp-enrollment': async (username) => {
+              const response = await fetch(\`/api/users/\${username}/totp/enrollment\`, { method: 'POST' });
+              if (!response.ok) throw new Error('Failed to start TOTP enrollment');
+              return response.json();
+            },
+            'confirm-totp-enrollment': async (username, secret, code) => {
+              const response = await fetch(\`/api/users/\${username}/totp\`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ secret, code })
+              });
+              if (!response.ok) {
+                const error = await response.json();
+                throw new Error(error.error || 'Failed to confirm TOTP enrollment');
+              }
+              return response.json();
+            },
+            'reset-totp': async (username) => {
+              const response = await fetch(\`/api/users/\${username}/totp\`, {
+                method: 'DELETE'
+              });
+              if (!response.ok) {
+                const error = await response.json();
+                throw new Error(error.error || 'Failed to reset TOTP');
+              }
+              return response.json();
+            },
             'get-user': async (username) => {
               const response = await fetch(\`/api/users/\${username}\`);
               if (!response.ok) throw new Error('Failed to get user');
@@ -1100,6 +1438,7 @@ export class WebServer {
             reject(err);
           } else {
             logger.info('Web GUI server stopped');
+            this.serverManager.setWebPort(null);
             resolve();
           }
         });
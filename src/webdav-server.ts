@@ -0,0 +1,783 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { pipeline } from 'stream/promises';
+import { DatabaseManager } from './database';
+import { Listener, Permission, User } from './types';
+import logger from './logger';
+import { isTotpRequired } from './totp';
+import { getAuthPolicies, getMissingFactors, isFactorAllowed } from './auth-policy';
+import { PathOutsideJailError, normalizeVirtualPath } from './path-jail';
+import { FileActivity, FileAttributes, PermissionDeniedError, VirtualFileSystem } from './virtual-fs';
+import { loadListenerCertificate } from './ftps';
+import { TlsCertificateMaterial, getSecureContextOptions } from './tls-certificates';
+import {
+  DAV_NAMESPACE, PropStat, WebDavError, WebDavLocks, XmlElement, escapeXml, findDavChildren, formatActiveLock,
+  formatEmptyProperty, formatMultistatus, formatOwner, getSubmittedTokens, isSameOrigin, parseBasicAuthorization,
+  parseDepth, parseLockTimeout, parseXml, toHref, toVirtualPath
+} from './webdav';
+
+// Methods the server answers, as listed in Allow
+const WEBDAV_METHODS = ['OPTIONS', 'GET', 'HEAD', 'PUT', 'DELETE', 'PROPFIND', 'PROPPATCH', 'MKCOL', 'COPY', 'MOVE', 'LOCK', 'UNLOCK'];
+
+// PROPFIND, PROPPATCH and LOCK bodies are read into memory, up to this size
+const MAX_XML_BODY_BYTES = 1024 * 1024;
+
+// Properties of allprop and propname requests
+const LIVE_PROPERTIES = [
+  'resourcetype', 'displayname', 'getcontentlength', 'getcontenttype', 'getlastmodified', 'creationdate', 'getetag',
+  'supportedlock', 'lockdiscovery'
+];
+
+// Windows sets file times with PROPPATCH after an upload. Only the times it
+// sends are stored; attributes and the creation time are accepted and ignored.
+const MS_NAMESPACE = 'urn:schemas-microsoft-com:';
+const WIN32_TIMES: Record<string, 'atime' | 'mtime' | null> = {
+  Win32LastModifiedTime: 'mtime',
+  Win32LastAccessTime: 'atime',
+  Win32CreationTime: null,
+  Win32FileAttributes: null
+};
+
+// Any of these lets a user lock a resource; read-only users could otherwise
+// keep everyone else from changing it
+const LOCK_PERMISSIONS: Array<keyof Permission> = ['canCreate', 'canEdit', 'canAppend', 'canDelete', 'canRename', 'canCreateDir'];
+
+const SUPPORTED_LOCK = '<D:supportedlock>' +
+  ['exclusive', 'shared'].map(scope => `<D:lockentry><D:lockscope><D:${scope}/></D:lockscope><D:locktype><D:write/></D:locktype></D:lockentry>`).join('') +
+  '</D:supportedlock>';
+
+// Status of file system errors; other errors are answered with 500
+const ERROR_STATUS: Record<string, number> = {
+  ENOENT: 404,
+  ENOTDIR: 409,
+  ENOTEMPTY: 409,
+  EEXIST: 405,
+  EISDIR: 405,
+  EACCES: 403,
+  EPERM: 403
+};
+
+interface ClientSession {
+  socket: net.Socket;
+  username: string;
+  ipAddress: string;
+  connectedAt: Date;
+  authorization: string;
+  vfs: VirtualFileSystem;
+}
+
+// WebDAV (RFC 4918, classes 1 and 2) over HTTP or HTTPS, so users can mount
+// their folders as network drives on Windows, macOS and Linux. Clients log in
+// with HTTP Basic; a session lasts as long as the client keeps its connection
+// open. Files are served through the same virtual file system as SFTP and FTP.
+export class WebDAVServer extends EventEmitter {
+  private server: http.Server | null = null;
+  private listener: Listener;
+  private db: DatabaseManager;
+  private activeSessions: Map<string, ClientSession> = new Map();
+  private socketSessions: Map<net.Socket, string> = new Map();
+  private locks = new WebDavLocks();
+  private certificate: TlsCertificateMaterial | null = null;
+
+  constructor(listener: Listener, db: DatabaseManager) {
+    super();
+    this.listener = listener;
+    this.db = db;
+    if (listener.webdavTls) {
+      this.certificate = loadListenerCertificate(db, listener);
+    }
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const handler = (req: http.IncomingMessage, res: http.ServerResponse) => {
+        void this.handleRequest(req, res);
+      };
+      this.server = this.certificate
+        ? https.createServer(getSecureContextOptions(this.certificate), handler)
+        : http.createServer(handler);
+
+      this.server.once('error', (err: Error) => {
+        logger.error('WebDAV server error:', err);
+        this.emit('error', err);
+        reject(err);
+      });
+
+      this.server.listen(this.listener.port, this.listener.bindingIp, () => {
+        const scheme = this.certificate ? 'https' : 'http';
+        logger.info(`WebDAV server listening on ${scheme}://${this.listener.bindingIp}:${this.listener.port}`);
+        this.emit('started');
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      const server = this.server;
+      this.server = null;
+      if (!server) {
+        resolve();
+        return;
+      }
+
+      server.close(() => {
+        logger.info('WebDAV server stopped');
+        this.emit('stopped');
+        resolve();
+      });
+      server.closeAllConnections();
+    });
+  }
+
+  getActiveSessions(): Array<{ sessionId: string; username: string; ipAddress: string; connectedAt: Date }> {
+    return Array.from(this.activeSessions.entries()).map(([sessionId, session]) => ({
+      sessionId,
+      username: session.username,
+      ipAddress: session.ipAddress,
+      connectedAt: session.connectedAt
+    }));
+  }
+
+  disconnectSession(sessionId: string): boolean {
+    const session = this.activeSessions.get(sessionId);
+    if (session) {
+      session.socket.destroy();
+      this.endSession(session.socket);
+      return true;
+    }
+    return false;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    try {
+      const session = this.authenticate(req, res);
+      if (!session) return;
+
+      const virtualPath = toVirtualPath(req.url || '/');
+      switch (req.method) {
+        case 'OPTIONS':
+          return sendEmpty(res, 200, { DAV: '1, 2', Allow: WEBDAV_METHODS.join(', '), 'MS-Author-Via': 'DAV' });
+        case 'GET':
+        case 'HEAD':
+          return await this.handleGet(req, res, session, virtualPath);
+        case 'PUT':
+          return await this.handlePut(req, res, session, virtualPath);
+        case 'DELETE':
+          return await this.handleDelete(req, res, session, virtualPath);
+        case 'PROPFIND':
+          return await this.handlePropfind(req, res, session, virtualPath);
+        case 'PROPPATCH':
+          return await this.handleProppatch(req, res, session, virtualPath);
+        case 'MKCOL':
+          return await this.handleMkcol(req, res, session, virtualPath);
+        case 'COPY':
+        case 'MOVE':
+          return await this.handleCopyMove(req, res, session, virtualPath);
+        case 'LOCK':
+          return await this.handleLock(req, res, session, virtualPath);
+        case 'UNLOCK':
+          return this.handleUnlock(req, res, session, virtualPath);
+        default:
+          res.setHeader('Allow', WEBDAV_METHODS.join(', '));
+          throw new WebDavError(405, `Method not allowed: ${req.method}`);
+      }
+    } catch (err) {
+      this.sendError(res, err);
+    }
+  }
+
+  // The session of the client's connection. Credentials are checked once per
+  // connection, and again when they change. Without valid credentials the
+  // request is answered with 401 and null is returned.
+  private authenticate(req: http.IncomingMessage, res: http.ServerResponse): ClientSession | null {
+    const socket = req.socket;
+    const authorization = req.headers.authorization || '';
+    const sessionId = this.socketSessions.get(socket);
+    const existing = sessionId ? this.activeSessions.get(sessionId) : undefined;
+    if (existing && existing.authorization === authorization) {
+      return existing;
+    }
+
+    // Clients first ask without credentials; only wrong ones are logged
+    const credentials = parseBasicAuthorization(authorization);
+    const user = credentials && this.verifyCredentials(credentials.username, credentials.password, socket);
+    if (!credentials || !user) {
+      const realm = this.listener.name.replace(/["\\]/g, '');
+      sendText(res, 401, 'Authentication required', { 'WWW-Authenticate': `Basic realm="${realm}", charset="UTF-8"` });
+      return null;
+    }
+
+    if (existing) {
+      this.endSession(socket);
+    } else {
+      socket.once('close', () => this.endSession(socket));
+    }
+
+    const ipAddress = socket.remoteAddress || 'unknown';
+    const newSessionId = `webdav_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const userPermissions = this.db.getPermission(user.id!, this.listener.id!);
+    const vfs = new VirtualFileSystem(this.db.getVirtualPaths(user.id!), userPermissions || null);
+    vfs.on('activity', (activity: FileActivity) => {
+      this.logActivity(activity.action, user.username, activity.path, activity.success);
+    });
+
+    const session: ClientSession = { socket, username: user.username, ipAddress, connectedAt: new Date(), authorization, vfs };
+    this.activeSessions.set(newSessionId, session);
+    this.socketSessions.set(socket, newSessionId);
+    this.logActivity(`LOGIN (password) [${ipAddress}:${socket.remotePort || 0}]`, user.username, '/', true);
+    return session;
+  }
+
+  // The same checks as an FTP login: Basic has no way to ask for a
+  // verification code either, so a password has to be enough
+  private verifyCredentials(username: string, password: string, socket: net.Socket): User | null {
+    logger.info(`WebDAV login attempt: ${username}`);
+    const client = `[${socket.remoteAddress || 'unknown'}:${socket.remotePort || 0}]`;
+
+    const user = this.db.getUser(username);
+    if (!user) {
+      this.logActivity(`LOGIN_FAILED (User not found) ${client}`, username, '/', false);
+      return null;
+    }
+
+    const userListeners = this.db.getUserListeners(user.id!);
+    if (!userListeners.includes(this.listener.id!)) {
+      this.logActivity(`LOGIN_FAILED (Not authorized for this listener) ${client}`, username, '/', false);
+      return null;
+    }
+
+    if (!user.passwordEnabled || !this.db.verifyPassword(username, password)) {
+      this.logActivity(`LOGIN_FAILED (Invalid password) ${client}`, username, '/', false);
+      return null;
+    }
+
+    if (isTotpRequired(user)) {
+      this.logActivity(`LOGIN_FAILED (MFA required) ${client}`, username, '/', false);
+      return null;
+    }
+
+    const policies = getAuthPolicies(user, this.getCurrentListener());
+    if (!isFactorAllowed(policies, 'password') || getMissingFactors(policies, ['password']).length > 0) {
+      this.logActivity(`LOGIN_FAILED (password not allowed by auth policy) ${client}`, username, '/', false);
+      return null;
+    }
+    return user;
+  }
+
+  private endSession(socket: net.Socket): void {
+    const sessionId = this.socketSessions.get(socket);
+    const session = sessionId ? this.activeSessions.get(sessionId) : undefined;
+    this.socketSessions.delete(socket);
+    if (sessionId && session) {
+      this.activeSessions.delete(sessionId);
+      logger.info(`WebDAV user disconnected: ${session.username}`);
+      this.logActivity('LOGOUT', session.username, '/', true);
+    }
+  }
+
+  private async handleGet(req: http.IncomingMessage, res: http.ServerResponse, session: ClientSession, virtualPath: string): Promise<void> {
+    const stats = await this.findStats(session, virtualPath);
+    if (!stats) {
+      throw new WebDavError(404, `Not found: ${virtualPath}`);
+    }
+
+    // Browsers get a plain listing; WebDAV clients use PROPFIND
+    if (stats.isDirectory()) {
+      const entries = await session.vfs.list(virtualPath);
+      const links = entries.map(entry => {
+        const name = entry.stats.isDirectory() ? `${entry.name}/` : entry.name;
+        return `<li><a href="${escapeXml(toHref(entry.virtualPath, entry.stats.isDirectory()))}">${escapeXml(name)}</a></li>`;
+      });
+      const html = `<!DOCTYPE html>\n<html><head><meta charset="utf-8"><title>${escapeXml(virtualPath)}</title></head>` +
+        `<body><h1>${escapeXml(virtualPath)}</h1><ul>${links.join('')}</ul></body></html>`;
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Content-Length': Buffer.byteLength(html) });
+      res.end(req.method === 'HEAD' ? undefined : html);
+      return;
+    }
+
+    const headers = {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': stats.size,
+      'Last-Modified': stats.mtime.toUTCString(),
+      ETag: getEtag(stats),
+      'Accept-Ranges': 'none'
+    };
+    if (req.method === 'HEAD') {
+      if (!session.vfs.hasPermission('canRead', virtualPath)) {
+        throw new PermissionDeniedError(virtualPath);
+      }
+      return sendEmpty(res, 200, headers);
+    }
+
+    const stream = await session.vfs.createReadStream(virtualPath);
+    res.writeHead(200, headers);
+    await pipeline(stream, res);
+  }
+
+  // Create or replace a file. Partial uploads (Content-Range) are refused
+  // rather than taken for the whole file.
+  private async handlePut(req: http.IncomingMessage, res: http.ServerResponse, session: ClientSession, virtualPath: string): Promise<void> {
+    if (req.headers['content-range']) {
+      throw new WebDavError(400, 'Partial uploads are not supported');
+    }
+    const stats = await this.findStats(session, virtualPath);
+    if (stats?.isDirectory()) {
+      throw new WebDavError(405, `Is a collection: ${virtualPath}`);
+    }
+    await this.assertParentCollection(session, virtualPath);
+    this.assertUnlocked(req, session, virtualPath, { members: !stats });
+
+    const stream = await session.vfs.createWriteStream(virtualPath);
+    await pipeline(req, stream);
+    sendEmpty(res, stats ? 204 : 201);
+  }
+
+  private async handleDelete(req: http.IncomingMessage, res: http.ServerResponse, session: ClientSession, virtualPath: string): Promise<void> {
+    if (!(await this.findStats(session, virtualPath))) {
+      throw new WebDavError(404, `Not found: ${virtualPath}`);
+    }
+    this.assertUnlocked(req, session, virtualPath, { descendants: true, members: true });
+
+    await this.deleteResource(session, virtualPath);
+    this.locks.removeAt(virtualPath);
+    sendEmpty(res, 204);
+  }
+
+  // Depth 0 and 1 only: a depth infinity PROPFIND of a large share would walk
+  // all of it (RFC 4918 allows refusing it)
+  private async handlePropfind(req: http.IncomingMessage, res: http.ServerResponse, session: ClientSession, virtualPath: string): Promise<void> {
+    const depth = parseDepth(getHeader(req, 'depth'), 'infinity');
+    if (depth === 'infinity') {
+      throw new WebDavError(403, 'Depth infinity is not supported, use Depth 0 or 1');
+    }
+
+    const body = await readBody(req);
+    const request = body.trim() ? parseXml(body) : null;
+    if (request && (request.namespace !== DAV_NAMESPACE || request.name !== 'propfind')) {
+      throw new WebDavError(400, 'Expected a propfind element');
+    }
+    const prop = request ? findDavChildren(request, 'prop')[0] : undefined;
+    const requested = prop ? prop.children : request && findDavChildren(request, 'propname').length > 0 ? 'names' : 'all';
+
+    const stats = await this.findStats(session, virtualPath);
+    if (!stats) {
+      throw new WebDavError(404, `Not found: ${virtualPath}`);
+    }
+    const resources = [{ virtualPath, stats }];
+    if (depth === '1' && stats.isDirectory()) {
+      resources.push(...await session.vfs.list(virtualPath, { activity: 'PROPFIND' }));
+    }
+
+    sendXml(res, 207, formatMultistatus(resources.map(resource => ({
+      href: toHref(resource.virtualPath, resource.stats.isDirectory()),
+      propstats: this.describe(resource.virtualPath, resource.stats, requested)
+    }))));
+  }
+
+  // Only the Windows file times can be set, all or nothing: when anything
+  // else is asked for, nothing is changed (424 for the rest)
+  private async handleProppatch(req: http.IncomingMessage, res: http.ServerResponse, session: ClientSession, virtualPath: string): Promise<void> {
+    const update = parseXml(await readBody(req));
+    if (update.namespace !== DAV_NAMESPACE || update.name !== 'propertyupdate') {
+      throw new WebDavError(400, 'Expected a propertyupdate element');
+    }
+    const stats = await this.findStats(session, virtualPath);
+    if (!stats) {
+      throw new WebDavError(404, `Not found: ${virtualPath}`);
+    }
+    this.assertUnlocked(req, session, virtualPath);
+
+    const accepted: XmlElement[] = [];
+    const refused: XmlElement[] = [];
+    const times: FileAttributes = {};
+    for (const instruction of update.children.filter(child => child.namespace === DAV_NAMESPACE)) {
+      for (const property of findDavChildren(instruction, 'prop').flatMap(prop => prop.children)) {
+        const field = WIN32_TIMES[property.name];
+        const time = new Date(property.text.trim());
+        if (instruction.name !== 'set' || property.namespace !== MS_NAMESPACE || field === undefined || (field && isNaN(time.getTime()))) {
+          refused.push(property);
+          continue;
+        }
+        if (field) times[field] = time;
+        accepted.push(property);
+      }
+    }
+
+    if (refused.length === 0 && (times.mtime || times.atime)) {
+      await session.vfs.setAttributes(virtualPath, times, { activity: 'PROPPATCH' });
+    }
+    const propstats: PropStat[] = [
+      { status: refused.length > 0 ? 424 : 200, properties: accepted.map(formatEmptyProperty) },
+      { status: 403, properties: refused.map(formatEmptyProperty) }
+    ];
+    sendXml(res, 207, formatMultistatus([{ href: toHref(virtualPath, stats.isDirectory()), propstats }]));
+  }
+
+  private async handleMkcol(req: http.IncomingMessage, res: http.ServerResponse, session: ClientSession, virtualPath: string): Promise<void> {
+    if (Number(req.headers['content-length'] || 0) > 0 || req.headers['transfer-encoding']) {
+      throw new WebDavError(415, 'MKCOL does not take a request body');
+    }
+    if (await this.findStats(session, virtualPath)) {
+      throw new WebDavError(405, `Already exists: ${virtualPath}`);
+    }
+    await this.assertParentCollection(session, virtualPath);
+    this.assertUnlocked(req, session, virtualPath, { members: true });
+
+    await session.vfs.mkdir(virtualPath);
+    sendEmpty(res, 201);
+  }
+
+  // COPY and MOVE to the path of the Destination header, replacing what is
+  // there unless Overwrite is F
+  private async handleCopyMove(req: http.IncomingMessage, res: http.ServerResponse, session: ClientSession, source: string): Promise<void> {
+    const move = req.method === 'MOVE';
+    const destinationHeader = getHeader(req, 'destination');
+    if (!destinationHeader) {
+      throw new WebDavError(400, 'Destination header required');
+    }
+    // An absolute Destination has to name this server (RFC 4918 9.8.4)
+    const requestOrigin = `${this.certificate ? 'https' : 'http'}://${req.headers.host || 'localhost'}`;
+    if (!isSameOrigin(destinationHeader, requestOrigin)) {
+      throw new WebDavError(502, `Destination is on another server: ${destinationHeader}`);
+    }
+    const destination = toVirtualPath(destinationHeader);
+    const overwrite = (getHeader(req, 'overwrite') || 'T').trim().toUpperCase() !== 'F';
+    const depth = parseDepth(getHeader(req, 'depth'), 'infinity');
+    if (depth === '1' || (move && depth !== 'infinity')) {
+      throw new WebDavError(400, `Invalid Depth for ${req.method}: ${depth}`);
+    }
+
+    const stats = await this.findStats(session, source);
+    if (!stats) {
+      throw new WebDavError(404, `Not found: ${source}`);
+    }
+    if (destination === source || destination.startsWith(source === '/' ? '/' : `${source}/`)) {
+      throw new WebDavError(403, `Cannot ${move ? 'move' : 'copy'} ${source} into itself`);
+    }
+    if (move && isMountPoint(session.vfs, source)) {
+      throw new WebDavError(403, `Cannot move a mount point: ${source}`);
+    }
+    await this.assertParentCollection(session, destination);
+    const existing = await this.findStats(session, destination);
+    if (existing && !overwrite) {
+      throw new WebDavError(412, `Destination exists: ${destination}`);
+    }
+    if (move) {
+      this.assertUnlocked(req, session, source, { descendants: true, members: true });
+    }
+    this.assertUnlocked(req, session, destination, { descendants: true, members: !existing });
+
+    if (existing) {
+      await this.deleteResource(session, destination);
+      this.locks.removeAt(destination);
+    }
+    if (move) {
+      await this.moveResource(session, source, destination, stats);
+      this.locks.removeAt(source);
+    } else {
+      await this.copyResource(session, source, destination, stats, depth);
+    }
+    sendEmpty(res, existing ? 204 : 201);
+  }
+
+  // Create a lock, or refresh one named in the If header when there is no
+  // body. Locking a path that does not exist creates an empty file.
+  private async handleLock(req: http.IncomingMessage, res: http.ServerResponse, session: ClientSession, virtualPath: string): Promise<void> {
+    const body = await readBody(req);
+    const timeout = parseLockTimeout(getHeader(req, 'timeout'));
+
+    if (!body.trim()) {
+      const covering = this.locks.find(virtualPath);
+      const lock = covering.find(lock => lock.username === session.username && getSubmittedTokens(getHeader(req, 'if')).includes(lock.token));
+      if (!lock) {
+        throw new WebDavError(412, 'No lock of this resource was submitted to refresh');
+      }
+      this.locks.refresh(lock, timeout);
+      return sendXml(res, 200, formatLockDiscovery(formatActiveLock(lock)));
+    }
+
+    const lockinfo = parseXml(body);
+    const scope = lockinfo.namespace === DAV_NAMESPACE && lockinfo.name === 'lockinfo'
+      ? findDavChildren(lockinfo, 'lockscope')[0]?.children.find(child => child.namespace === DAV_NAMESPACE)?.name
+      : undefined;
+    if (scope !== 'exclusive' && scope !== 'shared') {
+      throw new WebDavError(400, 'Expected a lockinfo element with an exclusive or shared lockscope');
+    }
+    const depth = parseDepth(getHeader(req, 'depth'), 'infinity');
+    if (depth === '1') {
+      throw new WebDavError(400, 'Invalid Depth for LOCK: 1');
+    }
+
+    if (!LOCK_PERMISSIONS.some(permission => session.vfs.hasPermission(permission, virtualPath))) {
+      session.vfs.logActivity('LOCK_DENIED', virtualPath, false);
+      throw new PermissionDeniedError(virtualPath);
+    }
+    if (this.locks.findConflicts(virtualPath, scope, depth).length > 0) {
+      throw new WebDavError(423, `Locked: ${virtualPath}`);
+    }
+
+    const exists = Boolean(await this.findStats(session, virtualPath));
+    if (!exists) {
+      await this.assertParentCollection(session, virtualPath);
+      this.assertUnlocked(req, session, virtualPath, { members: true });
+      const stream = await session.vfs.createWriteStream(virtualPath);
+      await new Promise<void>((resolve, reject) => stream.on('error', reject).end(resolve));
+    }
+
+    const owner = formatOwner(findDavChildren(lockinfo, 'owner')[0]);
+    const lock = this.locks.create({ root: virtualPath, scope, depth, owner, username: session.username }, timeout);
+    session.vfs.logActivity('LOCK', virtualPath, true);
+    sendXml(res, exists ? 200 : 201, formatLockDiscovery(formatActiveLock(lock)), { 'Lock-Token': `<${lock.token}>` });
+  }
+
+  private handleUnlock(req: http.IncomingMessage, res: http.ServerResponse, session: ClientSession, virtualPath: string): void {
+    const token = /^<(.+)>$/.exec((getHeader(req, 'lock-token') || '').trim())?.[1];
+    if (!token) {
+      throw new WebDavError(400, 'Lock-Token header required');
+    }
+    const lock = this.locks.get(token);
+    if (!lock || !this.locks.find(virtualPath).includes(lock)) {
+      throw new WebDavError(409, `The lock token does not apply to ${virtualPath}`);
+    }
+    if (lock.username !== session.username) {
+      session.vfs.logActivity('UNLOCK_DENIED', virtualPath, false);
+      throw new WebDavError(403, 'The lock belongs to another user');
+    }
+
+    this.locks.remove(token);
+    session.vfs.logActivity('UNLOCK', virtualPath, true);
+    sendEmpty(res, 204);
+  }
+
+  // Properties of one resource: all live ones, their names, or those asked
+  // for, with 404 for properties it does not have
+  private describe(virtualPath: string, stats: fs.Stats, requested: XmlElement[] | 'all' | 'names'): PropStat[] {
+    if (requested === 'all' || requested === 'names') {
+      const names = LIVE_PROPERTIES.filter(name => this.formatProperty(name, virtualPath, stats) !== null);
+      const properties = names.map(name => requested === 'names' ? `<D:${name}/>` : this.formatProperty(name, virtualPath, stats)!);
+      return [{ status: 200, properties }];
+    }
+
+    const found: string[] = [];
+    const missing: string[] = [];
+    for (const property of requested) {
+      const value = property.namespace === DAV_NAMESPACE ? this.formatProperty(property.name, virtualPath, stats) : null;
+      if (value !== null) found.push(value);
+      else missing.push(formatEmptyProperty(property));
+    }
+    return [{ status: 200, properties: found }, { status: 404, properties: missing }];
+  }
+
+  // A live property as XML, or null when the resource does not have it
+  private formatProperty(name: string, virtualPath: string, stats: fs.Stats): string | null {
+    const isCollection = stats.isDirectory();
+    switch (name) {
+      case 'resourcetype':
+        return isCollection ? '<D:resourcetype><D:collection/></D:resourcetype>' : '<D:resourcetype/>';
+      case 'displayname':
+        return `<D:displayname>${escapeXml(path.posix.basename(virtualPath))}</D:displayname>`;
+      case 'getcontentlength':
+        return isCollection ? null : `<D:getcontentlength>${stats.size}</D:getcontentlength>`;
+      case 'getcontenttype':
+        return isCollection ? null : '<D:getcontenttype>application/octet-stream</D:getcontenttype>';
+      case 'getlastmodified':
+        return `<D:getlastmodified>${stats.mtime.toUTCString()}</D:getlastmodified>`;
+      case 'creationdate':
+        return `<D:creationdate>${stats.birthtime.toISOString()}</D:creationdate>`;
+      case 'getetag':
+        return isCollection ? null : `<D:getetag>${escapeXml(getEtag(stats))}</D:getetag>`;
+      case 'supportedlock':
+        return SUPPORTED_LOCK;
+      case 'lockdiscovery':
+        return `<D:lockdiscovery>${this.locks.find(virtualPath).map(formatActiveLock).join('')}</D:lockdiscovery>`;
+      default:
+        return null;
+    }
+  }
+
+  // Refuse changes to locked resources unless the client submitted the
+  // token of the lock (its own). descendants covers locks on anything below
+  // the path, members those on its parent collection, as adding or removing
+  // a member changes the parent.
+  private assertUnlocked(
+    req: http.IncomingMessage,
+    session: ClientSession,
+    virtualPath: string,
+    options: { descendants?: boolean; members?: boolean } = {}
+  ): void {
+    const locks = new Set(this.locks.find(virtualPath, options.descendants));
+    if (options.members) {
+      const parent = path.posix.dirname(virtualPath);
+      this.locks.find(parent).filter(lock => lock.root === parent).forEach(lock => locks.add(lock));
+    }
+
+    const tokens = getSubmittedTokens(getHeader(req, 'if'));
+    const owned = (lock: { token: string; username: string }) => tokens.includes(lock.token) && lock.username === session.username;
+    const shared = [...locks].filter(lock => lock.scope === 'shared');
+    if ([...locks].some(lock => lock.scope === 'exclusive' && !owned(lock)) || (shared.length > 0 && !shared.some(owned))) {
+      throw new WebDavError(423, `Locked: ${virtualPath}`);
+    }
+  }
+
+  // New resources need an existing parent collection (409 otherwise)
+  private async assertParentCollection(session: ClientSession, virtualPath: string): Promise<void> {
+    const parent = path.posix.dirname(virtualPath);
+    const stats = await this.findStats(session, parent);
+    if (!stats?.isDirectory()) {
+      throw new WebDavError(409, `Parent collection does not exist: ${parent}`);
+    }
+  }
+
+  // Attributes of a path, or null when nothing is there. They are only given
+  // out with the right to list the parent or to read the path itself. Throws
+  // PathOutsideJailError for paths no mount serves.
+  private async findStats(session: ClientSession, virtualPath: string): Promise<fs.Stats | null> {
+    const { vfs } = session;
+    const parent = path.posix.dirname(virtualPath);
+    if (!vfs.jail.isVirtualDirectory(virtualPath) && !vfs.jail.isVirtualDirectory(parent)
+        && !vfs.hasPermission('canList', parent) && !vfs.hasPermission('canRead', virtualPath)) {
+      throw new PermissionDeniedError(virtualPath);
+    }
+    try {
+      return await session.vfs.lookup(virtualPath);
+    } catch (err: any) {
+      if (err.code === 'ENOENT' || err.code === 'ENOTDIR') return null;
+      throw err;
+    }
+  }
+
+  // Delete a file, or a collection with everything in it. Mount points and
+  // the virtual directories above them are never deleted.
+  private async deleteResource(session: ClientSession, virtualPath: string): Promise<void> {
+    if (isMountPoint(session.vfs, virtualPath)) {
+      throw new WebDavError(403, `Cannot delete a mount point: ${virtualPath}`);
+    }
+    const { localPath } = await session.vfs.resolve(virtualPath, { followLast: false });
+    // A symlink is deleted itself, not what it points to
+    if ((await fs.promises.lstat(localPath)).isDirectory()) {
+      for (const entry of await session.vfs.list(virtualPath)) {
+        await this.deleteResource(session, entry.virtualPath);
+      }
+    }
+    await session.vfs.delete(virtualPath);
+  }
+
+  private async copyResource(session: ClientSession, source: string, destination: string, stats: fs.Stats, depth: '0' | 'infinity'): Promise<void> {
+    if (!stats.isDirectory()) {
+      const input = await session.vfs.createReadStream(source, undefined, { activity: 'COPY' });
+      const output = await session.vfs.createWriteStream(destination).catch((err) => {
+        input.destroy();
+        throw err;
+      });
+      await pipeline(input, output);
+      return;
+    }
+
+    await session.vfs.mkdir(destination, { activity: 'COPY' });
+    if (depth !== 'infinity') return;
+    for (const entry of await session.vfs.list(source)) {
+      // Symlinked directories are not descended into, so a link cycle cannot
+      // copy forever
+      if (entry.stats.isDirectory() && entry.localPath && !(await fs.promises.lstat(entry.localPath)).isDirectory()) {
+        continue;
+      }
+      await this.copyResource(session, entry.virtualPath, path.posix.join(destination, entry.name), entry.stats, depth);
+    }
+  }
+
+  // Mounts may be on different file systems, where a rename is done as a
+  // copy and a delete
+  private async moveResource(session: ClientSession, source: string, destination: string, stats: fs.Stats): Promise<void> {
+    try {
+      await session.vfs.rename(source, destination);
+    } catch (err: any) {
+      if (err.code !== 'EXDEV') throw err;
+      await this.copyResource(session, source, destination, stats, 'infinity');
+      await this.deleteResource(session, source);
+    }
+  }
+
+  private sendError(res: http.ServerResponse, err: any): void {
+    // Failed while streaming a body: all that is left is to drop the connection
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+
+    const status = err instanceof WebDavError ? err.status
+      : err instanceof PermissionDeniedError || err instanceof PathOutsideJailError ? 403
+      : ERROR_STATUS[err?.code] || 500;
+    if (status === 500) {
+      logger.error('WebDAV request failed:', err);
+    }
+    sendText(res, status, status === 500 ? 'Internal server error' : err.message);
+  }
+
+  // The auth policy can change while the listener runs
+  private getCurrentListener(): Listener {
+    return (this.listener.id !== undefined && this.db.getListener(this.listener.id)) || this.listener;
+  }
+
+  private logActivity(action: string, username: string, filePath: string, success: boolean): void {
+    this.emit('activity', {
+      listenerId: this.listener.id!,
+      username: username,
+      action,
+      path: filePath,
+      success
+    });
+  }
+}
+
+// Mount points and the virtual directories above them
+function isMountPoint(vfs: VirtualFileSystem, virtualPath: string): boolean {
+  const mount = vfs.jail.findMount(virtualPath);
+  return vfs.jail.isVirtualDirectory(virtualPath) || (mount !== null && normalizeVirtualPath(mount.virtualPath) === virtualPath);
+}
+
+// Changes whenever the file is written to
+function getEtag(stats: fs.Stats): string {
+  return `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+}
+
+function formatLockDiscovery(activeLock: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>\n<D:prop xmlns:D="DAV:"><D:lockdiscovery>${activeLock}</D:lockdiscovery></D:prop>`;
+}
+
+function getHeader(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  for await (const chunk of req) {
+    length += chunk.length;
+    if (length > MAX_XML_BODY_BYTES) {
+      throw new WebDavError(413, `Request body larger than ${MAX_XML_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function sendEmpty(res: http.ServerResponse, status: number, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { ...headers, 'Content-Length': headers['Content-Length'] ?? 0 });
+  res.end();
+}
+
+function sendText(res: http.ServerResponse, status: number, text: string, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { ...headers, 'Content-Type': 'text/plain; charset=utf-8', 'Content-Length': Buffer.byteLength(text) });
+  res.end(text);
+}
+
+function sendXml(res: http.ServerResponse, status: number, xml: string, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/xml; charset=utf-8', 'Content-Length': Buffer.byteLength(xml) });
+  res.end(xml);
+}
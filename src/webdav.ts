@@ -0,0 +1,308 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { normalizeVirtualPath } from './path-jail';
+import { Listener } from './types';
+
+export const DAV_NAMESPACE = 'DAV:';
+
+// Longest lock a client gets, and what it gets when it does not ask
+const MAX_LOCK_SECONDS = 24 * 60 * 60;
+const DEFAULT_LOCK_SECONDS = 60 * 60;
+
+// Thrown for requests that are answered with a specific status
+export class WebDavError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'WebDavError';
+  }
+}
+
+// Validate the WebDAV fields of a listener create or update request. Only
+// fields that were given are returned.
+export function parseWebdavSettings(settings: { webdavTls?: unknown }): Pick<Listener, 'webdavTls'> {
+  const result: Pick<Listener, 'webdavTls'> = {};
+  if (settings.webdavTls !== undefined) {
+    result.webdavTls = Boolean(settings.webdavTls);
+  }
+  return result;
+}
+
+export interface XmlElement {
+  name: string;
+  namespace: string;
+  children: XmlElement[];
+  text: string;
+}
+
+const XML_TOKEN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/y;
+const XML_ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+// Just enough XML for WebDAV request bodies: elements with namespaces and
+// text. Document type declarations are refused, so no entities get expanded.
+export function parseXml(xml: string): XmlElement {
+  const stack: Array<{ element: XmlElement; namespaces: Map<string, string> }> = [];
+  let root: XmlElement | null = null;
+  XML_TOKEN.lastIndex = 0;
+
+  while (XML_TOKEN.lastIndex < xml.length) {
+    const match = XML_TOKEN.exec(xml);
+    if (!match) {
+      throw new WebDavError(400, 'Malformed XML request body');
+    }
+    const [, cdata, closing, tagName, attributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined || cdata !== undefined) {
+      if (current) current.element.text += cdata ?? decodeEntities(text);
+      else if (text.trim()) throw new WebDavError(400, 'Malformed XML request body');
+      continue;
+    }
+    if (!tagName) {
+      continue; // comment or processing instruction
+    }
+    if (tagName.startsWith('!')) {
+      throw new WebDavError(400, 'XML document type declarations are not accepted');
+    }
+    if (closing) {
+      if (!current || current.element.name !== tagName.split(':').pop()) {
+        throw new WebDavError(400, 'Malformed XML request body');
+      }
+      stack.pop();
+      continue;
+    }
+    if (root && !current) {
+      throw new WebDavError(400, 'Malformed XML request body');
+    }
+
+    const namespaces = new Map(current?.namespaces);
+    for (const [, attribute, double, single] of (attributes || '').matchAll(XML_ATTRIBUTE)) {
+      if (attribute === 'xmlns') namespaces.set('', decodeEntities(double ?? single));
+      else if (attribute.startsWith('xmlns:')) namespaces.set(attribute.slice(6), decodeEntities(double ?? single));
+    }
+    const [prefix, name] = tagName.includes(':') ? tagName.split(':', 2) : ['', tagName];
+    const namespace = namespaces.get(prefix);
+    if (namespace === undefined && prefix) {
+      throw new WebDavError(400, `Undeclared XML namespace prefix: ${prefix}`);
+    }
+
+    const element: XmlElement = { name, namespace: namespace || '', children: [], text: '' };
+    if (current) current.element.children.push(element);
+    else root = element;
+    if (!selfClosing) stack.push({ element, namespaces });
+  }
+
+  if (!root || stack.length > 0) {
+    throw new WebDavError(400, 'Malformed XML request body');
+  }
+  return root;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+export function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&${Object.keys(XML_ENTITIES).find(key => XML_ENTITIES[key] === char)};`);
+}
+
+// Child elements of a DAV: element with the given name
+export function findDavChildren(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.namespace === DAV_NAMESPACE && child.name === name);
+}
+
+// The virtual path of a request URL or Destination header; only the path
+// counts, so a Destination may be absolute
+export function toVirtualPath(url: string): string {
+  try {
+    const pathname = new URL(url, 'http://localhost').pathname;
+    return normalizeVirtualPath(pathname.split('/').map(segment => decodeURIComponent(segment)).join('/'));
+  } catch {
+    throw new WebDavError(400, `Invalid path: ${url}`);
+  }
+}
+
+// Whether a Destination header points to the server at the given origin.
+// A plain path always does.
+export function isSameOrigin(url: string, origin: string): boolean {
+  try {
+    const base = new URL(origin);
+    return new URL(url, base).origin === base.origin;
+  } catch {
+    return false;
+  }
+}
+
+// The URL path of a virtual path, collections ending in a slash
+export function toHref(virtualPath: string, isCollection: boolean): string {
+  const href = virtualPath.split('/').map(segment => encodeURIComponent(segment)).join('/');
+  return isCollection && !href.endsWith('/') ? `${href}/` : href;
+}
+
+// The Depth header, which only some methods allow to be infinity
+export function parseDepth(header: string | undefined, fallback: '0' | '1' | 'infinity'): '0' | '1' | 'infinity' {
+  if (header === undefined) return fallback;
+  const depth = header.trim().toLowerCase();
+  if (depth !== '0' && depth !== '1' && depth !== 'infinity') {
+    throw new WebDavError(400, `Invalid Depth: ${header}`);
+  }
+  return depth;
+}
+
+// User name and password of an HTTP Basic Authorization header, or null when
+// there is none
+export function parseBasicAuthorization(header: string | undefined): { username: string; password: string } | null {
+  const match = /^Basic\s+([A-Za-z0-9+/=]+)\s*$/i.exec(header || '');
+  if (!match) return null;
+  const credentials = Buffer.from(match[1], 'base64').toString('utf8');
+  const separator = credentials.indexOf(':');
+  if (separator < 0) return null;
+  return { username: credentials.slice(0, separator), password: credentials.slice(separator + 1) };
+}
+
+// Lock tokens submitted in an If header, e.g.
+// If: (<opaquelocktoken:...>) or If: <http://host/file> (<opaquelocktoken:...>)
+export function getSubmittedTokens(ifHeader: string | undefined): string[] {
+  return [...(ifHeader || '').matchAll(/<(opaquelocktoken:[^>]+)>/gi)].map(match => match[1]);
+}
+
+export interface WebDavLock {
+  token: string;
+  root: string;
+  scope: 'exclusive' | 'shared';
+  depth: '0' | 'infinity';
+  owner: string; // Content of the owner element as XML, see formatOwner
+  username: string;
+  timeoutSeconds: number;
+  expiresAt: number;
+}
+
+// Write locks of one listener, kept in memory: they end with their timeout
+// or when the listener stops. A lock covers its root, and with depth
+// infinity everything below it.
+export class WebDavLocks {
+  private locks: Map<string, WebDavLock> = new Map();
+
+  // Locks on a path: its own and depth infinity ones of its parents; with
+  // descendants also those on anything below it
+  find(virtualPath: string, descendants: boolean = false): WebDavLock[] {
+    this.removeExpired();
+    return [...this.locks.values()].filter(lock =>
+      lock.root === virtualPath ||
+      (lock.depth === 'infinity' && isBelow(virtualPath, lock.root)) ||
+      (descendants && isBelow(lock.root, virtualPath))
+    );
+  }
+
+  // Locks that keep a path from being locked in the given scope: any lock
+  // for an exclusive one, exclusive locks for a shared one
+  findConflicts(virtualPath: string, scope: WebDavLock['scope'], depth: WebDavLock['depth']): WebDavLock[] {
+    return this.find(virtualPath, depth === 'infinity').filter(lock => scope === 'exclusive' || lock.scope === 'exclusive');
+  }
+
+  get(token: string): WebDavLock | undefined {
+    this.removeExpired();
+    return this.locks.get(token);
+  }
+
+  create(lock: Omit<WebDavLock, 'token' | 'timeoutSeconds' | 'expiresAt'>, timeoutSeconds: number): WebDavLock {
+    const created = { ...lock, token: `opaquelocktoken:${crypto.randomUUID()}`, timeoutSeconds: 0, expiresAt: 0 };
+    this.locks.set(created.token, created);
+    return this.refresh(created, timeoutSeconds);
+  }
+
+  refresh(lock: WebDavLock, timeoutSeconds: number): WebDavLock {
+    lock.timeoutSeconds = timeoutSeconds;
+    lock.expiresAt = Date.now() + timeoutSeconds * 1000;
+    return lock;
+  }
+
+  remove(token: string): void {
+    this.locks.delete(token);
+  }
+
+  // After a resource is deleted or moved away
+  removeAt(virtualPath: string): void {
+    for (const lock of this.locks.values()) {
+      if (lock.root === virtualPath || isBelow(lock.root, virtualPath)) {
+        this.locks.delete(lock.token);
+      }
+    }
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const lock of this.locks.values()) {
+      if (lock.expiresAt <= now) {
+        this.locks.delete(lock.token);
+      }
+    }
+  }
+}
+
+// The lock timeout a client asked for (Timeout: Second-600 or Infinite),
+// within the server's limit
+export function parseLockTimeout(header: string | undefined): number {
+  const requested = (header || '').split(',').map(value => value.trim().toLowerCase())[0];
+  if (requested === 'infinite') return MAX_LOCK_SECONDS;
+  const seconds = /^second-(\d+)$/.exec(requested || '');
+  return seconds ? Math.min(Math.max(Number(seconds[1]), 1), MAX_LOCK_SECONDS) : DEFAULT_LOCK_SECONDS;
+}
+
+// Whether a path lies strictly below another
+function isBelow(virtualPath: string, parent: string): boolean {
+  return virtualPath !== parent && virtualPath.startsWith(parent === '/' ? '/' : `${parent}/`);
+}
+
+// Properties of a resource that share a status in a multistatus response,
+// each already formatted as XML
+export interface PropStat {
+  status: number;
+  properties: string[];
+}
+
+export function formatStatus(status: number): string {
+  return `HTTP/1.1 ${status} ${http.STATUS_CODES[status] || ''}`.trim();
+}
+
+// A 207 Multi-Status body. Properties are written with the D: prefix for
+// DAV: and declare other namespaces themselves, see formatEmptyProperty.
+export function formatMultistatus(responses: Array<{ href: string; propstats: PropStat[] }>): string {
+  const body = responses.map(response =>
+    `<D:response><D:href>${escapeXml(response.href)}</D:href>` +
+    response.propstats.filter(propstat => propstat.properties.length > 0).map(propstat =>
+      `<D:propstat><D:prop>${propstat.properties.join('')}</D:prop><D:status>${formatStatus(propstat.status)}</D:status></D:propstat>`
+    ).join('') +
+    '</D:response>'
+  ).join('');
+  return `<?xml version="1.0" encoding="utf-8"?>\n<D:multistatus xmlns:D="DAV:">${body}</D:multistatus>`;
+}
+
+// A property element without a value, e.g. for a property that was asked for
+// but does not exist
+export function formatEmptyProperty(property: XmlElement): string {
+  if (property.namespace === DAV_NAMESPACE) return `<D:${property.name}/>`;
+  return `<R:${property.name} xmlns:R="${escapeXml(property.namespace)}"/>`;
+}
+
+// The content of an owner element, kept to be shown in lockdiscovery
+export function formatOwner(owner: XmlElement | undefined): string {
+  if (!owner) return '';
+  const href = findDavChildren(owner, 'href')[0];
+  return href ? `<D:href>${escapeXml(href.text.trim())}</D:href>` : escapeXml(owner.text.trim());
+}
+
+export function formatActiveLock(lock: WebDavLock): string {
+  const remaining = Math.max(0, Math.round((lock.expiresAt - Date.now()) / 1000));
+  return '<D:activelock>' +
+    `<D:locktype><D:write/></D:locktype><D:lockscope><D:${lock.scope}/></D:lockscope><D:depth>${lock.depth}</D:depth>` +
+    (lock.owner ? `<D:owner>${lock.owner}</D:owner>` : '') +
+    `<D:timeout>Second-${remaining}</D:timeout>` +
+    `<D:locktoken><D:href>${escapeXml(lock.token)}</D:href></D:locktoken>` +
+    `<D:lockroot><D:href>${escapeXml(toHref(lock.root, false))}</D:href></D:lockroot>` +
+    '</D:activelock>';
+}